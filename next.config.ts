@@ -2,7 +2,19 @@ import type { NextConfig } from 'next'
 import { withPayload } from '@payloadcms/next/withPayload'
 
 const nextConfig: NextConfig = {
-  // Configuration options here
+  async rewrites() {
+    return {
+      beforeFiles: [
+        // Category feeds live next to the archive pages, which are served by a
+        // catch-all route, so they are handled by a separate route handler.
+        // Direct requests to /feeds/categories/... are answered with 404 in src/proxy.ts
+        {
+          source: '/categories/:path+/feed.xml',
+          destination: '/feeds/categories/:path+',
+        },
+      ],
+    }
+  },
 }
 
 export default withPayload(nextConfig)
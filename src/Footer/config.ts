@@ -1,13 +1,5 @@
-import type { GlobalConfig, GlobalAfterChangeHook } from 'payload'
-
-/**
- * Revalidate footer hook
- * Triggers Next.js revalidation when footer is updated
- */
-const revalidateFooter: GlobalAfterChangeHook = async ({ doc, req: { payload } }) => {
-  payload.logger.info('Revalidating footer')
-  return doc
-}
+import type { GlobalConfig } from 'payload'
+import { revalidateFooter } from '@/hooks'
 
 /**
  * Footer Global
@@ -19,7 +11,7 @@ const revalidateFooter: GlobalAfterChangeHook = async ({ doc, req: { payload } }
  * - Multiple columns with title and links array
  * - Social links with platform and URL
  * - Copyright text field
- * - Revalidation hook for Next.js cache invalidation
+ * - Revalidates its Next.js cache tag on change
  */
 export const Footer: GlobalConfig = {
   slug: 'footer',
@@ -5,6 +5,7 @@ import Link from 'next/link'
 import Image from 'next/image'
 import { MenuIcon } from 'lucide-react'
 import { Button } from '@/components/ui/button'
+import { SearchCommand } from '@/components/SearchCommand'
 import {
   Sheet,
   SheetContent,
@@ -79,6 +80,7 @@ function getLogoAlt(logo: Logo | string | null | undefined): string {
  * - Logo (linked to homepage)
  * - Navigation items (desktop: inline, mobile: hamburger menu)
  * - CTA button
+ * - Search command palette (⌘K / Ctrl+K) with nav items as quick links
  *
  * Mobile-responsive with sheet-based hamburger menu
  */
@@ -118,61 +120,66 @@ export function Header({ data }: HeaderProps): React.JSX.Element {
           )}
         </Link>
 
-        {/* Desktop Navigation */}
-        <nav className="hidden items-center gap-6 md:flex">
-          {navItems.map((item) => (
-            <Link
-              key={item.id ?? item.link}
-              href={item.link}
-              className="text-sm font-medium text-muted-foreground transition-colors hover:text-foreground"
-            >
-              {item.label}
-            </Link>
-          ))}
-          {hasCta && (
-            <Button variant={ctaButton.variant ?? 'default'} asChild>
-              <Link href={ctaButton.link ?? '#'}>{ctaButton.label}</Link>
-            </Button>
-          )}
-        </nav>
-
-        {/* Mobile Navigation */}
-        <div className="flex md:hidden">
-          <Sheet open={isOpen} onOpenChange={setIsOpen}>
-            <SheetTrigger asChild>
-              <Button variant="ghost" size="icon" aria-label="Open menu">
-                <MenuIcon className="h-5 w-5" />
+        <div className="flex items-center gap-4">
+          {/* Desktop Navigation */}
+          <nav className="hidden items-center gap-6 md:flex">
+            {navItems.map((item) => (
+              <Link
+                key={item.id ?? item.link}
+                href={item.link}
+                className="text-sm font-medium text-muted-foreground transition-colors hover:text-foreground"
+              >
+                {item.label}
+              </Link>
+            ))}
+            {hasCta && (
+              <Button variant={ctaButton.variant ?? 'default'} asChild>
+                <Link href={ctaButton.link ?? '#'}>{ctaButton.label}</Link>
               </Button>
-            </SheetTrigger>
-            <SheetContent side="right" className="w-[300px] sm:w-[400px]">
-              <SheetHeader>
-                <SheetTitle>Navigation</SheetTitle>
-              </SheetHeader>
-              <nav className="mt-6 flex flex-col gap-4">
-                {navItems.map((item) => (
-                  <Link
-                    key={item.id ?? item.link}
-                    href={item.link}
-                    className="text-lg font-medium text-muted-foreground transition-colors hover:text-foreground"
-                    onClick={() => setIsOpen(false)}
-                  >
-                    {item.label}
-                  </Link>
-                ))}
-                {hasCta && (
-                  <Button
-                    variant={ctaButton.variant ?? 'default'}
-                    className="mt-4"
-                    asChild
-                  >
-                    <Link href={ctaButton.link ?? '#'} onClick={() => setIsOpen(false)}>
-                      {ctaButton.label}
+            )}
+          </nav>
+
+          {/* Search (one instance, so ⌘K opens a single palette) */}
+          <SearchCommand quickLinks={navItems} />
+
+          {/* Mobile Navigation */}
+          <div className="flex md:hidden">
+            <Sheet open={isOpen} onOpenChange={setIsOpen}>
+              <SheetTrigger asChild>
+                <Button variant="ghost" size="icon" aria-label="Open menu">
+                  <MenuIcon className="h-5 w-5" />
+                </Button>
+              </SheetTrigger>
+              <SheetContent side="right" className="w-[300px] sm:w-[400px]">
+                <SheetHeader>
+                  <SheetTitle>Navigation</SheetTitle>
+                </SheetHeader>
+                <nav className="mt-6 flex flex-col gap-4">
+                  {navItems.map((item) => (
+                    <Link
+                      key={item.id ?? item.link}
+                      href={item.link}
+                      className="text-lg font-medium text-muted-foreground transition-colors hover:text-foreground"
+                      onClick={() => setIsOpen(false)}
+                    >
+                      {item.label}
                     </Link>
-                  </Button>
-                )}
-              </nav>
-            </SheetContent>
-          </Sheet>
+                  ))}
+                  {hasCta && (
+                    <Button
+                      variant={ctaButton.variant ?? 'default'}
+                      className="mt-4"
+                      asChild
+                    >
+                      <Link href={ctaButton.link ?? '#'} onClick={() => setIsOpen(false)}>
+                        {ctaButton.label}
+                      </Link>
+                    </Button>
+                  )}
+                </nav>
+              </SheetContent>
+            </Sheet>
+          </div>
         </div>
       </div>
     </header>
@@ -1,13 +1,5 @@
-import type { GlobalConfig, GlobalAfterChangeHook } from 'payload'
-
-/**
- * Revalidate header hook
- * Triggers Next.js revalidation when header is updated
- */
-const revalidateHeader: GlobalAfterChangeHook = async ({ doc, req: { payload } }) => {
-  payload.logger.info('Revalidating header')
-  return doc
-}
+import type { GlobalConfig } from 'payload'
+import { revalidateHeader } from '@/hooks'
 
 /**
  * Header Global
@@ -18,7 +10,7 @@ const revalidateHeader: GlobalAfterChangeHook = async ({ doc, req: { payload } }
  * - Logo upload field
  * - Navigation items array with label and link
  * - CTA button with label, link, and variant options
- * - Revalidation hook for Next.js cache invalidation
+ * - Revalidates its Next.js cache tag on change
  */
 export const Header: GlobalConfig = {
   slug: 'header',
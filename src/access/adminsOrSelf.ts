@@ -1,4 +1,4 @@
-import type { Access, AccessResult } from 'payload'
+import type { Access, AccessResult, FieldAccess } from 'payload'
 
 /**
  * adminsOrSelf - Admins or the user accessing their own data
@@ -33,3 +33,27 @@ export const adminsOrSelf: Access = ({ req: { user } }): AccessResult => {
     },
   }
 }
+
+/**
+ * adminsOrSelfField - Field-level access for admins or the document's own user
+ *
+ * Field access can't return query objects, so the document is compared
+ * directly. Use this to hide private fields of otherwise readable documents
+ * (e.g. a user's email) from everyone except admins and the user themselves.
+ *
+ * @example
+ * fields: [
+ *   {
+ *     name: 'email',
+ *     type: 'email',
+ *     access: { read: adminsOrSelfField },
+ *   },
+ * ]
+ */
+export const adminsOrSelfField: FieldAccess = ({ req: { user }, id, doc }): boolean => {
+  if (!user) {
+    return false
+  }
+
+  return user.role === 'admin' || user.id === (doc?.id ?? id)
+}
@@ -18,4 +18,5 @@
 export { authenticated } from './authenticated'
 export { authenticatedOrPublished } from './authenticatedOrPublished'
 export { admins, adminsAdminAccess } from './admins'
-export { adminsOrSelf } from './adminsOrSelf'
+export { adminsOrSelf, adminsOrSelfField } from './adminsOrSelf'
+export { publicProfilesOrSelf, publicProfileWhere } from './publicProfilesOrSelf'
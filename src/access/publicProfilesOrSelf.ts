@@ -0,0 +1,39 @@
+import type { Access, AccessResult, Where } from 'payload'
+
+/**
+ * Users with a public author profile: opted in and with a profile slug
+ */
+export const publicProfileWhere: Where = {
+  and: [{ publicProfile: { equals: true } }, { slug: { exists: true } }],
+}
+
+/**
+ * publicProfilesOrSelf - Public read for users with a public profile
+ *
+ * Returns true for admins (full access).
+ * Everyone else can read users who opted in to a public profile (see
+ * `publicProfileWhere`), and logged-in users can also read their own document.
+ *
+ * Private fields such as email and role must still be protected with
+ * field-level access (see `adminsOrSelfField`).
+ *
+ * @example
+ * access: {
+ *   read: publicProfilesOrSelf,
+ * }
+ */
+export const publicProfilesOrSelf: Access = ({ req: { user } }): AccessResult => {
+  // Admins have full access
+  if (user?.role === 'admin') {
+    return true
+  }
+
+  // Anonymous visitors can only read public profiles
+  if (!user) {
+    return publicProfileWhere
+  }
+
+  return {
+    or: [publicProfileWhere, { id: { equals: user.id } }],
+  }
+}
@@ -0,0 +1,37 @@
+import {
+  OG_IMAGE_CONTENT_TYPE,
+  OG_IMAGE_SIZE,
+  getOgSiteInfo,
+  getPageCard,
+  ogImageFallback,
+  renderOgImage,
+} from '@/utilities/ogImage'
+
+export const size = OG_IMAGE_SIZE
+export const contentType = OG_IMAGE_CONTENT_TYPE
+
+/**
+ * Homepage Open Graph Image
+ *
+ * Renders a branded card for the `home` page. Lives in the `(home)` route
+ * group so it only applies to `/`: other routes without a card of their own
+ * keep the default Open Graph image from SiteSettings set by the layout.
+ * Falls back to that image (or a site name card) when there is no published
+ * homepage.
+ */
+export default async function Image(): Promise<Response> {
+  const site = await getOgSiteInfo()
+
+  try {
+    const card = await getPageCard('home')
+
+    if (!card) {
+      return ogImageFallback(site)
+    }
+
+    return await renderOgImage({ siteName: site.siteName, ...card })
+  } catch (error) {
+    console.error('Failed to generate Open Graph image for the homepage:', error)
+    return ogImageFallback(site)
+  }
+}
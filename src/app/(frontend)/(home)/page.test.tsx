@@ -2,13 +2,27 @@ import { describe, it, expect, vi, beforeEach } from 'vitest'
 import { render, screen, waitFor } from '@testing-library/react'
 import HomePage from './page'
 
-// Mock the utilities module to avoid Payload CMS initialization
-vi.mock('@/utilities', () => ({
+const { mockFind } = vi.hoisted(() => ({ mockFind: vi.fn() }))
+
+// Mock getPayload to avoid Payload CMS initialization
+vi.mock('@/utilities/getPayload', () => ({
   getPayload: vi.fn().mockResolvedValue({
-    find: vi.fn().mockResolvedValue({ docs: [] }),
+    find: mockFind,
+    auth: vi.fn().mockResolvedValue({ user: null }),
   }),
 }))
 
+// Mock next/headers since draftMode requires a request scope
+vi.mock('next/headers', () => ({
+  draftMode: vi.fn().mockResolvedValue({ isEnabled: false }),
+  headers: vi.fn().mockResolvedValue(new Headers()),
+}))
+
+// Mock the Live Preview bridge since it needs the App Router context
+vi.mock('@/components/LivePreviewListener', () => ({
+  LivePreviewListener: () => <div data-testid="live-preview-listener" />,
+}))
+
 // Mock the Hero component since it's a separate concern
 vi.mock('@/components/Hero', () => ({
   Hero: ({ hero }: { hero?: unknown }) => (
@@ -26,6 +40,7 @@ vi.mock('@/blocks/RenderBlocks', () => ({
 describe('HomePage', () => {
   beforeEach(() => {
     vi.clearAllMocks()
+    mockFind.mockResolvedValue({ docs: [] })
   })
 
   it('should render demo content when no homepage data exists in CMS', async () => {
@@ -63,4 +78,21 @@ describe('HomePage', () => {
       expect(screen.getByTestId('blocks')).toBeDefined()
     })
   })
+
+  it('should not render a draft homepage for visitors', async () => {
+    // Emulate authenticatedOrPublished: anonymous queries only see published docs
+    mockFind.mockImplementation(async ({ overrideAccess, user }) => {
+      const docs = [{ id: 1, title: 'Home', slug: 'home', _status: 'draft', layout: [] }]
+      return { docs: overrideAccess === false && !user ? [] : docs }
+    })
+
+    const Component = await HomePage()
+    render(Component)
+
+    // Falls back to demo content (2 demo blocks) instead of the draft (0 blocks)
+    expect(screen.getByTestId('blocks').textContent).toContain('2')
+    expect(mockFind).toHaveBeenCalledWith(
+      expect.objectContaining({ overrideAccess: false, draft: false })
+    )
+  })
 })
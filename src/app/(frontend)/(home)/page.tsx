@@ -1,10 +1,14 @@
 import type { Metadata } from 'next'
+import { draftMode } from 'next/headers'
 import * as React from 'react'
 
 import { Hero, type HeroData } from '@/components/Hero'
+import { JsonLd } from '@/components/JsonLd'
+import { LivePreviewListener } from '@/components/LivePreviewListener'
 import { RenderBlocks, type Block } from '@/blocks/RenderBlocks'
-import { getPayload } from '@/utilities'
 import { generateMeta } from '@/utilities/generateMeta'
+import { buildWebPageJsonLd } from '@/utilities/jsonLd'
+import { queryPageBySlug } from '@/utilities/queries'
 import { demoHeroData, demoHomeBlocks } from '@/data/demo-content'
 
 /**
@@ -16,6 +20,7 @@ interface PageData {
   slug: string
   hero?: HeroData | null
   layout?: Block[] | null
+  updatedAt?: string | null
   meta?: {
     title?: string | null
     description?: string | null
@@ -31,26 +36,12 @@ interface PageData {
 /**
  * Fetches the homepage from Payload CMS
  * Homepage is identified by slug: 'home'
+ * Runs with the visitor's access, so drafts are only returned in preview mode
  */
 async function getHomepage(): Promise<PageData | null> {
   try {
-    const payload = await getPayload()
-    const pages = await payload.find({
-      collection: 'pages',
-      where: {
-        slug: {
-          equals: 'home',
-        },
-      },
-      depth: 2,
-      limit: 1,
-    })
-
-    if (pages.docs.length > 0) {
-      return pages.docs[0] as unknown as PageData
-    }
-
-    return null
+    const page = await queryPageBySlug('home')
+    return page as unknown as PageData | null
   } catch (error) {
     console.error('Failed to fetch homepage:', error)
     return null
@@ -102,10 +93,11 @@ function DemoContent(): React.JSX.Element {
  * - Renders hero section from page data
  * - Renders content blocks using RenderBlocks component
  * - Fallback content when no homepage exists
- * - SEO metadata generation
+ * - SEO metadata generation and WebPage structured data
+ * - Live Preview refresh in draft mode
  */
 export default async function HomePage(): Promise<React.JSX.Element> {
-  const page = await getHomepage()
+  const [page, draft] = await Promise.all([getHomepage(), draftMode()])
 
   // Show demo content if no homepage found in CMS
   if (!page) {
@@ -118,6 +110,11 @@ export default async function HomePage(): Promise<React.JSX.Element> {
 
   return (
     <main>
+      <JsonLd data={buildWebPageJsonLd(page)} />
+
+      {/* Refresh on save when rendered inside the Live Preview iframe */}
+      {draft.isEnabled && <LivePreviewListener />}
+
       {/* Hero Section */}
       <Hero hero={page.hero} />
 
@@ -0,0 +1,148 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { render, screen } from '@testing-library/react'
+import Page, { generateStaticParams } from './page'
+
+const { mockFind, mockAuth, mockDraftMode } = vi.hoisted(() => ({
+  mockFind: vi.fn(),
+  mockAuth: vi.fn(),
+  mockDraftMode: vi.fn(),
+}))
+
+// Pages stored in the mocked CMS
+const pages = [
+  { id: 1, title: 'Published Page', slug: 'published-page', _status: 'published', layout: [] },
+  { id: 2, title: 'Secret Draft', slug: 'secret-draft', _status: 'draft', layout: [] },
+]
+
+/**
+ * Emulates Payload's Local API with the authenticatedOrPublished access rule:
+ * queries that enforce access without a user only see published pages.
+ */
+function findWithAccess({
+  where,
+  overrideAccess,
+  user,
+}: {
+  where?: { slug?: { equals?: string } }
+  overrideAccess?: boolean
+  user?: unknown
+}): { docs: typeof pages } {
+  const visible = overrideAccess === false && !user
+    ? pages.filter((page) => page._status === 'published')
+    : pages
+  const slug = where?.slug?.equals
+
+  return { docs: slug ? visible.filter((page) => page.slug === slug) : visible }
+}
+
+// Mock getPayload to avoid Payload CMS initialization
+vi.mock('@/utilities/getPayload', () => ({
+  getPayload: vi.fn().mockResolvedValue({
+    find: mockFind,
+    auth: mockAuth,
+  }),
+}))
+
+// Mock next/headers since draftMode and headers require a request scope
+vi.mock('next/headers', () => ({
+  draftMode: mockDraftMode,
+  headers: vi.fn().mockResolvedValue(new Headers()),
+}))
+
+// notFound throws in Next.js to stop rendering
+vi.mock('next/navigation', () => ({
+  notFound: vi.fn(() => {
+    throw new Error('NEXT_NOT_FOUND')
+  }),
+}))
+
+// Mock the Live Preview bridge since it needs the App Router context
+vi.mock('@/components/LivePreviewListener', () => ({
+  LivePreviewListener: () => <div data-testid="live-preview-listener" />,
+}))
+
+// Mock the Hero component since it's a separate concern
+vi.mock('@/components/Hero', () => ({
+  Hero: () => <div data-testid="hero" />,
+}))
+
+// Mock the RenderBlocks component since it's a separate concern
+vi.mock('@/blocks/RenderBlocks', () => ({
+  RenderBlocks: () => <div data-testid="blocks" />,
+}))
+
+function renderPage(slug: string): Promise<React.JSX.Element> {
+  return Page({ params: Promise.resolve({ slug }) })
+}
+
+describe('Page', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockFind.mockImplementation(async (args) => findWithAccess(args))
+    mockAuth.mockResolvedValue({ user: null })
+    mockDraftMode.mockResolvedValue({ isEnabled: false })
+  })
+
+  it('should render a published page for visitors', async () => {
+    const Component = await renderPage('published-page')
+    render(Component)
+
+    expect(screen.getByRole('main')).toBeDefined()
+    expect(screen.getByTestId('blocks')).toBeDefined()
+  })
+
+  it('should return notFound for a draft page when visited anonymously', async () => {
+    await expect(renderPage('secret-draft')).rejects.toThrow('NEXT_NOT_FOUND')
+  })
+
+  it('should query with access control enforced', async () => {
+    await renderPage('published-page')
+
+    expect(mockFind).toHaveBeenCalledWith(
+      expect.objectContaining({ overrideAccess: false, draft: false })
+    )
+    expect(mockFind.mock.calls[0][0]).not.toHaveProperty('user')
+  })
+
+  it('should return notFound for a draft page in draft mode without a session', async () => {
+    mockDraftMode.mockResolvedValue({ isEnabled: true })
+
+    await expect(renderPage('secret-draft')).rejects.toThrow('NEXT_NOT_FOUND')
+  })
+
+  it('should render a draft page in draft mode for a logged-in user', async () => {
+    const user = { id: 1, role: 'editor' }
+    mockDraftMode.mockResolvedValue({ isEnabled: true })
+    mockAuth.mockResolvedValue({ user })
+
+    const Component = await renderPage('secret-draft')
+    render(Component)
+
+    expect(screen.getByRole('main')).toBeDefined()
+    expect(mockFind).toHaveBeenCalledWith(
+      expect.objectContaining({ overrideAccess: false, draft: true, user })
+    )
+  })
+
+  it('should render the Live Preview listener only in draft mode', async () => {
+    render(await renderPage('published-page'))
+    expect(screen.queryByTestId('live-preview-listener')).toBeNull()
+
+    mockDraftMode.mockResolvedValue({ isEnabled: true })
+    render(await renderPage('published-page'))
+    expect(screen.getByTestId('live-preview-listener')).toBeDefined()
+  })
+})
+
+describe('generateStaticParams', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockFind.mockImplementation(async (args) => findWithAccess(args))
+  })
+
+  it('should only pre-render published pages', async () => {
+    const params = await generateStaticParams()
+
+    expect(params).toEqual([{ slug: 'published-page' }])
+  })
+})
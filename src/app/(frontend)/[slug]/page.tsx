@@ -1,11 +1,16 @@
 import type { Metadata } from 'next'
+import { draftMode } from 'next/headers'
 import { notFound } from 'next/navigation'
 import * as React from 'react'
 
 import { Hero, type HeroData } from '@/components/Hero'
+import { JsonLd } from '@/components/JsonLd'
+import { LivePreviewListener } from '@/components/LivePreviewListener'
 import { RenderBlocks, type Block } from '@/blocks/RenderBlocks'
 import { getPayload } from '@/utilities'
 import { generateMeta } from '@/utilities/generateMeta'
+import { buildWebPageJsonLd } from '@/utilities/jsonLd'
+import { queryPageBySlug } from '@/utilities/queries'
 import { getDemoPage, type DemoPageData } from '@/data/demo-content'
 
 /**
@@ -17,6 +22,7 @@ interface PageData {
   slug: string
   hero?: HeroData | null
   layout?: Block[] | null
+  updatedAt?: string | null
   meta?: {
     title?: string | null
     description?: string | null
@@ -38,6 +44,7 @@ interface PageParams {
 
 /**
  * Fetches a page by slug from Payload CMS
+ * Runs with the visitor's access, so drafts are only returned in preview mode
  * Falls back to demo page data when CMS is unavailable
  *
  * @param slug - The URL slug of the page
@@ -45,20 +52,10 @@ interface PageParams {
  */
 async function getPageBySlug(slug: string): Promise<PageData | DemoPageData | null> {
   try {
-    const payload = await getPayload()
-    const pages = await payload.find({
-      collection: 'pages',
-      where: {
-        slug: {
-          equals: slug,
-        },
-      },
-      depth: 2,
-      limit: 1,
-    })
+    const page = await queryPageBySlug(slug)
 
-    if (pages.docs.length > 0) {
-      return pages.docs[0] as unknown as PageData
+    if (page) {
+      return page as unknown as PageData
     }
 
     // If no page found in CMS, try demo pages
@@ -82,6 +79,8 @@ export async function generateStaticParams(): Promise<PageParams[]> {
       collection: 'pages',
       depth: 0,
       limit: 1000,
+      // Anonymous access: only published pages are pre-rendered
+      overrideAccess: false,
       select: {
         slug: true,
       },
@@ -134,7 +133,8 @@ export async function generateMetadata({
  * - Renders hero section from page data
  * - Renders content blocks using RenderBlocks component
  * - Returns notFound() for missing pages
- * - SEO metadata generation
+ * - SEO metadata generation and WebPage structured data
+ * - Live Preview refresh in draft mode
  * - Static generation with generateStaticParams
  */
 export default async function Page({
@@ -143,7 +143,7 @@ export default async function Page({
   params: Promise<PageParams>
 }): Promise<React.JSX.Element> {
   const { slug } = await params
-  const page = await getPageBySlug(slug)
+  const [page, draft] = await Promise.all([getPageBySlug(slug), draftMode()])
 
   // Return 404 if page not found
   if (!page) {
@@ -152,6 +152,11 @@ export default async function Page({
 
   return (
     <main>
+      <JsonLd data={buildWebPageJsonLd(page)} />
+
+      {/* Refresh on save when rendered inside the Live Preview iframe */}
+      {draft.isEnabled && <LivePreviewListener />}
+
       {/* Hero Section */}
       <Hero hero={page.hero} />
 
@@ -0,0 +1,22 @@
+import { draftMode } from 'next/headers'
+import { redirect } from 'next/navigation'
+
+import { isSafePreviewPath } from '@/utilities/preview'
+
+/**
+ * Exit Preview Route
+ *
+ * Disables Next.js draft mode and redirects back to the published page.
+ *
+ * Query params:
+ * - path: Optional frontend path to return to (defaults to the home page)
+ */
+export async function GET(request: Request): Promise<Response> {
+  const { searchParams } = new URL(request.url)
+  const path = searchParams.get('path')
+
+  const draft = await draftMode()
+  draft.disable()
+
+  redirect(path && isSafePreviewPath(path) ? path : '/')
+}
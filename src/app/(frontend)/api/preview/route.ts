@@ -0,0 +1,34 @@
+import { draftMode } from 'next/headers'
+import { redirect } from 'next/navigation'
+
+import { isSafePreviewPath, verifyPreviewToken } from '@/utilities/preview'
+
+/**
+ * Preview Route
+ *
+ * Enables Next.js draft mode and redirects to the previewed path.
+ * Links to this route are generated by `admin.preview` in the Pages and
+ * Posts collections and signed with PAYLOAD_SECRET.
+ *
+ * Query params:
+ * - path: The frontend path to preview (e.g., /posts/my-draft)
+ * - token: Signed preview token for that path
+ */
+export async function GET(request: Request): Promise<Response> {
+  const { searchParams } = new URL(request.url)
+  const path = searchParams.get('path')
+  const token = searchParams.get('token')
+
+  if (!path || !token || !isSafePreviewPath(path)) {
+    return new Response('Invalid preview request', { status: 400 })
+  }
+
+  if (!verifyPreviewToken(path, token)) {
+    return new Response('Invalid or expired preview token', { status: 401 })
+  }
+
+  const draft = await draftMode()
+  draft.enable()
+
+  redirect(path)
+}
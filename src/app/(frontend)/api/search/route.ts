@@ -0,0 +1,29 @@
+import { searchContent } from '@/utilities/searchContent'
+
+/**
+ * Search API Route
+ *
+ * Full-text search over published pages and posts.
+ * Returns JSON: { query, results, totalDocs, totalPages, page }
+ *
+ * Query params:
+ * - q: Search terms (supports "quoted phrases", -exclusions, and OR)
+ * - page: Page number (default 1)
+ * - limit: Results per page (default 10, max 50)
+ */
+export async function GET(request: Request): Promise<Response> {
+  const { searchParams } = new URL(request.url)
+
+  try {
+    const response = await searchContent({
+      query: searchParams.get('q'),
+      page: Number(searchParams.get('page')) || 1,
+      limit: Number(searchParams.get('limit')) || undefined,
+    })
+
+    return Response.json(response)
+  } catch (error) {
+    console.error('Failed to search content:', error)
+    return Response.json({ error: 'Search is unavailable' }, { status: 500 })
+  }
+}
@@ -0,0 +1,23 @@
+import { getSearchSuggestions } from '@/utilities/searchContent'
+
+/**
+ * Search Suggestions API Route
+ *
+ * Search-as-you-type for the Header command palette. Matches word prefixes
+ * in published pages and posts, and category titles.
+ * Returns JSON: { query, results, categories }
+ *
+ * Query params:
+ * - q: Partial search terms
+ */
+export async function GET(request: Request): Promise<Response> {
+  const { searchParams } = new URL(request.url)
+
+  try {
+    const suggestions = await getSearchSuggestions(searchParams.get('q'))
+    return Response.json(suggestions)
+  } catch (error) {
+    console.error('Failed to load search suggestions:', error)
+    return Response.json({ error: 'Search is unavailable' }, { status: 500 })
+  }
+}
@@ -0,0 +1,87 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { render, screen } from '@testing-library/react'
+import AuthorPage from './page'
+
+const { mockGetAuthorBySlug, mockGetAuthorPosts } = vi.hoisted(() => ({
+  mockGetAuthorBySlug: vi.fn(),
+  mockGetAuthorPosts: vi.fn(),
+}))
+
+vi.mock('@/utilities/authors', () => ({
+  getAuthorBySlug: mockGetAuthorBySlug,
+  getAuthorPosts: mockGetAuthorPosts,
+}))
+
+// notFound throws in Next.js to stop rendering
+vi.mock('next/navigation', () => ({
+  notFound: vi.fn(() => {
+    throw new Error('NEXT_NOT_FOUND')
+  }),
+}))
+
+const author = {
+  id: 7,
+  name: 'Jane Doe',
+  slug: 'jane-doe',
+  jobTitle: 'Senior Editor',
+  bio: 'Writes about the web.',
+  avatar: null,
+  socialLinks: [{ id: 'a', platform: 'github', url: 'https://github.com/janedoe' }],
+}
+
+function renderPage(slug: string, page?: string): Promise<React.JSX.Element> {
+  return AuthorPage({
+    params: Promise.resolve({ slug }),
+    searchParams: Promise.resolve({ page }),
+  })
+}
+
+describe('AuthorPage', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockGetAuthorBySlug.mockResolvedValue(author)
+    mockGetAuthorPosts.mockResolvedValue({
+      docs: [{ id: 10, title: 'Hooks in Depth', slug: 'hooks-in-depth' }],
+      totalPages: 1,
+      page: 1,
+    })
+  })
+
+  it('should render the public profile', async () => {
+    render(await renderPage('jane-doe'))
+
+    expect(screen.getByRole('heading', { level: 1, name: 'Jane Doe' })).toBeDefined()
+    expect(screen.getByText('Senior Editor')).toBeDefined()
+    expect(screen.getByText('Writes about the web.')).toBeDefined()
+    expect(screen.getByRole('link', { name: 'GitHub' }).getAttribute('href')).toBe(
+      'https://github.com/janedoe',
+    )
+  })
+
+  it('should show initials when there is no avatar', async () => {
+    render(await renderPage('jane-doe'))
+
+    expect(screen.getByText('JD')).toBeDefined()
+  })
+
+  it('should list the posts of the author', async () => {
+    render(await renderPage('jane-doe', '2'))
+
+    expect(screen.getByText('Hooks in Depth')).toBeDefined()
+    expect(mockGetAuthorPosts).toHaveBeenCalledWith(7, 2)
+  })
+
+  it('should show an empty state without posts', async () => {
+    mockGetAuthorPosts.mockResolvedValue({ docs: [], totalPages: 0, page: 1 })
+
+    render(await renderPage('jane-doe'))
+
+    expect(screen.getByText('No posts yet')).toBeDefined()
+  })
+
+  it('should return notFound for an unknown author', async () => {
+    mockGetAuthorBySlug.mockResolvedValue(null)
+
+    await expect(renderPage('missing')).rejects.toThrow('NEXT_NOT_FOUND')
+  })
+})
@@ -0,0 +1,198 @@
+import type { Metadata } from 'next'
+import { notFound } from 'next/navigation'
+import * as React from 'react'
+
+import { AuthorAvatar } from '@/components/AuthorByline'
+import { JsonLd } from '@/components/JsonLd'
+import { PostCard, type PostCardData } from '@/components/PostCard'
+import { Pagination } from '@/components/Pagination'
+import type { User } from '@/payload-types'
+import { getAuthorBySlug, getAuthorPosts, type Author } from '@/utilities/authors'
+import { getDocumentPath } from '@/utilities/getDocumentPath'
+import { getServerSideURL } from '@/utilities/getURL'
+import { buildProfilePageJsonLd } from '@/utilities/jsonLd'
+
+/**
+ * Page props with the author slug and pagination
+ */
+interface AuthorPageProps {
+  params: Promise<{
+    slug: string
+  }>
+  searchParams: Promise<{
+    page?: string
+  }>
+}
+
+/**
+ * Posts listed on an author page
+ */
+interface AuthorPostsResponse {
+  posts: PostCardData[]
+  totalPages: number
+  currentPage: number
+}
+
+/** Link labels for the social platforms of the Users collection */
+const PLATFORM_LABELS: Record<NonNullable<User['socialLinks']>[number]['platform'], string> = {
+  website: 'Website',
+  twitter: 'Twitter / X',
+  linkedin: 'LinkedIn',
+  github: 'GitHub',
+  mastodon: 'Mastodon',
+  bluesky: 'Bluesky',
+  instagram: 'Instagram',
+  youtube: 'YouTube',
+}
+
+/**
+ * Fetches an author by slug with error handling
+ *
+ * @param slug - The author's profile slug
+ * @returns The author, or null if not found or the CMS is unavailable
+ */
+async function getAuthor(slug: string): Promise<Author | null> {
+  try {
+    return await getAuthorBySlug(slug)
+  } catch (error) {
+    console.error(`Failed to fetch author "${slug}":`, error)
+    return null
+  }
+}
+
+/**
+ * Fetches the posts of an author with error handling
+ *
+ * @param author - The author
+ * @param page - Page number (1-indexed)
+ * @returns Posts with pagination info, empty when the CMS is unavailable
+ */
+async function getPosts(author: Author, page: number): Promise<AuthorPostsResponse> {
+  try {
+    const result = await getAuthorPosts(author.id, page)
+
+    return {
+      posts: result.docs as unknown as PostCardData[],
+      totalPages: result.totalPages,
+      currentPage: result.page || 1,
+    }
+  } catch (error) {
+    console.error(`Failed to fetch posts for author "${author.slug}":`, error)
+    return { posts: [], totalPages: 0, currentPage: page }
+  }
+}
+
+/**
+ * Generate metadata for SEO
+ */
+export async function generateMetadata({ params }: AuthorPageProps): Promise<Metadata> {
+  const { slug } = await params
+  const author = await getAuthor(slug)
+
+  if (!author?.name) {
+    return {
+      title: 'Author Not Found',
+      description: 'The requested author could not be found.',
+    }
+  }
+
+  const description = author.bio || `Posts by ${author.name}`
+
+  return {
+    title: author.name,
+    description,
+    alternates: {
+      canonical: `${getServerSideURL()}${getDocumentPath('users', author.slug)}`,
+    },
+    openGraph: {
+      type: 'profile',
+      title: author.name,
+      description,
+    },
+  }
+}
+
+/**
+ * Author Page
+ *
+ * Server Component that shows an author's public profile and lists their
+ * published posts.
+ *
+ * Features:
+ * - Avatar, name, job title, bio and social links
+ * - Grid of post cards with URL-based pagination
+ * - ProfilePage structured data
+ * - Returns notFound() for unknown authors
+ * - Only public profile fields are loaded (never email or role)
+ */
+export default async function AuthorPage({
+  params,
+  searchParams,
+}: AuthorPageProps): Promise<React.JSX.Element> {
+  const [{ slug }, query] = await Promise.all([params, searchParams])
+  const author = await getAuthor(slug)
+
+  if (!author?.name) {
+    notFound()
+  }
+
+  const page = Number(query.page) || 1
+  const { posts, totalPages, currentPage } = await getPosts(author, page)
+  const authorPath = getDocumentPath('users', author.slug) ?? `/authors/${slug}`
+
+  return (
+    <main className="container mx-auto px-4 py-8">
+      <JsonLd data={buildProfilePageJsonLd(author)} />
+
+      {/* Profile Header */}
+      <header className="mb-12 flex flex-col items-center gap-6 text-center sm:flex-row sm:items-start sm:text-left">
+        <AuthorAvatar author={author} className="size-24 text-2xl" />
+        <div className="max-w-2xl">
+          <h1 className="text-4xl font-bold tracking-tight">{author.name}</h1>
+          {author.jobTitle && (
+            <p className="mt-1 text-lg text-muted-foreground">{author.jobTitle}</p>
+          )}
+          {author.bio && <p className="mt-4 whitespace-pre-line">{author.bio}</p>}
+          {author.socialLinks && author.socialLinks.length > 0 && (
+            <ul className="mt-4 flex flex-wrap justify-center gap-4 sm:justify-start">
+              {author.socialLinks.map((link) => (
+                <li key={link.id ?? link.url}>
+                  <a
+                    href={link.url}
+                    target="_blank"
+                    rel="me noopener noreferrer"
+                    className="text-sm font-medium text-primary hover:underline"
+                  >
+                    {PLATFORM_LABELS[link.platform] ?? link.platform}
+                  </a>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </header>
+
+      {/* Posts Grid or Empty State */}
+      <h2 className="mb-6 text-2xl font-semibold tracking-tight">Posts by {author.name}</h2>
+      {posts.length > 0 ? (
+        <>
+          <div className="grid gap-6 sm:grid-cols-2 lg:grid-cols-3">
+            {posts.map((post) => (
+              <PostCard key={post.id} post={post} />
+            ))}
+          </div>
+
+          {/* Pagination */}
+          <Pagination currentPage={currentPage} totalPages={totalPages} basePath={authorPath} />
+        </>
+      ) : (
+        <div className="flex min-h-[30vh] flex-col items-center justify-center px-4 text-center">
+          <h2 className="mb-4 text-2xl font-semibold">No posts yet</h2>
+          <p className="max-w-md text-muted-foreground">
+            {author.name} hasn&apos;t published any posts yet.
+          </p>
+        </div>
+      )}
+    </main>
+  )
+}
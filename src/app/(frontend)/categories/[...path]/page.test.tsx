@@ -0,0 +1,96 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { render, screen } from '@testing-library/react'
+import CategoryPage from './page'
+
+const { mockGetCategoryByPath, mockGetCategoryTreeIds, mockGetCategoryPosts } = vi.hoisted(() => ({
+  mockGetCategoryByPath: vi.fn(),
+  mockGetCategoryTreeIds: vi.fn(),
+  mockGetCategoryPosts: vi.fn(),
+}))
+
+vi.mock('@/utilities/categories', () => ({
+  getCategoryByPath: mockGetCategoryByPath,
+  getCategoryTreeIds: mockGetCategoryTreeIds,
+  getCategoryPosts: mockGetCategoryPosts,
+}))
+
+// notFound and permanentRedirect throw in Next.js to stop rendering
+vi.mock('next/navigation', () => ({
+  notFound: vi.fn(() => {
+    throw new Error('NEXT_NOT_FOUND')
+  }),
+  permanentRedirect: vi.fn((url: string) => {
+    throw new Error(`NEXT_REDIRECT ${url}`)
+  }),
+}))
+
+// A nested category: Tech > React
+const react = {
+  id: 2,
+  title: 'React',
+  slug: 'react',
+  breadcrumbs: [
+    { id: 'a', doc: 1, label: 'Tech', url: '/categories/tech' },
+    { id: 'b', doc: 2, label: 'React', url: '/categories/tech/react' },
+  ],
+}
+
+function renderPage(path: string[], page?: string): Promise<React.JSX.Element> {
+  return CategoryPage({
+    params: Promise.resolve({ path }),
+    searchParams: Promise.resolve({ page }),
+  })
+}
+
+describe('CategoryPage', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockGetCategoryByPath.mockResolvedValue(react)
+    mockGetCategoryTreeIds.mockResolvedValue([2, 3])
+    mockGetCategoryPosts.mockResolvedValue({
+      docs: [{ id: 10, title: 'Hooks in Depth', slug: 'hooks-in-depth', categories: [react] }],
+      totalPages: 1,
+      page: 1,
+    })
+  })
+
+  it('should list posts of the category and its descendants', async () => {
+    render(await renderPage(['tech', 'react']))
+
+    expect(screen.getByRole('heading', { level: 1, name: 'React' })).toBeDefined()
+    expect(screen.getByText('Hooks in Depth')).toBeDefined()
+    expect(mockGetCategoryPosts).toHaveBeenCalledWith([2, 3], 1)
+  })
+
+  it('should render breadcrumbs through the parent categories', async () => {
+    render(await renderPage(['tech', 'react']))
+
+    const breadcrumb = screen.getByRole('navigation', { name: 'breadcrumb' })
+    expect(breadcrumb.querySelector('a[href="/posts"]')).not.toBeNull()
+    expect(breadcrumb.querySelector('a[href="/categories/tech"]')?.textContent).toBe('Tech')
+    expect(breadcrumb.querySelector('[aria-current="page"]')?.textContent).toBe('React')
+  })
+
+  it('should link category chips to the nested archive URL', async () => {
+    render(await renderPage(['tech', 'react']))
+
+    const main = screen.getByRole('main')
+    expect(main.querySelector('a[href="/categories/tech/react"]')?.textContent).toBe('React')
+  })
+
+  it('should pass the page number to the posts query', async () => {
+    await renderPage(['tech', 'react'], '3')
+
+    expect(mockGetCategoryPosts).toHaveBeenCalledWith([2, 3], 3)
+  })
+
+  it('should redirect a shortened path to the nested URL', async () => {
+    await expect(renderPage(['react'])).rejects.toThrow('NEXT_REDIRECT /categories/tech/react')
+  })
+
+  it('should return notFound for an unknown category', async () => {
+    mockGetCategoryByPath.mockResolvedValue(null)
+
+    await expect(renderPage(['missing'])).rejects.toThrow('NEXT_NOT_FOUND')
+  })
+})
@@ -0,0 +1,203 @@
+import type { Metadata } from 'next'
+import Link from 'next/link'
+import { notFound, permanentRedirect } from 'next/navigation'
+import * as React from 'react'
+
+import { PostCard, type PostCardData } from '@/components/PostCard'
+import { Pagination } from '@/components/Pagination'
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator,
+} from '@/components/ui/breadcrumb'
+import type { Category } from '@/payload-types'
+import { getCategoryByPath, getCategoryPosts, getCategoryTreeIds } from '@/utilities/categories'
+import { getCategoryPath } from '@/utilities/getDocumentPath'
+import { getServerSideURL } from '@/utilities/getURL'
+
+/**
+ * Page props with the nested category path and pagination
+ */
+interface CategoryPageProps {
+  params: Promise<{
+    path: string[]
+  }>
+  searchParams: Promise<{
+    page?: string
+  }>
+}
+
+/**
+ * Posts listed on an archive page
+ */
+interface CategoryPostsResponse {
+  posts: PostCardData[]
+  totalPages: number
+  currentPage: number
+}
+
+/**
+ * Fetches a category by its archive path with error handling
+ *
+ * @param path - Path segments after /categories
+ * @returns The category, or null if not found or the CMS is unavailable
+ */
+async function getCategory(path: string[]): Promise<Category | null> {
+  try {
+    return await getCategoryByPath(path)
+  } catch (error) {
+    console.error(`Failed to fetch category "${path.join('/')}":`, error)
+    return null
+  }
+}
+
+/**
+ * Fetches the posts of a category and its descendants with error handling
+ *
+ * @param category - The category
+ * @param page - Page number (1-indexed)
+ * @returns Posts with pagination info, empty when the CMS is unavailable
+ */
+async function getPosts(category: Category, page: number): Promise<CategoryPostsResponse> {
+  try {
+    const categoryIds = await getCategoryTreeIds(category.id)
+    const result = await getCategoryPosts(categoryIds, page)
+
+    return {
+      posts: result.docs as unknown as PostCardData[],
+      totalPages: result.totalPages,
+      currentPage: result.page || 1,
+    }
+  } catch (error) {
+    console.error(`Failed to fetch posts for category "${category.slug}":`, error)
+    return { posts: [], totalPages: 0, currentPage: page }
+  }
+}
+
+/**
+ * Generate metadata for SEO
+ */
+export async function generateMetadata({ params }: CategoryPageProps): Promise<Metadata> {
+  const category = await getCategory((await params).path)
+
+  if (!category) {
+    return {
+      title: 'Category Not Found',
+      description: 'The requested category could not be found.',
+    }
+  }
+
+  const description = `Posts in ${category.title}`
+
+  return {
+    title: category.title,
+    description,
+    alternates: {
+      canonical: `${getServerSideURL()}${getCategoryPath(category)}`,
+    },
+    openGraph: {
+      title: category.title,
+      description,
+    },
+  }
+}
+
+/**
+ * Category Archive Page
+ *
+ * Server Component that lists the posts in a category, including posts in
+ * its subcategories, at the URLs built by the nested docs plugin
+ * (e.g. /categories/tech/react).
+ *
+ * Features:
+ * - Resolves nested category paths
+ * - Redirects outdated or shortened paths to the category's current URL
+ * - Breadcrumbs through the parent categories
+ * - Grid of post cards with URL-based pagination
+ * - Returns notFound() for unknown categories
+ */
+export default async function CategoryPage({
+  params,
+  searchParams,
+}: CategoryPageProps): Promise<React.JSX.Element> {
+  const [{ path }, query] = await Promise.all([params, searchParams])
+  const category = await getCategory(path)
+
+  if (!category) {
+    notFound()
+  }
+
+  const categoryPath = getCategoryPath(category) ?? `/categories/${category.slug}`
+
+  // Parent slugs change when a category is moved, so old URLs keep working
+  if (categoryPath !== `/categories/${path.join('/')}`) {
+    permanentRedirect(categoryPath)
+  }
+
+  const page = Number(query.page) || 1
+  const { posts, totalPages, currentPage } = await getPosts(category, page)
+
+  // The last breadcrumb is the category itself
+  const ancestors = (category.breadcrumbs ?? []).slice(0, -1)
+
+  return (
+    <main className="container mx-auto px-4 py-8">
+      <Breadcrumb className="mb-6">
+        <BreadcrumbList>
+          <BreadcrumbItem>
+            <BreadcrumbLink asChild>
+              <Link href="/posts">Blog</Link>
+            </BreadcrumbLink>
+          </BreadcrumbItem>
+          {ancestors.map((crumb) => (
+            <React.Fragment key={crumb.id ?? crumb.url}>
+              <BreadcrumbSeparator />
+              <BreadcrumbItem>
+                {crumb.url ? (
+                  <BreadcrumbLink asChild>
+                    <Link href={crumb.url}>{crumb.label}</Link>
+                  </BreadcrumbLink>
+                ) : (
+                  crumb.label
+                )}
+              </BreadcrumbItem>
+            </React.Fragment>
+          ))}
+          <BreadcrumbSeparator />
+          <BreadcrumbItem>
+            <BreadcrumbPage>{category.title}</BreadcrumbPage>
+          </BreadcrumbItem>
+        </BreadcrumbList>
+      </Breadcrumb>
+
+      {/* Page Header */}
+      <div className="mb-8">
+        <h1 className="text-4xl font-bold tracking-tight">{category.title}</h1>
+      </div>
+
+      {/* Posts Grid or Empty State */}
+      {posts.length > 0 ? (
+        <>
+          <div className="grid gap-6 sm:grid-cols-2 lg:grid-cols-3">
+            {posts.map((post) => (
+              <PostCard key={post.id} post={post} />
+            ))}
+          </div>
+
+          {/* Pagination */}
+          <Pagination currentPage={currentPage} totalPages={totalPages} basePath={categoryPath} />
+        </>
+      ) : (
+        <div className="flex min-h-[30vh] flex-col items-center justify-center px-4 text-center">
+          <h2 className="mb-4 text-2xl font-semibold">No posts yet</h2>
+          <p className="max-w-md text-muted-foreground">
+            There are no published posts in this category yet.
+          </p>
+        </div>
+      )}
+    </main>
+  )
+}
@@ -0,0 +1,44 @@
+import { FEED_CONTENT_TYPES, buildFeed } from '@/utilities/feeds'
+import { getCategoryFeed } from '@/utilities/getFeed'
+import { getServerSideURL } from '@/utilities/getURL'
+
+// Rendered per request; the underlying data is cached under the posts-list tag
+export const dynamic = 'force-dynamic'
+
+/**
+ * Route params for a category feed
+ */
+interface CategoryFeedRouteContext {
+  params: Promise<{
+    path: string[]
+  }>
+}
+
+/**
+ * Category RSS Feed Route
+ *
+ * Serves /categories/<path>/feed.xml (rewritten here in next.config.ts,
+ * because /categories/[...path] is the archive page) as an RSS 2.0 feed of
+ * the most recent published posts in a category and its subcategories.
+ * Direct requests to /feeds/categories/... are answered with 404 by the proxy.
+ */
+export async function GET(_request: Request, { params }: CategoryFeedRouteContext): Promise<Response> {
+  const { path } = await params
+
+  try {
+    const feed = await getCategoryFeed(path)
+
+    if (!feed) {
+      return new Response('Not found', { status: 404 })
+    }
+
+    const feedUrl = `${getServerSideURL()}/categories/${path.map(encodeURIComponent).join('/')}/feed.xml`
+
+    return new Response(buildFeed('rss', { ...feed.channel, feedUrl }, feed.items), {
+      headers: { 'Content-Type': FEED_CONTENT_TYPES.rss },
+    })
+  } catch (error) {
+    console.error('Failed to build category feed:', error)
+    return new Response('Feed is unavailable', { status: 500 })
+  }
+}
@@ -1,13 +1,17 @@
 import type { Metadata } from 'next'
 
 import { Geist, Geist_Mono } from 'next/font/google'
+import { draftMode } from 'next/headers'
 import React from 'react'
 
 import { Footer } from '@/Footer/Component'
 import { Header } from '@/Header/Component'
+import { JsonLd } from '@/components/JsonLd'
+import { PreviewBanner } from '@/components/PreviewBanner'
 import type { FooterData } from '@/Footer/Component'
 import type { HeaderData } from '@/Header/Component'
-import { getPayload } from '@/utilities'
+import { getCachedGlobal, getServerSideURL } from '@/utilities'
+import { buildOrganizationJsonLd, buildWebSiteJsonLd } from '@/utilities/jsonLd'
 import { demoHeaderData, demoFooterData, demoSiteSettings } from '@/data/demo-content'
 
 import './globals.css'
@@ -33,6 +37,14 @@ interface SiteSettings {
       url?: string | null
     } | string | null
   } | null
+  contact?: {
+    email?: string | null
+    phone?: string | null
+    address?: string | null
+  } | null
+  socialLinks?: {
+    url?: string | null
+  }[] | null
   analytics?: {
     googleAnalyticsId?: string | null
     googleTagManagerId?: string | null
@@ -52,14 +64,11 @@ const defaultFooterData: FooterData = demoFooterData
 
 /**
  * Fetches Header global from Payload CMS with error handling
+ * Cached under the `global-header` tag, revalidated when the global changes
  */
 async function getHeader(): Promise<HeaderData> {
   try {
-    const payload = await getPayload()
-    const header = await payload.findGlobal({
-      slug: 'header',
-      depth: 1,
-    })
+    const header = await getCachedGlobal('header')()
     return header as HeaderData
   } catch (error) {
     console.error('Failed to fetch header:', error)
@@ -69,14 +78,11 @@ async function getHeader(): Promise<HeaderData> {
 
 /**
  * Fetches Footer global from Payload CMS with error handling
+ * Cached under the `global-footer` tag, revalidated when the global changes
  */
 async function getFooter(): Promise<FooterData> {
   try {
-    const payload = await getPayload()
-    const footer = await payload.findGlobal({
-      slug: 'footer',
-      depth: 1,
-    })
+    const footer = await getCachedGlobal('footer')()
     return footer as FooterData
   } catch (error) {
     console.error('Failed to fetch footer:', error)
@@ -86,14 +92,11 @@ async function getFooter(): Promise<FooterData> {
 
 /**
  * Fetches SiteSettings global from Payload CMS with error handling
+ * Cached under the `global-site-settings` tag, revalidated when the global changes
  */
 async function getSiteSettings(): Promise<SiteSettings> {
   try {
-    const payload = await getPayload()
-    const siteSettings = await payload.findGlobal({
-      slug: 'site-settings',
-      depth: 1,
-    })
+    const siteSettings = await getCachedGlobal('site-settings')()
     return siteSettings as SiteSettings
   } catch (error) {
     console.error('Failed to fetch site settings:', error)
@@ -110,29 +113,69 @@ export async function generateMetadata(): Promise<Metadata> {
   const siteName = siteSettings.general?.siteName ?? 'Vibecode Next Template'
   const siteDescription = siteSettings.general?.siteDescription ?? 'AI-safe Next.js template with Payload CMS'
 
+  // Default share image for routes that set no image of their own
+  const defaultOgImage = siteSettings.general?.defaultOgImage
+  const defaultOgImageUrl = typeof defaultOgImage === 'object' ? defaultOgImage?.url : null
+
   return {
     title: {
       default: siteName,
       template: `%s | ${siteName}`,
     },
     description: siteDescription,
+    ...(defaultOgImageUrl
+      ? {
+          openGraph: {
+            siteName,
+            images: [{ url: new URL(defaultOgImageUrl, `${getServerSideURL()}/`).href }],
+          },
+        }
+      : {}),
   }
 }
 
+/**
+ * Feeds advertised to browsers and feed readers via `<link rel="alternate">`.
+ * Rendered in the layout rather than through metadata, because pages that set
+ * their own `alternates` (canonical URLs) would replace them.
+ */
+const FEED_LINKS = [
+  { type: 'application/rss+xml', href: '/posts/feed.xml', format: 'RSS' },
+  { type: 'application/atom+xml', href: '/posts/atom.xml', format: 'Atom' },
+  { type: 'application/feed+json', href: '/posts/feed.json', format: 'JSON Feed' },
+]
+
 type FrontendLayoutProps = {
   children: React.ReactNode
 }
 
 export default async function FrontendLayout({ children }: Readonly<FrontendLayoutProps>): Promise<React.JSX.Element> {
   // Fetch all globals in parallel for better performance
-  const [headerData, footerData] = await Promise.all([
+  const [headerData, footerData, siteSettings, draft] = await Promise.all([
     getHeader(),
     getFooter(),
+    getSiteSettings(),
+    draftMode(),
   ])
 
+  const siteName = siteSettings.general?.siteName ?? 'Vibecode Next Template'
+
   return (
     <html lang="en">
+      <head>
+        {FEED_LINKS.map((feed) => (
+          <link
+            key={feed.href}
+            rel="alternate"
+            type={feed.type}
+            href={feed.href}
+            title={`${siteName} (${feed.format})`}
+          />
+        ))}
+      </head>
       <body className={`${geistSans.variable} ${geistMono.variable} antialiased`}>
+        <JsonLd data={[buildOrganizationJsonLd(siteSettings), buildWebSiteJsonLd(siteSettings)]} />
+        {draft.isEnabled && <PreviewBanner />}
         <Header data={headerData} />
         <main className="min-h-screen">{children}</main>
         <Footer data={footerData} />
@@ -0,0 +1,35 @@
+import {
+  OG_IMAGE_CONTENT_TYPE,
+  OG_IMAGE_SIZE,
+  getPostCard,
+  getOgSiteInfo,
+  ogImageFallback,
+  renderOgImage,
+} from '@/utilities/ogImage'
+
+export const size = OG_IMAGE_SIZE
+export const contentType = OG_IMAGE_CONTENT_TYPE
+
+/**
+ * Post Open Graph Image
+ *
+ * Renders a branded card with the post title, first category, author and
+ * publication date. Posts with a `meta.image` or `featuredImage` use that
+ * image instead, because generateMeta sets it and it takes precedence.
+ */
+export default async function Image({ params }: { params: Promise<{ slug: string }> }): Promise<Response> {
+  const [{ slug }, site] = await Promise.all([params, getOgSiteInfo()])
+
+  try {
+    const card = await getPostCard(slug)
+
+    if (!card) {
+      return ogImageFallback(site)
+    }
+
+    return await renderOgImage({ siteName: site.siteName, ...card })
+  } catch (error) {
+    console.error(`Failed to generate Open Graph image for post "${slug}":`, error)
+    return ogImageFallback(site)
+  }
+}
@@ -4,10 +4,22 @@ import Image from 'next/image'
 import Link from 'next/link'
 import * as React from 'react'
 
+import { AuthorByline, type BylineAuthorData } from '@/components/AuthorByline'
+import { CategoryChips } from '@/components/CategoryChips'
+import { JsonLd } from '@/components/JsonLd'
 import { RichText, type RichTextContent } from '@/components/RichText'
 import { PostCard, type PostCardData } from '@/components/PostCard'
-import { getPayload, formatDateTime } from '@/utilities'
+import { SeriesNavigator, type SeriesNavigatorPart } from '@/components/SeriesNavigator'
+import { TableOfContents } from '@/components/TableOfContents'
+import { getPayload } from '@/utilities'
+import { getDocumentPath } from '@/utilities/getDocumentPath'
+import type { ContributorRole } from '@/utilities/contributors'
 import { generateMeta } from '@/utilities/generateMeta'
+import { buildBlogPostingJsonLd } from '@/utilities/jsonLd'
+import { getLexicalHeadings, getReadingStats } from '@/utilities/lexicalText'
+import { queryPostBySlug } from '@/utilities/queries'
+import { getRelatedPosts } from '@/utilities/getRelatedPosts'
+import { getSeriesOfPost, getSeriesParts } from '@/utilities/series'
 
 /**
  * Media data structure for images
@@ -20,12 +32,10 @@ interface MediaData {
 }
 
 /**
- * Author data structure
+ * Author data structure (public profile fields only)
  */
-interface AuthorData {
+interface AuthorData extends BylineAuthorData {
   id: string
-  name?: string | null
-  email?: string | null
 }
 
 /**
@@ -35,6 +45,16 @@ interface CategoryData {
   id: string
   title: string
   slug: string
+  breadcrumbs?: { url?: string | null }[] | null
+}
+
+/**
+ * Tag data structure
+ */
+interface TagData {
+  id: string
+  title: string
+  slug?: string | null
 }
 
 /**
@@ -48,8 +68,13 @@ interface PostData {
   content: RichTextContent
   featuredImage?: MediaData | string | null
   categories?: (CategoryData | string)[] | null
-  author?: AuthorData | string | null
+  tags?: (TagData | string)[] | null
+  contributors?: { user?: AuthorData | string | null; role?: ContributorRole | null }[] | null
+  /** Related posts pinned by editors (IDs only) */
+  relatedPosts?: ({ id: string } | string)[] | null
   publishedAt?: string | null
+  readingTime?: number | null
+  updatedAt?: string | null
   meta?: {
     title?: string | null
     description?: string | null
@@ -66,32 +91,15 @@ interface PageParams {
 
 /**
  * Fetches a post by slug from Payload CMS
+ * Runs with the visitor's access, so drafts are only returned in preview mode
  *
  * @param slug - The URL slug of the post
  * @returns The post data or null if not found
  */
 async function getPostBySlug(slug: string): Promise<PostData | null> {
   try {
-    const payload = await getPayload()
-    const posts = await payload.find({
-      collection: 'posts',
-      where: {
-        slug: {
-          equals: slug,
-        },
-        _status: {
-          equals: 'published',
-        },
-      },
-      depth: 2, // Populate featuredImage, author, and categories
-      limit: 1,
-    })
-
-    if (posts.docs.length > 0) {
-      return posts.docs[0] as unknown as PostData
-    }
-
-    return null
+    const post = await queryPostBySlug(slug)
+    return post as unknown as PostData | null
   } catch (error) {
     console.error(`Failed to fetch post with slug "${slug}":`, error)
     return null
@@ -99,51 +107,51 @@ async function getPostBySlug(slug: string): Promise<PostData | null> {
 }
 
 /**
- * Fetches related posts based on categories
+ * The series a post belongs to, with its published parts
+ */
+interface PostSeriesData {
+  series: { title: string; slug?: string | null }
+  parts: SeriesNavigatorPart[]
+}
+
+/**
+ * Fetches the series of a post with error handling
  *
- * @param currentPostId - The ID of the current post (to exclude)
- * @param categoryIds - Array of category IDs to filter by
- * @returns Array of related posts
+ * @param postId - The post ID
+ * @returns The series and its parts, or null if the post isn't part of one
  */
-async function getRelatedPosts(
-  currentPostId: string,
-  categoryIds: string[]
-): Promise<PostCardData[]> {
-  if (categoryIds.length === 0) {
-    return []
+async function getPostSeries(postId: string): Promise<PostSeriesData | null> {
+  try {
+    const series = await getSeriesOfPost(Number(postId))
+
+    if (!series) {
+      return null
+    }
+
+    return { series, parts: await getSeriesParts(series) }
+  } catch (error) {
+    console.error(`Failed to fetch series of post ${postId}:`, error)
+    return null
   }
+}
 
+/**
+ * Fetches pinned and ranked related posts with error handling
+ *
+ * @param post - The current post
+ * @returns Related posts in display order, empty when the CMS is unavailable
+ */
+async function getPostRelatedPosts(post: PostData): Promise<PostCardData[]> {
   try {
-    const payload = await getPayload()
-    const posts = await payload.find({
-      collection: 'posts',
-      where: {
-        and: [
-          {
-            id: {
-              not_equals: currentPostId,
-            },
-          },
-          {
-            _status: {
-              equals: 'published',
-            },
-          },
-          {
-            categories: {
-              in: categoryIds,
-            },
-          },
-        ],
-      },
-      depth: 1,
-      limit: 3,
-      sort: '-publishedAt',
+    const relatedPosts = await getRelatedPosts({
+      id: Number(post.id),
+      relatedPosts: (post.relatedPosts || []).map((related) =>
+        Number(typeof related === 'object' ? related.id : related),
+      ),
     })
-
-    return posts.docs as unknown as PostCardData[]
+    return relatedPosts as unknown as PostCardData[]
   } catch (error) {
-    console.error('Failed to fetch related posts:', error)
+    console.error(`Failed to fetch related posts of post ${post.id}:`, error)
     return []
   }
 }
@@ -215,10 +223,13 @@ export async function generateMetadata({
  * Features:
  * - Fetches post by slug from Posts collection
  * - Renders title, featured image, and rich text content
- * - Shows author name and published date
- * - Related posts section based on shared categories
+ * - Byline with author avatars, links to author pages, contributor credits, published date and reading time
+ * - Sticky table of contents linking to the heading anchors, highlighting the current section
+ * - Tag links to the tag archives
+ * - "Part N of M" series navigator with previous/next links
+ * - Related posts: editor pins first, then ranked by shared categories, tags, authors and recency
  * - Returns notFound() for missing posts
- * - SEO metadata generation
+ * - SEO metadata generation and BlogPosting structured data
  * - Static generation with generateStaticParams
  */
 export default async function PostPage({
@@ -240,25 +251,28 @@ export default async function PostPage({
       ? post.featuredImage
       : null
 
-  // Handle both populated and unpopulated author states
-  const author =
-    typeof post.author === 'object' && post.author !== null ? post.author : null
-
-  // Get category IDs for related posts
-  const categoryIds: string[] = (post.categories || [])
-    .map((cat) => (typeof cat === 'object' ? cat.id : cat))
-    .filter((id): id is string => typeof id === 'string')
-
-  // Fetch related posts
-  const relatedPosts = await getRelatedPosts(post.id, categoryIds)
+  // Only populated tags with a slug can be linked
+  const tags = (post.tags || []).filter(
+    (tag): tag is TagData => typeof tag === 'object' && Boolean(tag.slug),
+  )
 
-  // Get populated categories for display
-  const categories = (post.categories || []).filter(
-    (cat): cat is CategoryData => typeof cat === 'object' && cat !== null
+  // Posts saved before reading times were stored get one computed on the fly
+  const readingTime = post.readingTime ?? getReadingStats(post.content).readingTime
+  // Sections and subsections are listed in the table of contents
+  const headings = getLexicalHeadings(post.content).filter(
+    (heading) => heading.level === 2 || heading.level === 3,
   )
 
+  // Fetch related posts and the post's series
+  const [relatedPosts, postSeries] = await Promise.all([
+    getPostRelatedPosts(post),
+    getPostSeries(post.id),
+  ])
+
   return (
     <main>
+      <JsonLd data={[buildBlogPostingJsonLd(post)]} />
+
       {/* Featured Image */}
       {featuredImage?.url && (
         <div className="relative aspect-[21/9] w-full">
@@ -277,18 +291,7 @@ export default async function PostPage({
       <article className="container mx-auto px-4 py-8">
         <header className="mx-auto max-w-3xl">
           {/* Categories */}
-          {categories.length > 0 && (
-            <div className="mb-4 flex flex-wrap gap-2">
-              {categories.map((category) => (
-                <span
-                  key={category.id}
-                  className="rounded-full bg-muted px-3 py-1 text-sm font-medium text-muted-foreground"
-                >
-                  {category.title}
-                </span>
-              ))}
-            </div>
-          )}
+          <CategoryChips categories={post.categories} className="mb-4" />
 
           {/* Title */}
           <h1 className="mb-4 text-4xl font-bold tracking-tight sm:text-5xl">
@@ -296,24 +299,56 @@ export default async function PostPage({
           </h1>
 
           {/* Author and Date */}
-          <div className="mb-8 flex items-center gap-4 text-muted-foreground">
-            {author?.name && (
-              <span className="font-medium text-foreground">{author.name}</span>
-            )}
-            {author?.name && post.publishedAt && (
-              <span className="text-muted-foreground">•</span>
-            )}
-            {post.publishedAt && (
-              <time dateTime={post.publishedAt}>
-                {formatDateTime(post.publishedAt, { includeTime: false })}
-              </time>
-            )}
-          </div>
+          <AuthorByline
+            contributors={post.contributors}
+            publishedAt={post.publishedAt}
+            readingTime={readingTime}
+            className="mb-8"
+          />
         </header>
 
         {/* Content */}
-        <div className="mx-auto max-w-3xl">
+        <div className="relative mx-auto max-w-3xl">
+          {/* Table of Contents: collapsible above the content, sticky beside it on wide screens */}
+          {headings.length >= 2 && (
+            <>
+              <details className="mb-8 rounded-lg border p-4 xl:hidden">
+                <summary className="cursor-pointer text-sm font-medium">Contents</summary>
+                <TableOfContents headings={headings} className="mt-4" />
+              </details>
+              <aside className="absolute left-full top-0 ml-8 hidden h-full w-52 xl:block">
+                <TableOfContents headings={headings} className="sticky top-24" />
+              </aside>
+            </>
+          )}
+
+          {/* Series */}
+          {postSeries && (
+            <SeriesNavigator
+              series={postSeries.series}
+              parts={postSeries.parts}
+              currentId={post.id}
+              className="mb-8"
+            />
+          )}
+
           <RichText content={post.content} />
+
+          {/* Tags */}
+          {tags.length > 0 && (
+            <ul className="mt-8 flex flex-wrap gap-2" aria-label="Tags">
+              {tags.map((tag) => (
+                <li key={tag.id}>
+                  <Link
+                    href={getDocumentPath('tags', tag.slug) ?? '/posts'}
+                    className="rounded-md border px-2.5 py-1 text-sm text-muted-foreground transition-colors hover:border-primary hover:text-primary"
+                  >
+                    #{tag.title}
+                  </Link>
+                </li>
+              ))}
+            </ul>
+          )}
         </div>
       </article>
 
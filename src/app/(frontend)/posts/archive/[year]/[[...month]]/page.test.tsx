@@ -0,0 +1,95 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { render, screen } from '@testing-library/react'
+import ArchivePage, { generateMetadata } from './page'
+
+const { mockGetArchiveMonths, mockGetArchivePosts } = vi.hoisted(() => ({
+  mockGetArchiveMonths: vi.fn(),
+  mockGetArchivePosts: vi.fn(),
+}))
+
+vi.mock('@/utilities/getPostArchive', () => ({
+  getArchiveMonths: mockGetArchiveMonths,
+  getArchivePosts: mockGetArchivePosts,
+}))
+
+// notFound throws in Next.js to stop rendering
+vi.mock('next/navigation', () => ({
+  notFound: vi.fn(() => {
+    throw new Error('NEXT_NOT_FOUND')
+  }),
+}))
+
+function renderPage(year: string, month?: string[], page?: string): Promise<React.JSX.Element> {
+  return ArchivePage({
+    params: Promise.resolve({ year, month }),
+    searchParams: Promise.resolve({ page }),
+  })
+}
+
+describe('ArchivePage', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockGetArchiveMonths.mockResolvedValue([
+      { year: 2026, month: 3, count: 4 },
+      { year: 2026, month: 1, count: 1 },
+      { year: 2025, month: 12, count: 2 },
+    ])
+    mockGetArchivePosts.mockResolvedValue({
+      docs: [{ id: 10, title: 'Spring Release Notes', slug: 'spring-release-notes' }],
+      totalPages: 1,
+      page: 1,
+    })
+  })
+
+  it('should list the posts of a month', async () => {
+    render(await renderPage('2026', ['03'], '2'))
+
+    expect(screen.getByRole('heading', { level: 1, name: 'March 2026' })).toBeDefined()
+    expect(screen.getByText('4 posts')).toBeDefined()
+    expect(screen.getByText('Spring Release Notes')).toBeDefined()
+    expect(mockGetArchivePosts).toHaveBeenCalledWith(2026, 3, 2)
+    expect(screen.getByRole('link', { name: 'March 2026 (4 posts)' }).getAttribute('aria-current')).toBe('page')
+  })
+
+  it('should list the posts of a year', async () => {
+    render(await renderPage('2026'))
+
+    expect(screen.getByRole('heading', { level: 1, name: '2026' })).toBeDefined()
+    expect(screen.getByText('5 posts')).toBeDefined()
+    expect(mockGetArchivePosts).toHaveBeenCalledWith(2026, undefined, 1)
+    expect(screen.getByRole('link', { name: '2026 (5 posts)' }).getAttribute('aria-current')).toBe('page')
+  })
+
+  it('should link the months of other years', async () => {
+    render(await renderPage('2026'))
+
+    expect(screen.getByRole('link', { name: 'December 2025 (2 posts)' }).getAttribute('href')).toBe(
+      '/posts/archive/2025/12',
+    )
+  })
+
+  it('should return notFound for periods without posts', async () => {
+    await expect(renderPage('2024')).rejects.toThrow('NEXT_NOT_FOUND')
+    await expect(renderPage('2026', ['02'])).rejects.toThrow('NEXT_NOT_FOUND')
+    expect(mockGetArchivePosts).not.toHaveBeenCalled()
+  })
+
+  it('should return notFound for invalid dates', async () => {
+    await expect(renderPage('26')).rejects.toThrow('NEXT_NOT_FOUND')
+    await expect(renderPage('2026', ['3'])).rejects.toThrow('NEXT_NOT_FOUND')
+    await expect(renderPage('2026', ['03', '01'])).rejects.toThrow('NEXT_NOT_FOUND')
+    expect(mockGetArchiveMonths).not.toHaveBeenCalled()
+  })
+})
+
+describe('generateMetadata', () => {
+  it('should use the archive path as canonical URL', async () => {
+    const metadata = await generateMetadata({
+      params: Promise.resolve({ year: '2026', month: ['03'] }),
+      searchParams: Promise.resolve({}),
+    })
+
+    expect(metadata.title).toBe('Posts from March 2026')
+    expect(metadata.alternates?.canonical).toMatch(/\/posts\/archive\/2026\/03$/)
+  })
+})
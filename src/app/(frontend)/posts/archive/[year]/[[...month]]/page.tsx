@@ -0,0 +1,255 @@
+import type { Metadata } from 'next'
+import Link from 'next/link'
+import { notFound } from 'next/navigation'
+import * as React from 'react'
+
+import { MonthlyArchive } from '@/components/MonthlyArchive'
+import { PostCard, type PostCardData } from '@/components/PostCard'
+import { Pagination } from '@/components/Pagination'
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator,
+} from '@/components/ui/breadcrumb'
+import { getArchivePath } from '@/utilities/getDocumentPath'
+import { getArchiveMonths, getArchivePosts } from '@/utilities/getPostArchive'
+import { getServerSideURL } from '@/utilities/getURL'
+import {
+  getMonthName,
+  groupArchiveByYear,
+  parseArchiveMonth,
+  parseArchiveYear,
+  type ArchiveMonth,
+} from '@/utilities/postArchive'
+
+/**
+ * Page props with the archive year, optional month and pagination
+ */
+interface ArchivePageProps {
+  params: Promise<{
+    year: string
+    month?: string[]
+  }>
+  searchParams: Promise<{
+    page?: string
+  }>
+}
+
+/**
+ * Posts listed on an archive page
+ */
+interface ArchivePostsResponse {
+  posts: PostCardData[]
+  totalPages: number
+  currentPage: number
+}
+
+/**
+ * The year and optional month of an archive page
+ */
+interface ArchivePeriod {
+  year: number
+  month?: number
+  /** e.g. "March 2026" or "2026" */
+  label: string
+}
+
+/**
+ * Parses the archive period from the route params
+ *
+ * @returns The period, or null for invalid URLs
+ */
+function getPeriod({ year, month = [] }: Awaited<ArchivePageProps['params']>): ArchivePeriod | null {
+  const parsedYear = parseArchiveYear(year)
+
+  if (!parsedYear || month.length > 1) {
+    return null
+  }
+
+  if (month.length === 0) {
+    return { year: parsedYear, label: String(parsedYear) }
+  }
+
+  const parsedMonth = parseArchiveMonth(month[0])
+  return parsedMonth
+    ? { year: parsedYear, month: parsedMonth, label: `${getMonthName(parsedMonth)} ${parsedYear}` }
+    : null
+}
+
+/**
+ * Fetches the monthly post counts with error handling
+ *
+ * @returns Months with published posts, empty when the CMS is unavailable
+ */
+async function getMonths(): Promise<ArchiveMonth[]> {
+  try {
+    return await getArchiveMonths()
+  } catch (error) {
+    console.error('Failed to fetch archive months:', error)
+    return []
+  }
+}
+
+/**
+ * Counts the published posts of a period
+ */
+function countPosts(months: ArchiveMonth[], period: ArchivePeriod): number {
+  return months
+    .filter(({ year, month }) => year === period.year && (!period.month || month === period.month))
+    .reduce((total, { count }) => total + count, 0)
+}
+
+/**
+ * Fetches the posts of a period with error handling
+ *
+ * @param period - The archive year and month
+ * @param page - Page number (1-indexed)
+ * @returns Posts with pagination info, empty when the CMS is unavailable
+ */
+async function getPosts(period: ArchivePeriod, page: number): Promise<ArchivePostsResponse> {
+  try {
+    const result = await getArchivePosts(period.year, period.month, page)
+
+    return {
+      posts: result.docs as unknown as PostCardData[],
+      totalPages: result.totalPages,
+      currentPage: result.page || 1,
+    }
+  } catch (error) {
+    console.error(`Failed to fetch posts for archive "${period.label}":`, error)
+    return { posts: [], totalPages: 0, currentPage: page }
+  }
+}
+
+/**
+ * Generate metadata for SEO
+ */
+export async function generateMetadata({ params }: ArchivePageProps): Promise<Metadata> {
+  const period = getPeriod(await params)
+
+  if (!period) {
+    return {
+      title: 'Archive Not Found',
+      description: 'The requested archive could not be found.',
+    }
+  }
+
+  const title = `Posts from ${period.label}`
+  const description = `Blog posts published in ${period.label}`
+
+  return {
+    title,
+    description,
+    alternates: {
+      canonical: `${getServerSideURL()}${getArchivePath(period.year, period.month)}`,
+    },
+    openGraph: {
+      title,
+      description,
+    },
+  }
+}
+
+/**
+ * Date Archive Page
+ *
+ * Server Component that lists the posts published in a year
+ * (/posts/archive/2026) or month (/posts/archive/2026/03).
+ *
+ * Features:
+ * - Grid of post cards, newest first, with URL-based pagination
+ * - Breadcrumbs from the blog through the year
+ * - Sidebar with post counts per month, the current period highlighted
+ * - Returns notFound() for invalid dates and periods without posts
+ */
+export default async function ArchivePage({
+  params,
+  searchParams,
+}: ArchivePageProps): Promise<React.JSX.Element> {
+  const [route, query] = await Promise.all([params, searchParams])
+  const period = getPeriod(route)
+
+  if (!period) {
+    notFound()
+  }
+
+  const months = await getMonths()
+  const totalDocs = countPosts(months, period)
+
+  // Only periods with posts have pages, so crawlers can't walk endless dates
+  if (totalDocs === 0) {
+    notFound()
+  }
+
+  const page = Number(query.page) || 1
+  const { posts, totalPages, currentPage } = await getPosts(period, page)
+
+  return (
+    <main className="container mx-auto px-4 py-8">
+      <Breadcrumb className="mb-6">
+        <BreadcrumbList>
+          <BreadcrumbItem>
+            <BreadcrumbLink asChild>
+              <Link href="/posts">Blog</Link>
+            </BreadcrumbLink>
+          </BreadcrumbItem>
+          <BreadcrumbSeparator />
+          <BreadcrumbItem>
+            {period.month ? (
+              <BreadcrumbLink asChild>
+                <Link href={getArchivePath(period.year)}>{period.year}</Link>
+              </BreadcrumbLink>
+            ) : (
+              <BreadcrumbPage>{period.year}</BreadcrumbPage>
+            )}
+          </BreadcrumbItem>
+          {period.month && (
+            <>
+              <BreadcrumbSeparator />
+              <BreadcrumbItem>
+                <BreadcrumbPage>{getMonthName(period.month)}</BreadcrumbPage>
+              </BreadcrumbItem>
+            </>
+          )}
+        </BreadcrumbList>
+      </Breadcrumb>
+
+      {/* Page Header */}
+      <div className="mb-8">
+        <p className="mb-2 text-sm font-medium uppercase tracking-wide text-muted-foreground">Archive</p>
+        <h1 className="text-4xl font-bold tracking-tight">{period.label}</h1>
+        <p className="mt-2 text-lg text-muted-foreground">
+          {totalDocs} {totalDocs === 1 ? 'post' : 'posts'}
+        </p>
+      </div>
+
+      <div className="grid gap-8 lg:grid-cols-[1fr_14rem]">
+        <div>
+          {/* Posts Grid */}
+          <div className="grid gap-6 sm:grid-cols-2 xl:grid-cols-3">
+            {posts.map((post) => (
+              <PostCard key={post.id} post={post} />
+            ))}
+          </div>
+
+          {/* Pagination */}
+          <Pagination
+            currentPage={currentPage}
+            totalPages={totalPages}
+            basePath={getArchivePath(period.year, period.month)}
+          />
+        </div>
+
+        {/* Archive Sidebar */}
+        <MonthlyArchive
+          years={groupArchiveByYear(months)}
+          currentYear={period.year}
+          currentMonth={period.month}
+        />
+      </div>
+    </main>
+  )
+}
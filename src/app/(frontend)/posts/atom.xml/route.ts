@@ -0,0 +1,25 @@
+import { FEED_CONTENT_TYPES, buildFeed } from '@/utilities/feeds'
+import { getPostsFeed } from '@/utilities/getFeed'
+import { getServerSideURL } from '@/utilities/getURL'
+
+// Rendered per request; the underlying data is cached under the posts-list tag
+export const dynamic = 'force-dynamic'
+
+/**
+ * Atom Feed Route
+ *
+ * Serves /posts/atom.xml as an Atom 1.0 feed of the most recent published posts.
+ */
+export async function GET(): Promise<Response> {
+  try {
+    const { channel, items } = await getPostsFeed()
+    const feedUrl = `${getServerSideURL()}/posts/atom.xml`
+
+    return new Response(buildFeed('atom', { ...channel, feedUrl }, items), {
+      headers: { 'Content-Type': FEED_CONTENT_TYPES.atom },
+    })
+  } catch (error) {
+    console.error('Failed to build feed:', error)
+    return new Response('Feed is unavailable', { status: 500 })
+  }
+}
@@ -0,0 +1,25 @@
+import { FEED_CONTENT_TYPES, buildFeed } from '@/utilities/feeds'
+import { getPostsFeed } from '@/utilities/getFeed'
+import { getServerSideURL } from '@/utilities/getURL'
+
+// Rendered per request; the underlying data is cached under the posts-list tag
+export const dynamic = 'force-dynamic'
+
+/**
+ * RSS Feed Route
+ *
+ * Serves /posts/feed.xml as an RSS 2.0 feed of the most recent published posts.
+ */
+export async function GET(): Promise<Response> {
+  try {
+    const { channel, items } = await getPostsFeed()
+    const feedUrl = `${getServerSideURL()}/posts/feed.xml`
+
+    return new Response(buildFeed('rss', { ...channel, feedUrl }, items), {
+      headers: { 'Content-Type': FEED_CONTENT_TYPES.rss },
+    })
+  } catch (error) {
+    console.error('Failed to build feed:', error)
+    return new Response('Feed is unavailable', { status: 500 })
+  }
+}
@@ -0,0 +1,177 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { render, screen } from '@testing-library/react'
+import PostsPage, { generateMetadata } from './page'
+import type { PostFilterSearchParams } from '@/utilities/postFilters'
+import type { PostListing } from '@/utilities/postListing'
+
+const { mockGetPostListing, mockGetTagCounts, mockGetArchiveMonths } = vi.hoisted(() => ({
+  mockGetPostListing: vi.fn(),
+  mockGetTagCounts: vi.fn(),
+  mockGetArchiveMonths: vi.fn(),
+}))
+
+vi.mock('@/utilities/postListing', () => ({
+  getPostListing: mockGetPostListing,
+}))
+
+vi.mock('@/utilities/tags', () => ({
+  getTagCounts: mockGetTagCounts,
+}))
+
+vi.mock('@/utilities/getPostArchive', () => ({
+  getArchiveMonths: mockGetArchiveMonths,
+}))
+
+const listing: PostListing = {
+  filters: { category: 'react', year: 2026, sort: 'oldest', page: 2 },
+  activeFilters: [
+    { key: 'category', label: 'React' },
+    { key: 'year', label: '2026' },
+  ],
+  posts: [{ id: 10, title: 'Hooks in Depth', slug: 'hooks-in-depth' }] as PostListing['posts'],
+  totalPages: 3,
+  currentPage: 2,
+  totalDocs: 19,
+  facets: {
+    categories: [
+      { value: 'tech', label: 'Tech', count: 19, active: false, depth: 0 },
+      { value: 'react', label: 'React', count: 19, active: true, depth: 1 },
+    ],
+    tags: [{ value: 'css', label: 'CSS', count: 4, active: false }],
+    authors: [],
+    years: [
+      { value: '2026', label: '2026', count: 19, active: true },
+      { value: '2025', label: '2025', count: 7, active: false },
+    ],
+    months: [{ value: '3', label: 'March', count: 19, active: false }],
+  },
+  canonicalPath: '/posts?category=react&year=2026&page=2',
+}
+
+function renderPage(searchParams: PostFilterSearchParams = {}): Promise<React.JSX.Element> {
+  return PostsPage({ searchParams: Promise.resolve(searchParams) })
+}
+
+describe('PostsPage', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockGetPostListing.mockResolvedValue(listing)
+    mockGetTagCounts.mockResolvedValue([])
+    mockGetArchiveMonths.mockResolvedValue([])
+  })
+
+  it('should load the listing for the parsed filters', async () => {
+    render(await renderPage({ category: 'react', year: '2026', sort: 'oldest', page: '2', utm_source: 'x' }))
+
+    expect(mockGetPostListing).toHaveBeenCalledWith({
+      category: 'react',
+      year: 2026,
+      sort: 'oldest',
+      page: 2,
+    })
+    expect(screen.getByText('Hooks in Depth')).toBeDefined()
+    expect(screen.getByText('19 posts')).toBeDefined()
+  })
+
+  it('should show active filter chips with clear links', async () => {
+    render(await renderPage())
+
+    expect(screen.getByRole('link', { name: 'Clear filter React' }).getAttribute('href')).toBe(
+      '/posts?year=2026&sort=oldest',
+    )
+    expect(screen.getByRole('link', { name: 'Clear filter 2026' }).getAttribute('href')).toBe(
+      '/posts?category=react&sort=oldest',
+    )
+    expect(screen.getByRole('link', { name: 'Clear all' }).getAttribute('href')).toBe('/posts?sort=oldest')
+  })
+
+  it('should link facet options with their counts', async () => {
+    render(await renderPage())
+
+    expect(screen.getByRole('link', { name: 'CSS (4 posts)' }).getAttribute('href')).toBe(
+      '/posts?category=react&tag=css&year=2026&sort=oldest',
+    )
+    // Active options link to the listing without them
+    const react = screen.getByRole('link', { name: 'React (19 posts)' })
+    expect(react.getAttribute('aria-current')).toBe('true')
+    expect(react.getAttribute('href')).toBe('/posts?year=2026&sort=oldest')
+    expect(screen.getByRole('link', { name: 'March (19 posts)' }).getAttribute('href')).toBe(
+      '/posts?category=react&year=2026&month=3&sort=oldest',
+    )
+  })
+
+  it('should keep the filters on pagination and sort links', async () => {
+    render(await renderPage())
+
+    expect(screen.getByRole('link', { name: /next/i }).getAttribute('href')).toBe(
+      '/posts?category=react&year=2026&sort=oldest&page=3',
+    )
+    expect(screen.getByRole('link', { name: 'Title' }).getAttribute('href')).toBe(
+      '/posts?category=react&year=2026&sort=title',
+    )
+    expect(screen.getByRole('link', { name: 'Oldest' }).getAttribute('aria-current')).toBe('true')
+  })
+
+  it('should link the monthly archive', async () => {
+    mockGetArchiveMonths.mockResolvedValue([
+      { year: 2026, month: 3, count: 4 },
+      { year: 2025, month: 12, count: 1 },
+    ])
+
+    render(await renderPage())
+
+    expect(screen.getByRole('link', { name: 'March 2026 (4 posts)' }).getAttribute('href')).toBe(
+      '/posts/archive/2026/03',
+    )
+    expect(screen.getByRole('link', { name: '2025 (1 post)' }).getAttribute('href')).toBe('/posts/archive/2025')
+  })
+
+  it('should show an empty state for filters without posts', async () => {
+    mockGetPostListing.mockResolvedValue({ ...listing, posts: [], totalDocs: 0, totalPages: 0 })
+
+    render(await renderPage())
+
+    expect(screen.getByText('No matching posts')).toBeDefined()
+    expect(screen.getByRole('link', { name: 'Show all posts' }).getAttribute('href')).toBe('/posts')
+  })
+
+  it('should fall back to demo posts when the CMS is unavailable', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    mockGetPostListing.mockRejectedValue(new Error('Database unavailable'))
+
+    render(await renderPage({ tag: 'css' }))
+
+    expect(screen.queryByText('Filtered by:')).toBeNull()
+    expect(screen.getAllByRole('article').length).toBeGreaterThan(0)
+  })
+})
+
+describe('generateMetadata', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('should use the canonical path and keep combined filters out of the index', async () => {
+    mockGetPostListing.mockResolvedValue(listing)
+
+    const metadata = await generateMetadata({ searchParams: Promise.resolve({}) })
+
+    expect(metadata.title).toBe('Blog: React, 2026')
+    expect(metadata.alternates?.canonical).toMatch(/\/posts\?category=react&year=2026&page=2$/)
+    expect(metadata.robots).toEqual({ index: false, follow: true })
+  })
+
+  it('should index single-filter listings in the default sort', async () => {
+    mockGetPostListing.mockResolvedValue({
+      ...listing,
+      filters: { tag: 'css', sort: 'newest', page: 1 },
+      activeFilters: [{ key: 'tag', label: '#CSS' }],
+      canonicalPath: '/tags/css',
+    })
+
+    const metadata = await generateMetadata({ searchParams: Promise.resolve({ tag: 'css' }) })
+
+    expect(metadata.alternates?.canonical).toMatch(/\/tags\/css$/)
+    expect(metadata.robots).toBeUndefined()
+  })
+})
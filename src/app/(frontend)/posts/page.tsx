@@ -1,97 +1,138 @@
 import type { Metadata } from 'next'
+import Link from 'next/link'
 import * as React from 'react'
 
 import { PostCard, type PostCardData } from '@/components/PostCard'
 import { Pagination } from '@/components/Pagination'
-import { getPayload } from '@/utilities'
+import { MonthlyArchive } from '@/components/MonthlyArchive'
+import { ActiveFilterChips, PostFacets, SortOptions } from '@/components/PostListingFilters'
+import { TagCloud } from '@/components/TagCloud'
+import { getArchiveMonths } from '@/utilities/getPostArchive'
+import { getServerSideURL } from '@/utilities/getURL'
+import { groupArchiveByYear, type ArchiveYear } from '@/utilities/postArchive'
+import {
+  DEFAULT_POST_SORT,
+  getPostFilterParams,
+  parsePostFilters,
+  type PostFilters,
+  type PostFilterSearchParams,
+} from '@/utilities/postFilters'
+import { getPostListing, type PostListing } from '@/utilities/postListing'
+import { getTagCounts, type TagCount } from '@/utilities/tags'
 import { demoPosts } from '@/data/demo-content'
 
-/** Number of posts to display per page */
-const POSTS_PER_PAGE = 9
-
 /**
- * Page props with searchParams for pagination
+ * Page props with searchParams for filters, sorting and pagination
  */
 interface PostsPageProps {
-  searchParams: Promise<{
-    page?: string
-  }>
-}
-
-/**
- * Paginated posts response structure
- */
-interface PostsResponse {
-  posts: PostCardData[]
-  totalPages: number
-  currentPage: number
-  totalDocs: number
+  searchParams: Promise<PostFilterSearchParams>
 }
 
 /**
- * Fetches paginated posts from Payload CMS
+ * Fetches a page of the filtered listing from Payload CMS
  *
- * @param page - Page number (1-indexed)
- * @returns Posts array with pagination info
+ * @param filters - Filters parsed from the URL
+ * @returns Posts with pagination info and facets
  */
-async function getPosts(page: number = 1): Promise<PostsResponse> {
+async function getPosts(filters: PostFilters): Promise<PostListing> {
   try {
-    const payload = await getPayload()
-    const result = await payload.find({
-      collection: 'posts',
-      where: {
-        _status: {
-          equals: 'published',
-        },
-      },
-      sort: '-publishedAt',
-      limit: POSTS_PER_PAGE,
-      page,
-      depth: 1, // Populate featuredImage
-    })
-
-    return {
-      posts: result.docs as unknown as PostCardData[],
-      totalPages: result.totalPages,
-      currentPage: result.page || 1,
-      totalDocs: result.totalDocs,
-    }
+    return await getPostListing(filters)
   } catch (error) {
     console.error('Failed to fetch posts:', error)
-    // Return demo posts when CMS is unavailable
+    // Return demo posts (without filters) when CMS is unavailable
     return {
-      posts: demoPosts,
+      filters: { sort: DEFAULT_POST_SORT, page: 1 },
+      activeFilters: [],
+      posts: demoPosts as unknown as PostListing['posts'],
       totalPages: 1,
       currentPage: 1,
       totalDocs: demoPosts.length,
+      facets: { categories: [], tags: [], authors: [], years: [], months: [] },
+      canonicalPath: '/posts',
     }
   }
 }
 
+/**
+ * Fetches the tag cloud with error handling
+ *
+ * @returns Tags with post counts, empty when the CMS is unavailable
+ */
+async function getTags(): Promise<TagCount[]> {
+  try {
+    return await getTagCounts()
+  } catch (error) {
+    console.error('Failed to fetch tag counts:', error)
+    return []
+  }
+}
+
+/**
+ * Fetches the monthly archive with error handling
+ *
+ * @returns Years with monthly post counts, empty when the CMS is unavailable
+ */
+async function getArchive(): Promise<ArchiveYear[]> {
+  try {
+    return groupArchiveByYear(await getArchiveMonths())
+  } catch (error) {
+    console.error('Failed to fetch archive months:', error)
+    return []
+  }
+}
+
 /**
  * Generate metadata for SEO
+ *
+ * Filtered listings get a canonical URL without the sort order (and, for a
+ * single category, tag or author, the matching archive page). Combinations of
+ * filters and non-default sorts are kept out of search indexes.
  */
-export async function generateMetadata(): Promise<Metadata> {
+export async function generateMetadata({ searchParams }: PostsPageProps): Promise<Metadata> {
+  const { filters, activeFilters, canonicalPath } = await getPosts(
+    parsePostFilters(await searchParams),
+  )
+
+  const title = activeFilters.length > 0
+    ? `Blog: ${activeFilters.map(({ label }) => label).join(', ')}`
+    : 'Blog'
+  const description = 'Read our latest blog posts and articles.'
+
   return {
-    title: 'Blog',
-    description: 'Read our latest blog posts and articles.',
+    title,
+    description,
+    alternates: {
+      canonical: `${getServerSideURL()}${canonicalPath}`,
+    },
+    robots:
+      activeFilters.length > 1 || filters.sort !== DEFAULT_POST_SORT
+        ? { index: false, follow: true }
+        : undefined,
     openGraph: {
-      title: 'Blog',
-      description: 'Read our latest blog posts and articles.',
+      title,
+      description,
     },
   }
 }
 
 /**
- * Empty state component shown when no posts exist
+ * Empty state component shown when no posts exist or match the filters
  */
-function EmptyState(): React.JSX.Element {
+function EmptyState({ filtered }: { filtered: boolean }): React.JSX.Element {
   return (
     <div className="flex min-h-[40vh] flex-col items-center justify-center px-4 text-center">
-      <h2 className="mb-4 text-2xl font-semibold">No posts yet</h2>
+      <h2 className="mb-4 text-2xl font-semibold">{filtered ? 'No matching posts' : 'No posts yet'}</h2>
       <p className="max-w-md text-muted-foreground">
-        There are no published posts at the moment. Check back later for new
-        content.
+        {filtered ? (
+          <>
+            No published posts match these filters.{' '}
+            <Link href="/posts" className="text-primary hover:underline">
+              Show all posts
+            </Link>
+          </>
+        ) : (
+          'There are no published posts at the moment. Check back later for new content.'
+        )}
       </p>
     </div>
   )
@@ -100,24 +141,30 @@ function EmptyState(): React.JSX.Element {
 /**
  * Blog Listing Page
  *
- * Server Component that displays a paginated list of blog posts.
+ * Server Component that displays a paginated, filterable list of blog posts.
  *
  * Features:
  * - Fetches posts from Posts collection
  * - Grid layout displaying post cards
  * - Shows featured image, title, excerpt, and date
  * - Links to individual post pages
- * - URL-based pagination support
- * - SEO metadata
+ * - URL-based filters for category (with subcategories), tag, author,
+ *   year and month, with post counts for every option
+ * - Active filter chips with clear buttons
+ * - Sorting by newest, oldest or title
+ * - URL-based pagination that keeps the filters
+ * - Tag cloud weighted by post count
+ * - Monthly archive with post counts
+ * - SEO metadata with canonical URLs for filtered listings
  */
 export default async function PostsPage({
   searchParams,
 }: PostsPageProps): Promise<React.JSX.Element> {
   // Next.js 16 uses async searchParams
   const params = await searchParams
-  const page = Number(params.page) || 1
 
-  const { posts, totalPages, currentPage } = await getPosts(page)
+  const [{ filters, activeFilters, posts, totalPages, currentPage, totalDocs, facets }, tags, archive] =
+    await Promise.all([getPosts(parsePostFilters(params)), getTags(), getArchive()])
 
   return (
     <main className="container mx-auto px-4 py-8">
@@ -129,24 +176,61 @@ export default async function PostsPage({
         </p>
       </div>
 
-      {/* Posts Grid or Empty State */}
-      {posts.length > 0 ? (
-        <>
-          <div className="grid gap-6 sm:grid-cols-2 lg:grid-cols-3">
-            {posts.map((post) => (
-              <PostCard key={post.id} post={post} />
-            ))}
+      <div className="grid gap-8 lg:grid-cols-[16rem_1fr]">
+        {/* Facets */}
+        <PostFacets filters={filters} facets={facets} className="order-last lg:order-first" />
+
+        <div>
+          {/* Active Filters and Sorting */}
+          <ActiveFilterChips filters={filters} activeFilters={activeFilters} />
+          <div className="mb-6 flex flex-wrap items-center justify-between gap-4">
+            <p className="text-sm text-muted-foreground">
+              {totalDocs} {totalDocs === 1 ? 'post' : 'posts'}
+            </p>
+            <SortOptions filters={filters} />
           </div>
 
-          {/* Pagination */}
-          <Pagination
-            currentPage={currentPage}
-            totalPages={totalPages}
-            basePath="/posts"
-          />
-        </>
-      ) : (
-        <EmptyState />
+          {/* Posts Grid or Empty State */}
+          {posts.length > 0 ? (
+            <>
+              <div className="grid gap-6 sm:grid-cols-2 xl:grid-cols-3">
+                {posts.map((post) => (
+                  <PostCard key={post.id} post={post as unknown as PostCardData} />
+                ))}
+              </div>
+
+              {/* Pagination */}
+              <Pagination
+                currentPage={currentPage}
+                totalPages={totalPages}
+                basePath="/posts"
+                searchParams={getPostFilterParams(filters)}
+              />
+            </>
+          ) : (
+            <EmptyState filtered={activeFilters.length > 0} />
+          )}
+        </div>
+      </div>
+
+      {(tags.length > 0 || archive.length > 0) && (
+        <div className="mt-12 grid gap-8 border-t pt-8 md:grid-cols-[1fr_14rem]">
+          {/* Tag Cloud */}
+          {tags.length > 0 && (
+            <section>
+              <h2 className="mb-4 text-xl font-semibold tracking-tight">Tags</h2>
+              <TagCloud tags={tags} />
+            </section>
+          )}
+
+          {/* Monthly Archive */}
+          {archive.length > 0 && (
+            <section className="md:col-start-2">
+              <h2 className="mb-4 text-xl font-semibold tracking-tight">Archive</h2>
+              <MonthlyArchive years={archive} />
+            </section>
+          )}
+        </div>
       )}
     </main>
   )
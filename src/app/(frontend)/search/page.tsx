@@ -0,0 +1,133 @@
+import type { Metadata } from 'next'
+import * as React from 'react'
+import { SearchIcon } from 'lucide-react'
+
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Pagination } from '@/components/Pagination'
+import { SearchResultItem } from '@/components/SearchResultItem'
+import { normalizeSearchQuery, type SearchResponse } from '@/utilities/search'
+import { searchContent } from '@/utilities/searchContent'
+
+/**
+ * Page props with searchParams for the query and pagination
+ */
+interface SearchPageProps {
+  searchParams: Promise<{
+    q?: string
+    page?: string
+  }>
+}
+
+/**
+ * Runs the search with error handling
+ *
+ * @param query - The search terms
+ * @param page - Page number (1-indexed)
+ * @returns Search response, empty when the CMS is unavailable
+ */
+async function getSearchResults(query: string, page: number): Promise<SearchResponse> {
+  try {
+    return await searchContent({ query, page })
+  } catch (error) {
+    console.error('Failed to search content:', error)
+    return { query, results: [], totalDocs: 0, totalPages: 0, page }
+  }
+}
+
+/**
+ * Generate metadata for SEO
+ * Search result pages are not indexed by search engines
+ */
+export async function generateMetadata({ searchParams }: SearchPageProps): Promise<Metadata> {
+  const query = normalizeSearchQuery((await searchParams).q)
+
+  return {
+    title: query ? `Search results for "${query}"` : 'Search',
+    robots: {
+      index: false,
+      follow: true,
+    },
+  }
+}
+
+/**
+ * Search Page
+ *
+ * Server Component for full-text search across pages and posts.
+ *
+ * Features:
+ * - GET form, so results are shareable and work without JavaScript
+ * - Results ranked by relevance with highlighted titles and snippets
+ * - URL-based pagination that keeps the query
+ * - Not indexed by search engines
+ */
+export default async function SearchPage({
+  searchParams,
+}: SearchPageProps): Promise<React.JSX.Element> {
+  // Next.js 16 uses async searchParams
+  const params = await searchParams
+  const query = normalizeSearchQuery(params.q)
+  const page = Number(params.page) || 1
+
+  const { results, totalDocs, totalPages, page: currentPage } = query
+    ? await getSearchResults(query, page)
+    : { results: [], totalDocs: 0, totalPages: 0, page: 1 }
+
+  return (
+    <main className="container mx-auto max-w-3xl px-4 py-8">
+      {/* Page Header */}
+      <div className="mb-8">
+        <h1 className="text-4xl font-bold tracking-tight">Search</h1>
+        <form action="/search" method="GET" role="search" className="mt-6 flex gap-2">
+          <Input
+            type="search"
+            name="q"
+            defaultValue={query}
+            placeholder="Search pages and posts..."
+            aria-label="Search terms"
+            className="flex-1"
+          />
+          <Button type="submit">
+            <SearchIcon className="h-4 w-4" aria-hidden="true" />
+            Search
+          </Button>
+        </form>
+      </div>
+
+      {/* Results */}
+      {query && (
+        <p className="mb-4 text-sm text-muted-foreground">
+          {totalDocs === 1 ? '1 result' : `${totalDocs} results`} for &ldquo;{query}&rdquo;
+        </p>
+      )}
+
+      {results.length > 0 ? (
+        <>
+          <div>
+            {results.map((result) => (
+              <SearchResultItem key={`${result.collection}-${result.id}`} result={result} />
+            ))}
+          </div>
+
+          {/* Pagination */}
+          <Pagination
+            currentPage={currentPage}
+            totalPages={totalPages}
+            basePath="/search"
+            searchParams={{ q: query }}
+          />
+        </>
+      ) : (
+        query && (
+          <div className="flex min-h-[30vh] flex-col items-center justify-center text-center">
+            <h2 className="mb-2 text-2xl font-semibold">No results found</h2>
+            <p className="max-w-md text-muted-foreground">
+              Try different keywords or check your spelling.
+            </p>
+          </div>
+        )
+      )}
+    </main>
+  )
+}
@@ -0,0 +1,86 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { render, screen } from '@testing-library/react'
+import SeriesPage, { generateMetadata } from './page'
+
+const { mockGetSeriesBySlug, mockGetSeriesPosts } = vi.hoisted(() => ({
+  mockGetSeriesBySlug: vi.fn(),
+  mockGetSeriesPosts: vi.fn(),
+}))
+
+vi.mock('@/utilities/series', () => ({
+  getSeriesBySlug: mockGetSeriesBySlug,
+  getSeriesPosts: mockGetSeriesPosts,
+}))
+
+// notFound throws in Next.js to stop rendering
+vi.mock('next/navigation', () => ({
+  notFound: vi.fn(() => {
+    throw new Error('NEXT_NOT_FOUND')
+  }),
+}))
+
+function renderPage(slug: string): Promise<React.JSX.Element> {
+  return SeriesPage({ params: Promise.resolve({ slug }) })
+}
+
+describe('SeriesPage', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockGetSeriesBySlug.mockResolvedValue({
+      id: 3,
+      title: 'Next.js from Scratch',
+      slug: 'nextjs-from-scratch',
+      description: 'Build a blog step by step.',
+      posts: [12, 11],
+    })
+    mockGetSeriesPosts.mockResolvedValue([
+      { id: 12, title: 'Setting Up', slug: 'setting-up' },
+      { id: 11, title: 'Routing', slug: 'routing' },
+    ])
+  })
+
+  it('should introduce the series', async () => {
+    render(await renderPage('nextjs-from-scratch'))
+
+    expect(screen.getByRole('heading', { level: 1, name: 'Next.js from Scratch' })).toBeDefined()
+    expect(screen.getByText('Build a blog step by step.')).toBeDefined()
+    expect(screen.getByText('2 parts')).toBeDefined()
+    expect(screen.getByRole('link', { name: 'Start reading →' }).getAttribute('href')).toBe('/posts/setting-up')
+  })
+
+  it('should number the parts in reading order', async () => {
+    render(await renderPage('nextjs-from-scratch'))
+
+    const items = screen.getAllByRole('listitem')
+    expect(items[0].textContent).toContain('Part 1')
+    expect(items[0].textContent).toContain('Setting Up')
+    expect(items[1].textContent).toContain('Part 2')
+    expect(items[1].textContent).toContain('Routing')
+  })
+
+  it('should show an empty state before the first part is published', async () => {
+    mockGetSeriesPosts.mockResolvedValue([])
+
+    render(await renderPage('nextjs-from-scratch'))
+
+    expect(screen.getByText('No parts yet')).toBeDefined()
+    expect(screen.queryByText('Start reading →')).toBeNull()
+  })
+
+  it('should return notFound for an unknown series', async () => {
+    mockGetSeriesBySlug.mockResolvedValue(null)
+
+    await expect(renderPage('missing')).rejects.toThrow('NEXT_NOT_FOUND')
+  })
+})
+
+describe('generateMetadata', () => {
+  it('should use the series path as canonical URL', async () => {
+    mockGetSeriesBySlug.mockResolvedValue({ id: 3, title: 'Next.js from Scratch', slug: 'nextjs-from-scratch' })
+
+    const metadata = await generateMetadata({ params: Promise.resolve({ slug: 'nextjs-from-scratch' }) })
+
+    expect(metadata.title).toBe('Next.js from Scratch')
+    expect(metadata.alternates?.canonical).toMatch(/\/series\/nextjs-from-scratch$/)
+  })
+})
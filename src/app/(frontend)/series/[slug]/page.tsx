@@ -0,0 +1,166 @@
+import type { Metadata } from 'next'
+import Image from 'next/image'
+import Link from 'next/link'
+import { notFound } from 'next/navigation'
+import * as React from 'react'
+
+import { PostCard, type PostCardData } from '@/components/PostCard'
+import type { Series } from '@/payload-types'
+import { getDocumentPath } from '@/utilities/getDocumentPath'
+import { getServerSideURL } from '@/utilities/getURL'
+import { getSeriesBySlug, getSeriesPosts } from '@/utilities/series'
+
+/**
+ * Page props with the series slug
+ */
+interface SeriesPageProps {
+  params: Promise<{
+    slug: string
+  }>
+}
+
+/**
+ * Fetches a series by slug with error handling
+ *
+ * @param slug - The series slug
+ * @returns The series, or null if not found or the CMS is unavailable
+ */
+async function getSeries(slug: string): Promise<Series | null> {
+  try {
+    return await getSeriesBySlug(slug)
+  } catch (error) {
+    console.error(`Failed to fetch series "${slug}":`, error)
+    return null
+  }
+}
+
+/**
+ * Fetches the published parts of a series with error handling
+ *
+ * @param series - The series
+ * @returns Posts in reading order, empty when the CMS is unavailable
+ */
+async function getPosts(series: Series): Promise<PostCardData[]> {
+  try {
+    return (await getSeriesPosts(series)) as unknown as PostCardData[]
+  } catch (error) {
+    console.error(`Failed to fetch posts for series "${series.slug}":`, error)
+    return []
+  }
+}
+
+/**
+ * Generate metadata for SEO
+ */
+export async function generateMetadata({ params }: SeriesPageProps): Promise<Metadata> {
+  const { slug } = await params
+  const series = await getSeries(slug)
+
+  if (!series) {
+    return {
+      title: 'Series Not Found',
+      description: 'The requested series could not be found.',
+    }
+  }
+
+  const description = series.description || `A multi-part series: ${series.title}`
+  const coverImage = typeof series.coverImage === 'object' ? series.coverImage : null
+
+  return {
+    title: series.title,
+    description,
+    alternates: {
+      canonical: `${getServerSideURL()}${getDocumentPath('series', series.slug)}`,
+    },
+    openGraph: {
+      title: series.title,
+      description,
+      ...(coverImage?.url && { images: [{ url: coverImage.url }] }),
+    },
+  }
+}
+
+/**
+ * Series Landing Page
+ *
+ * Server Component that introduces a series and lists its published parts
+ * in reading order.
+ *
+ * Features:
+ * - Cover image, title, description and number of parts
+ * - Numbered post cards in the series' order
+ * - "Start reading" link to the first part
+ * - Returns notFound() for unknown series
+ */
+export default async function SeriesPage({ params }: SeriesPageProps): Promise<React.JSX.Element> {
+  const { slug } = await params
+  const series = await getSeries(slug)
+
+  if (!series) {
+    notFound()
+  }
+
+  const posts = await getPosts(series)
+  const coverImage = typeof series.coverImage === 'object' ? series.coverImage : null
+
+  return (
+    <main>
+      {/* Cover Image */}
+      {coverImage?.url && (
+        <div className="relative aspect-[21/9] w-full">
+          <Image
+            src={coverImage.url}
+            alt={coverImage.alt || series.title}
+            fill
+            className="object-cover"
+            priority
+            sizes="100vw"
+          />
+        </div>
+      )}
+
+      <div className="container mx-auto px-4 py-8">
+        {/* Page Header */}
+        <div className="mb-8 max-w-3xl">
+          <p className="mb-2 text-sm font-medium uppercase tracking-wide text-muted-foreground">Series</p>
+          <h1 className="text-4xl font-bold tracking-tight">{series.title}</h1>
+          {series.description && (
+            <p className="mt-4 text-lg text-muted-foreground">{series.description}</p>
+          )}
+          {posts.length > 0 && (
+            <div className="mt-4 flex flex-wrap items-center gap-4">
+              <span className="text-sm text-muted-foreground">
+                {posts.length} {posts.length === 1 ? 'part' : 'parts'}
+              </span>
+              <Link
+                href={getDocumentPath('posts', posts[0].slug) ?? '/posts'}
+                className="text-sm font-medium text-primary hover:underline"
+              >
+                Start reading →
+              </Link>
+            </div>
+          )}
+        </div>
+
+        {/* Parts or Empty State */}
+        {posts.length > 0 ? (
+          <ol className="grid gap-6 sm:grid-cols-2 lg:grid-cols-3">
+            {posts.map((post, index) => (
+              <li key={post.id} className="flex flex-col gap-2">
+                <span className="text-sm font-medium text-muted-foreground">Part {index + 1}</span>
+                <PostCard post={post} />
+              </li>
+            ))}
+          </ol>
+        ) : (
+          <div className="flex min-h-[30vh] flex-col items-center justify-center px-4 text-center">
+            <h2 className="mb-4 text-2xl font-semibold">No parts yet</h2>
+            <p className="max-w-md text-muted-foreground">
+              The first part of this series hasn&apos;t been published yet.
+            </p>
+          </div>
+        )}
+      </div>
+    </main>
+  )
+}
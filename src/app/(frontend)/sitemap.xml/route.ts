@@ -0,0 +1,24 @@
+import { getSitemapIndex } from '@/utilities/getSitemaps'
+import { buildSitemapIndexXml } from '@/utilities/sitemap'
+
+// Rendered per request; the underlying data is cached under sitemap tags
+export const dynamic = 'force-dynamic'
+
+/**
+ * Sitemap Index Route
+ *
+ * Serves /sitemap.xml as a sitemap index pointing to the per-collection
+ * child sitemaps at /sitemaps/<collection>-<n>.xml.
+ */
+export async function GET(): Promise<Response> {
+  try {
+    const sitemaps = await getSitemapIndex()
+
+    return new Response(buildSitemapIndexXml(sitemaps), {
+      headers: { 'Content-Type': 'application/xml; charset=utf-8' },
+    })
+  } catch (error) {
+    console.error('Failed to build sitemap index:', error)
+    return new Response('Sitemap is unavailable', { status: 500 })
+  }
+}
@@ -0,0 +1,41 @@
+import { getSitemapEntries } from '@/utilities/getSitemaps'
+import { buildSitemapXml, parseSitemapName } from '@/utilities/sitemap'
+
+/**
+ * Route params for a child sitemap
+ */
+interface SitemapRouteContext {
+  params: Promise<{
+    sitemap: string
+  }>
+}
+
+/**
+ * Child Sitemap Route
+ *
+ * Serves /sitemaps/<collection>-<n>.xml (e.g. /sitemaps/posts-1.xml) with up
+ * to 50,000 published, indexable documents of one collection.
+ */
+export async function GET(_request: Request, { params }: SitemapRouteContext): Promise<Response> {
+  const chunk = parseSitemapName((await params).sitemap)
+
+  if (!chunk) {
+    return new Response('Not found', { status: 404 })
+  }
+
+  try {
+    const entries = await getSitemapEntries(chunk)
+
+    // Chunks past the end of the collection don't exist
+    if (entries.length === 0 && chunk.page > 1) {
+      return new Response('Not found', { status: 404 })
+    }
+
+    return new Response(buildSitemapXml(entries), {
+      headers: { 'Content-Type': 'application/xml; charset=utf-8' },
+    })
+  } catch (error) {
+    console.error('Failed to build sitemap:', error)
+    return new Response('Sitemap is unavailable', { status: 500 })
+  }
+}
@@ -0,0 +1,78 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { render, screen } from '@testing-library/react'
+import TagPage from './page'
+
+const { mockGetTagBySlug, mockGetTagPosts, mockGetTagCounts } = vi.hoisted(() => ({
+  mockGetTagBySlug: vi.fn(),
+  mockGetTagPosts: vi.fn(),
+  mockGetTagCounts: vi.fn(),
+}))
+
+vi.mock('@/utilities/tags', () => ({
+  getTagBySlug: mockGetTagBySlug,
+  getTagPosts: mockGetTagPosts,
+  getTagCounts: mockGetTagCounts,
+}))
+
+// notFound throws in Next.js to stop rendering
+vi.mock('next/navigation', () => ({
+  notFound: vi.fn(() => {
+    throw new Error('NEXT_NOT_FOUND')
+  }),
+}))
+
+function renderPage(slug: string, page?: string): Promise<React.JSX.Element> {
+  return TagPage({
+    params: Promise.resolve({ slug }),
+    searchParams: Promise.resolve({ page }),
+  })
+}
+
+describe('TagPage', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockGetTagBySlug.mockResolvedValue({ id: 4, title: 'Next.js', slug: 'nextjs' })
+    mockGetTagPosts.mockResolvedValue({
+      docs: [{ id: 10, title: 'App Router Basics', slug: 'app-router-basics' }],
+      totalPages: 1,
+      totalDocs: 1,
+      page: 1,
+    })
+    mockGetTagCounts.mockResolvedValue([
+      { id: 4, title: 'Next.js', slug: 'nextjs', count: 1 },
+      { id: 5, title: 'CSS', slug: 'css', count: 3 },
+    ])
+  })
+
+  it('should list the posts with the tag', async () => {
+    render(await renderPage('nextjs', '2'))
+
+    expect(screen.getByRole('heading', { level: 1, name: '#Next.js' })).toBeDefined()
+    expect(screen.getByText('1 post')).toBeDefined()
+    expect(screen.getByText('App Router Basics')).toBeDefined()
+    expect(mockGetTagPosts).toHaveBeenCalledWith(4, 2)
+  })
+
+  it('should show the tag cloud with the current tag highlighted', async () => {
+    render(await renderPage('nextjs'))
+
+    expect(screen.getByRole('link', { name: 'Next.js (1 post)' }).getAttribute('aria-current')).toBe('page')
+    expect(screen.getByRole('link', { name: 'CSS (3 posts)' })).toBeDefined()
+  })
+
+  it('should still render when the tag cloud fails to load', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    mockGetTagCounts.mockRejectedValue(new Error('Database unavailable'))
+
+    render(await renderPage('nextjs'))
+
+    expect(screen.getByText('App Router Basics')).toBeDefined()
+    expect(screen.queryByText('All Tags')).toBeNull()
+  })
+
+  it('should return notFound for an unknown tag', async () => {
+    mockGetTagBySlug.mockResolvedValue(null)
+
+    await expect(renderPage('missing')).rejects.toThrow('NEXT_NOT_FOUND')
+  })
+})
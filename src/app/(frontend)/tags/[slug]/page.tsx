@@ -0,0 +1,191 @@
+import type { Metadata } from 'next'
+import { notFound } from 'next/navigation'
+import * as React from 'react'
+
+import { PostCard, type PostCardData } from '@/components/PostCard'
+import { Pagination } from '@/components/Pagination'
+import { TagCloud } from '@/components/TagCloud'
+import type { Tag } from '@/payload-types'
+import { getDocumentPath } from '@/utilities/getDocumentPath'
+import { getServerSideURL } from '@/utilities/getURL'
+import { getTagBySlug, getTagCounts, getTagPosts, type TagCount } from '@/utilities/tags'
+
+/**
+ * Page props with the tag slug and pagination
+ */
+interface TagPageProps {
+  params: Promise<{
+    slug: string
+  }>
+  searchParams: Promise<{
+    page?: string
+  }>
+}
+
+/**
+ * Posts listed on a tag archive page
+ */
+interface TagPostsResponse {
+  posts: PostCardData[]
+  totalPages: number
+  currentPage: number
+  totalDocs: number
+}
+
+/**
+ * Fetches a tag by slug with error handling
+ *
+ * @param slug - The tag slug
+ * @returns The tag, or null if not found or the CMS is unavailable
+ */
+async function getTag(slug: string): Promise<Tag | null> {
+  try {
+    return await getTagBySlug(slug)
+  } catch (error) {
+    console.error(`Failed to fetch tag "${slug}":`, error)
+    return null
+  }
+}
+
+/**
+ * Fetches the posts of a tag with error handling
+ *
+ * @param tag - The tag
+ * @param page - Page number (1-indexed)
+ * @returns Posts with pagination info, empty when the CMS is unavailable
+ */
+async function getPosts(tag: Tag, page: number): Promise<TagPostsResponse> {
+  try {
+    const result = await getTagPosts(tag.id, page)
+
+    return {
+      posts: result.docs as unknown as PostCardData[],
+      totalPages: result.totalPages,
+      currentPage: result.page || 1,
+      totalDocs: result.totalDocs,
+    }
+  } catch (error) {
+    console.error(`Failed to fetch posts for tag "${tag.slug}":`, error)
+    return { posts: [], totalPages: 0, currentPage: page, totalDocs: 0 }
+  }
+}
+
+/**
+ * Fetches the tag cloud with error handling
+ *
+ * @returns Tags with post counts, empty when the CMS is unavailable
+ */
+async function getTags(): Promise<TagCount[]> {
+  try {
+    return await getTagCounts()
+  } catch (error) {
+    console.error('Failed to fetch tag counts:', error)
+    return []
+  }
+}
+
+/**
+ * Generate metadata for SEO
+ */
+export async function generateMetadata({ params }: TagPageProps): Promise<Metadata> {
+  const { slug } = await params
+  const tag = await getTag(slug)
+
+  if (!tag) {
+    return {
+      title: 'Tag Not Found',
+      description: 'The requested tag could not be found.',
+    }
+  }
+
+  const title = `#${tag.title}`
+  const description = `Posts tagged ${tag.title}`
+
+  return {
+    title,
+    description,
+    alternates: {
+      canonical: `${getServerSideURL()}${getDocumentPath('tags', tag.slug)}`,
+    },
+    openGraph: {
+      title,
+      description,
+    },
+  }
+}
+
+/**
+ * Tag Archive Page
+ *
+ * Server Component that lists the published posts with a tag.
+ *
+ * Features:
+ * - Grid of post cards with URL-based pagination
+ * - Tag cloud of all tags, with the current tag highlighted
+ * - Returns notFound() for unknown tags
+ */
+export default async function TagPage({
+  params,
+  searchParams,
+}: TagPageProps): Promise<React.JSX.Element> {
+  const [{ slug }, query] = await Promise.all([params, searchParams])
+  const tag = await getTag(slug)
+
+  if (!tag) {
+    notFound()
+  }
+
+  const page = Number(query.page) || 1
+  const [{ posts, totalPages, currentPage, totalDocs }, tags] = await Promise.all([
+    getPosts(tag, page),
+    getTags(),
+  ])
+
+  return (
+    <main className="container mx-auto px-4 py-8">
+      {/* Page Header */}
+      <div className="mb-8">
+        <p className="mb-2 text-sm font-medium uppercase tracking-wide text-muted-foreground">Tag</p>
+        <h1 className="text-4xl font-bold tracking-tight">#{tag.title}</h1>
+        {totalDocs > 0 && (
+          <p className="mt-2 text-lg text-muted-foreground">
+            {totalDocs} {totalDocs === 1 ? 'post' : 'posts'}
+          </p>
+        )}
+      </div>
+
+      {/* Posts Grid or Empty State */}
+      {posts.length > 0 ? (
+        <>
+          <div className="grid gap-6 sm:grid-cols-2 lg:grid-cols-3">
+            {posts.map((post) => (
+              <PostCard key={post.id} post={post} />
+            ))}
+          </div>
+
+          {/* Pagination */}
+          <Pagination
+            currentPage={currentPage}
+            totalPages={totalPages}
+            basePath={getDocumentPath('tags', tag.slug) ?? `/tags/${slug}`}
+          />
+        </>
+      ) : (
+        <div className="flex min-h-[30vh] flex-col items-center justify-center px-4 text-center">
+          <h2 className="mb-4 text-2xl font-semibold">No posts yet</h2>
+          <p className="max-w-md text-muted-foreground">
+            There are no published posts with this tag yet.
+          </p>
+        </div>
+      )}
+
+      {/* Tag Cloud */}
+      {tags.length > 0 && (
+        <section className="mt-12 border-t pt-8">
+          <h2 className="mb-4 text-xl font-semibold tracking-tight">All Tags</h2>
+          <TagCloud tags={tags} currentSlug={tag.slug ?? undefined} />
+        </section>
+      )}
+    </main>
+  )
+}
@@ -2,4 +2,8 @@
 /* DO NOT MODIFY IT BECAUSE IT COULD BE REWRITTEN AT ANY TIME. */
 import type { ImportMap } from 'payload'
 
-export const importMap: ImportMap = {}
+import { MergeTagField as MergeTagField_3a745268a27ab5fe359180d5a986de38 } from '@/components/admin/MergeTagField'
+
+export const importMap: ImportMap = {
+  '@/components/admin/MergeTagField#MergeTagField': MergeTagField_3a745268a27ab5fe359180d5a986de38,
+}
@@ -0,0 +1,36 @@
+import type { MetadataRoute } from 'next'
+
+import { getDeploymentEnvironment } from '@/lib/env'
+import { getCachedGlobal, getServerSideURL } from '@/utilities'
+import { buildRobots, type CrawlingSettings } from '@/utilities/robots'
+
+// Rendered per request so each deployment uses its own environment;
+// the settings themselves are cached under the global-site-settings tag
+export const dynamic = 'force-dynamic'
+
+/**
+ * Fetches the crawling settings with error handling
+ * Falls back to the defaults (block preview and development) when unavailable
+ */
+async function getCrawlingSettings(): Promise<CrawlingSettings | null> {
+  try {
+    const siteSettings = await getCachedGlobal('site-settings')()
+    return siteSettings.crawling ?? null
+  } catch (error) {
+    console.error('Failed to fetch crawling settings:', error)
+    return null
+  }
+}
+
+/**
+ * robots.txt
+ *
+ * Generated from the Crawling section of the SiteSettings global.
+ */
+export default async function robots(): Promise<MetadataRoute.Robots> {
+  return buildRobots({
+    crawling: await getCrawlingSettings(),
+    environment: getDeploymentEnvironment(),
+    serverURL: getServerSideURL(),
+  })
+}
@@ -1,4 +1,5 @@
 import type { CollectionConfig } from 'payload'
+import { revalidateCategory, revalidateCategoryAfterDelete } from '@/hooks'
 
 /**
  * Categories Collection
@@ -10,6 +11,7 @@ import type { CollectionConfig } from 'payload'
  * - Parent self-reference for nested categories
  * - Breadcrumbs field for nested docs hierarchy
  * - Proper indexing on slug
+ * - Revalidates its archive page and the categories sitemap on change
  */
 export const Categories: CollectionConfig = {
   slug: 'categories',
@@ -21,6 +23,11 @@ export const Categories: CollectionConfig = {
     useAsTitle: 'title',
     defaultColumns: ['title', 'slug', 'parent', 'updatedAt'],
   },
+  // Hooks for archive page and sitemap revalidation
+  hooks: {
+    afterChange: [revalidateCategory],
+    afterDelete: [revalidateCategoryAfterDelete],
+  },
   access: {
     // Anyone can read categories
     read: () => true,
@@ -3,7 +3,18 @@ import { Content } from '@/blocks/Content/config'
 import { MediaBlock } from '@/blocks/MediaBlock/config'
 import { CallToAction } from '@/blocks/CallToAction/config'
 import { authenticated, authenticatedOrPublished, admins } from '@/access'
-import { formatSlug, revalidatePage, populatePublishedAt } from '@/hooks'
+import {
+  formatSlug,
+  revalidatePage,
+  revalidatePageAfterDelete,
+  populatePublishedAt,
+  queueScheduledPublishing,
+  trackSlugHistory,
+  createSlugRedirect,
+  syncSearchIndex,
+  removeFromSearchIndex,
+} from '@/hooks'
+import { generatePreviewPath } from '@/utilities/preview'
 
 /**
  * Pages Collection
@@ -12,10 +23,15 @@ import { formatSlug, revalidatePage, populatePublishedAt } from '@/hooks'
  *
  * Features:
  * - Title and unique slug with auto-generation
+ * - Slug history with automatic redirects when a published slug changes
  * - Hero section with multiple type options
  * - Layout with blocks array (to be populated with block types)
+ * - Scheduled publishing and expiry (publishedAt / expiresAt) via the jobs queue
  * - SEO meta fields (title, description, image)
+ * - Full-text search index entry kept in sync on publish, unpublish, and delete
  * - Access control: published pages are public
+ * - Draft preview through signed /api/preview links
+ * - Live Preview of hero and layout blocks in the admin panel
  */
 export const Pages: CollectionConfig = {
   slug: 'pages',
@@ -26,17 +42,20 @@ export const Pages: CollectionConfig = {
   admin: {
     useAsTitle: 'title',
     defaultColumns: ['title', 'slug', 'publishedAt', 'updatedAt'],
-    preview: (doc) => {
-      if (doc?.slug) {
-        return `/${doc.slug === 'home' ? '' : doc.slug}`
-      }
-      return null
+    // Signed link to /api/preview, which enables draft mode for this document
+    preview: (doc) =>
+      generatePreviewPath({ collection: 'pages', slug: doc?.slug as string | undefined }),
+    // Live Preview iframe uses the same signed link (breakpoints are set in payload.config.ts)
+    livePreview: {
+      url: ({ data }) =>
+        generatePreviewPath({ collection: 'pages', slug: data?.slug as string | undefined }),
     },
   },
-  // Hooks for slug generation, publishedAt auto-population, and revalidation
+  // Hooks for publishedAt auto-population, slug change redirects, scheduling, search indexing, and revalidation
   hooks: {
-    beforeChange: [populatePublishedAt],
-    afterChange: [revalidatePage],
+    beforeChange: [populatePublishedAt, trackSlugHistory],
+    afterChange: [createSlugRedirect, queueScheduledPublishing, syncSearchIndex, revalidatePage],
+    afterDelete: [removeFromSearchIndex, revalidatePageAfterDelete],
   },
   access: {
     // Public read access for published pages, auth users can read all
@@ -49,8 +68,14 @@ export const Pages: CollectionConfig = {
     delete: admins,
   },
   // Enable draft/publish functionality
+  // Autosave keeps the Live Preview iframe in sync while editing
   versions: {
-    drafts: true,
+    drafts: {
+      autosave: {
+        interval: 375,
+      },
+    },
+    maxPerDoc: 50,
   },
   fields: [
     // Title field
@@ -76,6 +101,31 @@ export const Pages: CollectionConfig = {
         beforeValidate: [formatSlug],
       },
     },
+    // Previous slugs (managed by trackSlugHistory)
+    {
+      name: 'slugHistory',
+      type: 'array',
+      label: 'Slug History',
+      admin: {
+        position: 'sidebar',
+        readOnly: true,
+        initCollapsed: true,
+        description: 'Previously published slugs. Old URLs redirect to this page automatically.',
+      },
+      fields: [
+        {
+          name: 'slug',
+          type: 'text',
+          label: 'Slug',
+          required: true,
+        },
+        {
+          name: 'changedAt',
+          type: 'date',
+          label: 'Changed At',
+        },
+      ],
+    },
     // Published date
     {
       name: 'publishedAt',
@@ -86,7 +136,28 @@ export const Pages: CollectionConfig = {
         date: {
           pickerAppearance: 'dayAndTime',
         },
-        description: 'When this page was/will be published',
+        description:
+          'When this page was/will be published. Drafts with a future date are published automatically.',
+      },
+    },
+    // Expiry date (unpublished automatically by the scheduler)
+    {
+      name: 'expiresAt',
+      type: 'date',
+      label: 'Expires At',
+      admin: {
+        position: 'sidebar',
+        date: {
+          pickerAppearance: 'dayAndTime',
+        },
+        description: 'Optional. The page is unpublished automatically at this date.',
+      },
+      validate: (value, { siblingData }) => {
+        const { publishedAt } = siblingData as { publishedAt?: string | null }
+        if (value && publishedAt && new Date(value) <= new Date(publishedAt)) {
+          return 'Expiry date must be after the published date'
+        }
+        return true
       },
     },
     // Hero group field
@@ -1,21 +1,45 @@
 import type { CollectionConfig } from 'payload'
 import { authenticated, authenticatedOrPublished, admins } from '@/access'
-import { formatSlug, revalidatePost, populatePublishedAt } from '@/hooks'
+import {
+  formatSlug,
+  migrateAuthorToContributors,
+  revalidatePost,
+  revalidatePostAfterDelete,
+  populateExcerpt,
+  populatePublishedAt,
+  populateReadingTime,
+  queueScheduledPublishing,
+  trackSlugHistory,
+  createSlugRedirect,
+  syncSearchIndex,
+  removeFromSearchIndex,
+} from '@/hooks'
+import { CONTRIBUTOR_ROLES } from '@/utilities/contributors'
+import { WORDS_PER_MINUTE } from '@/utilities/lexicalText'
+import { generatePreviewPath } from '@/utilities/preview'
+import { RELATED_POSTS_LIMIT } from '@/utilities/relatedPosts'
 
 /**
  * Posts Collection
  *
- * Collection for blog posts with rich text content, categories, and author.
+ * Collection for blog posts with rich text content, categories, and contributors.
  *
  * Features:
- * - Title, unique slug with auto-generation, and excerpt
+ * - Title, unique slug with auto-generation, and excerpt (generated from the content unless written by hand)
+ * - Slug history with automatic redirects when a published slug changes
  * - Rich text content using Lexical editor
  * - Featured image (relationship to Media)
  * - Categories (hasMany relationship to Categories)
- * - Author (relationship to Users)
- * - Published date for scheduling
+ * - Tags (hasMany relationship to Tags, creatable from the sidebar)
+ * - Pinned related posts, shown before the automatically ranked ones
+ * - Contributors (ordered users with a role: author, editor, illustrator, reviewer);
+ *   the legacy single author is moved into contributors on save
+ * - Word count and reading time computed from the content on save
+ * - Scheduled publishing and expiry (publishedAt / expiresAt) via the jobs queue
  * - SEO meta fields (title, description, image)
+ * - Full-text search index entry kept in sync on publish, unpublish, and delete
  * - Access control: published posts are public
+ * - Draft preview through signed /api/preview links
  */
 export const Posts: CollectionConfig = {
   slug: 'posts',
@@ -25,18 +49,17 @@ export const Posts: CollectionConfig = {
   },
   admin: {
     useAsTitle: 'title',
-    defaultColumns: ['title', 'slug', 'author', 'publishedAt', 'updatedAt'],
-    preview: (doc) => {
-      if (doc?.slug) {
-        return `/posts/${doc.slug}`
-      }
-      return null
-    },
+    defaultColumns: ['title', 'slug', 'publishedAt', 'updatedAt'],
+    // Signed link to /api/preview, which enables draft mode for this document
+    preview: (doc) =>
+      generatePreviewPath({ collection: 'posts', slug: doc?.slug as string | undefined }),
   },
-  // Hooks for slug generation, publishedAt auto-population, and revalidation
+  // Hooks for author migration, publishedAt auto-population, slug change redirects, scheduling, search indexing, and revalidation
   hooks: {
-    beforeChange: [populatePublishedAt],
-    afterChange: [revalidatePost],
+    beforeValidate: [migrateAuthorToContributors],
+    beforeChange: [populatePublishedAt, populateExcerpt, populateReadingTime, trackSlugHistory],
+    afterChange: [createSlugRedirect, queueScheduledPublishing, syncSearchIndex, revalidatePost],
+    afterDelete: [removeFromSearchIndex, revalidatePostAfterDelete],
   },
   access: {
     // Public read access for published posts, auth users can read all
@@ -76,13 +99,39 @@ export const Posts: CollectionConfig = {
         beforeValidate: [formatSlug],
       },
     },
+    // Previous slugs (managed by trackSlugHistory)
+    {
+      name: 'slugHistory',
+      type: 'array',
+      label: 'Slug History',
+      admin: {
+        position: 'sidebar',
+        readOnly: true,
+        initCollapsed: true,
+        description: 'Previously published slugs. Old URLs redirect to this post automatically.',
+      },
+      fields: [
+        {
+          name: 'slug',
+          type: 'text',
+          label: 'Slug',
+          required: true,
+        },
+        {
+          name: 'changedAt',
+          type: 'date',
+          label: 'Changed At',
+        },
+      ],
+    },
     // Excerpt field
     {
       name: 'excerpt',
       type: 'textarea',
       label: 'Excerpt',
       admin: {
-        description: 'A short summary of the post for listings and SEO.',
+        description:
+          'A short summary of the post for listings and SEO. Leave empty to generate it from the first paragraphs of the content; an excerpt you write is never replaced.',
       },
     },
     // Content field (richText)
@@ -114,15 +163,86 @@ export const Posts: CollectionConfig = {
         description: 'Select one or more categories for this post.',
       },
     },
-    // Author (relationship to Users)
+    // Tags (hasMany relationship to Tags)
+    {
+      name: 'tags',
+      type: 'relationship',
+      label: 'Tags',
+      relationTo: 'tags',
+      hasMany: true,
+      admin: {
+        position: 'sidebar',
+        allowCreate: true,
+        description: 'Pick existing tags or create new ones with the + button.',
+      },
+    },
+    // Related posts pinned by editors (the rest are ranked automatically)
+    {
+      name: 'relatedPosts',
+      type: 'relationship',
+      label: 'Related Posts',
+      relationTo: 'posts',
+      hasMany: true,
+      maxRows: RELATED_POSTS_LIMIT,
+      maxDepth: 0,
+      admin: {
+        position: 'sidebar',
+        description: `Optional. Shown first, in this order. Remaining slots (up to ${RELATED_POSTS_LIMIT}) are filled automatically by shared categories, tags and authors.`,
+      },
+      // Filter out the current document
+      filterOptions: ({ id }) => {
+        if (!id) return true
+        return {
+          id: {
+            not_equals: id,
+          },
+        }
+      },
+    },
+    // Contributors (ordered users with their role)
+    {
+      name: 'contributors',
+      type: 'array',
+      label: 'Contributors',
+      labels: {
+        singular: 'Contributor',
+        plural: 'Contributors',
+      },
+      required: true,
+      admin: {
+        position: 'sidebar',
+        description: 'Shown in bylines in this order. Drag to reorder.',
+      },
+      fields: [
+        {
+          name: 'user',
+          type: 'relationship',
+          label: 'User',
+          relationTo: 'users',
+          required: true,
+        },
+        {
+          name: 'role',
+          type: 'select',
+          label: 'Role',
+          required: true,
+          defaultValue: 'author',
+          options: [...CONTRIBUTOR_ROLES],
+        },
+      ],
+    },
+    // Legacy single author, moved into contributors by `pnpm contributors:migrate`
+    // or on the next save. Remove with migrateAuthorToContributors once migrated.
     {
       name: 'author',
       type: 'relationship',
-      label: 'Author',
+      label: 'Author (legacy)',
       relationTo: 'users',
-      required: true,
       admin: {
         position: 'sidebar',
+        readOnly: true,
+        description: 'Moved to Contributors when the post is saved.',
+        condition: (data) => Boolean(data?.author),
       },
     },
     // Published date
@@ -135,7 +255,49 @@ export const Posts: CollectionConfig = {
         date: {
           pickerAppearance: 'dayAndTime',
         },
-        description: 'When this post was/will be published',
+        description:
+          'When this post was/will be published. Drafts with a future date are published automatically.',
+      },
+    },
+    // Expiry date (unpublished automatically by the scheduler)
+    {
+      name: 'expiresAt',
+      type: 'date',
+      label: 'Expires At',
+      admin: {
+        position: 'sidebar',
+        date: {
+          pickerAppearance: 'dayAndTime',
+        },
+        description: 'Optional. The post is unpublished automatically at this date.',
+      },
+      validate: (value, { siblingData }) => {
+        const { publishedAt } = siblingData as { publishedAt?: string | null }
+        if (value && publishedAt && new Date(value) <= new Date(publishedAt)) {
+          return 'Expiry date must be after the published date'
+        }
+        return true
+      },
+    },
+    // Word count and reading time (managed by populateReadingTime)
+    {
+      name: 'wordCount',
+      type: 'number',
+      label: 'Word Count',
+      admin: {
+        position: 'sidebar',
+        readOnly: true,
+        description: 'Updated when the post is saved.',
+      },
+    },
+    {
+      name: 'readingTime',
+      type: 'number',
+      label: 'Reading Time (minutes)',
+      admin: {
+        position: 'sidebar',
+        readOnly: true,
+        description: `Estimated at ${WORDS_PER_MINUTE} words per minute.`,
       },
     },
     // SEO fields are added by @payloadcms/plugin-seo
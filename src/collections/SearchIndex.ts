@@ -0,0 +1,140 @@
+import type { CollectionConfig } from 'payload'
+import { sql, type PostgresAdapterArgs } from '@payloadcms/db-postgres'
+import { customType, index } from '@payloadcms/db-postgres/drizzle/pg-core'
+import { authenticated } from '@/access'
+import { SEARCH_LANGUAGE } from '@/utilities/search'
+
+/**
+ * Search Index Collection
+ *
+ * One entry per published page or post, maintained by the syncSearchIndex
+ * and removeFromSearchIndex hooks. Queried with Postgres full-text search
+ * by `searchContent` (used by /search and /api/search).
+ *
+ * Features:
+ * - Denormalized title, excerpt, and plain-text body of the source document
+ * - Generated, weighted tsvector column (title A, excerpt B, body C)
+ * - GIN index on the tsvector for fast matching
+ * - Read-only in the admin panel; entries are only written by hooks
+ */
+export const SearchIndex: CollectionConfig = {
+  slug: 'search-index',
+  labels: {
+    singular: 'Search Entry',
+    plural: 'Search Index',
+  },
+  admin: {
+    useAsTitle: 'title',
+    defaultColumns: ['title', 'docCollection', 'slug', 'updatedAt'],
+    description: 'Generated from published pages and posts. Entries update automatically.',
+  },
+  access: {
+    // Only logged-in users can inspect the index (searches bypass the REST API)
+    read: authenticated,
+    // Entries are written by hooks with overrideAccess
+    create: () => false,
+    update: () => false,
+    delete: () => false,
+  },
+  graphQL: false,
+  fields: [
+    // Source collection
+    {
+      name: 'docCollection',
+      type: 'select',
+      label: 'Collection',
+      required: true,
+      options: [
+        { label: 'Page', value: 'pages' },
+        { label: 'Post', value: 'posts' },
+      ],
+    },
+    // Source document ID
+    {
+      name: 'docId',
+      type: 'number',
+      label: 'Document ID',
+      required: true,
+      index: true,
+    },
+    // Title (weight A)
+    {
+      name: 'title',
+      type: 'text',
+      label: 'Title',
+      required: true,
+    },
+    // Slug of the source document, used to build result URLs
+    {
+      name: 'slug',
+      type: 'text',
+      label: 'Slug',
+      required: true,
+    },
+    // Excerpt or meta description (weight B)
+    {
+      name: 'excerpt',
+      type: 'textarea',
+      label: 'Excerpt',
+    },
+    // Plain text extracted from rich text and layout blocks (weight C)
+    {
+      name: 'body',
+      type: 'textarea',
+      label: 'Body',
+    },
+    // Published date of the source document, used as a tie-breaker
+    {
+      name: 'publishedAt',
+      type: 'date',
+      label: 'Published At',
+    },
+  ],
+}
+
+/**
+ * Postgres tsvector column type (not built into Drizzle)
+ */
+const tsvector = customType<{ data: string }>({
+  dataType: () => 'tsvector',
+})
+
+type PostgresSchemaHook = NonNullable<PostgresAdapterArgs['afterSchemaInit']>[number]
+
+/**
+ * Adds the generated `search_vector` column and its GIN index to the
+ * search_index table. Registered as an `afterSchemaInit` hook on the
+ * Postgres adapter, so schema push and migrations both pick it up.
+ */
+export const searchIndexSchemaHook: PostgresSchemaHook = ({ schema, extendTable }) => {
+  const table = schema.tables.search_index
+
+  if (!table) {
+    return schema
+  }
+
+  extendTable({
+    table,
+    columns: {
+      searchVector: tsvector('search_vector').generatedAlwaysAs(
+        sql.raw(
+          [
+            `setweight(to_tsvector('${SEARCH_LANGUAGE}', coalesce("title", '')), 'A')`,
+            `setweight(to_tsvector('${SEARCH_LANGUAGE}', coalesce("excerpt", '')), 'B')`,
+            `setweight(to_tsvector('${SEARCH_LANGUAGE}', coalesce("body", '')), 'C')`,
+          ].join(' || '),
+        ),
+      ),
+    },
+    extraConfig: (columns) => ({
+      search_index_search_vector_idx: index('search_index_search_vector_idx').using(
+        'gin',
+        columns.searchVector,
+      ),
+    }),
+  })
+
+  return schema
+}
+
+export default SearchIndex
@@ -0,0 +1,120 @@
+import type { CollectionConfig } from 'payload'
+import { authenticated, admins } from '@/access'
+import { formatSlug, revalidateSeries, revalidateSeriesAfterDelete } from '@/hooks'
+
+/**
+ * Series Collection
+ *
+ * Multi-part collections of posts, such as tutorials published in parts.
+ * The order of the posts field is the reading order.
+ *
+ * Features:
+ * - Title, unique slug with auto-generation, description and cover image
+ * - Ordered list of posts; a post can belong to one series only
+ * - Landing page at /series/slug and a "Part N of M" navigator on its posts
+ * - Revalidates its landing page, its posts and the series sitemap on change
+ */
+export const Series: CollectionConfig = {
+  slug: 'series',
+  labels: {
+    singular: 'Series',
+    plural: 'Series',
+  },
+  admin: {
+    useAsTitle: 'title',
+    defaultColumns: ['title', 'slug', 'updatedAt'],
+  },
+  // Hooks for landing page, post and sitemap revalidation
+  hooks: {
+    afterChange: [revalidateSeries],
+    afterDelete: [revalidateSeriesAfterDelete],
+  },
+  access: {
+    // Anyone can read series
+    read: () => true,
+    // Only authenticated users can create
+    create: authenticated,
+    // Only authenticated users can update
+    update: authenticated,
+    // Only admins can delete
+    delete: admins,
+  },
+  fields: [
+    {
+      name: 'title',
+      type: 'text',
+      label: 'Title',
+      required: true,
+    },
+    {
+      name: 'slug',
+      type: 'text',
+      label: 'Slug',
+      required: true,
+      unique: true,
+      index: true,
+      admin: {
+        position: 'sidebar',
+        description: 'URL-friendly identifier. Auto-generated from the title if left empty.',
+      },
+      hooks: {
+        beforeValidate: [formatSlug],
+      },
+    },
+    {
+      name: 'description',
+      type: 'textarea',
+      label: 'Description',
+    },
+    {
+      name: 'coverImage',
+      type: 'upload',
+      label: 'Cover Image',
+      relationTo: 'media',
+    },
+    {
+      name: 'posts',
+      type: 'relationship',
+      label: 'Posts',
+      relationTo: 'posts',
+      hasMany: true,
+      // Always IDs; the frontend loads the published posts in order
+      maxDepth: 0,
+      admin: {
+        description: 'Posts in reading order. Drag to reorder. A post can belong to one series only.',
+      },
+      validate: async (value, { id, req }) => {
+        const postIds = ((value ?? []) as (number | { id: number })[]).map((post) =>
+          typeof post === 'object' ? post.id : post,
+        )
+
+        if (new Set(postIds).size !== postIds.length) {
+          return 'A post can only be listed once'
+        }
+
+        if (postIds.length === 0) {
+          return true
+        }
+
+        const others = await req.payload.find({
+          collection: 'series',
+          where: {
+            and: [{ posts: { in: postIds } }, ...(id ? [{ id: { not_equals: id } }] : [])],
+          },
+          depth: 0,
+          limit: 1,
+          select: { title: true },
+          req,
+        })
+
+        if (others.docs.length > 0) {
+          return `Some of these posts already belong to the series "${others.docs[0].title}". A post can belong to one series only.`
+        }
+
+        return true
+      },
+    },
+  ],
+}
+
+export default Series
@@ -0,0 +1,93 @@
+import type { CollectionConfig } from 'payload'
+import { authenticated, admins } from '@/access'
+import { mergeTagEndpoint } from '@/endpoints/mergeTag'
+import { formatSlug, revalidateTagArchive, revalidateTagArchiveAfterDelete } from '@/hooks'
+
+/**
+ * Tags Collection
+ *
+ * Flat, free-form keywords for posts, alongside the hierarchical categories.
+ * Tags can be created on the fly from the Tags field in the Posts sidebar.
+ *
+ * Features:
+ * - Title and unique slug, normalized with formatSlugString
+ * - Posts join listing the posts with the tag (also used for tag cloud counts)
+ * - "Merge into" sidebar action (admins only) that moves the tag's posts,
+ *   including their drafts, to another tag and deletes it, through the
+ *   `POST /api/tags/:id/merge` endpoint
+ * - Revalidates its archive page and the tags sitemap on change
+ */
+export const Tags: CollectionConfig = {
+  slug: 'tags',
+  labels: {
+    singular: 'Tag',
+    plural: 'Tags',
+  },
+  admin: {
+    useAsTitle: 'title',
+    defaultColumns: ['title', 'slug', 'updatedAt'],
+  },
+  // Hooks for archive page and sitemap revalidation
+  hooks: {
+    afterChange: [revalidateTagArchive],
+    afterDelete: [revalidateTagArchiveAfterDelete],
+  },
+  endpoints: [mergeTagEndpoint],
+  access: {
+    // Anyone can read tags
+    read: () => true,
+    // Only authenticated users can create
+    create: authenticated,
+    // Only authenticated users can update
+    update: authenticated,
+    // Only admins can delete
+    delete: admins,
+  },
+  fields: [
+    {
+      name: 'title',
+      type: 'text',
+      label: 'Title',
+      required: true,
+    },
+    {
+      name: 'slug',
+      type: 'text',
+      label: 'Slug',
+      // Not required in the form, so tags created from the Posts sidebar only need a title
+      unique: true,
+      index: true,
+      admin: {
+        position: 'sidebar',
+        description: 'URL-friendly identifier. Auto-generated from the title if left empty.',
+      },
+      hooks: {
+        beforeValidate: [formatSlug],
+      },
+    },
+    // Merge action, calls the merge endpoint instead of saving
+    {
+      name: 'merge',
+      type: 'ui',
+      admin: {
+        position: 'sidebar',
+        condition: (data) => Boolean(data?.id),
+        components: {
+          Field: '@/components/admin/MergeTagField#MergeTagField',
+        },
+      },
+    },
+    {
+      name: 'posts',
+      type: 'join',
+      label: 'Posts',
+      collection: 'posts',
+      on: 'tags',
+      admin: {
+        defaultColumns: ['title', '_status', 'publishedAt'],
+      },
+    },
+  ],
+}
+
+export default Tags
@@ -1,5 +1,12 @@
-import type { CollectionConfig } from 'payload'
-import { admins, adminsOrSelf, adminsAdminAccess } from '@/access'
+import type { CollectionConfig, TextFieldSingleValidation } from 'payload'
+import {
+  admins,
+  adminsOrSelf,
+  adminsOrSelfField,
+  adminsAdminAccess,
+  publicProfilesOrSelf,
+} from '@/access'
+import { formatSlugFrom, revalidateAuthor, revalidateAuthorAfterDelete } from '@/hooks'
 
 /**
  * Users Collection
@@ -7,6 +14,15 @@ import { admins, adminsOrSelf, adminsAdminAccess } from '@/access'
  * Authentication-enabled collection for managing users with roles.
  * Roles: admin, editor, user
  *
+ * Features:
+ * - Public author profile (slug, job title, avatar, bio, social links)
+ *   served at /authors/[slug]
+ * - Profiles are private until the user opts in with "Public Profile"
+ *   (the slug is then generated from the name); email and role stay
+ *   readable only by admins and the user themselves
+ * - Profiles can only be edited by their owner or admins
+ * - Revalidates the author page and the author's posts on change
+ *
  * Admin access is restricted to users with the 'admin' role.
  */
 export const Users: CollectionConfig = {
@@ -25,9 +41,14 @@ export const Users: CollectionConfig = {
       return user?.role !== 'admin'
     },
   },
+  // Hooks for author page and byline revalidation
+  hooks: {
+    afterChange: [revalidateAuthor],
+    afterDelete: [revalidateAuthorAfterDelete],
+  },
   access: {
-    // Admins can read all users, others can only read their own user
-    read: adminsOrSelf,
+    // Admins can read all users, others can read public profiles and their own user
+    read: publicProfilesOrSelf,
     // Only admins can create users (except via registration if enabled)
     create: admins,
     // Admins can update any user, others can only update themselves
@@ -38,13 +59,126 @@ export const Users: CollectionConfig = {
     admin: adminsAdminAccess,
   },
   fields: [
-    // Email is automatically included by auth: true
+    // Email is automatically included by auth: true and merged with this config
+    {
+      name: 'email',
+      type: 'email',
+      access: {
+        // Never exposed on public profiles
+        read: adminsOrSelfField,
+      },
+    },
     // Password is automatically included by auth: true
     {
       name: 'name',
       type: 'text',
       label: 'Name',
     },
+    // Public profile opt-in
+    {
+      name: 'publicProfile',
+      type: 'checkbox',
+      label: 'Public Profile',
+      defaultValue: false,
+      index: true,
+      admin: {
+        position: 'sidebar',
+        description:
+          'Show this profile on an author page and in the sitemap, and link bylines to it. Post bylines and feeds show your name and avatar either way.',
+      },
+    },
+    // Public profile slug (unique, indexed)
+    {
+      name: 'slug',
+      type: 'text',
+      label: 'Profile Slug',
+      unique: true,
+      index: true,
+      admin: {
+        position: 'sidebar',
+        description:
+          'URL of the public author page (/authors/slug). Generated from the name if left empty on a public profile.',
+        condition: (data) => Boolean(data?.publicProfile || data?.slug),
+      },
+      hooks: {
+        beforeValidate: [formatSlugFrom('name', (data) => Boolean(data?.publicProfile))],
+      },
+      validate: ((value, { siblingData }) => {
+        const { publicProfile } = siblingData as { publicProfile?: boolean | null }
+        if (publicProfile && !value) {
+          return 'A public profile needs a name or a profile slug'
+        }
+        return true
+      }) satisfies TextFieldSingleValidation,
+    },
+    {
+      name: 'jobTitle',
+      type: 'text',
+      label: 'Job Title',
+      admin: {
+        description: 'Shown next to the name on the author page',
+      },
+    },
+    {
+      name: 'avatar',
+      type: 'upload',
+      label: 'Avatar',
+      relationTo: 'media',
+      admin: {
+        description: 'Square image shown in bylines and on the author page',
+      },
+    },
+    {
+      name: 'bio',
+      type: 'textarea',
+      label: 'Bio',
+      admin: {
+        description: 'Short public biography',
+      },
+    },
+    // Social Links Array
+    {
+      name: 'socialLinks',
+      type: 'array',
+      label: 'Social Links',
+      labels: {
+        singular: 'Social Link',
+        plural: 'Social Links',
+      },
+      admin: {
+        description: 'Profiles linked from the author page',
+      },
+      fields: [
+        {
+          name: 'platform',
+          type: 'select',
+          label: 'Platform',
+          required: true,
+          options: [
+            { label: 'Website', value: 'website' },
+            { label: 'Twitter / X', value: 'twitter' },
+            { label: 'LinkedIn', value: 'linkedin' },
+            { label: 'GitHub', value: 'github' },
+            { label: 'Mastodon', value: 'mastodon' },
+            { label: 'Bluesky', value: 'bluesky' },
+            { label: 'Instagram', value: 'instagram' },
+            { label: 'YouTube', value: 'youtube' },
+          ],
+        },
+        {
+          name: 'url',
+          type: 'text',
+          label: 'URL',
+          required: true,
+          admin: {
+            description: 'Full URL to the profile',
+          },
+          // Rendered as a link on the public author page
+          validate: (value: string | null | undefined) =>
+            /^https?:\/\//i.test(value ?? '') || 'Enter a full URL starting with https://',
+        },
+      ],
+    },
     {
       name: 'role',
       type: 'select',
@@ -57,6 +191,8 @@ export const Users: CollectionConfig = {
         { label: 'User', value: 'user' },
       ],
       access: {
+        // Never exposed on public profiles
+        read: adminsOrSelfField,
         // Only admins can update the role field
         update: adminsAdminAccess,
       },
@@ -0,0 +1,178 @@
+import * as React from 'react'
+import Link from 'next/link'
+
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar'
+import { cn, formatDateTime } from '@/utilities'
+import {
+  CONTRIBUTOR_ROLE_CREDITS,
+  getPostContributors,
+  type ContributorsSource,
+} from '@/utilities/contributors'
+import { getDocumentPath } from '@/utilities/getDocumentPath'
+
+/**
+ * Public author fields needed for bylines
+ */
+export interface BylineAuthorData {
+  name?: string | null
+  slug?: string | null
+  avatar?: { url?: string | null; alt?: string | null } | string | number | null
+}
+
+interface AuthorAvatarProps {
+  author: BylineAuthorData
+  /** Additional CSS classes, e.g. a size */
+  className?: string
+}
+
+interface AuthorBylineProps extends ContributorsSource<BylineAuthorData> {
+  /** Publication date of the post */
+  publishedAt?: string | null
+  /** Estimated reading time in minutes */
+  readingTime?: number | null
+  /** Only show author names, without avatars or editor and reviewer credits */
+  compact?: boolean
+  /** Additional CSS classes for the wrapper */
+  className?: string
+}
+
+/**
+ * Gets up to two initials from a name, e.g. "Jane Doe" → "JD"
+ */
+function getInitials(name: string): string {
+  return name
+    .split(/\s+/)
+    .filter(Boolean)
+    .slice(0, 2)
+    .map((word) => word[0]?.toUpperCase())
+    .join('')
+}
+
+/**
+ * AuthorAvatar Component
+ *
+ * Displays an author's avatar image, falling back to their initials.
+ */
+export function AuthorAvatar({ author, className }: AuthorAvatarProps): React.JSX.Element {
+  const avatar = typeof author.avatar === 'object' && author.avatar !== null ? author.avatar : null
+
+  return (
+    <Avatar className={className}>
+      {avatar?.url && <AvatarImage src={avatar.url} alt={avatar.alt || author.name || ''} />}
+      <AvatarFallback className="text-xs font-medium">
+        {author.name ? getInitials(author.name) : '?'}
+      </AvatarFallback>
+    </Avatar>
+  )
+}
+
+/**
+ * Renders a user's name, linking to their author page when they have a public profile
+ */
+function AuthorName({ author }: { author: BylineAuthorData }): React.JSX.Element {
+  const authorPath = getDocumentPath('users', author.slug)
+
+  return authorPath ? (
+    <Link href={authorPath} className="font-medium text-foreground hover:underline">
+      {author.name}
+    </Link>
+  ) : (
+    <span className="font-medium text-foreground">{author.name}</span>
+  )
+}
+
+/**
+ * Renders names separated like "Jane, John and Alex"
+ */
+function NameList({ users }: { users: BylineAuthorData[] }): React.JSX.Element {
+  return (
+    <span>
+      {users.map((user, index) => (
+        <React.Fragment key={`${user.slug ?? user.name}-${index}`}>
+          {index > 0 && (index === users.length - 1 ? ' and ' : ', ')}
+          <AuthorName author={user} />
+        </React.Fragment>
+      ))}
+    </span>
+  )
+}
+
+/**
+ * AuthorByline Component
+ *
+ * Displays the authors, other contributors and date of a post.
+ *
+ * Features:
+ * - Overlapping avatars of all authors, with initials fallback
+ * - Author names in contributor order, linking to their author pages
+ * - Credits for editors, illustrators and reviewers
+ * - Compact variant for post cards with only names and date
+ * - Formatted published date and reading time
+ * - Renders nothing without contributors, date or reading time
+ */
+export function AuthorByline({
+  contributors,
+  publishedAt,
+  readingTime,
+  compact = false,
+  className,
+}: AuthorBylineProps): React.JSX.Element | null {
+  // Only populated users, in byline order
+  const populated = getPostContributors<BylineAuthorData>({ contributors })
+  const authors = populated.filter((contributor) => contributor.role === 'author').map(({ user }) => user)
+  const credits = Object.entries(CONTRIBUTOR_ROLE_CREDITS).flatMap(([role, label]) => {
+    const users = populated.filter((contributor) => contributor.role === role).map(({ user }) => user)
+    return users.length > 0 ? [{ role, label, users }] : []
+  })
+
+  // Meta items after the author names, separated by bullets
+  const details = [
+    publishedAt && (
+      <time key="date" dateTime={publishedAt}>
+        {formatDateTime(publishedAt, { includeTime: false })}
+      </time>
+    ),
+    readingTime ? <span key="reading-time">{readingTime} min read</span> : null,
+  ].filter(Boolean)
+
+  if (authors.length === 0 && details.length === 0) {
+    return null
+  }
+
+  return (
+    <div className={cn('text-muted-foreground', compact ? 'text-sm' : undefined, className)}>
+      <div className="flex flex-wrap items-center gap-x-3 gap-y-1">
+        {!compact && authors.length > 0 && (
+          <div className="flex -space-x-2">
+            {authors.map((user, index) => (
+              <AuthorAvatar
+                key={`${user.slug ?? user.name}-${index}`}
+                author={user}
+                className="ring-2 ring-background"
+              />
+            ))}
+          </div>
+        )}
+        {authors.length > 0 && <NameList users={authors} />}
+        {details.map((detail, index) => (
+          <React.Fragment key={index}>
+            {(authors.length > 0 || index > 0) && <span className="text-muted-foreground">•</span>}
+            {detail}
+          </React.Fragment>
+        ))}
+      </div>
+      {!compact && credits.length > 0 && (
+        <p className="mt-2 text-sm">
+          {credits.map(({ role, label, users }, index) => (
+            <React.Fragment key={role}>
+              {index > 0 && ' · '}
+              {label} <NameList users={users} />
+            </React.Fragment>
+          ))}
+        </p>
+      )}
+    </div>
+  )
+}
+
+export default AuthorByline
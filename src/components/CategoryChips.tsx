@@ -0,0 +1,67 @@
+import * as React from 'react'
+import Link from 'next/link'
+
+import { cn } from '@/utilities'
+import { getCategoryPath } from '@/utilities/getDocumentPath'
+
+/**
+ * Category data needed to render and link a chip
+ */
+export interface CategoryChipData {
+  id: string | number
+  title: string
+  slug?: string | null
+  breadcrumbs?: { url?: string | null }[] | null
+}
+
+interface CategoryChipsProps {
+  /** Categories of a post; unpopulated IDs are skipped */
+  categories?: (CategoryChipData | string | number)[] | null
+  /** Additional CSS classes for the wrapper */
+  className?: string
+}
+
+/**
+ * CategoryChips Component
+ *
+ * Displays a post's categories as rounded chips linking to their archive
+ * pages (e.g. /categories/tech/react for nested categories).
+ *
+ * Features:
+ * - Links to the category's current nested URL from its breadcrumbs
+ * - Renders nothing when no category is populated
+ */
+export function CategoryChips({ categories, className }: CategoryChipsProps): React.JSX.Element | null {
+  const populated = (categories ?? []).filter(
+    (category): category is CategoryChipData => typeof category === 'object' && category !== null,
+  )
+
+  if (populated.length === 0) {
+    return null
+  }
+
+  return (
+    <div className={cn('flex flex-wrap gap-2', className)}>
+      {populated.map((category) => {
+        const path = getCategoryPath(category)
+        const chipClassName = 'rounded-full bg-muted px-3 py-1 text-sm font-medium text-muted-foreground'
+
+        return path ? (
+          <Link
+            key={category.id}
+            href={path}
+            className={cn(chipClassName, 'transition-colors hover:bg-muted/70 hover:text-foreground')}
+          >
+            {category.title}
+          </Link>
+        ) : (
+          <span key={category.id} className={chipClassName}>
+            {category.title}
+          </span>
+        )
+      })}
+    </div>
+  )
+}
+
+export default CategoryChips
@@ -0,0 +1,33 @@
+import * as React from 'react'
+
+import type { HighlightSegment } from '@/utilities/search'
+
+interface HighlightedTextProps {
+  /** Text segments from a search result */
+  segments: HighlightSegment[]
+}
+
+/**
+ * HighlightedText Component
+ *
+ * Renders search result text with matched terms wrapped in `<mark>`.
+ * Segments are rendered as text nodes, so indexed content is never
+ * interpreted as HTML.
+ */
+export function HighlightedText({ segments }: HighlightedTextProps): React.JSX.Element {
+  return (
+    <>
+      {segments.map((segment, index) =>
+        segment.highlighted ? (
+          <mark key={index} className="rounded-sm bg-yellow-200 px-0.5 text-inherit dark:bg-yellow-500/40">
+            {segment.text}
+          </mark>
+        ) : (
+          <React.Fragment key={index}>{segment.text}</React.Fragment>
+        )
+      )}
+    </>
+  )
+}
+
+export default HighlightedText
@@ -0,0 +1,29 @@
+import * as React from 'react'
+
+import { serializeJsonLd, type JsonLdNode } from '@/utilities/jsonLd'
+
+/**
+ * Props for the JsonLd component
+ */
+interface JsonLdProps {
+  /** Schema.org nodes built with the jsonLd utilities */
+  data: JsonLdNode[]
+}
+
+/**
+ * JsonLd Component
+ *
+ * Renders schema.org structured data as a `<script type="application/ld+json">`
+ * tag for search engines.
+ */
+export function JsonLd({ data }: JsonLdProps): React.JSX.Element {
+  return (
+    <script
+      type="application/ld+json"
+      // Serialized with `<` escaped, so the content can't break out of the tag
+      dangerouslySetInnerHTML={{ __html: serializeJsonLd(data) }}
+    />
+  )
+}
+
+export default JsonLd
@@ -0,0 +1,25 @@
+'use client'
+
+import * as React from 'react'
+import { useRouter } from 'next/navigation'
+import { RefreshRouteOnSave } from '@payloadcms/live-preview-react'
+
+import { getClientSideURL } from '@/utilities/getURL'
+
+/**
+ * LivePreviewListener Component
+ *
+ * Client-side bridge for Payload Live Preview. Listens for save messages
+ * posted by the admin panel's Live Preview iframe and refreshes the current
+ * route, so Server Components re-render with the latest draft data.
+ *
+ * Only render this in draft mode. Combined with autosave on the collection,
+ * the preview updates as fields change in the admin panel.
+ */
+export function LivePreviewListener(): React.JSX.Element {
+  const router = useRouter()
+
+  return <RefreshRouteOnSave refresh={() => router.refresh()} serverURL={getClientSideURL()} />
+}
+
+export default LivePreviewListener
@@ -0,0 +1,88 @@
+import * as React from 'react'
+import Link from 'next/link'
+
+import { cn } from '@/utilities'
+import { getArchivePath } from '@/utilities/getDocumentPath'
+import { getMonthName, type ArchiveYear } from '@/utilities/postArchive'
+
+interface MonthlyArchiveProps {
+  /** Years with their monthly post counts, newest first */
+  years: ArchiveYear[]
+  /** Year of the archive being shown, highlighted */
+  currentYear?: number
+  /** Month of the archive being shown, highlighted */
+  currentMonth?: number
+  /** Additional CSS classes for the wrapper */
+  className?: string
+}
+
+/**
+ * MonthlyArchive Component
+ *
+ * Displays the years and months with published posts as links to their
+ * date archives, with post counts.
+ *
+ * Features:
+ * - Years with their months nested, newest first
+ * - Post count in each link's accessible name
+ * - Highlights the current year or month
+ * - Renders nothing without posts
+ */
+export function MonthlyArchive({
+  years,
+  currentYear,
+  currentMonth,
+  className,
+}: MonthlyArchiveProps): React.JSX.Element | null {
+  if (years.length === 0) {
+    return null
+  }
+
+  const linkClassName = 'flex items-center justify-between gap-2 rounded-md px-2 py-1 transition-colors hover:bg-muted'
+
+  return (
+    <nav aria-label="Archive" className={cn('text-sm', className)}>
+      <ul className="space-y-2">
+        {years.map((year) => {
+          const isCurrentYear = year.year === currentYear && !currentMonth
+
+          return (
+            <li key={year.year}>
+              <Link
+                href={getArchivePath(year.year)}
+                aria-label={`${year.year} (${year.count} ${year.count === 1 ? 'post' : 'posts'})`}
+                aria-current={isCurrentYear ? 'page' : undefined}
+                className={cn(linkClassName, 'font-semibold', isCurrentYear && 'bg-muted')}
+              >
+                <span>{year.year}</span>
+                <span className="text-xs font-normal text-muted-foreground">{year.count}</span>
+              </Link>
+              <ul className="mt-1 space-y-1 pl-3">
+                {year.months.map(({ month, count }) => {
+                  const name = `${getMonthName(month)} ${year.year}`
+                  const isCurrent = year.year === currentYear && month === currentMonth
+
+                  return (
+                    <li key={month}>
+                      <Link
+                        href={getArchivePath(year.year, month)}
+                        aria-label={`${name} (${count} ${count === 1 ? 'post' : 'posts'})`}
+                        aria-current={isCurrent ? 'page' : undefined}
+                        className={cn(linkClassName, isCurrent && 'bg-muted font-semibold')}
+                      >
+                        <span>{getMonthName(month)}</span>
+                        <span className="text-xs text-muted-foreground">{count}</span>
+                      </Link>
+                    </li>
+                  )
+                })}
+              </ul>
+            </li>
+          )
+        })}
+      </ul>
+    </nav>
+  )
+}
+
+export default MonthlyArchive
@@ -0,0 +1,84 @@
+import * as React from 'react'
+
+/**
+ * Props for the OgImageCard component
+ */
+export interface OgImageCardProps {
+  /** Site name from SiteSettings, shown as the brand */
+  siteName: string
+  /** Document title */
+  title: string
+  /** Small label above the title (e.g. the post's first category) */
+  label?: string | null
+  /** Author display name */
+  author?: string | null
+  /** Formatted publication date */
+  date?: string | null
+}
+
+/**
+ * OgImageCard Component
+ *
+ * Branded 1200×630 card rendered by the `opengraph-image` routes with
+ * `next/og`. Satori supports a subset of CSS, so the card uses inline flexbox
+ * styles instead of Tailwind classes.
+ *
+ * Features:
+ * - Site name, optional label, title, author and date
+ * - Long titles shrink to fit three lines
+ */
+export function OgImageCard({ siteName, title, label, author, date }: OgImageCardProps): React.JSX.Element {
+  const byline = [author, date].filter(Boolean).join(' · ')
+
+  return (
+    <div
+      style={{
+        width: '100%',
+        height: '100%',
+        display: 'flex',
+        flexDirection: 'column',
+        justifyContent: 'space-between',
+        padding: '72px 80px',
+        background: 'linear-gradient(135deg, #09090b 0%, #27272a 100%)',
+        color: '#fafafa',
+      }}
+    >
+      <div style={{ display: 'flex', fontSize: 32, fontWeight: 600, color: '#a1a1aa' }}>{siteName}</div>
+
+      <div style={{ display: 'flex', flexDirection: 'column', gap: 24 }}>
+        {label && (
+          <div style={{ display: 'flex' }}>
+            <div
+              style={{
+                padding: '8px 20px',
+                borderRadius: 9999,
+                background: '#fafafa',
+                color: '#09090b',
+                fontSize: 26,
+                fontWeight: 600,
+              }}
+            >
+              {label}
+            </div>
+          </div>
+        )}
+        <div
+          style={{
+            display: 'flex',
+            fontSize: title.length > 60 ? 56 : 72,
+            fontWeight: 700,
+            lineHeight: 1.1,
+            letterSpacing: '-0.02em',
+            lineClamp: 3,
+          }}
+        >
+          {title}
+        </div>
+      </div>
+
+      <div style={{ display: 'flex', fontSize: 28, color: '#d4d4d8', minHeight: 34 }}>{byline}</div>
+    </div>
+  )
+}
+
+export default OgImageCard
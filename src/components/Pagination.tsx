@@ -10,6 +10,32 @@ interface PaginationProps {
   totalPages: number
   /** Base URL for pagination links (page number will be appended) */
   basePath: string
+  /** Extra query params kept on every link (e.g. { q: 'search term' }) */
+  searchParams?: Record<string, string | undefined>
+}
+
+/**
+ * Builds the URL of a page, omitting `page` for the first page
+ */
+function getPageUrl(
+  basePath: string,
+  page: number,
+  searchParams: Record<string, string | undefined> = {}
+): string {
+  const params = new URLSearchParams()
+
+  for (const [key, value] of Object.entries(searchParams)) {
+    if (value) {
+      params.set(key, value)
+    }
+  }
+
+  if (page > 1) {
+    params.set('page', String(page))
+  }
+
+  const query = params.toString()
+  return query ? `${basePath}?${query}` : basePath
 }
 
 /**
@@ -22,12 +48,14 @@ interface PaginationProps {
  * - Previous/Next navigation buttons
  * - Page number display
  * - Disabled state for first/last pages
+ * - Keeps other query params (filters, search terms) on page links
  * - Accessible navigation
  */
 export function Pagination({
   currentPage,
   totalPages,
   basePath,
+  searchParams,
 }: PaginationProps): React.JSX.Element | null {
   // Don't render pagination if only one page
   if (totalPages <= 1) {
@@ -38,9 +66,9 @@ export function Pagination({
   const hasNext = currentPage < totalPages
 
   const previousUrl = hasPrevious
-    ? `${basePath}${currentPage - 1 === 1 ? '' : `?page=${currentPage - 1}`}`
+    ? getPageUrl(basePath, currentPage - 1, searchParams)
     : null
-  const nextUrl = hasNext ? `${basePath}?page=${currentPage + 1}` : null
+  const nextUrl = hasNext ? getPageUrl(basePath, currentPage + 1, searchParams) : null
 
   return (
     <nav
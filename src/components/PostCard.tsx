@@ -2,7 +2,9 @@ import * as React from 'react'
 import Image from 'next/image'
 import Link from 'next/link'
 
-import { formatDateTime } from '@/utilities'
+import { AuthorByline, type BylineAuthorData } from '@/components/AuthorByline'
+import { CategoryChips, type CategoryChipData } from '@/components/CategoryChips'
+import type { ContributorRole } from '@/utilities/contributors'
 
 /**
  * Media data structure for featured images
@@ -23,7 +25,11 @@ export interface PostCardData {
   slug: string
   excerpt?: string | null
   featuredImage?: MediaData | string | null
+  categories?: (CategoryChipData | string | number)[] | null
+  contributors?: { user?: BylineAuthorData | string | number | null; role?: ContributorRole | null }[] | null
   publishedAt?: string | null
+  /** Estimated reading time in minutes */
+  readingTime?: number | null
 }
 
 interface PostCardProps {
@@ -33,18 +39,21 @@ interface PostCardProps {
 /**
  * PostCard Component
  *
- * Displays a post preview card with featured image, title, excerpt, and date.
+ * Displays a post preview card with featured image, categories, authors,
+ * title, excerpt, date, and reading time.
  * Links to the individual post page.
  *
  * Features:
  * - Featured image with responsive sizing
+ * - Category chips linking to the category archives
  * - Title with hover effect
  * - Excerpt (truncated)
- * - Formatted published date
- * - Full card is clickable link
+ * - Author names linking to their author pages, the published date and reading time
+ * - Image, title and read more link point to the post
  */
 export function PostCard({ post }: PostCardProps): React.JSX.Element {
-  const { title, slug, excerpt, featuredImage, publishedAt } = post
+  const { title, slug, excerpt, featuredImage, categories, contributors, publishedAt, readingTime } =
+    post
 
   // Handle both populated and unpopulated media states
   const imageData =
@@ -73,15 +82,17 @@ export function PostCard({ post }: PostCardProps): React.JSX.Element {
 
       {/* Content */}
       <div className="flex flex-1 flex-col p-4">
-        {/* Date */}
-        {publishedAt && (
-          <time
-            dateTime={publishedAt}
-            className="mb-2 text-sm text-muted-foreground"
-          >
-            {formatDateTime(publishedAt, { includeTime: false })}
-          </time>
-        )}
+        {/* Categories */}
+        <CategoryChips categories={categories} className="mb-3" />
+
+        {/* Authors and Date */}
+        <AuthorByline
+          contributors={contributors}
+          publishedAt={publishedAt}
+          readingTime={readingTime}
+          compact
+          className="mb-2"
+        />
 
         {/* Title */}
         <h2 className="mb-2 text-xl font-semibold leading-tight tracking-tight">
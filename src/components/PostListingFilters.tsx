@@ -0,0 +1,189 @@
+import * as React from 'react'
+import Link from 'next/link'
+import { XIcon } from 'lucide-react'
+
+import { cn } from '@/utilities'
+import {
+  getPostsUrl,
+  POST_SORT_LABELS,
+  type PostFilterKey,
+  type PostFilters,
+  type PostSort,
+} from '@/utilities/postFilters'
+import type { ActivePostFilter, PostFacetOption, PostListing } from '@/utilities/postListing'
+
+/**
+ * Gets the filter values a facet option sets (or clears, when active)
+ */
+function getFacetChanges(key: PostFilterKey, option: PostFacetOption): Partial<PostFilters> {
+  if (key === 'year' || key === 'month') {
+    const value = option.active ? undefined : Number(option.value)
+    // Switching years clears the month
+    return key === 'year' ? { year: value, month: undefined } : { month: value }
+  }
+
+  return { [key]: option.active ? undefined : option.value }
+}
+
+/** Changes that remove every filter */
+const EMPTY_FILTERS: Partial<PostFilters> = {
+  category: undefined,
+  tag: undefined,
+  author: undefined,
+  year: undefined,
+  month: undefined,
+}
+
+interface ActiveFilterChipsProps {
+  filters: PostFilters
+  activeFilters: ActivePostFilter[]
+}
+
+/**
+ * ActiveFilterChips Component
+ *
+ * Displays the active filters as chips, each with a button clearing it.
+ *
+ * Features:
+ * - Clearing a year also clears its month
+ * - "Clear all" link when more than one filter is active
+ * - Renders nothing without active filters
+ */
+export function ActiveFilterChips({
+  filters,
+  activeFilters,
+}: ActiveFilterChipsProps): React.JSX.Element | null {
+  if (activeFilters.length === 0) {
+    return null
+  }
+
+  return (
+    <div className="mb-6 flex flex-wrap items-center gap-2">
+      <span className="text-sm text-muted-foreground">Filtered by:</span>
+      <ul className="flex flex-wrap gap-2">
+        {activeFilters.map(({ key, label }) => (
+          <li
+            key={key}
+            className="inline-flex items-center gap-1 rounded-full bg-muted py-1 pl-3 pr-1 text-sm font-medium"
+          >
+            {label}
+            <Link
+              href={getPostsUrl(filters, { [key]: undefined })}
+              aria-label={`Clear filter ${label}`}
+              className="rounded-full p-1 text-muted-foreground transition-colors hover:bg-background hover:text-foreground"
+            >
+              <XIcon className="size-3" />
+            </Link>
+          </li>
+        ))}
+      </ul>
+      {activeFilters.length > 1 && (
+        <Link
+          href={getPostsUrl(filters, EMPTY_FILTERS)}
+          className="text-sm font-medium text-primary hover:underline"
+        >
+          Clear all
+        </Link>
+      )}
+    </div>
+  )
+}
+
+/**
+ * SortOptions Component
+ *
+ * Displays the sort options as links, keeping the current filters.
+ */
+export function SortOptions({ filters }: { filters: PostFilters }): React.JSX.Element {
+  return (
+    <nav aria-label="Sort posts" className="flex items-center gap-1 text-sm">
+      <span className="mr-1 text-muted-foreground">Sort:</span>
+      {(Object.keys(POST_SORT_LABELS) as PostSort[]).map((sort) => (
+        <Link
+          key={sort}
+          href={getPostsUrl(filters, { sort })}
+          aria-current={sort === filters.sort ? 'true' : undefined}
+          className={cn(
+            'rounded-md px-2 py-1 font-medium text-muted-foreground transition-colors hover:text-foreground',
+            sort === filters.sort && 'bg-muted text-foreground',
+          )}
+        >
+          {POST_SORT_LABELS[sort]}
+        </Link>
+      ))}
+    </nav>
+  )
+}
+
+interface FacetGroupProps {
+  title: string
+  filterKey: PostFilterKey
+  options: PostFacetOption[]
+  filters: PostFilters
+}
+
+/**
+ * A list of facet options with post counts.
+ * Active options link to the listing without them.
+ */
+function FacetGroup({ title, filterKey, options, filters }: FacetGroupProps): React.JSX.Element | null {
+  if (options.length === 0) {
+    return null
+  }
+
+  return (
+    <section>
+      <h2 className="mb-2 text-sm font-semibold uppercase tracking-wide text-muted-foreground">
+        {title}
+      </h2>
+      <ul className="space-y-1">
+        {options.map((option) => (
+          <li key={option.value} style={option.depth ? { paddingLeft: `${option.depth}rem` } : undefined}>
+            <Link
+              href={getPostsUrl(filters, getFacetChanges(filterKey, option))}
+              aria-label={`${option.label} (${option.count} ${option.count === 1 ? 'post' : 'posts'})`}
+              aria-current={option.active ? 'true' : undefined}
+              className={cn(
+                'flex items-center justify-between gap-2 rounded-md px-2 py-1 text-sm transition-colors hover:bg-muted',
+                option.active && 'bg-muted font-semibold',
+              )}
+            >
+              <span>{option.label}</span>
+              <span className="text-xs text-muted-foreground">{option.count}</span>
+            </Link>
+          </li>
+        ))}
+      </ul>
+    </section>
+  )
+}
+
+interface PostFacetsProps {
+  filters: PostFilters
+  facets: PostListing['facets']
+  className?: string
+}
+
+/**
+ * PostFacets Component
+ *
+ * Displays the filters of the /posts listing with post counts.
+ *
+ * Features:
+ * - Categories (nested, counting posts of subcategories), tags, authors,
+ *   years and the months of the selected year
+ * - Counts reflect the other active filters
+ * - Post count in each link's accessible name
+ * - Plain links, so filtering works without JavaScript
+ */
+export function PostFacets({ filters, facets, className }: PostFacetsProps): React.JSX.Element {
+  return (
+    <aside aria-label="Filter posts" className={cn('space-y-6', className)}>
+      <FacetGroup title="Categories" filterKey="category" options={facets.categories} filters={filters} />
+      <FacetGroup title="Tags" filterKey="tag" options={facets.tags} filters={filters} />
+      <FacetGroup title="Authors" filterKey="author" options={facets.authors} filters={filters} />
+      <FacetGroup title="Year" filterKey="year" options={facets.years} filters={filters} />
+      <FacetGroup title="Month" filterKey="month" options={facets.months} filters={filters} />
+    </aside>
+  )
+}
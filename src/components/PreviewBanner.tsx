@@ -0,0 +1,37 @@
+'use client'
+
+import * as React from 'react'
+import { usePathname } from 'next/navigation'
+import { EyeIcon } from 'lucide-react'
+
+/**
+ * PreviewBanner Component
+ *
+ * Displays a notice while Next.js draft mode is enabled, so editors can tell
+ * unpublished content apart from the live site.
+ *
+ * Features:
+ * - Full-width bar above the site header
+ * - Exit link that disables draft mode and returns to the current page
+ */
+export function PreviewBanner(): React.JSX.Element {
+  const pathname = usePathname()
+  const exitUrl = `/api/exit-preview?path=${encodeURIComponent(pathname || '/')}`
+
+  return (
+    <div role="status" className="w-full bg-amber-400 text-amber-950">
+      <div className="container mx-auto flex items-center justify-between gap-4 px-4 py-2 text-sm">
+        <span className="inline-flex items-center gap-2 font-medium">
+          <EyeIcon className="h-4 w-4" aria-hidden="true" />
+          Preview mode: you are viewing unpublished content.
+        </span>
+        {/* Plain anchor: the route handler must run to clear the draft mode cookie */}
+        <a href={exitUrl} className="font-semibold underline underline-offset-4">
+          Exit preview
+        </a>
+      </div>
+    </div>
+  )
+}
+
+export default PreviewBanner
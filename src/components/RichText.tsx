@@ -4,6 +4,8 @@ import {
   type JSXConvertersFunction,
 } from '@payloadcms/richtext-lexical/react'
 
+import { createHeadingIdGenerator, getLexicalNodeText } from '@/utilities/lexicalText'
+
 /**
  * Serialized Lexical node structure
  * This type represents the nodes in a Lexical editor state
@@ -60,25 +62,40 @@ interface RichTextProps {
 }
 
 /**
- * Custom converters that extend the default converters with custom styling
+ * Custom converters that extend the default converters with custom styling.
+ *
+ * Headings get anchor IDs for the table of contents. IDs are generated in
+ * document order, so a new generator is created for every render.
  */
-const customConverters: JSXConvertersFunction = ({ defaultConverters }) => ({
-  ...defaultConverters,
-  // You can customize converters here if needed
-  // For example, to add custom styling to links:
-  // link: ({ node, nodesToJSX }) => {
-  //   return (
-  //     <a
-  //       href={node.fields?.url || '#'}
-  //       className="text-primary underline underline-offset-4 hover:text-primary/80"
-  //       target={node.fields?.newTab ? '_blank' : undefined}
-  //       rel={node.fields?.newTab ? 'noopener noreferrer' : undefined}
-  //     >
-  //       {nodesToJSX({ nodes: node.children })}
-  //     </a>
-  //   )
-  // },
-})
+const customConverters: JSXConvertersFunction = ({ defaultConverters }) => {
+  const getHeadingId = createHeadingIdGenerator()
+
+  return {
+    ...defaultConverters,
+    heading: ({ node, nodesToJSX }) => {
+      const Tag = node.tag
+      return (
+        <Tag id={getHeadingId(getLexicalNodeText(node))} className="scroll-mt-24">
+          {nodesToJSX({ nodes: node.children })}
+        </Tag>
+      )
+    },
+    // You can customize other converters here if needed
+    // For example, to add custom styling to links:
+    // link: ({ node, nodesToJSX }) => {
+    //   return (
+    //     <a
+    //       href={node.fields?.url || '#'}
+    //       className="text-primary underline underline-offset-4 hover:text-primary/80"
+    //       target={node.fields?.newTab ? '_blank' : undefined}
+    //       rel={node.fields?.newTab ? 'noopener noreferrer' : undefined}
+    //     >
+    //       {nodesToJSX({ nodes: node.children })}
+    //     </a>
+    //   )
+    // },
+  }
+}
 
 /**
  * RichText Component
@@ -89,7 +106,7 @@ const customConverters: JSXConvertersFunction = ({ defaultConverters }) => ({
  * node types including:
  *
  * - Text formatting (bold, italic, strikethrough, underline, code)
- * - Paragraphs and headings (h1-h6)
+ * - Paragraphs and headings (h1-h6), with anchor IDs matching getLexicalHeadings
  * - Lists (ordered and unordered)
  * - Blockquotes
  * - Links (internal and external)
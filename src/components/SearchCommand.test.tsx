@@ -0,0 +1,170 @@
+import { describe, it, expect, vi, beforeAll, beforeEach, afterEach } from 'vitest'
+import { act, fireEvent, render, screen } from '@testing-library/react'
+import { SearchCommand } from './SearchCommand'
+
+const { mockPush } = vi.hoisted(() => ({
+  mockPush: vi.fn(),
+}))
+
+// Mock the App Router, which is not available outside Next.js
+vi.mock('next/navigation', () => ({
+  useRouter: () => ({ push: mockPush }),
+}))
+
+const quickLinks = [
+  { label: 'Blog', link: '/posts' },
+  { label: 'About', link: '/about' },
+]
+
+const suggestions = {
+  query: 'pay',
+  results: [
+    {
+      id: 1,
+      collection: 'posts',
+      title: [{ text: 'Payload', highlighted: true }, { text: ' tips', highlighted: false }],
+      snippet: [],
+      url: '/posts/payload-tips',
+      publishedAt: null,
+    },
+    {
+      id: 2,
+      collection: 'pages',
+      title: [{ text: 'Pay plans', highlighted: false }],
+      snippet: [],
+      url: '/pricing',
+      publishedAt: null,
+    },
+  ],
+  categories: [{ id: 3, title: 'Payments', url: '/categories/payments' }],
+}
+
+function openWithShortcut(): void {
+  fireEvent.keyDown(document, { key: 'k', ctrlKey: true })
+}
+
+describe('SearchCommand', () => {
+  beforeAll(() => {
+    // cmdk relies on browser APIs missing from jsdom
+    globalThis.ResizeObserver ??= class {
+      observe(): void {}
+      unobserve(): void {}
+      disconnect(): void {}
+    }
+    Element.prototype.scrollIntoView ??= vi.fn()
+  })
+
+  beforeEach(() => {
+    vi.useFakeTimers()
+    mockPush.mockReset()
+    vi.stubGlobal(
+      'fetch',
+      vi.fn().mockResolvedValue({ ok: true, json: async () => suggestions })
+    )
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.unstubAllGlobals()
+  })
+
+  it('should open with Ctrl+K and list quick links', () => {
+    render(<SearchCommand quickLinks={quickLinks} />)
+    expect(screen.queryByRole('dialog')).toBeNull()
+
+    openWithShortcut()
+
+    expect(screen.getByRole('dialog')).toBeDefined()
+    expect(screen.getByText('Quick Links')).toBeDefined()
+    expect(screen.getByText('Blog')).toBeDefined()
+    expect(screen.getByText('About')).toBeDefined()
+  })
+
+  it('should group results by type as you type', async () => {
+    render(<SearchCommand quickLinks={quickLinks} />)
+    openWithShortcut()
+
+    fireEvent.change(screen.getByRole('combobox'), { target: { value: 'pay' } })
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(250)
+    })
+
+    expect(fetch).toHaveBeenCalledWith('/api/search/suggest?q=pay', expect.anything())
+    expect(screen.getByText('Pages')).toBeDefined()
+    expect(screen.getByText('Posts')).toBeDefined()
+    expect(screen.getByText('Categories')).toBeDefined()
+    expect(screen.getByText('Payload tips')).toBeDefined()
+    expect(screen.getByText('Payments')).toBeDefined()
+    // Quick links are filtered by the query
+    expect(screen.queryByText('Quick Links')).toBeNull()
+  })
+
+  it('should show a loading state while typing', () => {
+    render(<SearchCommand />)
+    openWithShortcut()
+
+    fireEvent.change(screen.getByRole('combobox'), { target: { value: 'pay' } })
+
+    expect(screen.getByRole('status').textContent).toBe('Searching...')
+    expect(screen.getByText(/Search for/)).toBeDefined()
+  })
+
+  it('should show when nothing matches', async () => {
+    vi.mocked(fetch).mockResolvedValue({
+      ok: true,
+      json: async () => ({ query: 'zzz', results: [], categories: [] }),
+    } as Response)
+    render(<SearchCommand quickLinks={quickLinks} />)
+    openWithShortcut()
+
+    fireEvent.change(screen.getByRole('combobox'), { target: { value: 'zzz' } })
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(250)
+    })
+
+    expect(screen.getByRole('status').textContent).toBe('No results found.')
+    // The full search page is still offered
+    expect(screen.getByText(/Search for/)).toBeDefined()
+  })
+
+  it('should hide the status once results arrive', async () => {
+    render(<SearchCommand />)
+    openWithShortcut()
+
+    fireEvent.change(screen.getByRole('combobox'), { target: { value: 'pay' } })
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(250)
+    })
+
+    expect(screen.queryByRole('status')).toBeNull()
+  })
+
+  it('should debounce requests while typing', async () => {
+    render(<SearchCommand />)
+    openWithShortcut()
+
+    const input = screen.getByRole('combobox')
+    fireEvent.change(input, { target: { value: 'p' } })
+    fireEvent.change(input, { target: { value: 'pa' } })
+    fireEvent.change(input, { target: { value: 'pay' } })
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(250)
+    })
+
+    expect(fetch).toHaveBeenCalledTimes(1)
+  })
+
+  it('should navigate to the selected result', async () => {
+    render(<SearchCommand />)
+    openWithShortcut()
+
+    fireEvent.change(screen.getByRole('combobox'), { target: { value: 'pay' } })
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(250)
+    })
+    fireEvent.click(screen.getByText('Payments'))
+
+    expect(mockPush).toHaveBeenCalledWith('/categories/payments')
+    expect(screen.queryByRole('dialog')).toBeNull()
+  })
+})
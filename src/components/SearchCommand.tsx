@@ -0,0 +1,250 @@
+'use client'
+
+import * as React from 'react'
+import { useRouter } from 'next/navigation'
+import { FileTextIcon, FolderIcon, LinkIcon, NewspaperIcon, SearchIcon } from 'lucide-react'
+
+import { Button } from '@/components/ui/button'
+import {
+  CommandDialog,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from '@/components/ui/command'
+import { Kbd } from '@/components/ui/kbd'
+import type { SearchSuggestions } from '@/utilities/search'
+
+/**
+ * Quick link shown in the palette (Header nav items)
+ */
+export interface QuickLink {
+  label: string
+  link: string
+  id?: string | null
+}
+
+interface SearchCommandProps {
+  /** Links listed before typing and filtered by label while typing */
+  quickLinks?: QuickLink[]
+}
+
+/** Delay before querying while the user types */
+const SEARCH_DEBOUNCE_MS = 200
+
+/** Suggestions shown before anything is typed */
+const EMPTY_SUGGESTIONS: SearchSuggestions = { query: '', results: [], categories: [] }
+
+/**
+ * Fetches search-as-you-type results, debounced and cancelled on new input
+ */
+function useSearchSuggestions(query: string): {
+  suggestions: SearchSuggestions
+  isLoading: boolean
+} {
+  const [suggestions, setSuggestions] = React.useState<SearchSuggestions>(EMPTY_SUGGESTIONS)
+  const [isLoading, setIsLoading] = React.useState(false)
+
+  React.useEffect(() => {
+    const text = query.trim()
+
+    if (!text) {
+      setSuggestions(EMPTY_SUGGESTIONS)
+      setIsLoading(false)
+      return
+    }
+
+    const controller = new AbortController()
+    setIsLoading(true)
+
+    const timeout = setTimeout(async () => {
+      try {
+        const response = await fetch(`/api/search/suggest?q=${encodeURIComponent(text)}`, {
+          signal: controller.signal,
+        })
+
+        if (!response.ok) {
+          throw new Error(`Search failed with status ${response.status}`)
+        }
+
+        setSuggestions((await response.json()) as SearchSuggestions)
+      } catch (error) {
+        if (controller.signal.aborted) return
+        console.error('Failed to fetch search suggestions:', error)
+        setSuggestions(EMPTY_SUGGESTIONS)
+      }
+
+      setIsLoading(false)
+    }, SEARCH_DEBOUNCE_MS)
+
+    return () => {
+      clearTimeout(timeout)
+      controller.abort()
+    }
+  }, [query])
+
+  return { suggestions, isLoading }
+}
+
+/**
+ * SearchCommand Component
+ *
+ * Command palette for searching the site, opened from the Header or with
+ * ⌘K / Ctrl+K.
+ *
+ * Features:
+ * - Search-as-you-type over published pages, posts, and categories
+ * - Results grouped by type, with full keyboard navigation (cmdk)
+ * - Header navigation items as quick links
+ * - "Search for …" item opening the full /search results page
+ * - Loading and no-results states while typing
+ */
+export function SearchCommand({ quickLinks = [] }: SearchCommandProps): React.JSX.Element {
+  const router = useRouter()
+  const [open, setOpen] = React.useState(false)
+  const [query, setQuery] = React.useState('')
+  const { suggestions, isLoading } = useSearchSuggestions(query)
+
+  // Toggle with ⌘K / Ctrl+K from anywhere on the page
+  React.useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent): void => {
+      if (event.key.toLowerCase() === 'k' && (event.metaKey || event.ctrlKey)) {
+        event.preventDefault()
+        setOpen((current) => !current)
+      }
+    }
+
+    document.addEventListener('keydown', onKeyDown)
+    return () => document.removeEventListener('keydown', onKeyDown)
+  }, [])
+
+  const onOpenChange = (next: boolean): void => {
+    setOpen(next)
+    if (!next) setQuery('')
+  }
+
+  const navigate = (url: string): void => {
+    onOpenChange(false)
+    router.push(url)
+  }
+
+  const text = query.trim()
+  const pages = suggestions.results.filter((result) => result.collection === 'pages')
+  const posts = suggestions.results.filter((result) => result.collection === 'posts')
+  const links = quickLinks.filter((item) =>
+    item.label.toLowerCase().includes(text.toLowerCase())
+  )
+  const hasResults = suggestions.results.length + suggestions.categories.length + links.length > 0
+
+  return (
+    <>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => setOpen(true)}
+        className="gap-2 text-muted-foreground"
+        aria-label="Search"
+      >
+        <SearchIcon className="h-4 w-4" aria-hidden="true" />
+        <span className="hidden lg:inline">Search</span>
+        <Kbd className="hidden lg:inline-flex">⌘K</Kbd>
+      </Button>
+
+      <CommandDialog
+        open={open}
+        onOpenChange={onOpenChange}
+        title="Search"
+        description="Search pages, posts, and categories"
+        shouldFilter={false}
+      >
+        <CommandInput
+          placeholder="Search pages, posts, and categories..."
+          value={query}
+          onValueChange={setQuery}
+        />
+        <CommandList>
+          {text && (
+            <CommandGroup>
+              <CommandItem
+                value="search-all"
+                onSelect={() => navigate(`/search?q=${encodeURIComponent(text)}`)}
+              >
+                <SearchIcon aria-hidden="true" />
+                Search for &ldquo;{text}&rdquo;
+              </CommandItem>
+            </CommandGroup>
+          )}
+
+          {/* Not CommandEmpty: the "Search for" item is always listed while typing */}
+          {text && (isLoading || !hasResults) && (
+            <div role="status" className="py-6 text-center text-sm">
+              {isLoading ? 'Searching...' : 'No results found.'}
+            </div>
+          )}
+
+          {pages.length > 0 && (
+            <CommandGroup heading="Pages">
+              {pages.map((result) => (
+                <CommandItem
+                  key={`page-${result.id}`}
+                  value={`page-${result.id}`}
+                  onSelect={() => navigate(result.url)}
+                >
+                  <FileTextIcon aria-hidden="true" />
+                  {result.title.map((segment) => segment.text).join('')}
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          )}
+
+          {posts.length > 0 && (
+            <CommandGroup heading="Posts">
+              {posts.map((result) => (
+                <CommandItem
+                  key={`post-${result.id}`}
+                  value={`post-${result.id}`}
+                  onSelect={() => navigate(result.url)}
+                >
+                  <NewspaperIcon aria-hidden="true" />
+                  {result.title.map((segment) => segment.text).join('')}
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          )}
+
+          {suggestions.categories.length > 0 && (
+            <CommandGroup heading="Categories">
+              {suggestions.categories.map((category) => (
+                <CommandItem
+                  key={`category-${category.id}`}
+                  value={`category-${category.id}`}
+                  onSelect={() => navigate(category.url)}
+                >
+                  <FolderIcon aria-hidden="true" />
+                  {category.title}
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          )}
+
+          {links.length > 0 && (
+            <CommandGroup heading="Quick Links">
+              {links.map((item) => (
+                <CommandItem
+                  key={item.id ?? item.link}
+                  value={`link-${item.link}`}
+                  onSelect={() => navigate(item.link)}
+                >
+                  <LinkIcon aria-hidden="true" />
+                  {item.label}
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          )}
+        </CommandList>
+      </CommandDialog>
+    </>
+  )
+}
+
+export default SearchCommand
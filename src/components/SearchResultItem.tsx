@@ -0,0 +1,56 @@
+import * as React from 'react'
+import Link from 'next/link'
+
+import { HighlightedText } from '@/components/HighlightedText'
+import { formatDateTime } from '@/utilities'
+import type { SearchResult } from '@/utilities/search'
+
+interface SearchResultItemProps {
+  result: SearchResult
+}
+
+/** Labels shown for each indexed collection */
+const COLLECTION_LABELS: Record<SearchResult['collection'], string> = {
+  pages: 'Page',
+  posts: 'Post',
+}
+
+/**
+ * SearchResultItem Component
+ *
+ * Displays a single full-text search hit.
+ *
+ * Features:
+ * - Title with matched terms highlighted, linking to the document
+ * - Content type label and published date
+ * - Body snippet around the best matches
+ */
+export function SearchResultItem({ result }: SearchResultItemProps): React.JSX.Element {
+  const { collection, title, snippet, url, publishedAt } = result
+
+  return (
+    <article className="border-b py-6 last:border-b-0">
+      <div className="mb-1 flex items-center gap-2 text-xs uppercase tracking-wide text-muted-foreground">
+        <span>{COLLECTION_LABELS[collection]}</span>
+        {publishedAt && (
+          <>
+            <span aria-hidden="true">·</span>
+            <time dateTime={publishedAt}>{formatDateTime(publishedAt)}</time>
+          </>
+        )}
+      </div>
+      <h2 className="text-xl font-semibold">
+        <Link href={url} className="hover:underline">
+          <HighlightedText segments={title} />
+        </Link>
+      </h2>
+      {snippet.length > 0 && (
+        <p className="mt-2 text-muted-foreground">
+          <HighlightedText segments={snippet} />
+        </p>
+      )}
+    </article>
+  )
+}
+
+export default SearchResultItem
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest'
+import { render, screen } from '@testing-library/react'
+import { SeriesNavigator, getSeriesPosition } from './SeriesNavigator'
+
+const series = { title: 'Next.js from Scratch', slug: 'nextjs-from-scratch' }
+
+const parts = [
+  { id: 1, title: 'Setting Up', slug: 'setting-up' },
+  { id: 2, title: 'Routing', slug: 'routing' },
+  { id: 3, title: 'Data Fetching', slug: 'data-fetching' },
+]
+
+describe('getSeriesPosition', () => {
+  it('should number parts from 1 with their neighbours', () => {
+    expect(getSeriesPosition(parts, 2)).toEqual({
+      part: 2,
+      total: 3,
+      previous: parts[0],
+      next: parts[2],
+    })
+  })
+
+  it('should have no previous part for the first and no next part for the last', () => {
+    expect(getSeriesPosition(parts, 1)?.previous).toBeNull()
+    expect(getSeriesPosition(parts, 3)?.next).toBeNull()
+  })
+
+  it('should return null for posts outside the series', () => {
+    expect(getSeriesPosition(parts, 4)).toBeNull()
+  })
+})
+
+describe('SeriesNavigator', () => {
+  it('should show the part number and link the series', () => {
+    render(<SeriesNavigator series={series} parts={parts} currentId={2} />)
+
+    expect(screen.getByText('Part 2 of 3')).toBeDefined()
+    expect(screen.getByRole('link', { name: 'Next.js from Scratch' }).getAttribute('href')).toBe(
+      '/series/nextjs-from-scratch',
+    )
+  })
+
+  it('should list every part with the current one marked', () => {
+    render(<SeriesNavigator series={series} parts={parts} currentId={2} />)
+
+    expect(screen.getByText('Routing').getAttribute('aria-current')).toBe('page')
+    expect(screen.getByRole('link', { name: 'Setting Up' }).getAttribute('href')).toBe('/posts/setting-up')
+  })
+
+  it('should link the previous and next parts', () => {
+    render(<SeriesNavigator series={series} parts={parts} currentId={2} />)
+
+    expect(screen.getByRole('link', { name: '← Previous: Setting Up' }).getAttribute('rel')).toBe('prev')
+    expect(screen.getByRole('link', { name: 'Next: Data Fetching →' }).getAttribute('href')).toBe(
+      '/posts/data-fetching',
+    )
+  })
+
+  it('should render nothing for posts outside the series', () => {
+    const { container } = render(<SeriesNavigator series={series} parts={parts} currentId={4} />)
+
+    expect(container.innerHTML).toBe('')
+  })
+})
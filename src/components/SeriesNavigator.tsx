@@ -0,0 +1,154 @@
+import * as React from 'react'
+import Link from 'next/link'
+
+import { cn } from '@/utilities'
+import { getDocumentPath } from '@/utilities/getDocumentPath'
+
+/**
+ * A post of the series, in reading order
+ */
+export interface SeriesNavigatorPart {
+  id: string | number
+  title: string
+  slug: string
+}
+
+/**
+ * Where a post stands in its series
+ */
+export interface SeriesPosition {
+  /** Part number (1-indexed) */
+  part: number
+  total: number
+  previous: SeriesNavigatorPart | null
+  next: SeriesNavigatorPart | null
+}
+
+interface SeriesNavigatorProps {
+  series: { title: string; slug?: string | null }
+  /** Published posts of the series, in reading order */
+  parts: SeriesNavigatorPart[]
+  /** The post being read */
+  currentId: string | number
+  /** Additional CSS classes for the wrapper */
+  className?: string
+}
+
+/**
+ * Gets the position of a post in its series
+ *
+ * @param parts - Posts of the series, in reading order
+ * @param currentId - The post's ID
+ * @returns The part number, total and neighbours, or null if the post isn't listed
+ *
+ * @example
+ * getSeriesPosition([{ id: 1, ... }, { id: 2, ... }], 2)
+ * // Returns: { part: 2, total: 2, previous: { id: 1, ... }, next: null }
+ */
+export function getSeriesPosition(
+  parts: SeriesNavigatorPart[],
+  currentId: string | number,
+): SeriesPosition | null {
+  const index = parts.findIndex((part) => part.id === currentId)
+
+  if (index === -1) {
+    return null
+  }
+
+  return {
+    part: index + 1,
+    total: parts.length,
+    previous: parts[index - 1] ?? null,
+    next: parts[index + 1] ?? null,
+  }
+}
+
+/**
+ * SeriesNavigator Component
+ *
+ * Shows where a post stands in its series ("Part 2 of 5") with links to
+ * every part and to the previous and next parts.
+ *
+ * Features:
+ * - Links to the series landing page
+ * - Numbered list of parts, with the current part marked
+ * - Previous/next links with the parts' titles
+ * - Renders nothing when the post isn't a published part of the series
+ */
+export function SeriesNavigator({
+  series,
+  parts,
+  currentId,
+  className,
+}: SeriesNavigatorProps): React.JSX.Element | null {
+  const position = getSeriesPosition(parts, currentId)
+
+  if (!position) {
+    return null
+  }
+
+  const seriesPath = getDocumentPath('series', series.slug)
+
+  return (
+    <nav aria-label="Series" className={cn('rounded-lg border bg-muted/40 p-4 sm:p-6', className)}>
+      <p className="text-sm font-medium uppercase tracking-wide text-muted-foreground">
+        Part {position.part} of {position.total}
+      </p>
+      <p className="mt-1 text-lg font-semibold">
+        {seriesPath ? (
+          <Link href={seriesPath} className="hover:text-primary hover:underline">
+            {series.title}
+          </Link>
+        ) : (
+          series.title
+        )}
+      </p>
+
+      <ol className="mt-4 list-decimal space-y-1 pl-5 text-sm">
+        {parts.map((part) => (
+          <li key={part.id}>
+            {part.id === currentId ? (
+              <span aria-current="page" className="font-semibold">
+                {part.title}
+              </span>
+            ) : (
+              <Link
+                href={getDocumentPath('posts', part.slug) ?? '/posts'}
+                className="text-muted-foreground transition-colors hover:text-primary"
+              >
+                {part.title}
+              </Link>
+            )}
+          </li>
+        ))}
+      </ol>
+
+      {(position.previous || position.next) && (
+        <div className="mt-4 flex flex-wrap justify-between gap-4 border-t pt-4 text-sm">
+          {position.previous ? (
+            <Link
+              href={getDocumentPath('posts', position.previous.slug) ?? '/posts'}
+              rel="prev"
+              className="font-medium text-primary hover:underline"
+            >
+              ← Previous: {position.previous.title}
+            </Link>
+          ) : (
+            <span />
+          )}
+          {position.next && (
+            <Link
+              href={getDocumentPath('posts', position.next.slug) ?? '/posts'}
+              rel="next"
+              className="text-right font-medium text-primary hover:underline"
+            >
+              Next: {position.next.title} →
+            </Link>
+          )}
+        </div>
+      )}
+    </nav>
+  )
+}
+
+export default SeriesNavigator
@@ -0,0 +1,60 @@
+import { describe, it, expect, afterEach } from 'vitest'
+import { render, screen } from '@testing-library/react'
+import { TableOfContents, getActiveHeadingId } from './TableOfContents'
+
+const headings = [
+  { id: 'introduction', text: 'Introduction', level: 2 },
+  { id: 'installation', text: 'Installation', level: 3 },
+  { id: 'usage', text: 'Usage', level: 2 },
+]
+
+describe('getActiveHeadingId', () => {
+  const positions = [
+    { id: 'introduction', top: -400 },
+    { id: 'installation', top: 100 },
+    { id: 'usage', top: 900 },
+  ]
+
+  it('should return the last heading scrolled past the offset', () => {
+    expect(getActiveHeadingId(positions, 120)).toBe('installation')
+    expect(getActiveHeadingId(positions, 50)).toBe('introduction')
+  })
+
+  it('should return null above the first heading', () => {
+    expect(getActiveHeadingId([{ id: 'introduction', top: 300 }], 120)).toBeNull()
+  })
+})
+
+describe('TableOfContents', () => {
+  afterEach(() => {
+    document.body.innerHTML = ''
+  })
+
+  it('should link every heading to its anchor', () => {
+    render(<TableOfContents headings={headings} />)
+
+    expect(screen.getByRole('navigation', { name: 'Table of contents' })).toBeDefined()
+    expect(screen.getByRole('link', { name: 'Installation' }).getAttribute('href')).toBe('#installation')
+    expect(screen.getAllByRole('link')).toHaveLength(3)
+  })
+
+  it('should mark the section being read as current', () => {
+    for (const [index, heading] of headings.entries()) {
+      const element = document.createElement('h2')
+      element.id = heading.id
+      element.getBoundingClientRect = () => ({ top: index * 500 - 400 }) as DOMRect
+      document.body.appendChild(element)
+    }
+
+    render(<TableOfContents headings={headings} />)
+
+    expect(screen.getByRole('link', { name: 'Installation' }).getAttribute('aria-current')).toBe('location')
+    expect(screen.getByRole('link', { name: 'Usage' }).getAttribute('aria-current')).toBeNull()
+  })
+
+  it('should render nothing without headings', () => {
+    const { container } = render(<TableOfContents headings={[]} />)
+
+    expect(container.innerHTML).toBe('')
+  })
+})
@@ -0,0 +1,139 @@
+'use client'
+
+import * as React from 'react'
+
+import { cn } from '@/utilities/cn'
+import type { LexicalHeading } from '@/utilities/lexicalText'
+
+interface TableOfContentsProps {
+  /** Headings to list, from getLexicalHeadings */
+  headings: LexicalHeading[]
+  /** Additional CSS classes for the nav */
+  className?: string
+}
+
+/**
+ * Distance from the top of the viewport at which a heading becomes the
+ * current section: below the sticky site header and the headings' scroll margin
+ */
+const ACTIVE_OFFSET_PX = 120
+
+/**
+ * Finds the current section: the last heading scrolled past the offset
+ *
+ * @param positions - Heading IDs with their distance from the top of the viewport, in document order
+ * @param offset - Distance from the top of the viewport that counts as scrolled past
+ * @returns The ID of the current heading, or null above the first heading
+ *
+ * @example
+ * getActiveHeadingId([{ id: 'intro', top: -300 }, { id: 'setup', top: 80 }, { id: 'usage', top: 900 }], 120)
+ * // Returns: "setup"
+ */
+export function getActiveHeadingId(positions: { id: string; top: number }[], offset: number): string | null {
+  let activeId: string | null = null
+
+  for (const { id, top } of positions) {
+    if (top > offset) {
+      break
+    }
+    activeId = id
+  }
+
+  return activeId
+}
+
+/**
+ * Tracks the heading of the section being read
+ */
+function useActiveHeading(ids: string[]): string | null {
+  const [activeId, setActiveId] = React.useState<string | null>(null)
+  const key = ids.join(' ')
+
+  React.useEffect(() => {
+    let frame = 0
+
+    const update = (): void => {
+      frame = 0
+      const positions = key
+        .split(' ')
+        .flatMap((id) => {
+          const element = document.getElementById(id)
+          return element ? [{ id, top: element.getBoundingClientRect().top }] : []
+        })
+      setActiveId(getActiveHeadingId(positions, ACTIVE_OFFSET_PX))
+    }
+
+    // Measure at most once per frame while scrolling
+    const onScroll = (): void => {
+      if (!frame) {
+        frame = requestAnimationFrame(update)
+      }
+    }
+
+    update()
+    window.addEventListener('scroll', onScroll, { passive: true })
+    window.addEventListener('resize', onScroll)
+
+    return () => {
+      window.removeEventListener('scroll', onScroll)
+      window.removeEventListener('resize', onScroll)
+      cancelAnimationFrame(frame)
+    }
+  }, [key])
+
+  return activeId
+}
+
+/**
+ * TableOfContents Component
+ *
+ * Lists the headings of a post as anchor links and highlights the section
+ * currently being read.
+ *
+ * Features:
+ * - Links to the heading anchors generated by the RichText component
+ * - Nested indentation for subheadings
+ * - Current section highlighted while scrolling, with aria-current
+ * - Renders nothing without headings
+ */
+export function TableOfContents({ headings, className }: TableOfContentsProps): React.JSX.Element | null {
+  const activeId = useActiveHeading(headings.map((heading) => heading.id))
+
+  if (headings.length === 0) {
+    return null
+  }
+
+  // Indent relative to the highest level listed
+  const topLevel = Math.min(...headings.map((heading) => heading.level))
+
+  return (
+    <nav aria-label="Table of contents" className={cn('text-sm', className)}>
+      <p className="mb-3 font-semibold">On this page</p>
+      <ol className="space-y-2 border-l">
+        {headings.map((heading) => {
+          const isActive = heading.id === activeId
+
+          return (
+            <li key={heading.id}>
+              <a
+                href={`#${heading.id}`}
+                aria-current={isActive ? 'location' : undefined}
+                style={{ paddingLeft: `${0.75 + (heading.level - topLevel) * 0.75}rem` }}
+                className={cn(
+                  '-ml-px block border-l-2 transition-colors',
+                  isActive
+                    ? 'border-primary font-medium text-primary'
+                    : 'border-transparent text-muted-foreground hover:text-foreground',
+                )}
+              >
+                {heading.text}
+              </a>
+            </li>
+          )
+        })}
+      </ol>
+    </nav>
+  )
+}
+
+export default TableOfContents
@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest'
+import { render, screen } from '@testing-library/react'
+import { TagCloud, getTagWeight } from './TagCloud'
+
+const tags = [
+  { id: 1, title: 'Next.js', slug: 'nextjs', count: 40 },
+  { id: 2, title: 'Payload', slug: 'payload', count: 6 },
+  { id: 3, title: 'CSS', slug: 'css', count: 1 },
+]
+
+describe('getTagWeight', () => {
+  it('should map counts from the least to the most used tag', () => {
+    expect(getTagWeight(1, 1, 40)).toBe(0)
+    expect(getTagWeight(40, 1, 40)).toBe(4)
+  })
+
+  it('should use a log scale', () => {
+    // Linear scaling would put 6 of 40 in the smallest size
+    expect(getTagWeight(6, 1, 40)).toBe(2)
+  })
+
+  it('should use the middle size when all counts are equal', () => {
+    expect(getTagWeight(3, 3, 3)).toBe(2)
+  })
+})
+
+describe('TagCloud', () => {
+  it('should link tags to their archives, sized by post count', () => {
+    render(<TagCloud tags={tags} />)
+
+    const nextjs = screen.getByRole('link', { name: 'Next.js (40 posts)' })
+    const css = screen.getByRole('link', { name: 'CSS (1 post)' })
+
+    expect(nextjs.getAttribute('href')).toBe('/tags/nextjs')
+    expect(nextjs.className).toContain('text-2xl')
+    expect(css.className).toContain('text-sm')
+  })
+
+  it('should mark the current tag', () => {
+    render(<TagCloud tags={tags} currentSlug="payload" />)
+
+    expect(screen.getByRole('link', { name: 'Payload (6 posts)' }).getAttribute('aria-current')).toBe('page')
+  })
+
+  it('should render nothing without tags', () => {
+    const { container } = render(<TagCloud tags={[]} />)
+
+    expect(container.innerHTML).toBe('')
+  })
+})
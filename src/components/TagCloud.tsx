@@ -0,0 +1,90 @@
+import * as React from 'react'
+import Link from 'next/link'
+
+import { cn } from '@/utilities'
+import { getDocumentPath } from '@/utilities/getDocumentPath'
+
+/**
+ * Tag data needed for the cloud
+ */
+export interface TagCloudItem {
+  id: string | number
+  title: string
+  slug: string
+  /** Number of published posts with the tag */
+  count: number
+}
+
+interface TagCloudProps {
+  tags: TagCloudItem[]
+  /** Slug of the tag whose archive is shown, highlighted in the cloud */
+  currentSlug?: string
+  /** Additional CSS classes for the wrapper */
+  className?: string
+}
+
+/** Text sizes from the least to the most used tags */
+const WEIGHT_CLASSES = ['text-sm', 'text-base', 'text-lg', 'text-xl', 'text-2xl'] as const
+
+/**
+ * Gets the weight of a tag, from 0 (least used) to 4 (most used).
+ * Counts are compared on a log scale so a few very popular tags don't
+ * flatten all others to the smallest size.
+ *
+ * @param count - Posts with the tag
+ * @param min - Lowest count in the cloud
+ * @param max - Highest count in the cloud
+ */
+export function getTagWeight(count: number, min: number, max: number): number {
+  if (max <= min) {
+    return Math.floor(WEIGHT_CLASSES.length / 2)
+  }
+
+  const ratio = (Math.log(count) - Math.log(min)) / (Math.log(max) - Math.log(min))
+  return Math.round(ratio * (WEIGHT_CLASSES.length - 1))
+}
+
+/**
+ * TagCloud Component
+ *
+ * Displays tags as links to their archive pages, sized by how many posts
+ * use them.
+ *
+ * Features:
+ * - Five text sizes on a log scale of post counts
+ * - Post count in each link's accessible name
+ * - Highlights the current tag
+ * - Renders nothing without tags
+ */
+export function TagCloud({ tags, currentSlug, className }: TagCloudProps): React.JSX.Element | null {
+  if (tags.length === 0) {
+    return null
+  }
+
+  const counts = tags.map((tag) => tag.count)
+  const min = Math.min(...counts)
+  const max = Math.max(...counts)
+
+  return (
+    <ul className={cn('flex flex-wrap items-baseline gap-x-4 gap-y-2', className)}>
+      {tags.map((tag) => (
+        <li key={tag.id}>
+          <Link
+            href={getDocumentPath('tags', tag.slug) ?? '/posts'}
+            aria-label={`${tag.title} (${tag.count} ${tag.count === 1 ? 'post' : 'posts'})`}
+            aria-current={tag.slug === currentSlug ? 'page' : undefined}
+            className={cn(
+              'font-medium text-muted-foreground transition-colors hover:text-primary',
+              WEIGHT_CLASSES[getTagWeight(tag.count, min, max)],
+              tag.slug === currentSlug && 'text-foreground underline',
+            )}
+          >
+            #{tag.title}
+          </Link>
+        </li>
+      ))}
+    </ul>
+  )
+}
+
+export default TagCloud
@@ -0,0 +1,115 @@
+'use client'
+
+import * as React from 'react'
+import { useRouter } from 'next/navigation'
+import { Button, FieldLabel, toast, useAuth, useConfig, useDocumentInfo } from '@payloadcms/ui'
+
+import type { Tag, User } from '@/payload-types'
+
+/**
+ * MergeTagField Component
+ *
+ * Sidebar action on saved tags that merges the tag into another one through
+ * `POST /api/tags/:id/merge`, then opens the tag that was kept.
+ *
+ * Features:
+ * - Only shown to admins, as merging deletes the tag
+ * - Lists the other tags alphabetically
+ * - Asks for confirmation before merging
+ * - Reports the number of moved posts and drafts
+ */
+export function MergeTagField(): React.JSX.Element | null {
+  const router = useRouter()
+  const { user } = useAuth<User>()
+  const { id } = useDocumentInfo()
+  const {
+    config: {
+      routes: { admin: adminRoute, api: apiRoute },
+      serverURL,
+    },
+  } = useConfig()
+  const [tags, setTags] = React.useState<Pick<Tag, 'id' | 'title'>[]>([])
+  const [targetId, setTargetId] = React.useState('')
+  const [isMerging, setIsMerging] = React.useState(false)
+
+  const isAdmin = user?.role === 'admin'
+  const apiURL = `${serverURL}${apiRoute}/tags`
+
+  React.useEffect(() => {
+    if (!isAdmin || !id) return
+
+    const controller = new AbortController()
+
+    fetch(`${apiURL}?limit=0&depth=0&sort=title&select[title]=true`, {
+      credentials: 'include',
+      signal: controller.signal,
+    })
+      .then((response) => response.json() as Promise<{ docs: Pick<Tag, 'id' | 'title'>[] }>)
+      .then(({ docs }) => setTags(docs.filter((tag) => tag.id !== Number(id))))
+      .catch((error: unknown) => {
+        if (!controller.signal.aborted) console.error('Failed to load tags:', error)
+      })
+
+    return () => controller.abort()
+  }, [apiURL, id, isAdmin])
+
+  if (!isAdmin || !id) {
+    return null
+  }
+
+  const merge = async (): Promise<void> => {
+    const target = tags.find((tag) => String(tag.id) === targetId)
+
+    if (!target || !window.confirm(`Move all posts to "${target.title}" and delete this tag?`)) {
+      return
+    }
+
+    setIsMerging(true)
+
+    try {
+      const response = await fetch(`${apiURL}/${id}/merge`, {
+        method: 'POST',
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ into: target.id }),
+      })
+      const result = (await response.json()) as { posts?: number; drafts?: number; error?: string }
+
+      if (!response.ok) {
+        throw new Error(result.error ?? `Merging failed with status ${response.status}`)
+      }
+
+      toast.success(`Merged into "${target.title}" (${result.posts} posts, ${result.drafts} drafts)`)
+      router.push(`${adminRoute}/collections/tags/${target.id}`)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Merging failed')
+      setIsMerging(false)
+    }
+  }
+
+  return (
+    <div className="field-type">
+      <FieldLabel htmlFor="merge-tag-target" label="Merge Into" />
+      <select
+        id="merge-tag-target"
+        value={targetId}
+        onChange={(event) => setTargetId(event.target.value)}
+        disabled={isMerging}
+        style={{ width: '100%', marginBottom: '0.5rem' }}
+      >
+        <option value="">Choose a tag…</option>
+        {tags.map((tag) => (
+          <option key={tag.id} value={tag.id}>
+            {tag.title}
+          </option>
+        ))}
+      </select>
+      <Button buttonStyle="secondary" size="small" onClick={merge} disabled={!targetId || isMerging}>
+        {isMerging ? 'Merging…' : 'Merge and delete this tag'}
+      </Button>
+      <p className="field-description">Moves all posts with this tag, including drafts, to the selected tag.</p>
+    </div>
+  )
+}
+
+export default MergeTagField
@@ -0,0 +1,106 @@
+import { describe, it, expect, vi } from 'vitest'
+import type { PayloadRequest } from 'payload'
+
+import { mergeTag } from './mergeTag'
+
+/**
+ * A Local API stub with one post. The published document and the latest
+ * version are stored separately, like the main and versions tables.
+ */
+function createRequest({ published, draft }: { published: object | null; draft: object | null }) {
+  const latest = draft ?? published
+  const payload = {
+    find: vi.fn(async () => ({
+      docs: published && (published as { tags: number[] }).tags.includes(5) ? [{ id: 1 }] : [],
+    })),
+    findVersions: vi.fn(async ({ where }: { where: { and: Record<string, unknown>[] } }) => {
+      const isPostQuery = where.and.some((condition) => 'parent' in condition)
+      const hasTag = draft && (draft as { tags: number[] }).tags.includes(5)
+
+      return {
+        docs: (isPostQuery ? latest : hasTag) ? [{ parent: 1, version: latest }] : [],
+      }
+    }),
+    findByID: vi.fn(async () => published),
+    update: vi.fn(async (_args: Record<string, unknown>) => ({})),
+    delete: vi.fn(async () => ({})),
+  }
+
+  return { req: { payload } as unknown as PayloadRequest, payload }
+}
+
+describe('mergeTag', () => {
+  it('should keep a post with a pending draft published', async () => {
+    const { req, payload } = createRequest({
+      published: { id: 1, title: 'Live title', _status: 'published', tags: [5, 7] },
+      draft: { id: 1, title: 'Draft title', _status: 'draft', tags: [5] },
+    })
+
+    const result = await mergeTag(req, 5, 6)
+
+    expect(result).toEqual({ posts: 1, drafts: 1 })
+    expect(payload.update).toHaveBeenCalledTimes(2)
+    // The whole published document first, so nothing is filled from the draft
+    expect(payload.update).toHaveBeenNthCalledWith(
+      1,
+      expect.objectContaining({
+        id: 1,
+        data: { title: 'Live title', _status: 'published', tags: [6, 7] },
+      }),
+    )
+    expect(payload.update.mock.calls[0][0]).not.toHaveProperty('draft')
+    // Then the draft, so it stays the latest version
+    expect(payload.update).toHaveBeenNthCalledWith(
+      2,
+      expect.objectContaining({
+        id: 1,
+        data: { title: 'Draft title', _status: 'draft', tags: [6] },
+        draft: true,
+      }),
+    )
+    expect(payload.delete).toHaveBeenCalledWith(expect.objectContaining({ collection: 'tags', id: 5 }))
+  })
+
+  it('should save a pending draft again when only the published document has the tag', async () => {
+    const { req, payload } = createRequest({
+      published: { id: 1, title: 'Live title', _status: 'published', tags: [5] },
+      draft: { id: 1, title: 'Draft title', _status: 'draft', tags: [7] },
+    })
+
+    const result = await mergeTag(req, 5, 6)
+
+    expect(result).toEqual({ posts: 1, drafts: 1 })
+    expect(payload.update).toHaveBeenNthCalledWith(
+      2,
+      expect.objectContaining({ data: { title: 'Draft title', _status: 'draft', tags: [7] }, draft: true }),
+    )
+  })
+
+  it('should only update the draft of a post that was never published', async () => {
+    const { req, payload } = createRequest({
+      published: { id: 1, title: 'Draft title', _status: 'draft', tags: [5] },
+      draft: { id: 1, title: 'Draft title', _status: 'draft', tags: [5] },
+    })
+
+    const result = await mergeTag(req, 5, 6)
+
+    expect(result).toEqual({ posts: 0, drafts: 1 })
+    expect(payload.update).toHaveBeenCalledTimes(1)
+    expect(payload.update).toHaveBeenCalledWith(expect.objectContaining({ draft: true }))
+  })
+
+  it('should not save a post without pending changes twice', async () => {
+    const { req, payload } = createRequest({
+      published: { id: 1, title: 'Live title', _status: 'published', tags: [5] },
+      draft: null,
+    })
+
+    const result = await mergeTag(req, 5, 6)
+
+    expect(result).toEqual({ posts: 1, drafts: 0 })
+    expect(payload.update).toHaveBeenCalledTimes(1)
+    expect(payload.update).toHaveBeenCalledWith(
+      expect.objectContaining({ data: { title: 'Live title', _status: 'published', tags: [6] } }),
+    )
+  })
+})
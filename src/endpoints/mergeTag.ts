@@ -0,0 +1,171 @@
+import {
+  commitTransaction,
+  initTransaction,
+  killTransaction,
+  type Endpoint,
+  type PayloadRequest,
+} from 'payload'
+
+import type { Post, Tag } from '@/payload-types'
+import { updatePostVersions } from '@/utilities/updatePostVersions'
+
+/**
+ * Result of a tag merge
+ */
+export interface MergeTagResult {
+  /** Published posts that were updated */
+  posts: number
+  /** Posts whose pending draft was updated */
+  drafts: number
+}
+
+/**
+ * Gets the IDs of a post's tags (populated or not)
+ */
+function getTagIds(tags: Post['tags']): Tag['id'][] {
+  return (tags ?? []).map((tag) => (typeof tag === 'object' ? tag.id : tag))
+}
+
+/**
+ * Whether a post has a tag
+ */
+function hasTag(tags: Post['tags'], tagId: Tag['id']): boolean {
+  return getTagIds(tags).includes(tagId)
+}
+
+/**
+ * Replaces a tag in a post's tags, keeping each tag once
+ */
+function replaceTag(tags: Post['tags'], sourceId: Tag['id'], targetId: Tag['id']): Tag['id'][] {
+  return [...new Set(getTagIds(tags).map((id) => (id === sourceId ? targetId : id)))]
+}
+
+/**
+ * Moves every post from one tag to another and deletes the first tag.
+ *
+ * Posts are versioned, so both places a post can reference the tag are
+ * updated through updatePostVersions: the published document (what visitors
+ * see) and, when the post has unpublished changes, its latest draft.
+ *
+ * @param req - The request, whose transaction all changes run in
+ * @param sourceId - The tag to remove
+ * @param targetId - The tag to keep
+ * @returns Number of updated posts and drafts
+ */
+export async function mergeTag(
+  req: PayloadRequest,
+  sourceId: Tag['id'],
+  targetId: Tag['id'],
+): Promise<MergeTagResult> {
+  const { payload } = req
+
+  const [published, drafts] = await Promise.all([
+    payload.find({
+      collection: 'posts',
+      where: {
+        and: [{ _status: { equals: 'published' } }, { tags: { in: [sourceId] } }],
+      },
+      depth: 0,
+      pagination: false,
+      select: {},
+      req,
+    }),
+    // Latest versions with unpublished changes (including never-published posts)
+    payload.findVersions({
+      collection: 'posts',
+      where: {
+        and: [
+          { latest: { equals: true } },
+          { 'version._status': { equals: 'draft' } },
+          { 'version.tags': { in: [sourceId] } },
+        ],
+      },
+      depth: 0,
+      pagination: false,
+      req,
+    }),
+  ])
+
+  // Posts with the tag in their published document, their pending draft or both
+  const postIds = new Set<Post['id']>([
+    ...published.docs.map(({ id }) => id),
+    ...drafts.docs.map(({ parent }) => Number(parent)),
+  ])
+  const result: MergeTagResult = { posts: 0, drafts: 0 }
+
+  for (const id of postIds) {
+    const updated = await updatePostVersions(req, id, (post) =>
+      hasTag(post.tags, sourceId) ? { tags: replaceTag(post.tags, sourceId, targetId) } : null,
+    )
+
+    result.posts += Number(updated.published)
+    result.drafts += Number(updated.draft)
+  }
+
+  await payload.delete({ collection: 'tags', id: sourceId, req })
+
+  return result
+}
+
+/**
+ * Endpoint that merges a tag into another one
+ *
+ * `POST /api/tags/:id/merge` with `{ "into": <tag ID> }`. Admins only, as
+ * merging deletes the tag. All changes run in one transaction, so a failed
+ * post update leaves both tags untouched.
+ *
+ * @example
+ * ```ts
+ * export const Tags: CollectionConfig = {
+ *   slug: 'tags',
+ *   endpoints: [mergeTagEndpoint],
+ *   // ...
+ * }
+ * ```
+ */
+export const mergeTagEndpoint: Endpoint = {
+  path: '/:id/merge',
+  method: 'post',
+  handler: async (req) => {
+    if (req.user?.role !== 'admin') {
+      return Response.json({ error: 'Only admins can merge tags' }, { status: 403 })
+    }
+
+    const body = (req.json ? await req.json().catch(() => null) : null) as { into?: unknown } | null
+    const sourceId = Number(req.routeParams?.id)
+    const targetId = Number(body?.into)
+
+    if (!Number.isInteger(sourceId) || !Number.isInteger(targetId) || sourceId === targetId) {
+      return Response.json({ error: 'Choose another tag to merge into' }, { status: 400 })
+    }
+
+    const { totalDocs } = await req.payload.count({
+      collection: 'tags',
+      where: { id: { in: [sourceId, targetId] } },
+      req,
+    })
+
+    if (totalDocs !== 2) {
+      return Response.json({ error: 'Tag not found' }, { status: 404 })
+    }
+
+    const shouldCommit = await initTransaction(req)
+
+    try {
+      const result = await mergeTag(req, sourceId, targetId)
+
+      if (shouldCommit) {
+        await commitTransaction(req)
+      }
+
+      req.payload.logger.info(
+        `Merged tag ${sourceId} into tag ${targetId} (${result.posts} posts, ${result.drafts} drafts)`,
+      )
+      return Response.json(result)
+    } catch (error) {
+      await killTransaction(req)
+      req.payload.logger.error({ err: error, msg: `Failed to merge tag ${sourceId} into tag ${targetId}` })
+      return Response.json({ error: 'Merging failed, no changes were made' }, { status: 500 })
+    }
+  },
+}
@@ -1,13 +1,5 @@
-import type { GlobalConfig, GlobalAfterChangeHook } from 'payload'
-
-/**
- * Revalidate site settings hook
- * Triggers Next.js revalidation when site settings are updated
- */
-const revalidateSiteSettings: GlobalAfterChangeHook = async ({ doc, req: { payload } }) => {
-  payload.logger.info('Revalidating site settings')
-  return doc
-}
+import type { GlobalConfig } from 'payload'
+import { revalidateSiteSettings } from '@/hooks'
 
 /**
  * SiteSettings Global
@@ -20,7 +12,8 @@ const revalidateSiteSettings: GlobalAfterChangeHook = async ({ doc, req: { paylo
  * - Contact information (email, phone, address)
  * - Social links array for social media profiles
  * - Analytics IDs for tracking integrations
- * - Revalidation hook for Next.js cache invalidation
+ * - Crawling rules for robots.txt (disallowed paths, blocked environments)
+ * - Revalidates its Next.js cache tag on change
  */
 export const SiteSettings: GlobalConfig = {
   slug: 'site-settings',
@@ -189,6 +182,54 @@ export const SiteSettings: GlobalConfig = {
         },
       ],
     },
+    // Crawling Group (robots.txt)
+    {
+      name: 'crawling',
+      type: 'group',
+      label: 'Crawling',
+      admin: {
+        description: 'Search engine crawler rules served at /robots.txt',
+      },
+      fields: [
+        {
+          name: 'blockedEnvironments',
+          type: 'select',
+          label: 'Block Crawlers In',
+          hasMany: true,
+          defaultValue: ['preview', 'development'],
+          options: [
+            { label: 'Preview deployments', value: 'preview' },
+            { label: 'Development', value: 'development' },
+            { label: 'Production', value: 'production' },
+          ],
+          admin: {
+            description: 'Environments where all crawling is disallowed (e.g. Vercel preview deployments)',
+          },
+        },
+        {
+          name: 'disallowPaths',
+          type: 'array',
+          label: 'Disallowed Paths',
+          labels: {
+            singular: 'Path',
+            plural: 'Paths',
+          },
+          admin: {
+            description: 'Paths crawlers should not visit (e.g. /search). /admin is always disallowed.',
+          },
+          fields: [
+            {
+              name: 'path',
+              type: 'text',
+              label: 'Path',
+              required: true,
+              validate: (value: string | null | undefined) =>
+                value?.startsWith('/') ? true : 'Path must start with /',
+            },
+          ],
+        },
+      ],
+    },
   ],
 }
 
@@ -18,6 +18,52 @@ export function formatSlugString(value: string): string {
     .replace(/^-|-$/g, '')
 }
 
+/**
+ * Creates a field hook that formats slugs, generating them from another field
+ *
+ * If a slug value is manually provided, it will be formatted.
+ * If no slug is provided, it will be generated from the source field.
+ *
+ * @param fieldName - The field to generate the slug from (e.g. 'name')
+ * @param shouldGenerate - Optional condition on the document data; when it
+ *   returns false, an empty slug stays empty
+ * @returns FieldHook for the slug field's beforeValidate hooks
+ *
+ * @example
+ * ```ts
+ * {
+ *   name: 'slug',
+ *   type: 'text',
+ *   hooks: {
+ *     beforeValidate: [formatSlugFrom('name')],
+ *   },
+ * }
+ * ```
+ */
+export function formatSlugFrom(
+  fieldName: string,
+  shouldGenerate?: (data: Partial<Record<string, unknown>> | undefined) => boolean,
+): FieldHook {
+  return ({ value, data }) => {
+    // If slug is manually provided, format it
+    if (typeof value === 'string' && value.length > 0) {
+      return formatSlugString(value)
+    }
+
+    if (shouldGenerate && !shouldGenerate(data)) {
+      return value
+    }
+
+    // If no slug, generate from the source field
+    const source = data?.[fieldName]
+    if (source && typeof source === 'string') {
+      return formatSlugString(source)
+    }
+
+    return value
+  }
+}
+
 /**
  * Field hook for formatting slugs
  *
@@ -36,18 +82,6 @@ export function formatSlugString(value: string): string {
  * }
  * ```
  */
-export const formatSlug: FieldHook = ({ value, data }) => {
-  // If slug is manually provided, format it
-  if (typeof value === 'string' && value.length > 0) {
-    return formatSlugString(value)
-  }
-
-  // If no slug, generate from title
-  if (data?.title && typeof data.title === 'string') {
-    return formatSlugString(data.title)
-  }
-
-  return value
-}
+export const formatSlug: FieldHook = formatSlugFrom('title')
 
 export default formatSlug
@@ -9,13 +9,38 @@
  */
 
 // Field hooks
-export { formatSlug, formatSlugString } from './formatSlug'
+export { formatSlug, formatSlugFrom, formatSlugString } from './formatSlug'
 
 // Collection hooks
+export { migrateAuthorToContributors } from './migrateAuthorToContributors'
+export { populateExcerpt } from './populateExcerpt'
 export { populatePublishedAt } from './populatePublishedAt'
+export { populateReadingTime } from './populateReadingTime'
+export { queueScheduledPublishing } from './queueScheduledPublishing'
 export {
   revalidatePathAfterChange,
   revalidatePathAfterDelete,
   revalidatePage,
+  revalidatePageAfterDelete,
   revalidatePost,
+  revalidatePostAfterDelete,
+  revalidateCategory,
+  revalidateCategoryAfterDelete,
+  revalidateAuthor,
+  revalidateAuthorAfterDelete,
+  revalidateTagArchive,
+  revalidateTagArchiveAfterDelete,
+  revalidateSeries,
+  revalidateSeriesAfterDelete,
 } from './revalidatePath'
+export { revalidateRedirects, revalidateRedirectsAfterDelete } from './revalidateRedirects'
+export { trackSlugHistory, createSlugRedirect } from './slugRedirects'
+export { syncSearchIndex, removeFromSearchIndex } from './syncSearchIndex'
+
+// Global hooks
+export {
+  revalidateGlobalAfterChange,
+  revalidateHeader,
+  revalidateFooter,
+  revalidateSiteSettings,
+} from './revalidateGlobal'
@@ -0,0 +1,52 @@
+import type { CollectionBeforeValidateHook } from 'payload'
+
+import { moveAuthorToContributors } from '@/utilities/contributors'
+
+/**
+ * Before validate hook that moves a post's legacy `author` into `contributors`
+ *
+ * Posts used to have a single required `author`. When a post that still has
+ * one is saved, it's moved with moveAuthorToContributors.
+ *
+ * Runs before validation so migrated posts satisfy the required
+ * contributors. `pnpm contributors:migrate` migrates all other posts;
+ * remove this hook with the legacy field once it has run.
+ *
+ * @example
+ * ```ts
+ * export const Posts: CollectionConfig = {
+ *   slug: 'posts',
+ *   hooks: {
+ *     beforeValidate: [migrateAuthorToContributors],
+ *   },
+ *   // ...
+ * }
+ * ```
+ */
+export const migrateAuthorToContributors: CollectionBeforeValidateHook = ({
+  data,
+  originalDoc,
+  req,
+}) => {
+  if (!data) {
+    return data
+  }
+
+  // Partial updates may leave out fields that are only on the saved document
+  const migrated = moveAuthorToContributors({
+    author: data.author ?? originalDoc?.author,
+    contributors: data.contributors ?? originalDoc?.contributors,
+  })
+
+  if (!migrated) {
+    return data
+  }
+
+  if (migrated.contributors) {
+    req.payload.logger.info(`Moved the author of post ${originalDoc?.id ?? '(new)'} to its contributors`)
+  }
+
+  return { ...data, ...migrated }
+}
+
+export default migrateAuthorToContributors
@@ -0,0 +1,38 @@
+import type { CollectionBeforeChangeHook } from 'payload'
+
+import { generateExcerpt } from '@/utilities/excerpt'
+
+/**
+ * Before change hook that generates a post's excerpt from its content
+ *
+ * The excerpt is generated from the first paragraphs of `content` when it
+ * is empty, and kept up to date while it still matches the excerpt the
+ * previous content would have generated. Any other excerpt was written by
+ * hand and is never replaced.
+ *
+ * @example
+ * ```ts
+ * export const Posts: CollectionConfig = {
+ *   slug: 'posts',
+ *   hooks: {
+ *     beforeChange: [populateExcerpt],
+ *   },
+ *   // ...
+ * }
+ * ```
+ */
+export const populateExcerpt: CollectionBeforeChangeHook = ({ data, originalDoc }) => {
+  const excerpt: string = (data.excerpt !== undefined ? data.excerpt : originalDoc?.excerpt)?.trim() ?? ''
+  const isGenerated = !excerpt || excerpt === generateExcerpt(originalDoc?.content)
+
+  if (!isGenerated) {
+    return data
+  }
+
+  return {
+    ...data,
+    excerpt: generateExcerpt(data.content ?? originalDoc?.content) || null,
+  }
+}
+
+export default populateExcerpt
@@ -0,0 +1,35 @@
+import type { CollectionBeforeChangeHook } from 'payload'
+
+import { getReadingStats } from '@/utilities/lexicalText'
+
+/**
+ * Before change hook that stores the word count and reading time of a post
+ *
+ * Both are computed from the `content` rich text, including blocks embedded
+ * in it, so listings can show reading times without loading the content.
+ * Saves that don't include the content (e.g. scheduled publishing) reuse the
+ * stored content.
+ *
+ * @example
+ * ```ts
+ * export const Posts: CollectionConfig = {
+ *   slug: 'posts',
+ *   hooks: {
+ *     beforeChange: [populateReadingTime],
+ *   },
+ *   // ...
+ * }
+ * ```
+ */
+export const populateReadingTime: CollectionBeforeChangeHook = ({ data, originalDoc }) => {
+  const content = data.content ?? originalDoc?.content
+  const { wordCount, readingTime } = getReadingStats(content)
+
+  return {
+    ...data,
+    wordCount,
+    readingTime,
+  }
+}
+
+export default populateReadingTime
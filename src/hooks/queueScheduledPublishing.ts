@@ -0,0 +1,101 @@
+import type { CollectionAfterChangeHook } from 'payload'
+
+import { SCHEDULED_QUEUE } from '@/jobs'
+
+/**
+ * A publish or unpublish action due at a future date
+ */
+interface ScheduledAction {
+  action: 'publish' | 'unpublish'
+  date: string | null | undefined
+  previousDate: string | null | undefined
+  /** Whether the action still has anything to do for this document */
+  applies: boolean
+}
+
+/**
+ * After change hook that schedules publishing and unpublishing jobs
+ *
+ * Queues a `publishScheduled` job on the 'scheduled' queue when:
+ * 1. A draft has a `publishedAt` date in the future (publish at that date)
+ * 2. A document has an `expiresAt` date in the future (unpublish at that date)
+ *
+ * Jobs are only queued when the date changes, so autosaves don't pile up
+ * duplicates. Jobs for an outdated date are skipped by the task itself.
+ * Changes made by the scheduler (`context.scheduledPublishing`) are ignored.
+ *
+ * @example
+ * ```ts
+ * export const MyCollection: CollectionConfig = {
+ *   slug: 'my-collection',
+ *   hooks: {
+ *     afterChange: [queueScheduledPublishing],
+ *   },
+ *   // ...
+ * }
+ * ```
+ */
+export const queueScheduledPublishing: CollectionAfterChangeHook = async ({
+  collection,
+  context,
+  doc,
+  previousDoc,
+  req,
+}) => {
+  if (context.scheduledPublishing) {
+    return doc
+  }
+
+  if (collection.slug !== 'pages' && collection.slug !== 'posts') {
+    return doc
+  }
+
+  const now = Date.now()
+  const actions: ScheduledAction[] = [
+    {
+      action: 'publish',
+      date: doc.publishedAt,
+      previousDate: previousDoc?.publishedAt,
+      applies: doc._status === 'draft',
+    },
+    {
+      action: 'unpublish',
+      date: doc.expiresAt,
+      previousDate: previousDoc?.expiresAt,
+      applies: true,
+    },
+  ]
+
+  for (const { action, date, previousDate, applies } of actions) {
+    if (!applies || !date || date === previousDate || new Date(date).getTime() <= now) {
+      continue
+    }
+
+    try {
+      await req.payload.jobs.queue({
+        task: 'publishScheduled',
+        queue: SCHEDULED_QUEUE,
+        waitUntil: new Date(date),
+        input: {
+          doc: {
+            relationTo: collection.slug,
+            value: doc.id,
+          },
+          action,
+          scheduledFor: date,
+        },
+        req,
+      })
+
+      req.payload.logger.info(`Scheduled ${action} of ${collection.slug} ${doc.id} for ${date}`)
+    } catch (error) {
+      req.payload.logger.error(
+        `Failed to schedule ${action} of ${collection.slug} ${doc.id}: ${String(error)}`
+      )
+    }
+  }
+
+  return doc
+}
+
+export default queueScheduledPublishing
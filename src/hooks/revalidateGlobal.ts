@@ -0,0 +1,72 @@
+import { revalidateTag } from 'next/cache'
+import type { GlobalAfterChangeHook } from 'payload'
+
+import { getGlobalCacheTag } from '@/utilities/cacheTags'
+
+type RevalidateGlobalOptions = {
+  /**
+   * Cache tags to revalidate when the global changes
+   * In Next.js 16, tags are revalidated with 'max' cacheLife profile for SWR behavior
+   */
+  tags: string[]
+}
+
+/**
+ * Creates an afterChange hook that revalidates Next.js cache tags for a global
+ *
+ * Globals are read in the frontend layout through tagged cached loaders
+ * (see `getCachedGlobal`), so revalidating the tag refreshes every page
+ * that renders the global.
+ *
+ * @param options - Configuration for tag revalidation
+ * @returns GlobalAfterChangeHook
+ *
+ * @example
+ * ```ts
+ * export const Header: GlobalConfig = {
+ *   slug: 'header',
+ *   hooks: {
+ *     afterChange: [revalidateGlobalAfterChange({ tags: ['global-header'] })],
+ *   },
+ * }
+ * ```
+ */
+export function revalidateGlobalAfterChange(
+  options: RevalidateGlobalOptions,
+): GlobalAfterChangeHook {
+  return async ({ doc, req: { payload } }) => {
+    try {
+      // Revalidate cache tags (using 'max' cacheLife for SWR behavior in Next.js 16)
+      for (const tag of options.tags) {
+        revalidateTag(tag, 'max')
+        payload.logger.info(`Revalidated tag: ${tag}`)
+      }
+    } catch (error) {
+      // Log error but don't fail the operation
+      payload.logger.error(`Failed to revalidate: ${String(error)}`)
+    }
+
+    return doc
+  }
+}
+
+/**
+ * Pre-configured afterChange hook for the Header global
+ */
+export const revalidateHeader: GlobalAfterChangeHook = revalidateGlobalAfterChange({
+  tags: [getGlobalCacheTag('header')],
+})
+
+/**
+ * Pre-configured afterChange hook for the Footer global
+ */
+export const revalidateFooter: GlobalAfterChangeHook = revalidateGlobalAfterChange({
+  tags: [getGlobalCacheTag('footer')],
+})
+
+/**
+ * Pre-configured afterChange hook for the SiteSettings global
+ */
+export const revalidateSiteSettings: GlobalAfterChangeHook = revalidateGlobalAfterChange({
+  tags: [getGlobalCacheTag('site-settings')],
+})
@@ -1,13 +1,23 @@
 import { revalidatePath as nextRevalidatePath, revalidateTag } from 'next/cache'
-import type { CollectionAfterChangeHook, CollectionAfterDeleteHook } from 'payload'
+import type { CollectionAfterChangeHook, CollectionAfterDeleteHook, PayloadRequest } from 'payload'
+
+import { getSitemapCacheTag } from '@/utilities/cacheTags'
+import { getArchivePath, getDocumentPath } from '@/utilities/getDocumentPath'
+
+/** Path(s) returned by getPath, empty values are skipped */
+type RevalidatePaths = string | null | Array<string | null>
 
 type RevalidatePathOptions = {
   /**
    * Function to get the path(s) to revalidate based on the document
    * @param doc - The document that was changed
+   * @param req - The request, for looking up related documents
    * @returns Path or array of paths to revalidate
    */
-  getPath: (doc: Record<string, unknown>) => string | string[]
+  getPath: (
+    doc: Record<string, unknown>,
+    req: PayloadRequest,
+  ) => RevalidatePaths | Promise<RevalidatePaths>
   /**
    * Optional cache tags to revalidate
    * In Next.js 16, tags are revalidated with 'max' cacheLife profile for SWR behavior
@@ -15,12 +25,37 @@ type RevalidatePathOptions = {
   tags?: string[]
 }
 
+/**
+ * Whether a document is publicly visible
+ * Documents without drafts have no _status and are always public
+ */
+function isPublished(doc: Record<string, unknown>): boolean {
+  return doc._status === undefined || doc._status === 'published'
+}
+
+/**
+ * Adds the result of getPath to a set of paths, skipping empty values
+ */
+function addPaths(paths: Set<string>, value: RevalidatePaths): void {
+  for (const path of Array.isArray(value) ? value : [value]) {
+    if (path) {
+      paths.add(path)
+    }
+  }
+}
+
 /**
  * Creates an afterChange hook that revalidates Next.js paths
  *
  * This hook triggers Next.js ISR revalidation when content changes,
  * ensuring that cached pages are updated with the latest content.
  *
+ * Paths are computed for both the new and the previous version:
+ * - Published: the document's current paths
+ * - Previously published: the old paths, which covers renamed slugs,
+ *   moved categories, and unpublished documents
+ * - Draft-only saves of never-published documents revalidate nothing
+ *
  * @param options - Configuration for path revalidation
  * @returns CollectionAfterChangeHook
  *
@@ -55,18 +90,30 @@ type RevalidatePathOptions = {
 export function revalidatePathAfterChange(
   options: RevalidatePathOptions,
 ): CollectionAfterChangeHook {
-  return async ({ doc, req: { payload }, operation }) => {
+  return async ({ doc, previousDoc, req, operation }) => {
+    const { payload } = req
+
     if (operation === 'create' || operation === 'update') {
       try {
-        const paths = options.getPath(doc)
-        const pathArray = Array.isArray(paths) ? paths : [paths]
+        const paths = new Set<string>()
+
+        if (isPublished(doc)) {
+          addPaths(paths, await options.getPath(doc, req))
+        }
+
+        if (operation === 'update' && previousDoc && isPublished(previousDoc)) {
+          addPaths(paths, await options.getPath(previousDoc, req))
+        }
+
+        // Nothing public changed (e.g. autosave of an unpublished draft)
+        if (paths.size === 0) {
+          return doc
+        }
 
         // Revalidate each path
-        for (const path of pathArray) {
-          if (path) {
-            nextRevalidatePath(path)
-            payload.logger.info(`Revalidated path: ${path}`)
-          }
+        for (const path of paths) {
+          nextRevalidatePath(path)
+          payload.logger.info(`Revalidated path: ${path}`)
         }
 
         // Revalidate cache tags if provided (using 'max' cacheLife for SWR behavior in Next.js 16)
@@ -97,17 +144,17 @@ export function revalidatePathAfterChange(
 export function revalidatePathAfterDelete(
   options: RevalidatePathOptions,
 ): CollectionAfterDeleteHook {
-  return async ({ doc, req: { payload } }) => {
+  return async ({ doc, req }) => {
+    const { payload } = req
+
     try {
-      const paths = options.getPath(doc)
-      const pathArray = Array.isArray(paths) ? paths : [paths]
+      const paths = new Set<string>()
+      addPaths(paths, await options.getPath(doc, req))
 
       // Revalidate each path
-      for (const path of pathArray) {
-        if (path) {
-          nextRevalidatePath(path)
-          payload.logger.info(`Revalidated path after delete: ${path}`)
-        }
+      for (const path of paths) {
+        nextRevalidatePath(path)
+        payload.logger.info(`Revalidated path after delete: ${path}`)
       }
 
       // Revalidate cache tags if provided (using 'max' cacheLife for SWR behavior in Next.js 16)
@@ -126,17 +173,307 @@ export function revalidatePathAfterDelete(
   }
 }
 
+/**
+ * Gets the category archive paths for a post, including ancestor categories
+ * Uses the breadcrumb URLs maintained by the nested docs plugin
+ */
+async function getCategoryPaths(
+  doc: Record<string, unknown>,
+  req: PayloadRequest,
+): Promise<string[]> {
+  const categories = Array.isArray(doc.categories) ? doc.categories : []
+  const ids = categories.map((category) =>
+    typeof category === 'object' && category !== null ? category.id : category,
+  )
+
+  if (ids.length === 0) {
+    return []
+  }
+
+  const result = await req.payload.find({
+    collection: 'categories',
+    where: {
+      id: {
+        in: ids,
+      },
+    },
+    depth: 0,
+    pagination: false,
+    req,
+  })
+
+  return result.docs.flatMap((category) =>
+    (category.breadcrumbs ?? []).flatMap((crumb) => (crumb.url ? [crumb.url] : [])),
+  )
+}
+
+/**
+ * Gets the tag archive paths for a post
+ */
+async function getTagPaths(doc: Record<string, unknown>, req: PayloadRequest): Promise<Array<string | null>> {
+  const tags = Array.isArray(doc.tags) ? doc.tags : []
+  const ids = tags.map((tag) => (typeof tag === 'object' && tag !== null ? tag.id : tag))
+
+  if (ids.length === 0) {
+    return []
+  }
+
+  const result = await req.payload.find({
+    collection: 'tags',
+    where: {
+      id: {
+        in: ids,
+      },
+    },
+    depth: 0,
+    pagination: false,
+    select: {
+      slug: true,
+    },
+    req,
+  })
+
+  return result.docs.map((tag) => getDocumentPath('tags', tag.slug))
+}
+
+/**
+ * Gets the date archive paths (year and month) for a post, in UTC like the
+ * archive pages
+ */
+function getArchivePaths(doc: Record<string, unknown>): string[] {
+  const publishedAt = typeof doc.publishedAt === 'string' ? new Date(doc.publishedAt) : null
+
+  if (!publishedAt || Number.isNaN(publishedAt.getTime())) {
+    return []
+  }
+
+  const year = publishedAt.getUTCFullYear()
+  return [getArchivePath(year), getArchivePath(year, publishedAt.getUTCMonth() + 1)]
+}
+
+/**
+ * Gets the paths of the published posts in a series
+ */
+async function getSeriesPostPaths(
+  doc: Record<string, unknown>,
+  req: PayloadRequest,
+): Promise<Array<string | null>> {
+  const posts = Array.isArray(doc.posts) ? doc.posts : []
+  const ids = posts.map((post) => (typeof post === 'object' && post !== null ? post.id : post))
+
+  if (ids.length === 0) {
+    return []
+  }
+
+  const result = await req.payload.find({
+    collection: 'posts',
+    where: {
+      and: [{ id: { in: ids } }, { _status: { equals: 'published' } }],
+    },
+    depth: 0,
+    pagination: false,
+    select: {
+      slug: true,
+    },
+    req,
+  })
+
+  return result.docs.map((post) => getDocumentPath('posts', post.slug))
+}
+
+/**
+ * Gets the landing page of the series a post belongs to and the other posts
+ * in it, whose series navigators list the post
+ */
+async function getPostSeriesPaths(
+  doc: Record<string, unknown>,
+  req: PayloadRequest,
+): Promise<Array<string | null>> {
+  const result = await req.payload.find({
+    collection: 'series',
+    where: {
+      posts: {
+        in: [doc.id],
+      },
+    },
+    depth: 0,
+    pagination: false,
+    select: {
+      slug: true,
+      posts: true,
+    },
+    req,
+  })
+
+  const paths = await Promise.all(
+    result.docs.map(async (series) => [
+      getDocumentPath('series', series.slug),
+      ...(await getSeriesPostPaths(series, req)),
+    ]),
+  )
+
+  return paths.flat()
+}
+
+/**
+ * Gets the paths of the published posts a user contributed to, whose bylines
+ * show the user's name and avatar
+ */
+async function getAuthorPostPaths(
+  doc: Record<string, unknown>,
+  req: PayloadRequest,
+): Promise<Array<string | null>> {
+  const result = await req.payload.find({
+    collection: 'posts',
+    where: {
+      and: [
+        { 'contributors.user': { equals: doc.id } },
+        { _status: { equals: 'published' } },
+      ],
+    },
+    depth: 0,
+    pagination: false,
+    select: {
+      slug: true,
+    },
+    req,
+  })
+
+  return result.docs.map((post) => getDocumentPath('posts', post.slug))
+}
+
+/**
+ * Paths affected by a page: its own route and the home page
+ */
+const pageRevalidation: RevalidatePathOptions = {
+  getPath: (doc) => [getDocumentPath('pages', doc.slug as string | undefined), '/'],
+  tags: [getSitemapCacheTag('pages')],
+}
+
+/**
+ * Paths affected by a post: its own route, the blog listing, the home page,
+ * the archive pages of its categories and tags, its date archives, and its
+ * series
+ */
+const postRevalidation: RevalidatePathOptions = {
+  getPath: async (doc, req) => [
+    getDocumentPath('posts', doc.slug as string | undefined),
+    '/posts',
+    '/',
+    ...(await getCategoryPaths(doc, req)),
+    ...(await getTagPaths(doc, req)),
+    ...getArchivePaths(doc),
+    ...(await getPostSeriesPaths(doc, req)),
+  ],
+  tags: ['posts-list', getSitemapCacheTag('posts')],
+}
+
+/**
+ * Paths affected by a category: its own archive page
+ */
+const categoryRevalidation: RevalidatePathOptions = {
+  getPath: (doc) => {
+    const breadcrumbs = Array.isArray(doc.breadcrumbs) ? doc.breadcrumbs : []
+    return (breadcrumbs.at(-1) as { url?: string | null } | undefined)?.url ?? null
+  },
+  tags: [getSitemapCacheTag('categories')],
+}
+
+/**
+ * Paths affected by a tag: its own archive page and the blog listing with
+ * the tag cloud
+ */
+const tagRevalidation: RevalidatePathOptions = {
+  getPath: (doc) => [getDocumentPath('tags', doc.slug as string | undefined), '/posts'],
+  tags: ['posts-list', getSitemapCacheTag('tags')],
+}
+
+/**
+ * Paths affected by a series: its landing page and its posts
+ */
+const seriesRevalidation: RevalidatePathOptions = {
+  getPath: async (doc, req) => [
+    getDocumentPath('series', doc.slug as string | undefined),
+    ...(await getSeriesPostPaths(doc, req)),
+  ],
+  tags: [getSitemapCacheTag('series')],
+}
+
+/**
+ * Paths affected by a user: their author page and the posts they wrote
+ */
+const authorRevalidation: RevalidatePathOptions = {
+  getPath: async (doc, req) => [
+    getDocumentPath('users', doc.slug as string | undefined),
+    ...(await getAuthorPostPaths(doc, req)),
+  ],
+  tags: [getSitemapCacheTag('users')],
+}
+
 /**
  * Pre-configured afterChange hook for Pages collection
  */
-export const revalidatePage: CollectionAfterChangeHook = revalidatePathAfterChange({
-  getPath: (doc) => `/${doc.slug === 'home' ? '' : doc.slug}`,
-})
+export const revalidatePage: CollectionAfterChangeHook = revalidatePathAfterChange(pageRevalidation)
+
+/**
+ * Pre-configured afterDelete hook for Pages collection
+ */
+export const revalidatePageAfterDelete: CollectionAfterDeleteHook =
+  revalidatePathAfterDelete(pageRevalidation)
 
 /**
  * Pre-configured afterChange hook for Posts collection
  */
-export const revalidatePost: CollectionAfterChangeHook = revalidatePathAfterChange({
-  getPath: (doc) => `/posts/${doc.slug}`,
-  tags: ['posts-list'],
-})
+export const revalidatePost: CollectionAfterChangeHook = revalidatePathAfterChange(postRevalidation)
+
+/**
+ * Pre-configured afterDelete hook for Posts collection
+ */
+export const revalidatePostAfterDelete: CollectionAfterDeleteHook =
+  revalidatePathAfterDelete(postRevalidation)
+
+/**
+ * Pre-configured afterChange hook for Categories collection
+ */
+export const revalidateCategory: CollectionAfterChangeHook =
+  revalidatePathAfterChange(categoryRevalidation)
+
+/**
+ * Pre-configured afterDelete hook for Categories collection
+ */
+export const revalidateCategoryAfterDelete: CollectionAfterDeleteHook =
+  revalidatePathAfterDelete(categoryRevalidation)
+
+/**
+ * Pre-configured afterChange hook for Users collection
+ */
+export const revalidateAuthor: CollectionAfterChangeHook =
+  revalidatePathAfterChange(authorRevalidation)
+
+/**
+ * Pre-configured afterDelete hook for Users collection
+ */
+export const revalidateAuthorAfterDelete: CollectionAfterDeleteHook =
+  revalidatePathAfterDelete(authorRevalidation)
+
+/**
+ * Pre-configured afterChange hook for Tags collection
+ */
+export const revalidateTagArchive: CollectionAfterChangeHook = revalidatePathAfterChange(tagRevalidation)
+
+/**
+ * Pre-configured afterDelete hook for Tags collection
+ */
+export const revalidateTagArchiveAfterDelete: CollectionAfterDeleteHook =
+  revalidatePathAfterDelete(tagRevalidation)
+
+/**
+ * Pre-configured afterChange hook for Series collection
+ */
+export const revalidateSeries: CollectionAfterChangeHook = revalidatePathAfterChange(seriesRevalidation)
+
+/**
+ * Pre-configured afterDelete hook for Series collection
+ */
+export const revalidateSeriesAfterDelete: CollectionAfterDeleteHook =
+  revalidatePathAfterDelete(seriesRevalidation)
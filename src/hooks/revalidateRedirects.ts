@@ -0,0 +1,31 @@
+import type { CollectionAfterChangeHook, CollectionAfterDeleteHook } from 'payload'
+
+import { invalidateRedirectsCache } from '@/utilities/redirects'
+
+/**
+ * After change hook for the Redirects collection
+ *
+ * Clears the in-memory redirects cache used by the frontend proxy,
+ * so new or edited redirects take effect on the next request.
+ */
+export const revalidateRedirects: CollectionAfterChangeHook = ({ doc, req: { payload } }) => {
+  invalidateRedirectsCache()
+  payload.logger.info(`Cleared redirects cache after change: ${String(doc.from)}`)
+
+  return doc
+}
+
+/**
+ * After delete hook for the Redirects collection
+ *
+ * Clears the in-memory redirects cache so deleted redirects stop applying.
+ */
+export const revalidateRedirectsAfterDelete: CollectionAfterDeleteHook = ({
+  doc,
+  req: { payload },
+}) => {
+  invalidateRedirectsCache()
+  payload.logger.info(`Cleared redirects cache after delete: ${String(doc.from)}`)
+
+  return doc
+}
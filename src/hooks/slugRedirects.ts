@@ -0,0 +1,197 @@
+import type { CollectionAfterChangeHook, CollectionBeforeChangeHook } from 'payload'
+
+import { getDocumentPath } from '@/utilities/getDocumentPath'
+
+/**
+ * Collections whose documents can be redirect targets
+ * Must match the `collections` option of the redirects plugin
+ */
+type RedirectableCollection = 'pages' | 'posts'
+
+/**
+ * Slug history entry stored on the document
+ */
+interface SlugHistoryEntry {
+  slug: string
+  changedAt?: string | null
+  id?: string | null
+}
+
+/**
+ * Context key used to hand the previous slug from beforeChange to afterChange
+ */
+const PREVIOUS_SLUG_CONTEXT_KEY = 'previousSlug'
+
+/**
+ * Before change hook that records slug changes on published documents
+ *
+ * When a published document is published again with a different slug,
+ * the previously published slug is appended to `slugHistory` and passed
+ * on to `createSlugRedirect` through the request context.
+ *
+ * Draft saves are ignored: the public URL only changes once the new slug
+ * is published.
+ *
+ * @example
+ * ```ts
+ * export const Posts: CollectionConfig = {
+ *   slug: 'posts',
+ *   hooks: {
+ *     beforeChange: [trackSlugHistory],
+ *     afterChange: [createSlugRedirect],
+ *   },
+ * }
+ * ```
+ */
+export const trackSlugHistory: CollectionBeforeChangeHook = async ({
+  collection,
+  context,
+  data,
+  operation,
+  originalDoc,
+  req,
+}) => {
+  if (operation !== 'update' || data._status !== 'published' || !originalDoc?.id) {
+    return data
+  }
+
+  const newSlug = data.slug ?? originalDoc.slug
+
+  // Look up the currently published version (originalDoc may be a newer draft)
+  const published = await req.payload.findByID({
+    collection: collection.slug as RedirectableCollection,
+    id: originalDoc.id,
+    depth: 0,
+    draft: false,
+    overrideAccess: true,
+    req,
+  })
+
+  const previousSlug = published?._status === 'published' ? published.slug : null
+
+  if (!previousSlug || previousSlug === newSlug) {
+    return data
+  }
+
+  const history: SlugHistoryEntry[] = data.slugHistory ?? originalDoc.slugHistory ?? []
+
+  context[PREVIOUS_SLUG_CONTEXT_KEY] = previousSlug
+
+  return {
+    ...data,
+    slugHistory: [
+      // Drop duplicates and the slug being restored, if the document is renamed back
+      ...history.filter((entry) => entry.slug !== previousSlug && entry.slug !== newSlug),
+      {
+        slug: previousSlug,
+        changedAt: new Date().toISOString(),
+      },
+    ],
+  }
+}
+
+/**
+ * After change hook that redirects the previous URL of a renamed document
+ *
+ * Creates (or updates) a 301 entry in the Redirects collection pointing
+ * the old path to the document itself. Because the redirect references the
+ * document rather than its URL, older redirects to the same document always
+ * resolve to the current slug, so chains like A → B → C collapse to A → C.
+ *
+ * Also:
+ * - Re-points custom URL redirects that targeted the old path
+ * - Removes redirects from the new path, which would otherwise loop
+ */
+export const createSlugRedirect: CollectionAfterChangeHook = async ({
+  collection,
+  context,
+  doc,
+  req,
+}) => {
+  const previousSlug = context[PREVIOUS_SLUG_CONTEXT_KEY]
+
+  if (typeof previousSlug !== 'string') {
+    return doc
+  }
+
+  // Only handle the rename once, even if nested operations re-run hooks
+  delete context[PREVIOUS_SLUG_CONTEXT_KEY]
+
+  const { payload } = req
+  const relationTo = collection.slug as RedirectableCollection
+  const fromPath = getDocumentPath(relationTo, previousSlug)
+  const newPath = getDocumentPath(relationTo, doc.slug)
+
+  if (!fromPath || !newPath) {
+    return doc
+  }
+
+  const target = {
+    type: 'reference' as const,
+    reference: {
+      relationTo,
+      value: doc.id,
+    },
+  }
+
+  try {
+    // Create or update the redirect from the old path
+    const existing = await payload.find({
+      collection: 'redirects',
+      where: {
+        from: {
+          equals: fromPath,
+        },
+      },
+      depth: 0,
+      limit: 1,
+      req,
+    })
+
+    if (existing.docs.length > 0) {
+      await payload.update({
+        collection: 'redirects',
+        id: existing.docs[0].id,
+        data: { to: target, type: '301' },
+        req,
+      })
+    } else {
+      await payload.create({
+        collection: 'redirects',
+        data: { from: fromPath, to: target, type: '301' },
+        req,
+      })
+    }
+
+    // Collapse chains that reached the old path through a custom URL
+    await payload.update({
+      collection: 'redirects',
+      where: {
+        and: [
+          { 'to.type': { equals: 'custom' } },
+          { 'to.url': { equals: fromPath } },
+        ],
+      },
+      data: { to: target },
+      req,
+    })
+
+    // The new path is live again, so any redirect away from it would loop
+    await payload.delete({
+      collection: 'redirects',
+      where: {
+        from: {
+          equals: newPath,
+        },
+      },
+      req,
+    })
+
+    payload.logger.info(`Created redirect for renamed ${relationTo} document: ${fromPath} -> ${newPath}`)
+  } catch (error) {
+    // Log error but don't fail the operation
+    payload.logger.error(`Failed to create redirect for ${fromPath}: ${String(error)}`)
+  }
+
+  return doc
+}
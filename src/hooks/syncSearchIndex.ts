@@ -0,0 +1,142 @@
+import type {
+  CollectionAfterChangeHook,
+  CollectionAfterDeleteHook,
+  PayloadRequest,
+  Where,
+} from 'payload'
+
+import { buildSearchEntry, type IndexableDocument, type SearchCollection } from '@/utilities/search'
+
+/**
+ * Where clause matching the index entry of a document
+ */
+function entryWhere(collection: SearchCollection, id: number | string): Where {
+  return {
+    and: [
+      { docCollection: { equals: collection } },
+      { docId: { equals: Number(id) } },
+    ],
+  }
+}
+
+/**
+ * Removes the index entry of a document, if any
+ */
+async function removeEntry(
+  collection: SearchCollection,
+  id: number | string,
+  req: PayloadRequest,
+): Promise<void> {
+  await req.payload.delete({
+    collection: 'search-index',
+    where: entryWhere(collection, id),
+    overrideAccess: true,
+    req,
+  })
+}
+
+/**
+ * Creates or updates the index entry of a published document
+ *
+ * @param collection - Collection of the document
+ * @param doc - The published document (depth 0 is enough)
+ * @param req - The request, whose transaction the change runs in
+ */
+export async function indexDocument(
+  collection: SearchCollection,
+  doc: IndexableDocument,
+  req: PayloadRequest,
+): Promise<void> {
+  const data = buildSearchEntry(collection, doc)
+  const existing = await req.payload.find({
+    collection: 'search-index',
+    where: entryWhere(collection, doc.id),
+    depth: 0,
+    limit: 1,
+    overrideAccess: true,
+    req,
+  })
+
+  if (existing.docs.length > 0) {
+    await req.payload.update({
+      collection: 'search-index',
+      id: existing.docs[0].id,
+      data,
+      overrideAccess: true,
+      req,
+    })
+  } else {
+    await req.payload.create({
+      collection: 'search-index',
+      data,
+      overrideAccess: true,
+      req,
+    })
+  }
+}
+
+/**
+ * After change hook that keeps the search index in sync with published content
+ *
+ * - Published: creates or updates the document's search-index entry
+ * - Draft save: re-reads the published version, so edits to a draft never
+ *   reach the index, and an unpublished document is removed from it
+ *
+ * @example
+ * ```ts
+ * export const Posts: CollectionConfig = {
+ *   slug: 'posts',
+ *   hooks: {
+ *     afterChange: [syncSearchIndex],
+ *     afterDelete: [removeFromSearchIndex],
+ *   },
+ * }
+ * ```
+ */
+export const syncSearchIndex: CollectionAfterChangeHook = async ({ collection, doc, req }) => {
+  const { payload } = req
+  const slug = collection.slug as SearchCollection
+
+  try {
+    const published =
+      doc._status === 'published'
+        ? doc
+        : await payload.findByID({
+            collection: slug,
+            id: doc.id,
+            depth: 0,
+            draft: false,
+            overrideAccess: true,
+            disableErrors: true,
+            req,
+          })
+
+    if (published?._status !== 'published') {
+      await removeEntry(slug, doc.id, req)
+      return doc
+    }
+
+    await indexDocument(slug, published, req)
+  } catch (error) {
+    // Log error but don't fail the operation
+    payload.logger.error(`Failed to update search index for ${slug} ${doc.id}: ${String(error)}`)
+  }
+
+  return doc
+}
+
+/**
+ * After delete hook that removes a deleted document from the search index
+ */
+export const removeFromSearchIndex: CollectionAfterDeleteHook = async ({ collection, doc, req }) => {
+  try {
+    await removeEntry(collection.slug as SearchCollection, doc.id, req)
+  } catch (error) {
+    // Log error but don't fail the operation
+    req.payload.logger.error(
+      `Failed to remove ${collection.slug} ${doc.id} from search index: ${String(error)}`,
+    )
+  }
+
+  return doc
+}
@@ -0,0 +1,21 @@
+import { publishScheduled } from './publishScheduled'
+
+/**
+ * Payload Jobs Queue Configuration
+ *
+ * Background tasks registered in payload.config.ts.
+ *
+ * 1. Publish Scheduled (publishScheduled)
+ *    - Publishes drafts at their `publishedAt` date
+ *    - Unpublishes documents at their `expiresAt` date
+ *    - Runs on the 'scheduled' queue
+ *
+ * Run the queue locally with `pnpm jobs:worker`.
+ */
+
+/** Queue used for scheduled publishing jobs */
+export const SCHEDULED_QUEUE = 'scheduled'
+
+export const tasks = [publishScheduled]
+
+export default tasks
@@ -0,0 +1,119 @@
+import type { TaskConfig } from 'payload'
+
+/**
+ * Collections that support scheduled publishing
+ */
+type ScheduledCollection = 'pages' | 'posts'
+
+/**
+ * Publish Scheduled Task
+ *
+ * Publishes a draft at its `publishedAt` date, or unpublishes a document at
+ * its `expiresAt` date. Jobs are queued by the `queueScheduledPublishing`
+ * hook with `waitUntil` set to the scheduled date.
+ *
+ * The document is re-read when the job runs, so rescheduled or manually
+ * (un)published documents are skipped instead of being changed twice.
+ * Publishing goes through `payload.update`, so the collection's
+ * afterChange hooks (revalidatePage / revalidatePost) run as usual.
+ */
+export const publishScheduled: TaskConfig<'publishScheduled'> = {
+  slug: 'publishScheduled',
+  label: 'Publish Scheduled Content',
+  retries: 2,
+  inputSchema: [
+    {
+      name: 'doc',
+      type: 'relationship',
+      relationTo: ['pages', 'posts'],
+      required: true,
+    },
+    {
+      name: 'action',
+      type: 'select',
+      options: ['publish', 'unpublish'],
+      required: true,
+    },
+    {
+      name: 'scheduledFor',
+      type: 'date',
+      required: true,
+    },
+  ],
+  outputSchema: [
+    {
+      name: 'result',
+      type: 'select',
+      options: ['published', 'unpublished', 'skipped'],
+      required: true,
+    },
+  ],
+  handler: async ({ input, req }) => {
+    const { payload } = req
+    const collection = input.doc.relationTo as ScheduledCollection
+    const id = typeof input.doc.value === 'object' ? input.doc.value.id : input.doc.value
+
+    // Latest version, including unpublished changes
+    const latest = await payload.findByID({
+      collection,
+      id,
+      depth: 0,
+      draft: true,
+      overrideAccess: true,
+      disableErrors: true,
+      req,
+    })
+
+    const scheduledDate = input.action === 'publish' ? latest?.publishedAt : latest?.expiresAt
+
+    // Deleted, or the date was changed after this job was queued (a newer job handles it)
+    if (
+      !latest ||
+      !scheduledDate ||
+      new Date(scheduledDate).getTime() !== new Date(input.scheduledFor).getTime()
+    ) {
+      return { output: { result: 'skipped' } }
+    }
+
+    if (input.action === 'publish' && latest._status === 'published') {
+      return { output: { result: 'skipped' } }
+    }
+
+    if (input.action === 'unpublish') {
+      const published = await payload.findByID({
+        collection,
+        id,
+        depth: 0,
+        draft: false,
+        overrideAccess: true,
+        req,
+      })
+
+      if (published._status !== 'published') {
+        return { output: { result: 'skipped' } }
+      }
+    }
+
+    await payload.update({
+      collection,
+      id,
+      data: {
+        _status: input.action === 'publish' ? 'published' : 'draft',
+      },
+      depth: 0,
+      overrideAccess: true,
+      // Let hooks know this change comes from the scheduler
+      context: {
+        scheduledPublishing: true,
+      },
+      req,
+    })
+
+    const result = input.action === 'publish' ? 'published' : 'unpublished'
+    payload.logger.info(`Scheduled ${input.action}: ${collection} ${String(id)} ${result}`)
+
+    return { output: { result } }
+  },
+}
+
+export default publishScheduled
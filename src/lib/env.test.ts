@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest'
-import { env, getServerURL } from './env'
+import { env, getDeploymentEnvironment, getServerURL } from './env'
 
 describe('env validation', () => {
   describe('NEXT_PUBLIC_APP_NAME', () => {
@@ -55,3 +55,10 @@ describe('getServerURL', () => {
     expect(url).toMatch(/^https?:\/\//)
   })
 })
+
+describe('getDeploymentEnvironment', () => {
+  it('should return development outside Vercel and production builds', () => {
+    // Tests run with NODE_ENV=test and no VERCEL_ENV
+    expect(getDeploymentEnvironment()).toBe('development')
+  })
+})
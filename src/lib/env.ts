@@ -11,6 +11,8 @@ const serverEnvSchema = z.object({
   PAYLOAD_SECRET: z.string().min(16).optional(),
   // Vercel auto-populated URL (optional, used as fallback)
   VERCEL_PROJECT_PRODUCTION_URL: z.string().optional(),
+  // Vercel deployment environment: production, preview, or development
+  VERCEL_ENV: z.string().optional(),
 })
 
 /**
@@ -37,6 +39,7 @@ export const env = envSchema.parse({
   DATABASE_URL: process.env.DATABASE_URL,
   PAYLOAD_SECRET: process.env.PAYLOAD_SECRET,
   VERCEL_PROJECT_PRODUCTION_URL: process.env.VERCEL_PROJECT_PRODUCTION_URL,
+  VERCEL_ENV: process.env.VERCEL_ENV,
   // Client-side variables
   NEXT_PUBLIC_APP_NAME: process.env.NEXT_PUBLIC_APP_NAME,
   NEXT_PUBLIC_SERVER_URL: process.env.NEXT_PUBLIC_SERVER_URL,
@@ -60,3 +63,19 @@ export function getServerURL(): string {
   }
   return "http://localhost:3000"
 }
+
+/**
+ * Deployment environments that can be targeted by environment-specific settings
+ */
+export type DeploymentEnvironment = "production" | "preview" | "development"
+
+/**
+ * Helper to get the current deployment environment
+ * Uses VERCEL_ENV on Vercel, otherwise NODE_ENV (production builds count as production)
+ */
+export function getDeploymentEnvironment(): DeploymentEnvironment {
+  if (env.VERCEL_ENV === "production" || env.VERCEL_ENV === "preview" || env.VERCEL_ENV === "development") {
+    return env.VERCEL_ENV
+  }
+  return process.env.NODE_ENV === "production" ? "production" : "development"
+}
@@ -72,21 +72,33 @@ export interface Config {
     pages: Page;
     posts: Post;
     categories: Category;
+    tags: Tag;
+    series: Series;
+    'search-index': SearchIndex;
     redirects: Redirect;
     'payload-kv': PayloadKv;
+    'payload-jobs': PayloadJob;
     'payload-locked-documents': PayloadLockedDocument;
     'payload-preferences': PayloadPreference;
     'payload-migrations': PayloadMigration;
   };
-  collectionsJoins: {};
+  collectionsJoins: {
+    tags: {
+      posts: 'posts';
+    };
+  };
   collectionsSelect: {
     users: UsersSelect<false> | UsersSelect<true>;
     media: MediaSelect<false> | MediaSelect<true>;
     pages: PagesSelect<false> | PagesSelect<true>;
     posts: PostsSelect<false> | PostsSelect<true>;
     categories: CategoriesSelect<false> | CategoriesSelect<true>;
+    tags: TagsSelect<false> | TagsSelect<true>;
+    series: SeriesSelect<false> | SeriesSelect<true>;
+    'search-index': SearchIndexSelect<false> | SearchIndexSelect<true>;
     redirects: RedirectsSelect<false> | RedirectsSelect<true>;
     'payload-kv': PayloadKvSelect<false> | PayloadKvSelect<true>;
+    'payload-jobs': PayloadJobsSelect<false> | PayloadJobsSelect<true>;
     'payload-locked-documents': PayloadLockedDocumentsSelect<false> | PayloadLockedDocumentsSelect<true>;
     'payload-preferences': PayloadPreferencesSelect<false> | PayloadPreferencesSelect<true>;
     'payload-migrations': PayloadMigrationsSelect<false> | PayloadMigrationsSelect<true>;
@@ -110,7 +122,13 @@ export interface Config {
     collection: 'users';
   };
   jobs: {
-    tasks: unknown;
+    tasks: {
+      publishScheduled: TaskPublishScheduled;
+      inline: {
+        input: unknown;
+        output: unknown;
+      };
+    };
     workflows: unknown;
   };
 }
@@ -139,6 +157,39 @@ export interface UserAuthOperations {
 export interface User {
   id: number;
   name?: string | null;
+  /**
+   * Show this profile on an author page and in the sitemap, and link bylines to it. Post bylines and feeds show your name and avatar either way.
+   */
+  publicProfile?: boolean | null;
+  /**
+   * URL of the public author page (/authors/slug). Generated from the name if left empty on a public profile.
+   */
+  slug?: string | null;
+  /**
+   * Shown next to the name on the author page
+   */
+  jobTitle?: string | null;
+  /**
+   * Square image shown in bylines and on the author page
+   */
+  avatar?: (number | null) | Media;
+  /**
+   * Short public biography
+   */
+  bio?: string | null;
+  /**
+   * Profiles linked from the author page
+   */
+  socialLinks?:
+    | {
+        platform: 'website' | 'twitter' | 'linkedin' | 'github' | 'mastodon' | 'bluesky' | 'instagram' | 'youtube';
+        /**
+         * Full URL to the profile
+         */
+        url: string;
+        id?: string | null;
+      }[]
+    | null;
   role: 'admin' | 'editor' | 'user';
   updatedAt: string;
   createdAt: string;
@@ -222,9 +273,23 @@ export interface Page {
    */
   slug: string;
   /**
-   * When this page was/will be published
+   * Previously published slugs. Old URLs redirect to this page automatically.
+   */
+  slugHistory?:
+    | {
+        slug: string;
+        changedAt?: string | null;
+        id?: string | null;
+      }[]
+    | null;
+  /**
+   * When this page was/will be published. Drafts with a future date are published automatically.
    */
   publishedAt?: string | null;
+  /**
+   * Optional. The page is unpublished automatically at this date.
+   */
+  expiresAt?: string | null;
   hero?: {
     type?: ('none' | 'highImpact' | 'mediumImpact' | 'lowImpact') | null;
     heading?: string | null;
@@ -257,6 +322,11 @@ export interface Page {
      * Maximum upload file size: 12MB. Recommended file size for images is <500KB.
      */
     image?: (number | null) | Media;
+    /**
+     * Adds a noindex robots tag and excludes this document from the sitemap.
+     */
+    noindex?: boolean | null;
+    nofollow?: boolean | null;
   };
   updatedAt: string;
   createdAt: string;
@@ -418,7 +488,17 @@ export interface Post {
    */
   slug: string;
   /**
-   * A short summary of the post for listings and SEO.
+   * Previously published slugs. Old URLs redirect to this post automatically.
+   */
+  slugHistory?:
+    | {
+        slug: string;
+        changedAt?: string | null;
+        id?: string | null;
+      }[]
+    | null;
+  /**
+   * A short summary of the post for listings and SEO. Leave empty to generate it from the first paragraphs of the content; an excerpt you write is never replaced.
    */
   excerpt?: string | null;
   content: {
@@ -444,11 +524,42 @@ export interface Post {
    * Select one or more categories for this post.
    */
   categories?: (number | Category)[] | null;
-  author: number | User;
   /**
-   * When this post was/will be published
+   * Pick existing tags or create new ones with the + button.
+   */
+  tags?: (number | Tag)[] | null;
+  /**
+   * Optional. Shown first, in this order. Remaining slots (up to 3) are filled automatically by shared categories, tags and authors.
+   */
+  relatedPosts?: (number | Post)[] | null;
+  /**
+   * Shown in bylines in this order. Drag to reorder.
+   */
+  contributors: {
+    user: number | User;
+    role: 'author' | 'editor' | 'illustrator' | 'reviewer';
+    id?: string | null;
+  }[];
+  /**
+   * Moved to Contributors when the post is saved.
+   */
+  author?: (number | null) | User;
+  /**
+   * When this post was/will be published. Drafts with a future date are published automatically.
    */
   publishedAt?: string | null;
+  /**
+   * Optional. The post is unpublished automatically at this date.
+   */
+  expiresAt?: string | null;
+  /**
+   * Updated when the post is saved.
+   */
+  wordCount?: number | null;
+  /**
+   * Estimated at 225 words per minute.
+   */
+  readingTime?: number | null;
   meta?: {
     title?: string | null;
     description?: string | null;
@@ -456,6 +567,11 @@ export interface Post {
      * Maximum upload file size: 12MB. Recommended file size for images is <500KB.
      */
     image?: (number | null) | Media;
+    /**
+     * Adds a noindex robots tag and excludes this document from the sitemap.
+     */
+    noindex?: boolean | null;
+    nofollow?: boolean | null;
   };
   updatedAt: string;
   createdAt: string;
@@ -490,6 +606,63 @@ export interface Category {
   updatedAt: string;
   createdAt: string;
 }
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "tags".
+ */
+export interface Tag {
+  id: number;
+  title: string;
+  /**
+   * URL-friendly identifier. Auto-generated from the title if left empty.
+   */
+  slug?: string | null;
+  posts?: {
+    docs?: (number | Post)[];
+    hasNextPage?: boolean;
+    totalDocs?: number;
+  };
+  updatedAt: string;
+  createdAt: string;
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "series".
+ */
+export interface Series {
+  id: number;
+  title: string;
+  /**
+   * URL-friendly identifier. Auto-generated from the title if left empty.
+   */
+  slug: string;
+  description?: string | null;
+  coverImage?: (number | null) | Media;
+  /**
+   * Posts in reading order. Drag to reorder. A post can belong to one series only.
+   */
+  posts?: (number | Post)[] | null;
+  updatedAt: string;
+  createdAt: string;
+}
+/**
+ * Generated from published pages and posts. Entries update automatically.
+ *
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "search-index".
+ */
+export interface SearchIndex {
+  id: number;
+  docCollection: 'pages' | 'posts';
+  docId: number;
+  title: string;
+  slug: string;
+  excerpt?: string | null;
+  body?: string | null;
+  publishedAt?: string | null;
+  updatedAt: string;
+  createdAt: string;
+}
 /**
  * This interface was referenced by `Config`'s JSON-Schema
  * via the `definition` "redirects".
@@ -510,6 +683,7 @@ export interface Redirect {
         } | null);
     url?: string | null;
   };
+  type: '301' | '302';
   updatedAt: string;
   createdAt: string;
 }
@@ -530,6 +704,98 @@ export interface PayloadKv {
     | boolean
     | null;
 }
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "payload-jobs".
+ */
+export interface PayloadJob {
+  id: number;
+  /**
+   * Input data provided to the job
+   */
+  input?:
+    | {
+        [k: string]: unknown;
+      }
+    | unknown[]
+    | string
+    | number
+    | boolean
+    | null;
+  taskStatus?:
+    | {
+        [k: string]: unknown;
+      }
+    | unknown[]
+    | string
+    | number
+    | boolean
+    | null;
+  completedAt?: string | null;
+  totalTried?: number | null;
+  /**
+   * If hasError is true this job will not be retried
+   */
+  hasError?: boolean | null;
+  /**
+   * If hasError is true, this is the error that caused it
+   */
+  error?:
+    | {
+        [k: string]: unknown;
+      }
+    | unknown[]
+    | string
+    | number
+    | boolean
+    | null;
+  /**
+   * Task execution log
+   */
+  log?:
+    | {
+        executedAt: string;
+        completedAt: string;
+        taskSlug: 'inline' | 'publishScheduled';
+        taskID: string;
+        input?:
+          | {
+              [k: string]: unknown;
+            }
+          | unknown[]
+          | string
+          | number
+          | boolean
+          | null;
+        output?:
+          | {
+              [k: string]: unknown;
+            }
+          | unknown[]
+          | string
+          | number
+          | boolean
+          | null;
+        state: 'failed' | 'succeeded';
+        error?:
+          | {
+              [k: string]: unknown;
+            }
+          | unknown[]
+          | string
+          | number
+          | boolean
+          | null;
+        id?: string | null;
+      }[]
+    | null;
+  taskSlug?: ('inline' | 'publishScheduled') | null;
+  queue?: string | null;
+  waitUntil?: string | null;
+  processing?: boolean | null;
+  updatedAt: string;
+  createdAt: string;
+}
 /**
  * This interface was referenced by `Config`'s JSON-Schema
  * via the `definition` "payload-locked-documents".
@@ -557,6 +823,18 @@ export interface PayloadLockedDocument {
         relationTo: 'categories';
         value: number | Category;
       } | null)
+    | ({
+        relationTo: 'tags';
+        value: number | Tag;
+      } | null)
+    | ({
+        relationTo: 'series';
+        value: number | Series;
+      } | null)
+    | ({
+        relationTo: 'search-index';
+        value: number | SearchIndex;
+      } | null)
     | ({
         relationTo: 'redirects';
         value: number | Redirect;
@@ -609,6 +887,18 @@ export interface PayloadMigration {
  */
 export interface UsersSelect<T extends boolean = true> {
   name?: T;
+  publicProfile?: T;
+  slug?: T;
+  jobTitle?: T;
+  avatar?: T;
+  bio?: T;
+  socialLinks?:
+    | T
+    | {
+        platform?: T;
+        url?: T;
+        id?: T;
+      };
   role?: T;
   updatedAt?: T;
   createdAt?: T;
@@ -687,7 +977,15 @@ export interface MediaSelect<T extends boolean = true> {
 export interface PagesSelect<T extends boolean = true> {
   title?: T;
   slug?: T;
+  slugHistory?:
+    | T
+    | {
+        slug?: T;
+        changedAt?: T;
+        id?: T;
+      };
   publishedAt?: T;
+  expiresAt?: T;
   hero?:
     | T
     | {
@@ -710,6 +1008,8 @@ export interface PagesSelect<T extends boolean = true> {
         title?: T;
         description?: T;
         image?: T;
+        noindex?: T;
+        nofollow?: T;
       };
   updatedAt?: T;
   createdAt?: T;
@@ -765,18 +1065,39 @@ export interface CallToActionBlockSelect<T extends boolean = true> {
 export interface PostsSelect<T extends boolean = true> {
   title?: T;
   slug?: T;
+  slugHistory?:
+    | T
+    | {
+        slug?: T;
+        changedAt?: T;
+        id?: T;
+      };
   excerpt?: T;
   content?: T;
   featuredImage?: T;
   categories?: T;
+  tags?: T;
+  relatedPosts?: T;
+  contributors?:
+    | T
+    | {
+        user?: T;
+        role?: T;
+        id?: T;
+      };
   author?: T;
   publishedAt?: T;
+  expiresAt?: T;
+  wordCount?: T;
+  readingTime?: T;
   meta?:
     | T
     | {
         title?: T;
         description?: T;
         image?: T;
+        noindex?: T;
+        nofollow?: T;
       };
   updatedAt?: T;
   createdAt?: T;
@@ -801,6 +1122,45 @@ export interface CategoriesSelect<T extends boolean = true> {
   updatedAt?: T;
   createdAt?: T;
 }
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "tags_select".
+ */
+export interface TagsSelect<T extends boolean = true> {
+  title?: T;
+  slug?: T;
+  posts?: T;
+  updatedAt?: T;
+  createdAt?: T;
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "series_select".
+ */
+export interface SeriesSelect<T extends boolean = true> {
+  title?: T;
+  slug?: T;
+  description?: T;
+  coverImage?: T;
+  posts?: T;
+  updatedAt?: T;
+  createdAt?: T;
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "search-index_select".
+ */
+export interface SearchIndexSelect<T extends boolean = true> {
+  docCollection?: T;
+  docId?: T;
+  title?: T;
+  slug?: T;
+  excerpt?: T;
+  body?: T;
+  publishedAt?: T;
+  updatedAt?: T;
+  createdAt?: T;
+}
 /**
  * This interface was referenced by `Config`'s JSON-Schema
  * via the `definition` "redirects_select".
@@ -814,6 +1174,7 @@ export interface RedirectsSelect<T extends boolean = true> {
         reference?: T;
         url?: T;
       };
+  type?: T;
   updatedAt?: T;
   createdAt?: T;
 }
@@ -825,6 +1186,37 @@ export interface PayloadKvSelect<T extends boolean = true> {
   key?: T;
   data?: T;
 }
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "payload-jobs_select".
+ */
+export interface PayloadJobsSelect<T extends boolean = true> {
+  input?: T;
+  taskStatus?: T;
+  completedAt?: T;
+  totalTried?: T;
+  hasError?: T;
+  error?: T;
+  log?:
+    | T
+    | {
+        executedAt?: T;
+        completedAt?: T;
+        taskSlug?: T;
+        taskID?: T;
+        input?: T;
+        output?: T;
+        state?: T;
+        error?: T;
+        id?: T;
+      };
+  taskSlug?: T;
+  queue?: T;
+  waitUntil?: T;
+  processing?: T;
+  updatedAt?: T;
+  createdAt?: T;
+}
 /**
  * This interface was referenced by `Config`'s JSON-Schema
  * via the `definition` "payload-locked-documents_select".
@@ -1040,6 +1432,24 @@ export interface SiteSetting {
      */
     facebookPixelId?: string | null;
   };
+  /**
+   * Search engine crawler rules served at /robots.txt
+   */
+  crawling?: {
+    /**
+     * Environments where all crawling is disallowed (e.g. Vercel preview deployments)
+     */
+    blockedEnvironments?: ('preview' | 'development' | 'production')[] | null;
+    /**
+     * Paths crawlers should not visit (e.g. /search). /admin is always disallowed.
+     */
+    disallowPaths?:
+      | {
+          path: string;
+          id?: string | null;
+        }[]
+      | null;
+  };
   updatedAt?: string | null;
   createdAt?: string | null;
 }
@@ -1131,10 +1541,43 @@ export interface SiteSettingsSelect<T extends boolean = true> {
         googleTagManagerId?: T;
         facebookPixelId?: T;
       };
+  crawling?:
+    | T
+    | {
+        blockedEnvironments?: T;
+        disallowPaths?:
+          | T
+          | {
+              path?: T;
+              id?: T;
+            };
+      };
   updatedAt?: T;
   createdAt?: T;
   globalType?: T;
 }
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "TaskPublishScheduled".
+ */
+export interface TaskPublishScheduled {
+  input: {
+    doc:
+      | {
+          relationTo: 'pages';
+          value: number | Page;
+        }
+      | {
+          relationTo: 'posts';
+          value: number | Post;
+        };
+    action: 'publish' | 'unpublish';
+    scheduledFor: string;
+  };
+  output: {
+    result: 'published' | 'unpublished' | 'skipped';
+  };
+}
 /**
  * This interface was referenced by `Config`'s JSON-Schema
  * via the `definition` "auth".
@@ -8,10 +8,14 @@ import { Media } from './collections/Media'
 import { Pages } from './collections/Pages'
 import { Posts } from './collections/Posts'
 import { Categories } from './collections/Categories'
+import { Tags } from './collections/Tags'
+import { Series } from './collections/Series'
+import { SearchIndex, searchIndexSchemaHook } from './collections/SearchIndex'
 import { Header } from './Header/config'
 import { Footer } from './Footer/config'
 import { SiteSettings } from './globals/SiteSettings'
 import { plugins } from './plugins'
+import { tasks } from './jobs'
 
 const filename = fileURLToPath(import.meta.url)
 const dirname = path.dirname(filename)
@@ -25,10 +29,18 @@ export default buildConfig({
     importMap: {
       baseDir: path.resolve(dirname),
     },
+    // Live Preview device sizes (URLs are configured per collection)
+    livePreview: {
+      breakpoints: [
+        { label: 'Mobile', name: 'mobile', width: 375, height: 667 },
+        { label: 'Tablet', name: 'tablet', width: 768, height: 1024 },
+        { label: 'Desktop', name: 'desktop', width: 1440, height: 900 },
+      ],
+    },
   },
 
   // Collections
-  collections: [Users, Media, Pages, Posts, Categories],
+  collections: [Users, Media, Pages, Posts, Categories, Tags, Series, SearchIndex],
 
   // Globals
   globals: [Header, Footer, SiteSettings],
@@ -51,8 +63,16 @@ export default buildConfig({
     pool: {
       connectionString: process.env.DATABASE_URL || '',
     },
+    // Adds the generated full-text search column to the search_index table
+    afterSchemaInit: [searchIndexSchemaHook],
   }),
 
+  // Background jobs (scheduled publishing)
+  // Run the queue with `pnpm jobs:worker`
+  jobs: {
+    tasks,
+  },
+
   // Plugins
   plugins,
 })
@@ -1,8 +1,10 @@
 import { seoPlugin } from '@payloadcms/plugin-seo'
 import { redirectsPlugin } from '@payloadcms/plugin-redirects'
 import { nestedDocsPlugin } from '@payloadcms/plugin-nested-docs'
-import type { GenerateTitle, GenerateURL } from '@payloadcms/plugin-seo/types'
+import type { GenerateDescription, GenerateTitle, GenerateURL } from '@payloadcms/plugin-seo/types'
+import { generateMetaDescription } from '../utilities/excerpt'
 import { getServerSideURL } from '../utilities/getURL'
+import { revalidateRedirects, revalidateRedirectsAfterDelete } from '../hooks/revalidateRedirects'
 
 /**
  * Document interface for SEO generation
@@ -11,6 +13,10 @@ import { getServerSideURL } from '../utilities/getURL'
 interface SeoDocument {
   title?: string
   slug?: string
+  excerpt?: string | null
+  content?: unknown
+  hero?: unknown
+  layout?: unknown
 }
 
 /**
@@ -20,6 +26,13 @@ const generateTitle: GenerateTitle<SeoDocument> = ({ doc }) => {
   return doc?.title ? `${doc.title} | Site Name` : 'Site Name'
 }
 
+/**
+ * Generate SEO description from the post excerpt or the content
+ */
+const generateDescription: GenerateDescription<SeoDocument> = ({ doc }) => {
+  return generateMetaDescription(doc ?? {})
+}
+
 /**
  * Generate canonical URL for SEO
  */
@@ -45,13 +58,15 @@ const generateURL: GenerateURL<SeoDocument> = ({ doc, collectionSlug }) => {
  *
  * 1. SEO Plugin (@payloadcms/plugin-seo)
  *    - Adds meta title, description, and image fields to specified collections
- *    - Provides auto-generation of titles and URLs
+ *    - Provides auto-generation of titles, descriptions (from excerpts and content) and URLs
+ *    - Adds noindex/nofollow toggles used by generateMeta and the sitemap
  *    - Applied to Pages and Posts collections
  *
  * 2. Redirects Plugin (@payloadcms/plugin-redirects)
  *    - Manages URL redirects within the CMS
  *    - Supports 301/302 redirect types
  *    - Can reference pages and posts as redirect targets
+ *    - Resolved on the frontend by src/proxy.ts (cache cleared by collection hooks)
  *
  * 3. Nested Docs Plugin (@payloadcms/plugin-nested-docs)
  *    - Adds hierarchical structure to collections
@@ -63,17 +78,42 @@ export const plugins = [
   seoPlugin({
     collections: ['pages', 'posts'],
     generateTitle,
+    generateDescription,
     generateURL,
     // SEO fields will be added in a group named 'meta'
     // These fields include: title, description, image (upload)
     uploadsCollection: 'media',
     // Use the existing 'meta' group structure - plugin will add its fields there
     tabbedUI: true,
+    // Indexing controls, stored as meta.noindex and meta.nofollow
+    fields: ({ defaultFields }) => [
+      ...defaultFields,
+      {
+        name: 'noindex',
+        type: 'checkbox',
+        label: 'Hide from search engines (noindex)',
+        defaultValue: false,
+        admin: {
+          description: 'Adds a noindex robots tag and excludes this document from the sitemap.',
+        },
+      },
+      {
+        name: 'nofollow',
+        type: 'checkbox',
+        label: 'Ask search engines not to follow links (nofollow)',
+        defaultValue: false,
+      },
+    ],
   }),
 
   // Redirects Plugin - manages URL redirects
   redirectsPlugin({
     collections: ['pages', 'posts'],
+    // Adds a required 'type' select field to each redirect
+    redirectTypes: ['301', '302'],
+    redirectTypeFieldOverride: {
+      defaultValue: '301',
+    },
     // Redirects collection will be auto-generated
     overrides: {
       // Customize the Redirects collection
@@ -84,6 +124,11 @@ export const plugins = [
       admin: {
         group: 'Settings',
       },
+      // Clear the frontend proxy's redirects cache whenever redirects change
+      hooks: {
+        afterChange: [revalidateRedirects],
+        afterDelete: [revalidateRedirectsAfterDelete],
+      },
     },
   }),
 
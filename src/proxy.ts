@@ -0,0 +1,51 @@
+import { NextResponse, type NextRequest } from 'next/server'
+
+import { getRedirects } from '@/utilities/getRedirects'
+import { resolveRedirect } from '@/utilities/redirects'
+
+/**
+ * Route handlers only served through a rewrite in next.config.ts
+ * (category feeds at /categories/<path>/feed.xml)
+ */
+const REWRITE_ONLY_PATH = '/feeds/categories'
+
+/**
+ * Next.js Proxy
+ *
+ * Resolves incoming frontend requests against the Redirects collection
+ * managed in the admin panel (@payloadcms/plugin-redirects).
+ *
+ * Features:
+ * - Custom URL and page/post reference targets
+ * - 301 (permanent) and 302 (temporary) redirects
+ * - Query string preservation
+ * - Redirect chains collapsed into a single hop, with loop detection
+ * - In-memory rule cache cleared by the Redirects collection hooks
+ * - Not found for direct requests to rewrite-only routes (see next.config.ts)
+ */
+export async function proxy(request: NextRequest): Promise<NextResponse> {
+  const { pathname, search } = request.nextUrl
+
+  // The proxy runs before rewrites, so this only matches requests made directly
+  if (pathname === REWRITE_ONLY_PATH || pathname.startsWith(`${REWRITE_ONLY_PATH}/`)) {
+    return new NextResponse('Not found', { status: 404 })
+  }
+
+  const rules = await getRedirects()
+  const redirect = resolveRedirect(rules, pathname, search)
+
+  if (redirect) {
+    return NextResponse.redirect(new URL(redirect.destination, request.url), redirect.status)
+  }
+
+  return NextResponse.next()
+}
+
+export const config = {
+  // Skip the admin panel, API routes and Next.js internals (whole path segments
+  // only, so e.g. /administration or /apis/intro still redirect) and static
+  // assets by extension. Other dotted paths such as /feed.xml are matched.
+  matcher: [
+    '/((?!(?:admin|api|_next/static|_next/image)(?:/|$)|.*\\.(?:avif|css|gif|ico|jpe?g|js|map|png|svg|webmanifest|webp|woff2?)$).*)',
+  ],
+}
@@ -0,0 +1,45 @@
+/**
+ * Contributors Migration Script
+ *
+ * Moves the legacy single `author` of every post into its `contributors`.
+ * Run it once on each database that has posts from before contributors
+ * existed; pages only read `contributors`, so unmigrated posts show no
+ * author until it has run. It is idempotent - can be run multiple times safely.
+ *
+ * Usage: pnpm contributors:migrate
+ *
+ * Migrates (see migratePostAuthors):
+ * - The published document of published posts, which stay published
+ * - The pending draft of posts with unpublished changes
+ */
+
+import { createLocalReq, getPayload } from 'payload'
+import config from '@payload-config'
+
+import { migratePostAuthors } from '@/utilities/migratePostAuthors'
+
+async function migrateContributors(): Promise<void> {
+  console.log('👥 Moving post authors to contributors...\n')
+
+  const payload = await getPayload({ config })
+  const req = await createLocalReq({}, payload)
+
+  const { posts, drafts, failed } = await migratePostAuthors(req)
+
+  console.log(`   ✓ Migrated ${posts} published posts and ${drafts} drafts`)
+
+  if (failed.length > 0) {
+    console.error(`\n❌ Posts ${failed.join(', ')} could not be migrated, fix them and run the script again\n`)
+    process.exit(1)
+  }
+
+  console.log('\n✅ Contributors migration completed!\n')
+
+  process.exit(0)
+}
+
+// Run the migration function
+migrateContributors().catch((error) => {
+  console.error('❌ Contributors migration failed:', error)
+  process.exit(1)
+})
@@ -0,0 +1,100 @@
+/**
+ * Search Reindex Script
+ *
+ * Rebuilds the search index from the published pages and posts.
+ * Hooks only index documents as they are published, so run this once after
+ * adding search to an existing site, or whenever the index is out of sync.
+ * It is idempotent - can be run multiple times safely.
+ *
+ * Usage: pnpm search:reindex
+ *
+ * For each indexed collection:
+ * - Creates or updates the entry of every published document
+ * - Removes entries of documents that are no longer published
+ */
+
+import { createLocalReq, getPayload } from 'payload'
+import config from '@payload-config'
+
+import { indexDocument } from '@/hooks/syncSearchIndex'
+import type { SearchCollection } from '@/utilities/search'
+
+const COLLECTIONS: SearchCollection[] = ['pages', 'posts']
+
+/** Documents read per query */
+const BATCH_SIZE = 100
+
+async function reindexSearch(): Promise<void> {
+  console.log('🔍 Rebuilding the search index...\n')
+
+  const payload = await getPayload({ config })
+  const req = await createLocalReq({}, payload)
+
+  let failed = 0
+
+  for (const collection of COLLECTIONS) {
+    const indexedIds: number[] = []
+    // Kept out of the cleanup below, so a failure never removes an existing entry
+    const failedIds: number[] = []
+    let page = 1
+    let hasNextPage = true
+
+    while (hasNextPage) {
+      const result = await payload.find({
+        collection,
+        where: { _status: { equals: 'published' } },
+        depth: 0,
+        draft: false,
+        limit: BATCH_SIZE,
+        page,
+        overrideAccess: true,
+        req,
+      })
+
+      for (const doc of result.docs) {
+        try {
+          await indexDocument(collection, doc, req)
+          indexedIds.push(doc.id)
+        } catch (error) {
+          failedIds.push(doc.id)
+          console.error(`   ✗ Failed to index ${collection} ${doc.id}:`, error)
+        }
+      }
+
+      hasNextPage = result.hasNextPage
+      page += 1
+    }
+
+    // Entries left over from deleted or unpublished documents
+    const publishedIds = [...indexedIds, ...failedIds]
+    const { docs: removed } = await payload.delete({
+      collection: 'search-index',
+      where: {
+        and: [
+          { docCollection: { equals: collection } },
+          ...(publishedIds.length > 0 ? [{ docId: { not_in: publishedIds } }] : []),
+        ],
+      },
+      overrideAccess: true,
+      req,
+    })
+
+    console.log(`   ✓ ${collection}: ${indexedIds.length} indexed, ${removed.length} removed`)
+    failed += failedIds.length
+  }
+
+  if (failed > 0) {
+    console.error(`\n❌ ${failed} documents could not be indexed, fix them and run the script again\n`)
+    process.exit(1)
+  }
+
+  console.log('\n✅ Search index rebuilt!\n')
+
+  process.exit(0)
+}
+
+// Run the reindex function
+reindexSearch().catch((error) => {
+  console.error('❌ Search reindex failed:', error)
+  process.exit(1)
+})
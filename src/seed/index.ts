@@ -180,6 +180,9 @@ async function seed(): Promise<void> {
           email: ADMIN_EMAIL,
           password: ADMIN_PASSWORD,
           name: ADMIN_NAME,
+          publicProfile: true,
+          jobTitle: 'Editor',
+          bio: 'Writes about building websites with Next.js and Payload CMS.',
           role: 'admin',
         },
       })
@@ -288,7 +291,7 @@ async function seed(): Promise<void> {
               content: createRichText(
                 `${post.excerpt}\n\nThis is sample content for the blog post. You can edit this in the Payload CMS admin panel to add your own content.`
               ),
-              author: adminUserId,
+              contributors: [{ user: adminUserId, role: 'author' }],
               categories: categoryId ? [categoryId] : [],
               _status: 'published',
               publishedAt: new Date().toISOString(),
@@ -0,0 +1,152 @@
+import type { PaginatedDocs } from 'payload'
+
+import { publicProfileWhere } from '@/access'
+import type { Post, User } from '@/payload-types'
+import { getPayload } from './getPayload'
+
+/**
+ * Author profile data loaders.
+ *
+ * Authors are users who opted in to a public profile. Queries run with access
+ * control applied and select only the public profile fields, so email, role
+ * and auth fields never reach the frontend. Other post contributors are only
+ * read for bylines, by name and avatar.
+ */
+
+/** Number of posts to display per author page */
+export const AUTHOR_POSTS_PER_PAGE = 9
+
+/**
+ * Public profile fields, for `select` on users and `populate` of post authors
+ *
+ * @example
+ * ```ts
+ * payload.find({ collection: 'posts', depth: 2, populate: { users: PUBLIC_AUTHOR_FIELDS } })
+ * ```
+ */
+export const PUBLIC_AUTHOR_FIELDS = {
+  name: true,
+  slug: true,
+  jobTitle: true,
+  avatar: true,
+  bio: true,
+  socialLinks: true,
+} as const
+
+/**
+ * A user's public profile
+ */
+export type Author = Pick<User, 'id' | keyof typeof PUBLIC_AUTHOR_FIELDS>
+
+/**
+ * Byline fields of contributors without a public profile
+ */
+const BYLINE_FIELDS = {
+  name: true,
+  avatar: true,
+} as const
+
+/**
+ * Populates the contributors that visitor access left unpopulated.
+ *
+ * Frontend queries populate users with access control applied, so only
+ * contributors with a public profile are populated. Everyone else is still
+ * credited in bylines, by name and avatar and without a link: those users
+ * are loaded here with only these fields, and their avatars populated.
+ *
+ * @param posts - Posts fetched with `populate: { users: PUBLIC_AUTHOR_FIELDS }`
+ * @returns The posts with every contributor populated
+ *
+ * @example
+ * ```ts
+ * const result = await payload.find({ collection: 'posts', depth: 1, overrideAccess: false })
+ * const docs = await populateContributors(result.docs)
+ * ```
+ */
+export async function populateContributors<T extends Pick<Post, 'contributors'>>(
+  posts: T[],
+): Promise<T[]> {
+  const ids = new Set(
+    posts.flatMap((post) =>
+      (post.contributors ?? []).flatMap(({ user }) => (typeof user === 'number' ? [user] : [])),
+    ),
+  )
+
+  if (ids.size === 0) {
+    return posts
+  }
+
+  const payload = await getPayload()
+  const users = await payload.find({
+    collection: 'users',
+    where: { id: { in: [...ids] } },
+    select: BYLINE_FIELDS,
+    depth: 1, // Populate avatar
+    pagination: false,
+    // Only the byline fields are read
+    overrideAccess: true,
+  })
+  const usersById = new Map(users.docs.map((user) => [user.id, user as User]))
+
+  return posts.map((post) => ({
+    ...post,
+    contributors: post.contributors?.map((contributor) => ({
+      ...contributor,
+      user: (typeof contributor.user === 'number' && usersById.get(contributor.user)) || contributor.user,
+    })),
+  }))
+}
+
+/**
+ * Finds an author by their public profile slug
+ *
+ * @param slug - The profile slug
+ * @returns The author with their avatar populated, or null if not found
+ */
+export async function getAuthorBySlug(slug: string): Promise<Author | null> {
+  const payload = await getPayload()
+  const result = await payload.find({
+    collection: 'users',
+    where: {
+      and: [{ slug: { equals: slug } }, publicProfileWhere],
+    },
+    select: PUBLIC_AUTHOR_FIELDS,
+    depth: 1, // Populate avatar
+    limit: 1,
+    overrideAccess: false,
+  })
+
+  return (result.docs[0] as Author | undefined) ?? null
+}
+
+/**
+ * Fetches the published posts an author contributed to, newest first
+ *
+ * @param authorId - The author's user ID
+ * @param page - Page number (1-indexed)
+ * @returns Paginated posts with featured images and categories populated
+ */
+export async function getAuthorPosts(
+  authorId: User['id'],
+  page: number = 1,
+): Promise<PaginatedDocs<Post>> {
+  const payload = await getPayload()
+
+  const result = await payload.find({
+    collection: 'posts',
+    where: {
+      and: [
+        { _status: { equals: 'published' } },
+        { 'contributors.user': { equals: authorId } },
+      ],
+    },
+    sort: '-publishedAt',
+    limit: AUTHOR_POSTS_PER_PAGE,
+    page,
+    depth: 1, // Populate featuredImage and categories
+    populate: { users: PUBLIC_AUTHOR_FIELDS },
+    overrideAccess: false,
+  })
+
+  return { ...result, docs: await populateContributors(result.docs) }
+}
@@ -0,0 +1,28 @@
+import type { CollectionSlug, GlobalSlug } from 'payload'
+
+/**
+ * Next.js cache tags shared by cached loaders and revalidation hooks.
+ *
+ * Kept free of Payload runtime imports so hooks (which load with the Payload
+ * config) can import it without a circular dependency.
+ */
+
+/**
+ * Returns the cache tag for a Payload global (e.g. `global-header`).
+ *
+ * @param slug - The global slug
+ * @returns The cache tag for that global
+ */
+export function getGlobalCacheTag(slug: GlobalSlug): string {
+  return `global-${slug}`
+}
+
+/**
+ * Returns the cache tag for a collection's sitemaps (e.g. `sitemap-posts`).
+ *
+ * @param collection - The collection slug
+ * @returns The cache tag for that collection's sitemap entries
+ */
+export function getSitemapCacheTag(collection: CollectionSlug): string {
+  return `sitemap-${collection}`
+}
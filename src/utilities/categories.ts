@@ -0,0 +1,106 @@
+import type { PaginatedDocs } from 'payload'
+
+import type { Category, Post } from '@/payload-types'
+import { PUBLIC_AUTHOR_FIELDS, populateContributors } from './authors'
+import { getPayload } from './getPayload'
+
+/**
+ * Category archive data loaders.
+ *
+ * Categories are nested with the nested docs plugin, so an archive lists the
+ * posts of a category and all of its descendants. Every category's
+ * breadcrumbs include itself and its ancestors, which makes descendants easy
+ * to find by breadcrumb.
+ */
+
+/** Number of posts to display per archive page */
+export const CATEGORY_POSTS_PER_PAGE = 9
+
+/**
+ * Finds a category from the segments of its archive path.
+ *
+ * Only the last segment (the category's own slug, unique across categories)
+ * is used for the lookup; callers compare the result's canonical path with
+ * the requested one to redirect outdated or shortened URLs.
+ *
+ * @param segments - Path segments after /categories (e.g. ['tech', 'react'])
+ * @returns The category with its breadcrumbs, or null if not found
+ */
+export async function getCategoryByPath(segments: string[]): Promise<Category | null> {
+  const slug = segments.at(-1)
+
+  if (!slug) {
+    return null
+  }
+
+  const payload = await getPayload()
+  const result = await payload.find({
+    collection: 'categories',
+    where: {
+      slug: {
+        equals: slug,
+      },
+    },
+    depth: 0,
+    limit: 1,
+    overrideAccess: false,
+  })
+
+  return result.docs[0] ?? null
+}
+
+/**
+ * Gets the IDs of a category and all of its descendants
+ *
+ * @param categoryId - The ID of the top category
+ * @returns The category ID followed by its descendants' IDs
+ */
+export async function getCategoryTreeIds(categoryId: Category['id']): Promise<Category['id'][]> {
+  const payload = await getPayload()
+  const result = await payload.find({
+    collection: 'categories',
+    where: {
+      'breadcrumbs.doc': {
+        equals: categoryId,
+      },
+    },
+    depth: 0,
+    pagination: false,
+    select: {},
+    overrideAccess: false,
+  })
+
+  return [categoryId, ...result.docs.map((doc) => doc.id).filter((id) => id !== categoryId)]
+}
+
+/**
+ * Fetches published posts in any of the given categories, newest first
+ *
+ * @param categoryIds - Category IDs (a category and its descendants)
+ * @param page - Page number (1-indexed)
+ * @returns Paginated posts with featured images and categories populated
+ */
+export async function getCategoryPosts(
+  categoryIds: Category['id'][],
+  page: number = 1,
+): Promise<PaginatedDocs<Post>> {
+  const payload = await getPayload()
+
+  const result = await payload.find({
+    collection: 'posts',
+    where: {
+      and: [
+        { _status: { equals: 'published' } },
+        { categories: { in: categoryIds } },
+      ],
+    },
+    sort: '-publishedAt',
+    limit: CATEGORY_POSTS_PER_PAGE,
+    page,
+    depth: 1, // Populate featuredImage and categories
+    populate: { users: PUBLIC_AUTHOR_FIELDS },
+    overrideAccess: false,
+  })
+
+  return { ...result, docs: await populateContributors(result.docs) }
+}
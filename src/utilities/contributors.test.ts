@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest'
+import { formatNameList, getPostAuthors, getPostContributors, moveAuthorToContributors } from './contributors'
+
+const jane = { name: 'Jane Doe' }
+const john = { name: 'John Smith' }
+const alex = { name: 'Alex Kim' }
+const unnamed: { name?: string | null } = { name: null }
+
+describe('getPostContributors', () => {
+  it('should keep the contributor order and roles', () => {
+    const contributors = getPostContributors({
+      contributors: [
+        { user: john, role: 'editor' },
+        { user: jane, role: 'author' },
+      ],
+    })
+
+    expect(contributors).toEqual([
+      { user: john, role: 'editor' },
+      { user: jane, role: 'author' },
+    ])
+  })
+
+  it('should skip unpopulated and unnamed users', () => {
+    const contributors = getPostContributors({
+      contributors: [
+        { user: 4, role: 'author' },
+        { user: unnamed, role: 'author' },
+        { user: jane, role: 'author' },
+      ],
+    })
+
+    expect(contributors).toEqual([{ user: jane, role: 'author' }])
+  })
+
+  it('should return nothing without contributors', () => {
+    expect(getPostContributors({})).toEqual([])
+    expect(getPostContributors({ contributors: [] })).toEqual([])
+  })
+})
+
+describe('getPostAuthors', () => {
+  it('should return only contributors with the author role', () => {
+    const authors = getPostAuthors({
+      contributors: [
+        { user: jane, role: 'author' },
+        { user: alex, role: 'reviewer' },
+        { user: john, role: 'author' },
+      ],
+    })
+
+    expect(authors).toEqual([jane, john])
+  })
+})
+
+describe('formatNameList', () => {
+  it('should join names for a byline', () => {
+    expect(formatNameList([])).toBe('')
+    expect(formatNameList(['Jane'])).toBe('Jane')
+    expect(formatNameList(['Jane', 'John'])).toBe('Jane and John')
+    expect(formatNameList(['Jane', 'John', 'Alex'])).toBe('Jane, John and Alex')
+  })
+})
+
+describe('moveAuthorToContributors', () => {
+  it('should make the legacy author the first contributor', () => {
+    expect(moveAuthorToContributors({ author: 3, contributors: [] })).toEqual({
+      contributors: [{ user: 3, role: 'author' }],
+      author: null,
+    })
+  })
+
+  it('should only clear the legacy author of posts with contributors', () => {
+    expect(moveAuthorToContributors({ author: 3, contributors: [{ user: 4, role: 'editor' }] })).toEqual({
+      author: null,
+    })
+  })
+
+  it('should return null without a legacy author', () => {
+    expect(moveAuthorToContributors({ author: null, contributors: [] })).toBeNull()
+  })
+})
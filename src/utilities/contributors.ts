@@ -0,0 +1,122 @@
+import type { Post } from '@/payload-types'
+
+/**
+ * Post contributor helpers.
+ *
+ * Posts list their people in a `contributors` array (user + role) in byline
+ * order. Posts saved before the array existed had a single `author`, which
+ * `pnpm contributors:migrate` moves into `contributors`.
+ */
+
+/** Contributor roles, in the order shown in the admin panel */
+export const CONTRIBUTOR_ROLES = [
+  { label: 'Author', value: 'author' },
+  { label: 'Editor', value: 'editor' },
+  { label: 'Illustrator', value: 'illustrator' },
+  { label: 'Reviewer', value: 'reviewer' },
+] as const
+
+export type ContributorRole = (typeof CONTRIBUTOR_ROLES)[number]['value']
+
+/** Byline prefixes for roles other than author */
+export const CONTRIBUTOR_ROLE_CREDITS: Record<Exclude<ContributorRole, 'author'>, string> = {
+  editor: 'Edited by',
+  illustrator: 'Illustrated by',
+  reviewer: 'Reviewed by',
+}
+
+/**
+ * Minimal user shape; unpopulated users are IDs
+ */
+interface ContributorUser {
+  name?: string | null
+}
+
+/**
+ * Post fields read for contributors
+ */
+export interface ContributorsSource<TUser extends ContributorUser = ContributorUser> {
+  contributors?:
+    | {
+        user?: TUser | string | number | null
+        role?: ContributorRole | null
+      }[]
+    | null
+}
+
+/**
+ * A populated contributor
+ */
+export interface Contributor<TUser extends ContributorUser = ContributorUser> {
+  user: TUser
+  role: ContributorRole
+}
+
+/**
+ * Gets the populated contributors of a post in byline order
+ *
+ * @param post - The post (depth 1 or more, so users are populated)
+ * @returns Contributors with a populated user and a name
+ */
+export function getPostContributors<TUser extends ContributorUser>(
+  post: ContributorsSource<TUser>,
+): Contributor<TUser>[] {
+  return (post.contributors ?? []).flatMap(({ user, role }) =>
+    typeof user === 'object' && user !== null && user.name ? [{ user, role: role ?? 'author' }] : [],
+  )
+}
+
+/**
+ * Gets the populated authors of a post (contributors with the author role)
+ *
+ * @param post - The post (depth 1 or more, so users are populated)
+ * @returns Authors in byline order
+ */
+export function getPostAuthors<TUser extends ContributorUser>(post: ContributorsSource<TUser>): TUser[] {
+  return getPostContributors(post)
+    .filter((contributor) => contributor.role === 'author')
+    .map((contributor) => contributor.user)
+}
+
+/**
+ * Joins names for a byline, e.g. "Jane, John and Alex"
+ *
+ * @param names - Names in byline order
+ * @returns The joined names, empty for no names
+ */
+export function formatNameList(names: string[]): string {
+  if (names.length <= 1) {
+    return names[0] ?? ''
+  }
+
+  return `${names.slice(0, -1).join(', ')} and ${names.at(-1)}`
+}
+
+/**
+ * Moves a post's legacy `author` into its `contributors`
+ *
+ * 1. If the post has no contributors yet, the author becomes its first
+ *    contributor with the author role
+ * 2. The legacy `author` field is cleared
+ *
+ * @param post - The post's author and contributors
+ * @returns The fields to save, or null if the post has no legacy author
+ */
+export function moveAuthorToContributors(
+  post: Pick<Post, 'author' | 'contributors'>,
+): Pick<Partial<Post>, 'author' | 'contributors'> | null {
+  const author = typeof post.author === 'object' && post.author !== null ? post.author.id : post.author
+
+  if (!author) {
+    return null
+  }
+
+  if (Array.isArray(post.contributors) && post.contributors.length > 0) {
+    return { author: null }
+  }
+
+  return {
+    contributors: [{ user: author, role: 'author' }],
+    author: null,
+  }
+}
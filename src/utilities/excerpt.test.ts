@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest'
+import { generateExcerpt, generateMetaDescription, truncateOnWordBoundary } from './excerpt'
+
+/**
+ * Builds a minimal Lexical editor state from root children
+ */
+function lexical(...children: unknown[]): { root: unknown } {
+  return {
+    root: { type: 'root', children, direction: 'ltr', format: '', indent: 0, version: 1 },
+  }
+}
+
+function paragraph(...children: unknown[]): unknown {
+  return { type: 'paragraph', children, version: 1 }
+}
+
+function text(value: string, format = 0): unknown {
+  return { type: 'text', text: value, format, version: 1 }
+}
+
+describe('truncateOnWordBoundary', () => {
+  it('should keep short texts as they are', () => {
+    expect(truncateOnWordBoundary('Short and sweet', 20)).toBe('Short and sweet')
+  })
+
+  it('should cut between words and add an ellipsis', () => {
+    const result = truncateOnWordBoundary('Build a blog with Next.js and Payload', 20)
+
+    expect(result).toBe('Build a blog with…')
+    expect(result.length).toBeLessThanOrEqual(20)
+  })
+
+  it('should keep a word ending exactly at the cut', () => {
+    expect(truncateOnWordBoundary('Build a blog with Next.js', 18)).toBe('Build a blog with…')
+  })
+
+  it('should drop punctuation left at the end', () => {
+    expect(truncateOnWordBoundary('First, second, third and fourth', 16)).toBe('First, second…')
+  })
+
+  it('should collapse whitespace', () => {
+    expect(truncateOnWordBoundary('  Line one\n\nLine   two ', 50)).toBe('Line one Line two')
+  })
+
+  it('should cut a single word longer than the maximum', () => {
+    expect(truncateOnWordBoundary('Supercalifragilistic', 10)).toBe('Supercali…')
+  })
+})
+
+describe('generateExcerpt', () => {
+  it('should join the first paragraphs without formatting', () => {
+    const state = lexical(
+      paragraph(text('Hello '), text('world', 1), text('.')),
+      paragraph(text('Second paragraph.')),
+    )
+
+    expect(generateExcerpt(state)).toBe('Hello world. Second paragraph.')
+  })
+
+  it('should skip headings, lists and empty paragraphs', () => {
+    const state = lexical(
+      { type: 'heading', tag: 'h2', children: [text('Introduction')], version: 1 },
+      paragraph(),
+      { type: 'list', children: [{ type: 'listitem', children: [text('Item')], version: 1 }], version: 1 },
+      paragraph(text('The actual intro.')),
+    )
+
+    expect(generateExcerpt(state)).toBe('The actual intro.')
+  })
+
+  it('should fall back to all text without paragraphs', () => {
+    const state = lexical({ type: 'heading', tag: 'h2', children: [text('Only a heading')], version: 1 })
+
+    expect(generateExcerpt(state)).toBe('Only a heading')
+  })
+
+  it('should stop at the maximum length on a word boundary', () => {
+    const state = lexical(paragraph(text('one two three four five')), paragraph(text('six seven')))
+
+    expect(generateExcerpt(state, 15)).toBe('one two three…')
+  })
+
+  it('should return an empty string for empty content', () => {
+    expect(generateExcerpt(null)).toBe('')
+    expect(generateExcerpt(lexical())).toBe('')
+  })
+})
+
+describe('generateMetaDescription', () => {
+  it('should prefer the excerpt', () => {
+    expect(
+      generateMetaDescription({ excerpt: 'Hand-written summary', content: lexical(paragraph(text('Body'))) }),
+    ).toBe('Hand-written summary')
+  })
+
+  it('should use the content without an excerpt', () => {
+    expect(generateMetaDescription({ excerpt: ' ', content: lexical(paragraph(text('Body text'))) })).toBe(
+      'Body text',
+    )
+  })
+
+  it('should use the hero and layout text of pages', () => {
+    expect(
+      generateMetaDescription({
+        hero: { heading: 'Welcome', richText: lexical(paragraph(text('Built with Payload'))) },
+      }),
+    ).toBe('Welcome Built with Payload')
+  })
+
+  it('should fit search result snippets', () => {
+    const long = Array(60).fill('word').join(' ')
+
+    expect(generateMetaDescription({ excerpt: long }).length).toBeLessThanOrEqual(160)
+  })
+})
@@ -0,0 +1,111 @@
+import { extractBlocksText, extractLexicalText, getLexicalNodeText } from './lexicalText'
+
+/**
+ * Excerpt and meta description generation.
+ *
+ * Excerpts are built from the first paragraphs of a post's Lexical content,
+ * as plain text cut on a word boundary. They are only generated when no
+ * excerpt or description was written by hand.
+ */
+
+/** Longest generated excerpt, about three lines of a post card */
+export const EXCERPT_MAX_LENGTH = 200
+
+/** Longest generated meta description, before search engines cut it off */
+export const META_DESCRIPTION_MAX_LENGTH = 160
+
+/** Punctuation left dangling at the end of a cut sentence */
+const TRAILING_PUNCTUATION = /[\s,;:(\-–—]+$/
+
+/**
+ * Shortens a text to a maximum length without cutting words.
+ *
+ * Whitespace is collapsed first. Shortened texts end with an ellipsis,
+ * which counts towards the maximum length; a single word longer than the
+ * maximum is cut.
+ *
+ * @param text - Plain text
+ * @param maxLength - Maximum number of characters, including the ellipsis
+ * @returns The text, shortened with "…" when longer than maxLength
+ *
+ * @example
+ * truncateOnWordBoundary('Build a blog with Next.js and Payload', 20)
+ * // Returns: "Build a blog with…"
+ */
+export function truncateOnWordBoundary(text: string, maxLength: number): string {
+  const normalized = text.replace(/\s+/g, ' ').trim()
+
+  if (normalized.length <= maxLength) {
+    return normalized
+  }
+
+  const cut = normalized.slice(0, Math.max(0, maxLength - 1))
+  const lastSpace = cut.lastIndexOf(' ')
+  const words = lastSpace > 0 && normalized[cut.length] !== ' ' ? cut.slice(0, lastSpace) : cut
+
+  return `${words.replace(TRAILING_PUNCTUATION, '')}…`
+}
+
+/**
+ * Generates an excerpt from the first paragraphs of a Lexical editor state.
+ *
+ * Paragraphs are joined until the maximum length is reached; headings,
+ * lists and blocks are skipped unless the content has no paragraphs.
+ * All formatting is stripped.
+ *
+ * @param state - Serialized Lexical editor state (e.g. a post's `content`)
+ * @param maxLength - Maximum number of characters
+ * @returns The excerpt, or an empty string for empty content
+ *
+ * @example
+ * generateExcerpt(post.content)
+ * // Returns: "In this post we set up a Next.js project with Payload…"
+ */
+export function generateExcerpt(state: unknown, maxLength: number = EXCERPT_MAX_LENGTH): string {
+  const children = (state as { root?: { children?: unknown } } | null)?.root?.children
+  const paragraphs: string[] = []
+  let length = 0
+
+  for (const node of Array.isArray(children) ? children : []) {
+    if ((node as { type?: string }).type !== 'paragraph') {
+      continue
+    }
+
+    const text = getLexicalNodeText(node).replace(/\s+/g, ' ')
+    if (text) {
+      paragraphs.push(text)
+      length += text.length + 1
+    }
+
+    if (length > maxLength) {
+      break
+    }
+  }
+
+  const text = paragraphs.length > 0 ? paragraphs.join(' ') : extractLexicalText(state)
+
+  return truncateOnWordBoundary(text, maxLength)
+}
+
+/**
+ * Generates a meta description for a page or post
+ *
+ * Uses the post's excerpt (hand-written or generated), then the first
+ * paragraphs of its content, then the text of a page's hero and layout.
+ *
+ * @param doc - The document being edited
+ * @returns A description of at most META_DESCRIPTION_MAX_LENGTH characters
+ */
+export function generateMetaDescription(doc: {
+  excerpt?: string | null
+  content?: unknown
+  hero?: unknown
+  layout?: unknown
+}): string {
+  const text =
+    doc.excerpt?.trim() ||
+    generateExcerpt(doc.content, META_DESCRIPTION_MAX_LENGTH) ||
+    extractBlocksText([doc.hero, doc.layout])
+
+  return truncateOnWordBoundary(text, META_DESCRIPTION_MAX_LENGTH)
+}
@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest'
+import { lexicalToFeedHtml } from './feedHtml'
+
+const SERVER_URL = 'https://example.com'
+
+function root(...children: unknown[]) {
+  return { root: { type: 'root', children, direction: null, format: '', indent: 0, version: 1 } }
+}
+
+function paragraph(...children: unknown[]) {
+  return { type: 'paragraph', children, direction: null, format: '', indent: 0, version: 1 }
+}
+
+function text(value: string, format = 0) {
+  return { type: 'text', text: value, format, detail: 0, mode: 'normal', style: '', version: 1 }
+}
+
+function link(fields: Record<string, unknown>, ...children: unknown[]) {
+  return { type: 'link', fields, children, direction: null, format: '', indent: 0, version: 3 }
+}
+
+describe('lexicalToFeedHtml', () => {
+  it('should return an empty string without content', () => {
+    expect(lexicalToFeedHtml(null, SERVER_URL)).toBe('')
+  })
+
+  it('should escape text and apply formats', () => {
+    const html = lexicalToFeedHtml(root(paragraph(text('<script>alert(1)</script>'), text(' bold', 1))), SERVER_URL)
+
+    expect(html).toBe('<p>&lt;script&gt;alert(1)&lt;/script&gt;<strong> bold</strong></p>')
+  })
+
+  it('should render headings, lists and quotes', () => {
+    const html = lexicalToFeedHtml(
+      root(
+        { type: 'heading', tag: 'h2', children: [text('Title')], version: 1 },
+        { type: 'list', listType: 'number', tag: 'ol', children: [{ type: 'listitem', children: [text('One')], version: 1 }], version: 1 },
+        { type: 'quote', children: [text('Quoted')], version: 1 },
+      ),
+      SERVER_URL,
+    )
+
+    expect(html).toBe('<h2>Title</h2><ol><li>One</li></ol><blockquote>Quoted</blockquote>')
+  })
+
+  it('should make relative links absolute', () => {
+    const html = lexicalToFeedHtml(root(paragraph(link({ url: '/about', linkType: 'custom' }, text('About')))), SERVER_URL)
+
+    expect(html).toBe('<p><a href="https://example.com/about">About</a></p>')
+  })
+
+  it('should resolve internal links to the document path', () => {
+    const html = lexicalToFeedHtml(
+      root(paragraph(link({ linkType: 'internal', doc: { relationTo: 'posts', value: { slug: 'hello' } } }, text('Post')))),
+      SERVER_URL,
+    )
+
+    expect(html).toBe('<p><a href="https://example.com/posts/hello">Post</a></p>')
+  })
+
+  it('should drop links with unsafe protocols but keep their text', () => {
+    const html = lexicalToFeedHtml(root(paragraph(link({ url: 'javascript:alert(1)' }, text('Click')))), SERVER_URL)
+
+    expect(html).toBe('<p>Click</p>')
+  })
+
+  it('should escape link URLs', () => {
+    const html = lexicalToFeedHtml(root(paragraph(link({ url: 'https://example.com/?a="b"' }, text('Q')))), SERVER_URL)
+
+    expect(html).toBe('<p><a href="https://example.com/?a=%22b%22">Q</a></p>')
+  })
+
+  it('should render image uploads with absolute URLs', () => {
+    const html = lexicalToFeedHtml(
+      root({ type: 'upload', value: { url: '/api/media/file/a.png', alt: 'A "cat"', mimeType: 'image/png' }, version: 3 }),
+      SERVER_URL,
+    )
+
+    expect(html).toBe('<img src="https://example.com/api/media/file/a.png" alt="A &quot;cat&quot;" />')
+  })
+
+  it('should drop blocks', () => {
+    const html = lexicalToFeedHtml(
+      root(paragraph(text('Before')), { type: 'block', fields: { blockType: 'code', code: '<b>' }, version: 2 }),
+      SERVER_URL,
+    )
+
+    expect(html).toBe('<p>Before</p>')
+  })
+})
@@ -0,0 +1,191 @@
+import {
+  convertLexicalToHTML,
+  type HTMLConverters,
+  type HTMLConvertersFunction,
+} from '@payloadcms/richtext-lexical/html'
+import type { SerializedEditorState } from '@payloadcms/richtext-lexical/lexical'
+
+import { getDocumentPath } from './getDocumentPath'
+
+/**
+ * Lexical to HTML rendering for syndication feeds.
+ *
+ * Feed readers display the HTML as-is, so only a fixed set of nodes is
+ * rendered and every text, attribute and URL is escaped. Payload's default
+ * converters interpolate text and link URLs unescaped, so they are not used.
+ *
+ * Features:
+ * - Text formats, paragraphs, headings, lists, quotes and line breaks
+ * - Links restricted to http(s), mailto and site-relative URLs, made absolute
+ * - Image uploads rendered as `<img>` with absolute URLs
+ * - Blocks and unknown nodes dropped, keeping the text of their children
+ */
+
+/** Lexical text format bit flags */
+const TEXT_FORMATS: [flag: number, tag: string][] = [
+  [1, 'strong'],
+  [2, 'em'],
+  [4, 's'],
+  [8, 'u'],
+  [16, 'code'],
+  [32, 'sub'],
+  [64, 'sup'],
+]
+
+const HEADING_TAGS = new Set(['h1', 'h2', 'h3', 'h4', 'h5', 'h6'])
+
+/** Link protocols allowed in feed content */
+const SAFE_PROTOCOLS = new Set(['http:', 'https:', 'mailto:'])
+
+/**
+ * Minimal shape of the Lexical nodes read by the converters
+ */
+interface FeedNode {
+  text?: string
+  /** Text format bit flags (element nodes use a string alignment instead) */
+  format?: number | string
+  tag?: string
+  listType?: string
+  children?: FeedNode[]
+  fields?: {
+    url?: string | null
+    linkType?: 'custom' | 'internal'
+    doc?: { relationTo?: string; value?: unknown } | null
+  }
+  value?: unknown
+}
+
+/**
+ * Escapes text for use in HTML content and double-quoted attributes
+ */
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+/**
+ * Resolves a link URL to an absolute URL with an allowed protocol
+ *
+ * @returns The absolute URL, or null if the URL is unsafe or invalid
+ */
+function toSafeURL(url: string | null | undefined, serverURL: string): string | null {
+  if (!url) {
+    return null
+  }
+
+  try {
+    const resolved = new URL(url, `${serverURL}/`)
+    return SAFE_PROTOCOLS.has(resolved.protocol) ? resolved.href : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Gets the href of a link node, resolving internal links to their frontend path
+ */
+function getLinkURL(node: FeedNode, serverURL: string): string | null {
+  const fields = node.fields ?? {}
+
+  if (fields.linkType === 'internal') {
+    const value = fields.doc?.value
+    const slug = typeof value === 'object' && value !== null ? (value as { slug?: string | null }).slug : null
+    return toSafeURL(getDocumentPath(fields.doc?.relationTo ?? '', slug), serverURL)
+  }
+
+  return toSafeURL(fields.url, serverURL)
+}
+
+/**
+ * Converter signature for the node fields read here
+ */
+type FeedConverter = (args: {
+  node: FeedNode
+  nodesToHTML: (args: { nodes: FeedNode[] }) => string[]
+}) => string
+
+/**
+ * Builds the feed converters for a site URL
+ */
+function createFeedConverters(serverURL: string): HTMLConvertersFunction {
+  const children = (node: FeedNode, nodesToHTML: (args: { nodes: FeedNode[] }) => string[]): string =>
+    nodesToHTML({ nodes: node.children ?? [] }).join('')
+
+  const link: FeedConverter = ({ node, nodesToHTML }) => {
+    const href = getLinkURL(node, serverURL)
+    const html = children(node, nodesToHTML)
+    return href ? `<a href="${escapeHtml(href)}">${html}</a>` : html
+  }
+
+  const converters: Record<string, FeedConverter> = {
+    text: ({ node }) => {
+      const format = typeof node.format === 'number' ? node.format : 0
+      return TEXT_FORMATS.reduce(
+        (html, [flag, tag]) => (format & flag ? `<${tag}>${html}</${tag}>` : html),
+        escapeHtml(node.text ?? ''),
+      )
+    },
+    linebreak: () => '<br />',
+    tab: () => '\t',
+    paragraph: ({ node, nodesToHTML }) => `<p>${children(node, nodesToHTML)}</p>`,
+    heading: ({ node, nodesToHTML }) => {
+      const tag = node.tag && HEADING_TAGS.has(node.tag) ? node.tag : 'h2'
+      return `<${tag}>${children(node, nodesToHTML)}</${tag}>`
+    },
+    quote: ({ node, nodesToHTML }) => `<blockquote>${children(node, nodesToHTML)}</blockquote>`,
+    list: ({ node, nodesToHTML }) => {
+      const tag = node.listType === 'number' ? 'ol' : 'ul'
+      return `<${tag}>${children(node, nodesToHTML)}</${tag}>`
+    },
+    listitem: ({ node, nodesToHTML }) => `<li>${children(node, nodesToHTML)}</li>`,
+    horizontalrule: () => '<hr />',
+    link,
+    autolink: link,
+    upload: ({ node }) => {
+      const doc = node.value
+      if (typeof doc !== 'object' || doc === null) {
+        return ''
+      }
+
+      const { url, alt, mimeType } = doc as { url?: string | null; alt?: string | null; mimeType?: string | null }
+      const src = toSafeURL(url, serverURL)
+      if (!src || !mimeType?.startsWith('image/')) {
+        return ''
+      }
+
+      return `<img src="${escapeHtml(src)}" alt="${escapeHtml(alt ?? '')}" />`
+    },
+    // Blocks, tables and other nodes without a safe rendering keep only their text
+    unknown: ({ node, nodesToHTML }) => children(node, nodesToHTML),
+  }
+
+  return () => converters as unknown as HTMLConverters
+}
+
+/**
+ * Renders Lexical rich text to sanitized HTML for feed items
+ *
+ * @param content - Serialized Lexical editor state (e.g. a post's `content`)
+ * @param serverURL - Site URL used to make links and images absolute
+ * @returns The HTML, or an empty string if there is no content
+ */
+export function lexicalToFeedHtml(
+  content: { root?: unknown } | null | undefined,
+  serverURL: string,
+): string {
+  if (!content?.root) {
+    return ''
+  }
+
+  return convertLexicalToHTML({
+    data: content as SerializedEditorState,
+    converters: createFeedConverters(serverURL),
+    disableContainer: true,
+    disableIndent: true,
+    disableTextAlign: true,
+  })
+}
@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest'
+import { buildAtomFeed, buildFeed, buildJsonFeed, buildRssFeed, type FeedChannel, type FeedItem } from './feeds'
+
+const channel: FeedChannel = {
+  title: 'Acme Blog',
+  description: 'News & updates',
+  homeUrl: 'https://example.com/posts',
+  feedUrl: 'https://example.com/posts/feed.xml',
+  language: 'en',
+}
+
+const item: FeedItem = {
+  url: 'https://example.com/posts/hello-world',
+  title: 'Hello <World>',
+  summary: 'A first post',
+  contentHtml: '<p>Hello &amp; welcome</p>',
+  publishedAt: '2026-01-02T10:00:00.000Z',
+  updatedAt: '2026-01-03T10:00:00.000Z',
+  authors: ['Jane Doe', 'John Smith'],
+  categories: ['News', 'Tech'],
+  image: { url: 'https://example.com/media/cover.jpg', mimeType: 'image/jpeg', size: 1234 },
+}
+
+describe('buildRssFeed', () => {
+  const xml = buildRssFeed(channel, [item])
+
+  it('should render the channel with a self link', () => {
+    expect(xml).toContain('<title>Acme Blog</title>')
+    expect(xml).toContain('<description>News &amp; updates</description>')
+    expect(xml).toContain('<atom:link href="https://example.com/posts/feed.xml" rel="self" type="application/rss+xml"/>')
+    expect(xml).toContain('<lastBuildDate>Sat, 03 Jan 2026 10:00:00 GMT</lastBuildDate>')
+  })
+
+  it('should render items with escaped content, author, categories and enclosure', () => {
+    expect(xml).toContain('<title>Hello &lt;World&gt;</title>')
+    expect(xml).toContain('<guid isPermaLink="true">https://example.com/posts/hello-world</guid>')
+    expect(xml).toContain('<pubDate>Fri, 02 Jan 2026 10:00:00 GMT</pubDate>')
+    expect(xml).toContain('<dc:creator>Jane Doe</dc:creator><dc:creator>John Smith</dc:creator>')
+    expect(xml).toContain('<category>News</category><category>Tech</category>')
+    expect(xml).toContain('<content:encoded>&lt;p&gt;Hello &amp;amp; welcome&lt;/p&gt;</content:encoded>')
+    expect(xml).toContain('<enclosure url="https://example.com/media/cover.jpg" length="1234" type="image/jpeg"/>')
+  })
+
+  it('should leave out optional item fields', () => {
+    const minimal = buildRssFeed(channel, [{ ...item, authors: [], categories: [], image: null, summary: null }])
+
+    expect(minimal).not.toContain('<dc:creator>')
+    expect(minimal).not.toContain('<category>')
+    expect(minimal).not.toContain('<enclosure')
+    expect(minimal).not.toContain('<description>A first post')
+  })
+})
+
+describe('buildAtomFeed', () => {
+  const xml = buildAtomFeed(channel, [item])
+
+  it('should render the feed with id, updated date and links', () => {
+    expect(xml).toContain('<feed xmlns="http://www.w3.org/2005/Atom" xml:lang="en">')
+    expect(xml).toContain('<id>https://example.com/posts/feed.xml</id>')
+    expect(xml).toContain('<updated>2026-01-03T10:00:00.000Z</updated>')
+    expect(xml).toContain('<link rel="alternate" type="text/html" href="https://example.com/posts"/>')
+  })
+
+  it('should render entries with HTML content and enclosure', () => {
+    expect(xml).toContain('<published>2026-01-02T10:00:00.000Z</published>')
+    expect(xml).toContain('<author><name>Jane Doe</name></author><author><name>John Smith</name></author>')
+    expect(xml).toContain('<category term="News"/>')
+    expect(xml).toContain('<content type="html">&lt;p&gt;Hello &amp;amp; welcome&lt;/p&gt;</content>')
+    expect(xml).toContain('<link rel="enclosure" href="https://example.com/media/cover.jpg" type="image/jpeg" length="1234"/>')
+  })
+})
+
+describe('buildJsonFeed', () => {
+  it('should render a JSON Feed 1.1 document', () => {
+    const feed = JSON.parse(buildJsonFeed(channel, [item]))
+
+    expect(feed).toMatchObject({
+      version: 'https://jsonfeed.org/version/1.1',
+      title: 'Acme Blog',
+      home_page_url: 'https://example.com/posts',
+      feed_url: 'https://example.com/posts/feed.xml',
+    })
+    expect(feed.items[0]).toEqual({
+      id: 'https://example.com/posts/hello-world',
+      url: 'https://example.com/posts/hello-world',
+      title: 'Hello <World>',
+      content_html: '<p>Hello &amp; welcome</p>',
+      summary: 'A first post',
+      image: 'https://example.com/media/cover.jpg',
+      date_published: '2026-01-02T10:00:00.000Z',
+      date_modified: '2026-01-03T10:00:00.000Z',
+      authors: [{ name: 'Jane Doe' }, { name: 'John Smith' }],
+      tags: ['News', 'Tech'],
+      attachments: [{ url: 'https://example.com/media/cover.jpg', mime_type: 'image/jpeg', size_in_bytes: 1234 }],
+    })
+  })
+})
+
+describe('buildFeed', () => {
+  it('should dispatch on the format', () => {
+    expect(buildFeed('rss', channel, [])).toContain('<rss version="2.0"')
+    expect(buildFeed('atom', channel, [])).toContain('<feed xmlns="http://www.w3.org/2005/Atom"')
+    expect(JSON.parse(buildFeed('json', channel, [])).items).toEqual([])
+  })
+})
@@ -0,0 +1,230 @@
+import { escapeXml } from './xml'
+
+/**
+ * Syndication feed helpers.
+ *
+ * Builds RSS 2.0, Atom 1.0 and JSON Feed 1.1 documents from the same
+ * channel and item data. Data loading lives in getFeed.ts.
+ */
+
+/** Number of most recent posts included in a feed */
+export const FEED_ITEM_LIMIT = 20
+
+export type FeedFormat = 'rss' | 'atom' | 'json'
+
+/** Content-Type header for each feed format */
+export const FEED_CONTENT_TYPES: Record<FeedFormat, string> = {
+  rss: 'application/rss+xml; charset=utf-8',
+  atom: 'application/atom+xml; charset=utf-8',
+  json: 'application/feed+json; charset=utf-8',
+}
+
+/**
+ * Feed-level metadata
+ */
+export interface FeedChannel {
+  title: string
+  description: string
+  /** Absolute URL of the HTML page the feed belongs to */
+  homeUrl: string
+  /** Absolute URL of the feed itself */
+  feedUrl: string
+  /** BCP 47 language tag */
+  language?: string
+}
+
+/**
+ * A media file attached to an item (RSS enclosure, JSON Feed attachment)
+ */
+export interface FeedEnclosure {
+  /** Absolute URL */
+  url: string
+  mimeType: string
+  /** File size in bytes */
+  size: number
+}
+
+/**
+ * A post in a feed
+ */
+export interface FeedItem {
+  /** Absolute URL, also used as the item's unique ID */
+  url: string
+  title: string
+  summary?: string | null
+  /** Sanitized HTML of the full content */
+  contentHtml: string
+  /** Publication date (ISO 8601) */
+  publishedAt: string
+  /** Last modification date (ISO 8601) */
+  updatedAt?: string | null
+  /** Names of the post's authors, in byline order */
+  authors: string[]
+  categories: string[]
+  image?: FeedEnclosure | null
+}
+
+/**
+ * Formats an ISO date as an RFC 822 date for RSS
+ */
+function toRfc822(date: string): string {
+  return new Date(date).toUTCString()
+}
+
+/**
+ * Gets the most recent modification date across items
+ */
+function getFeedUpdatedAt(items: FeedItem[]): string {
+  const dates = items.map((item) => new Date(item.updatedAt ?? item.publishedAt).getTime())
+  return dates.length > 0 ? new Date(Math.max(...dates)).toISOString() : new Date(0).toISOString()
+}
+
+/**
+ * Renders an XML element with escaped text, or nothing for an empty value
+ */
+function element(tag: string, value: string | null | undefined, attributes = ''): string {
+  return value ? `<${tag}${attributes}>${escapeXml(value)}</${tag}>` : ''
+}
+
+/**
+ * Builds an RSS 2.0 document
+ *
+ * Full content is included as `content:encoded`, each author as `dc:creator`
+ * (RSS `author` requires an email address) and the featured image as an
+ * enclosure.
+ *
+ * @param channel - Feed metadata
+ * @param items - Items, newest first
+ * @returns The XML document
+ */
+export function buildRssFeed(channel: FeedChannel, items: FeedItem[]): string {
+  const renderItem = (item: FeedItem): string =>
+    [
+      '<item>',
+      element('title', item.title),
+      element('link', item.url),
+      element('guid', item.url, ' isPermaLink="true"'),
+      element('pubDate', toRfc822(item.publishedAt)),
+      ...item.authors.map((name) => element('dc:creator', name)),
+      ...item.categories.map((category) => element('category', category)),
+      element('description', item.summary),
+      element('content:encoded', item.contentHtml),
+      item.image
+        ? `<enclosure url="${escapeXml(item.image.url)}" length="${item.image.size}" type="${escapeXml(item.image.mimeType)}"/>`
+        : '',
+      '</item>',
+    ].join('')
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:content="http://purl.org/rss/1.0/modules/content/" xmlns:dc="http://purl.org/dc/elements/1.1/">',
+    '<channel>',
+    element('title', channel.title),
+    element('link', channel.homeUrl),
+    element('description', channel.description),
+    element('language', channel.language),
+    element('lastBuildDate', toRfc822(getFeedUpdatedAt(items))),
+    `<atom:link href="${escapeXml(channel.feedUrl)}" rel="self" type="application/rss+xml"/>`,
+    ...items.map(renderItem),
+    '</channel>',
+    '</rss>',
+  ]
+    .filter(Boolean)
+    .join('\n')
+}
+
+/**
+ * Builds an Atom 1.0 document
+ *
+ * @param channel - Feed metadata
+ * @param items - Items, newest first
+ * @returns The XML document
+ */
+export function buildAtomFeed(channel: FeedChannel, items: FeedItem[]): string {
+  const renderEntry = (item: FeedItem): string =>
+    [
+      '<entry>',
+      element('id', item.url),
+      element('title', item.title),
+      `<link rel="alternate" type="text/html" href="${escapeXml(item.url)}"/>`,
+      element('published', item.publishedAt),
+      element('updated', item.updatedAt ?? item.publishedAt),
+      ...item.authors.map((name) => `<author>${element('name', name)}</author>`),
+      ...item.categories.map((category) => `<category term="${escapeXml(category)}"/>`),
+      element('summary', item.summary),
+      element('content', item.contentHtml, ' type="html"'),
+      item.image
+        ? `<link rel="enclosure" href="${escapeXml(item.image.url)}" type="${escapeXml(item.image.mimeType)}" length="${item.image.size}"/>`
+        : '',
+      '</entry>',
+    ].join('')
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<feed xmlns="http://www.w3.org/2005/Atom"${channel.language ? ` xml:lang="${escapeXml(channel.language)}"` : ''}>`,
+    element('id', channel.feedUrl),
+    element('title', channel.title),
+    element('subtitle', channel.description),
+    element('updated', getFeedUpdatedAt(items)),
+    `<link rel="self" type="application/atom+xml" href="${escapeXml(channel.feedUrl)}"/>`,
+    `<link rel="alternate" type="text/html" href="${escapeXml(channel.homeUrl)}"/>`,
+    // Feed-level author, required by Atom for entries without one
+    `<author>${element('name', channel.title)}</author>`,
+    ...items.map(renderEntry),
+    '</feed>',
+  ]
+    .filter(Boolean)
+    .join('\n')
+}
+
+/**
+ * Builds a JSON Feed 1.1 document
+ *
+ * @param channel - Feed metadata
+ * @param items - Items, newest first
+ * @returns The JSON document
+ */
+export function buildJsonFeed(channel: FeedChannel, items: FeedItem[]): string {
+  return JSON.stringify({
+    version: 'https://jsonfeed.org/version/1.1',
+    title: channel.title,
+    home_page_url: channel.homeUrl,
+    feed_url: channel.feedUrl,
+    description: channel.description,
+    language: channel.language,
+    items: items.map((item) => ({
+      id: item.url,
+      url: item.url,
+      title: item.title,
+      content_html: item.contentHtml,
+      summary: item.summary || undefined,
+      image: item.image?.mimeType.startsWith('image/') ? item.image.url : undefined,
+      date_published: item.publishedAt,
+      date_modified: item.updatedAt ?? undefined,
+      authors: item.authors.length > 0 ? item.authors.map((name) => ({ name })) : undefined,
+      tags: item.categories.length > 0 ? item.categories : undefined,
+      attachments: item.image
+        ? [{ url: item.image.url, mime_type: item.image.mimeType, size_in_bytes: item.image.size }]
+        : undefined,
+    })),
+  })
+}
+
+/**
+ * Builds a feed document in the given format
+ *
+ * @param format - rss, atom or json
+ * @param channel - Feed metadata
+ * @param items - Items, newest first
+ * @returns The document body
+ */
+export function buildFeed(format: FeedFormat, channel: FeedChannel, items: FeedItem[]): string {
+  switch (format) {
+    case 'rss':
+      return buildRssFeed(channel, items)
+    case 'atom':
+      return buildAtomFeed(channel, items)
+    case 'json':
+      return buildJsonFeed(channel, items)
+  }
+}
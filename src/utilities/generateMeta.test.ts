@@ -0,0 +1,84 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { generateMeta } from './generateMeta'
+
+describe('generateMeta', () => {
+  beforeEach(() => {
+    vi.stubEnv('NEXT_PUBLIC_SERVER_URL', 'https://example.com')
+  })
+
+  afterEach(() => {
+    vi.unstubAllEnvs()
+  })
+
+  it('should use meta fields for title and description', () => {
+    const meta = generateMeta({
+      doc: { title: 'About', slug: 'about', meta: { title: 'About Us', description: 'Our team' } },
+    })
+
+    expect(meta.title).toBe('About Us')
+    expect(meta.description).toBe('Our team')
+  })
+
+  it('should fall back to the excerpt without a meta description', () => {
+    const meta = generateMeta({
+      doc: { title: 'Hello', slug: 'hello', excerpt: 'A first post', meta: { description: '' } },
+      collectionSlug: 'posts',
+    })
+
+    expect(meta.description).toBe('A first post')
+  })
+
+  it('should omit robots metadata by default', () => {
+    const meta = generateMeta({ doc: { title: 'About', slug: 'about', meta: { noindex: false } } })
+
+    expect(meta.robots).toBeUndefined()
+  })
+
+  it('should add noindex robots metadata', () => {
+    const meta = generateMeta({ doc: { title: 'About', slug: 'about', meta: { noindex: true } } })
+
+    expect(meta.robots).toEqual({ index: false, follow: true })
+  })
+
+  it('should add nofollow robots metadata', () => {
+    const meta = generateMeta({ doc: { title: 'About', slug: 'about', meta: { nofollow: true } } })
+
+    expect(meta.robots).toEqual({ index: true, follow: false })
+  })
+
+  it('should use the meta image for Open Graph and Twitter', () => {
+    const meta = generateMeta({
+      doc: {
+        title: 'Post',
+        slug: 'post',
+        meta: { image: { url: '/media/meta.jpg', alt: 'Meta', width: 1200, height: 630 } },
+        featuredImage: { url: '/media/featured.jpg' },
+      },
+      collectionSlug: 'posts',
+    })
+
+    expect(meta.openGraph?.images).toEqual([
+      { url: 'https://example.com/media/meta.jpg', alt: 'Meta', width: 1200, height: 630 },
+    ])
+    expect(meta.twitter?.images).toEqual(['https://example.com/media/meta.jpg'])
+  })
+
+  it('should fall back to the featured image', () => {
+    const meta = generateMeta({
+      doc: { title: 'Post', slug: 'post', meta: { image: 7 as unknown as string }, featuredImage: { url: 'https://cdn.example.com/featured.jpg' } },
+      collectionSlug: 'posts',
+    })
+
+    expect(meta.openGraph?.images).toEqual([
+      { url: 'https://cdn.example.com/featured.jpg', alt: undefined, width: undefined, height: undefined },
+    ])
+  })
+
+  it('should leave images unset so the generated card is used', () => {
+    const meta = generateMeta({ doc: { title: 'About', slug: 'about', meta: {} } })
+
+    expect(meta.openGraph).not.toHaveProperty('images')
+    expect(meta.twitter).not.toHaveProperty('images')
+    expect(meta.openGraph?.title).toBe('About')
+  })
+})
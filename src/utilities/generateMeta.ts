@@ -3,6 +3,16 @@ import type { Metadata } from 'next'
 import { getServerSideURL } from './getURL'
 import { mergeOpenGraph } from './mergeOpenGraph'
 
+/**
+ * Populated upload fields used as the Open Graph image
+ */
+interface MetaImage {
+  url?: string | null
+  alt?: string | null
+  width?: number | null
+  height?: number | null
+}
+
 /**
  * Interface for documents that have SEO meta fields.
  * Matches the meta group structure used in Pages and Posts collections.
@@ -11,15 +21,16 @@ interface DocumentWithMeta {
   meta?: {
     title?: string | null
     description?: string | null
-    image?: {
-      url?: string | null
-      alt?: string | null
-      width?: number | null
-      height?: number | null
-    } | string | null
+    image?: MetaImage | string | null
+    noindex?: boolean | null
+    nofollow?: boolean | null
   } | null
   title?: string | null
   slug?: string | null
+  /** Posts' excerpt, used when no meta description is set */
+  excerpt?: string | null
+  /** Posts' featured image, used when no meta image is set */
+  featuredImage?: MetaImage | string | null
 }
 
 /**
@@ -30,9 +41,21 @@ interface GenerateMetaArgs {
   collectionSlug?: string
 }
 
+/**
+ * Removes the default images from merged OpenGraph metadata
+ */
+function withoutImages(openGraph: ReturnType<typeof mergeOpenGraph>): ReturnType<typeof mergeOpenGraph> {
+  const { images: _images, ...rest } = openGraph
+  return rest
+}
+
 /**
  * Generates Next.js Metadata object from a Payload document's meta fields.
- * Handles image URLs (both relative and absolute), and provides fallbacks.
+ * Handles image URLs (both relative and absolute), and provides fallbacks:
+ * the meta image, then the featured image, then (by leaving the image unset)
+ * the route's generated `opengraph-image` card. Posts without a meta
+ * description use their excerpt.
+ * The noindex/nofollow toggles become `robots` metadata when either is set.
  *
  * @param args - The document and optional collection slug
  * @returns Next.js Metadata object
@@ -41,7 +64,7 @@ export function generateMeta(args: GenerateMetaArgs): Metadata {
   const { doc, collectionSlug } = args
 
   const title = doc?.meta?.title ?? doc?.title ?? 'Payload CMS'
-  const description = doc?.meta?.description ?? ''
+  const description = doc?.meta?.description || doc?.excerpt || ''
 
   // Build the canonical URL
   const serverURL = getServerSideURL()
@@ -52,49 +75,53 @@ export function generateMeta(args: GenerateMetaArgs): Metadata {
     url = `${serverURL}/${doc.slug}`
   }
 
-  // Handle image - can be populated object or string ID
-  let ogImage: string | undefined
-  let ogImageAlt: string | undefined
-  let ogImageWidth: number | undefined
-  let ogImageHeight: number | undefined
+  // Prefer the meta image, then the featured image (either may be an unpopulated ID)
+  const image = [doc?.meta?.image, doc?.featuredImage].find(
+    (candidate): candidate is MetaImage => typeof candidate === 'object' && Boolean(candidate?.url),
+  )
+  // If it's a relative URL, prepend the server URL
+  const ogImage = image?.url
+    ? image.url.startsWith('http') ? image.url : `${serverURL}${image.url}`
+    : undefined
 
-  if (doc?.meta?.image && typeof doc.meta.image === 'object') {
-    const imageUrl = doc.meta.image.url
-    if (imageUrl) {
-      // If it's a relative URL, prepend the server URL
-      ogImage = imageUrl.startsWith('http') ? imageUrl : `${serverURL}${imageUrl}`
-      ogImageAlt = doc.meta.image.alt ?? undefined
-      ogImageWidth = doc.meta.image.width ?? undefined
-      ogImageHeight = doc.meta.image.height ?? undefined
-    }
-  }
+  const { noindex, nofollow } = doc?.meta ?? {}
 
   return {
     title,
     description,
+    ...(noindex || nofollow
+      ? {
+          robots: {
+            index: !noindex,
+            follow: !nofollow,
+          },
+        }
+      : {}),
     alternates: {
       canonical: url,
     },
-    openGraph: mergeOpenGraph({
-      title,
-      description: description || undefined,
-      url,
-      images: ogImage
-        ? [
+    // Without an image, `images` is left unset so the route's generated
+    // opengraph-image card is used instead
+    openGraph: ogImage
+      ? mergeOpenGraph({
+          title,
+          description: description || undefined,
+          url,
+          images: [
             {
               url: ogImage,
-              alt: ogImageAlt,
-              width: ogImageWidth,
-              height: ogImageHeight,
+              alt: image?.alt ?? undefined,
+              width: image?.width ?? undefined,
+              height: image?.height ?? undefined,
             },
-          ]
-        : undefined,
-    }),
+          ],
+        })
+      : withoutImages(mergeOpenGraph({ title, description: description || undefined, url })),
     twitter: {
       card: 'summary_large_image',
       title,
       description: description || undefined,
-      images: ogImage ? [ogImage] : undefined,
+      ...(ogImage ? { images: [ogImage] } : {}),
     },
   }
 }
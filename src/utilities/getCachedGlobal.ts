@@ -0,0 +1,35 @@
+import { unstable_cache } from 'next/cache'
+import type { DataFromGlobalSlug, GlobalSlug } from 'payload'
+
+import { getGlobalCacheTag } from './cacheTags'
+import { getPayload } from './getPayload'
+
+/**
+ * Creates a cached loader for a Payload global.
+ *
+ * The result is stored in the Next.js data cache under the global's tag and
+ * only refetched after the tag is revalidated, so rendering the layout does
+ * not query the database on every request.
+ *
+ * @param slug - The global slug
+ * @param depth - Relationship depth to populate (default 1)
+ * @returns Function that resolves to the global document
+ *
+ * @example
+ * ```ts
+ * const header = await getCachedGlobal('header')()
+ * ```
+ */
+export function getCachedGlobal<TSlug extends GlobalSlug>(
+  slug: TSlug,
+  depth = 1,
+): () => Promise<DataFromGlobalSlug<TSlug>> {
+  return unstable_cache(
+    async () => {
+      const payload = await getPayload()
+      return payload.findGlobal({ slug, depth })
+    },
+    ['global', slug, String(depth)],
+    { tags: [getGlobalCacheTag(slug)] },
+  )
+}
@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest'
+import { getArchivePath, getCategoryPath, getDocumentPath } from './getDocumentPath'
+
+describe('getDocumentPath', () => {
+  it('should return root path for the home page', () => {
+    expect(getDocumentPath('pages', 'home')).toBe('/')
+  })
+
+  it('should return slug path for other pages', () => {
+    expect(getDocumentPath('pages', 'about')).toBe('/about')
+  })
+
+  it('should prefix post slugs with /posts', () => {
+    expect(getDocumentPath('posts', 'hello-world')).toBe('/posts/hello-world')
+  })
+
+  it('should prefix tag slugs with /tags', () => {
+    expect(getDocumentPath('tags', 'nextjs')).toBe('/tags/nextjs')
+  })
+
+  it('should prefix series slugs with /series', () => {
+    expect(getDocumentPath('series', 'nextjs-from-scratch')).toBe('/series/nextjs-from-scratch')
+  })
+
+  it('should serve user profiles under /authors', () => {
+    expect(getDocumentPath('users', 'jane-doe')).toBe('/authors/jane-doe')
+  })
+
+  it('should return null when slug is missing', () => {
+    expect(getDocumentPath('pages', null)).toBeNull()
+    expect(getDocumentPath('posts', undefined)).toBeNull()
+    expect(getDocumentPath('posts', '')).toBeNull()
+  })
+
+  it('should return null for collections without a frontend route', () => {
+    expect(getDocumentPath('media', 'image')).toBeNull()
+  })
+})
+
+describe('getCategoryPath', () => {
+  it('should use the last breadcrumb URL for nested categories', () => {
+    const category = {
+      slug: 'react',
+      breadcrumbs: [{ url: '/categories/tech' }, { url: '/categories/tech/react' }],
+    }
+
+    expect(getCategoryPath(category)).toBe('/categories/tech/react')
+  })
+
+  it('should fall back to the slug without breadcrumbs', () => {
+    expect(getCategoryPath({ slug: 'news', breadcrumbs: [] })).toBe('/categories/news')
+  })
+
+  it('should return null without a slug or breadcrumbs', () => {
+    expect(getCategoryPath({})).toBeNull()
+  })
+})
+
+describe('getArchivePath', () => {
+  it('should return the year archive path', () => {
+    expect(getArchivePath(2026)).toBe('/posts/archive/2026')
+  })
+
+  it('should zero-pad months', () => {
+    expect(getArchivePath(2026, 3)).toBe('/posts/archive/2026/03')
+    expect(getArchivePath(2026, 11)).toBe('/posts/archive/2026/11')
+  })
+})
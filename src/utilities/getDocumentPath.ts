@@ -0,0 +1,97 @@
+/**
+ * Frontend path resolution for Payload documents.
+ * Keeps the mapping between collections and public routes in one place.
+ */
+
+/**
+ * Gets the public frontend path for a document in a routed collection.
+ *
+ * - Pages are served at `/slug`, with the `home` page at `/`
+ * - Posts are served at `/posts/slug`
+ * - Tags are served at `/tags/slug`
+ * - Series are served at `/series/slug`
+ * - Users with a public profile are served at `/authors/slug`
+ *
+ * @param collection - The collection slug of the document
+ * @param slug - The document slug
+ * @returns The frontend path, or null if the document has no public route
+ *
+ * @example
+ * getDocumentPath('pages', 'home')
+ * // Returns: "/"
+ *
+ * @example
+ * getDocumentPath('posts', 'hello-world')
+ * // Returns: "/posts/hello-world"
+ */
+export function getDocumentPath(
+  collection: string,
+  slug: string | null | undefined
+): string | null {
+  if (!slug) {
+    return null
+  }
+
+  if (collection === 'pages') {
+    return slug === 'home' ? '/' : `/${slug}`
+  }
+
+  if (collection === 'posts') {
+    return `/posts/${slug}`
+  }
+
+  if (collection === 'tags') {
+    return `/tags/${slug}`
+  }
+
+  if (collection === 'series') {
+    return `/series/${slug}`
+  }
+
+  if (collection === 'users') {
+    return `/authors/${slug}`
+  }
+
+  return null
+}
+
+/**
+ * Minimal category shape for path resolution
+ */
+interface CategoryPathDocument {
+  slug?: string | null
+  breadcrumbs?: { url?: string | null }[] | null
+}
+
+/**
+ * Gets the public archive path for a category.
+ *
+ * Nested categories are served at the URL of their last breadcrumb, which
+ * the nested docs plugin builds from the slugs of all ancestors.
+ *
+ * @param category - The category with its breadcrumbs
+ * @returns The frontend path, or null if the category has no slug
+ *
+ * @example
+ * getCategoryPath({ slug: 'react', breadcrumbs: [{ url: '/categories/tech' }, { url: '/categories/tech/react' }] })
+ * // Returns: "/categories/tech/react"
+ */
+export function getCategoryPath(category: CategoryPathDocument): string | null {
+  return category.breadcrumbs?.at(-1)?.url ?? (category.slug ? `/categories/${category.slug}` : null)
+}
+
+/**
+ * Gets the path of a date-based post archive.
+ * Months are zero-padded so every month has exactly one URL.
+ *
+ * @param year - The archive year
+ * @param month - The archive month (1-12), omitted for a year archive
+ * @returns The archive path
+ *
+ * @example
+ * getArchivePath(2026, 3)
+ * // Returns: "/posts/archive/2026/03"
+ */
+export function getArchivePath(year: number, month?: number): string {
+  return month ? `/posts/archive/${year}/${String(month).padStart(2, '0')}` : `/posts/archive/${year}`
+}
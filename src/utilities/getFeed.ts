@@ -0,0 +1,178 @@
+import { unstable_cache } from 'next/cache'
+import type { Where } from 'payload'
+
+import type { Category, Media, Post } from '@/payload-types'
+import { populateContributors } from './authors'
+import { getSitemapCacheTag } from './cacheTags'
+import { getCategoryByPath, getCategoryTreeIds } from './categories'
+import { getPostAuthors } from './contributors'
+import { lexicalToFeedHtml } from './feedHtml'
+import { FEED_ITEM_LIMIT, type FeedChannel, type FeedEnclosure, type FeedItem } from './feeds'
+import { getCachedGlobal } from './getCachedGlobal'
+import { getCategoryPath, getDocumentPath } from './getDocumentPath'
+import { getPayload } from './getPayload'
+import { getServerSideURL } from './getURL'
+
+/**
+ * Feed data loaders.
+ *
+ * Items are cached in the Next.js data cache under the `posts-list` tag,
+ * which the Posts revalidation hooks clear when a post is published, changed
+ * or removed.
+ */
+
+/**
+ * Channel and items of a feed, ready to pass to buildFeed
+ */
+export interface FeedData {
+  channel: Omit<FeedChannel, 'feedUrl'>
+  items: FeedItem[]
+}
+
+/**
+ * Makes a media URL absolute (local uploads are served from a relative path)
+ */
+function toAbsoluteURL(url: string, serverURL: string): string {
+  return new URL(url, `${serverURL}/`).href
+}
+
+/**
+ * Gets the featured image of a post as an enclosure
+ */
+function getEnclosure(image: Post['featuredImage'], serverURL: string): FeedEnclosure | null {
+  if (typeof image !== 'object' || !image?.url || !image.mimeType) {
+    return null
+  }
+
+  const media = image as Media
+  return {
+    url: toAbsoluteURL(media.url as string, serverURL),
+    mimeType: media.mimeType as string,
+    size: media.filesize ?? 0,
+  }
+}
+
+/**
+ * Maps a post (depth 1) to a feed item
+ */
+function toFeedItem(post: Post, serverURL: string): FeedItem {
+  const categories = (post.categories ?? [])
+    .map((category) => (typeof category === 'object' ? category.title : null))
+    .filter((title): title is string => Boolean(title))
+
+  return {
+    url: `${serverURL}${getDocumentPath('posts', post.slug)}`,
+    title: post.title,
+    summary: post.excerpt,
+    contentHtml: lexicalToFeedHtml(post.content, serverURL),
+    publishedAt: post.publishedAt ?? post.createdAt,
+    updatedAt: post.updatedAt,
+    authors: getPostAuthors(post).flatMap((author) => (author.name ? [author.name] : [])),
+    categories,
+    image: getEnclosure(post.featuredImage, serverURL),
+  }
+}
+
+/**
+ * Loads the most recent published posts as feed items (cached)
+ *
+ * @param categoryIds - Only include posts in these categories
+ */
+function getFeedItems(categoryIds?: Category['id'][]): Promise<FeedItem[]> {
+  return unstable_cache(
+    async () => {
+      const payload = await getPayload()
+      const serverURL = getServerSideURL()
+      const where: Where = { _status: { equals: 'published' } }
+
+      if (categoryIds) {
+        where.categories = { in: categoryIds }
+      }
+
+      const result = await payload.find({
+        collection: 'posts',
+        where,
+        sort: '-publishedAt',
+        limit: FEED_ITEM_LIMIT,
+        depth: 1, // Populate contributors, categories, featuredImage and internal links
+        // Only the display name of authors is shown
+        populate: { users: { name: true } },
+        // As a visitor, so links to documents they can't read aren't resolved
+        overrideAccess: false,
+      })
+      // Contributors without a public profile are credited like in page bylines
+      const posts = await populateContributors(result.docs)
+
+      return posts.map((post) => toFeedItem(post, serverURL))
+    },
+    ['feed-items', categoryIds?.join(',') ?? 'all'],
+    { tags: ['posts-list'] },
+  )()
+}
+
+/**
+ * Gets the site name and description for feed channels
+ */
+async function getSiteInfo(): Promise<{ title: string; description: string }> {
+  const siteSettings = await getCachedGlobal('site-settings')()
+
+  return {
+    title: siteSettings.general?.siteName ?? 'Blog',
+    description: siteSettings.general?.siteDescription ?? '',
+  }
+}
+
+/**
+ * Loads the blog feed with the most recent published posts
+ *
+ * @returns Channel metadata (without the feed URL) and items, newest first
+ */
+export async function getPostsFeed(): Promise<FeedData> {
+  const serverURL = getServerSideURL()
+  const [site, items] = await Promise.all([getSiteInfo(), getFeedItems()])
+
+  return {
+    channel: {
+      title: site.title,
+      description: site.description || `Latest posts from ${site.title}`,
+      homeUrl: `${serverURL}/posts`,
+      language: 'en',
+    },
+    items,
+  }
+}
+
+/**
+ * Loads the feed of one category, including posts in its subcategories
+ *
+ * @param path - Path segments after /categories (e.g. ['tech', 'react'])
+ * @returns The feed data, or null if the category does not exist
+ */
+export async function getCategoryFeed(path: string[]): Promise<FeedData | null> {
+  const tree = await unstable_cache(
+    async () => {
+      const category = await getCategoryByPath(path)
+      return category ? { category, ids: await getCategoryTreeIds(category.id) } : null
+    },
+    ['feed-category', ...path],
+    { tags: [getSitemapCacheTag('categories')] },
+  )()
+
+  if (!tree) {
+    return null
+  }
+
+  const { category, ids } = tree
+  const serverURL = getServerSideURL()
+  const [site, items] = await Promise.all([getSiteInfo(), getFeedItems(ids)])
+
+  return {
+    channel: {
+      title: `${category.title} | ${site.title}`,
+      description: `Latest posts in ${category.title} from ${site.title}`,
+      homeUrl: `${serverURL}${getCategoryPath(category)}`,
+      language: 'en',
+    },
+    items,
+  }
+}
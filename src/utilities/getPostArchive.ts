@@ -0,0 +1,99 @@
+import { unstable_cache } from 'next/cache'
+import { sql, type PostgresAdapter } from '@payloadcms/db-postgres'
+import type { PaginatedDocs } from 'payload'
+
+import type { Post } from '@/payload-types'
+import { PUBLIC_AUTHOR_FIELDS, populateContributors } from './authors'
+import { getPayload } from './getPayload'
+import { getArchiveDateRange, type ArchiveMonth } from './postArchive'
+
+/**
+ * Date-based archive data loaders.
+ *
+ * Post counts are cached in the Next.js data cache under the `posts-list`
+ * tag, which the Posts revalidation hooks clear when a post is published,
+ * changed or removed.
+ */
+
+/** Number of posts to display per archive page */
+export const ARCHIVE_POSTS_PER_PAGE = 9
+
+/**
+ * Row returned by the archive count query
+ */
+interface ArchiveRow extends Record<string, unknown> {
+  year: number
+  month: number
+  count: number
+}
+
+/**
+ * Loads the number of published posts per month (cached).
+ *
+ * Counts are grouped in Postgres by the UTC year and month of `publishedAt`,
+ * so only one row per month is loaded however many posts there are.
+ *
+ * @returns Months with published posts, newest first
+ */
+export function getArchiveMonths(): Promise<ArchiveMonth[]> {
+  return unstable_cache(
+    async () => {
+      const payload = await getPayload()
+      const db = payload.db as unknown as PostgresAdapter
+
+      const { rows } = await db.drizzle.execute<ArchiveRow>(sql`
+        SELECT
+          extract(year FROM published_at AT TIME ZONE 'UTC')::int AS year,
+          extract(month FROM published_at AT TIME ZONE 'UTC')::int AS month,
+          count(*)::int AS count
+        FROM posts
+        WHERE _status = 'published' AND published_at IS NOT NULL
+        GROUP BY 1, 2
+        ORDER BY 1 DESC, 2 DESC
+      `)
+
+      return rows.map((row) => ({
+        year: Number(row.year),
+        month: Number(row.month),
+        count: Number(row.count),
+      }))
+    },
+    ['archive-months'],
+    { tags: ['posts-list'] },
+  )()
+}
+
+/**
+ * Fetches the published posts of a year or month, newest first
+ *
+ * @param year - The archive year
+ * @param month - The archive month (1-12), omitted for the whole year
+ * @param page - Page number (1-indexed)
+ * @returns Paginated posts with featured images, categories and contributors populated
+ */
+export async function getArchivePosts(
+  year: number,
+  month?: number,
+  page: number = 1,
+): Promise<PaginatedDocs<Post>> {
+  const payload = await getPayload()
+  const { start, end } = getArchiveDateRange(year, month)
+
+  const result = await payload.find({
+    collection: 'posts',
+    where: {
+      and: [
+        { _status: { equals: 'published' } },
+        { publishedAt: { greater_than_equal: start, less_than: end } },
+      ],
+    },
+    sort: '-publishedAt',
+    limit: ARCHIVE_POSTS_PER_PAGE,
+    page,
+    depth: 1, // Populate featuredImage, categories and contributors
+    populate: { users: PUBLIC_AUTHOR_FIELDS },
+    overrideAccess: false,
+  })
+
+  return { ...result, docs: await populateContributors(result.docs) }
+}
@@ -0,0 +1,43 @@
+import { getPayload } from './getPayload'
+import {
+  buildRedirectRules,
+  readRedirectsCache,
+  writeRedirectsCache,
+  type RedirectDocument,
+  type RedirectRule,
+} from './redirects'
+
+/**
+ * Loads redirect rules from the Redirects collection with in-memory caching.
+ *
+ * The cache is cleared by the Redirects collection hooks whenever a redirect
+ * changes, so the database is only queried after edits (or TTL expiry).
+ * Falls back to no redirects when the CMS is unavailable.
+ *
+ * @returns Map of normalized redirect rules keyed by source path
+ */
+export async function getRedirects(): Promise<Map<string, RedirectRule>> {
+  const cached = readRedirectsCache()
+  if (cached) {
+    return cached
+  }
+
+  try {
+    const payload = await getPayload()
+    const result = await payload.find({
+      collection: 'redirects',
+      depth: 1, // Populate referenced pages and posts to resolve their slugs
+      pagination: false,
+    })
+
+    const rules = buildRedirectRules(result.docs as unknown as RedirectDocument[])
+    writeRedirectsCache(rules)
+    return rules
+  } catch (error) {
+    console.error('Failed to fetch redirects:', error)
+    // Cache the empty result so an unavailable database isn't hit on every request
+    const rules = new Map<string, RedirectRule>()
+    writeRedirectsCache(rules)
+    return rules
+  }
+}
@@ -0,0 +1,93 @@
+import { unstable_cache } from 'next/cache'
+
+import type { Post } from '@/payload-types'
+import { getSitemapCacheTag } from './cacheTags'
+import { PUBLIC_AUTHOR_FIELDS, populateContributors } from './authors'
+import { getPayload } from './getPayload'
+import { getPostIndex } from './postIndex'
+import { rankRelatedPosts, RELATED_POSTS_LIMIT } from './relatedPosts'
+
+/**
+ * Related posts data loaders.
+ *
+ * The ranking is cached per post under the same tags as the post index, so
+ * it is recomputed whenever a post, category, tag or author changes.
+ */
+
+/**
+ * Chooses the related posts of a post (cached per post and pinned posts).
+ *
+ * Published pinned posts come first, in the editor's order; the remaining
+ * slots are filled by the ranking. Posts that aren't published yet (drafts
+ * in preview) only show their pinned posts.
+ *
+ * @param postId - The post ID
+ * @param pinnedIds - IDs of the posts pinned by editors
+ * @returns IDs of the related posts, in display order
+ */
+export function getRelatedPostIds(postId: Post['id'], pinnedIds: Post['id'][]): Promise<Post['id'][]> {
+  return unstable_cache(
+    async () => {
+      const index = await getPostIndex()
+      const published = new Set(index.posts.map((post) => post.id))
+      const pinned = [...new Set(pinnedIds)]
+        .filter((id) => id !== postId && published.has(id))
+        .slice(0, RELATED_POSTS_LIMIT)
+
+      const current = index.posts.find((post) => post.id === postId)
+      if (!current || pinned.length >= RELATED_POSTS_LIMIT) {
+        return pinned
+      }
+
+      const ancestors = new Map(index.categories.map((category) => [category.id, category.ancestorIds]))
+      const candidates = index.posts.filter((post) => !pinned.includes(post.id))
+      const ranked = rankRelatedPosts(current, candidates, ancestors, {
+        limit: RELATED_POSTS_LIMIT - pinned.length,
+      })
+
+      return [...pinned, ...ranked]
+    },
+    ['related-posts', String(postId), pinnedIds.join(',')],
+    {
+      tags: [
+        'posts-list',
+        getSitemapCacheTag('categories'),
+        getSitemapCacheTag('tags'),
+        getSitemapCacheTag('users'),
+      ],
+    },
+  )()
+}
+
+/**
+ * Fetches the related posts of a post for its detail page
+ *
+ * @param post - The post with its pinned related posts
+ * @returns Posts with featured images, categories and contributors populated, in display order
+ */
+export async function getRelatedPosts(post: Pick<Post, 'id' | 'relatedPosts'>): Promise<Post[]> {
+  const pinnedIds = (post.relatedPosts ?? []).map((related) =>
+    typeof related === 'object' ? related.id : related,
+  )
+  const ids = await getRelatedPostIds(post.id, pinnedIds)
+
+  if (ids.length === 0) {
+    return []
+  }
+
+  const payload = await getPayload()
+  const result = await payload.find({
+    collection: 'posts',
+    where: {
+      and: [{ id: { in: ids } }, { _status: { equals: 'published' } }],
+    },
+    depth: 1, // Populate featuredImage, categories and contributors
+    populate: { users: PUBLIC_AUTHOR_FIELDS },
+    pagination: false,
+    overrideAccess: false,
+  })
+
+  const docs = await populateContributors(result.docs)
+
+  return docs.sort((a, b) => ids.indexOf(a.id) - ids.indexOf(b.id))
+}
@@ -0,0 +1,151 @@
+import { unstable_cache } from 'next/cache'
+import type { Where } from 'payload'
+
+import { publicProfileWhere } from '@/access'
+import { getSitemapCacheTag } from './cacheTags'
+import { getCategoryPath, getDocumentPath } from './getDocumentPath'
+import { getPayload } from './getPayload'
+import { getServerSideURL } from './getURL'
+import {
+  SITEMAP_COLLECTIONS,
+  SITEMAP_URL_LIMIT,
+  getSitemapChunks,
+  getSitemapName,
+  type SitemapChunk,
+  type SitemapCollection,
+  type SitemapEntry,
+} from './sitemap'
+
+/**
+ * Sitemap data loaders.
+ *
+ * Results are cached in the Next.js data cache under `sitemap-<collection>`
+ * tags, which the collection revalidation hooks clear when documents change.
+ */
+
+/** Published and not marked noindex (documents saved before the toggle existed have no value) */
+const indexableWhere: Where = {
+  and: [
+    { _status: { equals: 'published' } },
+    {
+      or: [{ 'meta.noindex': { equals: false } }, { 'meta.noindex': { exists: false } }],
+    },
+  ],
+}
+
+/** Documents listed in each collection's sitemap */
+const SITEMAP_WHERE: Record<SitemapCollection, Where> = {
+  pages: indexableWhere,
+  posts: indexableWhere,
+  categories: {},
+  tags: {},
+  series: {},
+  // Users with a public author page
+  users: publicProfileWhere,
+}
+
+/** Fields read for sitemap entries, so document content is never loaded */
+const SITEMAP_SELECT: Record<SitemapCollection, Record<string, true>> = {
+  pages: { slug: true, updatedAt: true },
+  posts: { slug: true, updatedAt: true },
+  categories: { slug: true, updatedAt: true, breadcrumbs: true },
+  tags: { slug: true, updatedAt: true },
+  series: { slug: true, updatedAt: true },
+  users: { slug: true, updatedAt: true },
+}
+
+/**
+ * Minimal document shape read for sitemap entries
+ */
+interface SitemapDocument {
+  slug?: string | null
+  updatedAt?: string | null
+  breadcrumbs?: { url?: string | null }[] | null
+}
+
+/**
+ * Gets the frontend path of a sitemap document
+ */
+function getSitemapPath(collection: SitemapCollection, doc: SitemapDocument): string | null {
+  if (collection === 'categories') {
+    return getCategoryPath(doc)
+  }
+
+  return getDocumentPath(collection, doc.slug)
+}
+
+/**
+ * Counts the documents listed in a collection's sitemap (cached)
+ */
+function countSitemapDocuments(collection: SitemapCollection): Promise<number> {
+  return unstable_cache(
+    async () => {
+      const payload = await getPayload()
+      const { totalDocs } = await payload.count({
+        collection,
+        where: SITEMAP_WHERE[collection],
+        overrideAccess: false,
+      })
+      return totalDocs
+    },
+    ['sitemap-count', collection],
+    { tags: [getSitemapCacheTag(collection)] },
+  )()
+}
+
+/**
+ * Lists the child sitemaps for the sitemap index.
+ *
+ * Each collection gets one child sitemap per SITEMAP_URL_LIMIT documents;
+ * empty collections are left out.
+ *
+ * @returns Absolute URLs of the child sitemaps
+ */
+export async function getSitemapIndex(): Promise<SitemapEntry[]> {
+  const serverURL = getServerSideURL()
+  const counts = await Promise.all(SITEMAP_COLLECTIONS.map(countSitemapDocuments))
+
+  return SITEMAP_COLLECTIONS.flatMap((collection, index) =>
+    getSitemapChunks(collection, counts[index]).map((chunk) => ({
+      loc: `${serverURL}/sitemaps/${getSitemapName(chunk)}`,
+    })),
+  )
+}
+
+/**
+ * Loads the URLs of one child sitemap (cached).
+ *
+ * Documents are ordered by ID, so new documents are appended to the last
+ * chunk and earlier chunks stay stable. Only the fields needed for the URL
+ * and lastmod are read.
+ *
+ * @param chunk - The collection and chunk number
+ * @returns Absolute URLs with `updatedAt` as lastmod
+ */
+export function getSitemapEntries({ collection, page }: SitemapChunk): Promise<SitemapEntry[]> {
+  return unstable_cache(
+    async () => {
+      const payload = await getPayload()
+      const serverURL = getServerSideURL()
+      const result = await payload.find({
+        collection,
+        where: SITEMAP_WHERE[collection],
+        select: SITEMAP_SELECT[collection],
+        sort: 'id',
+        depth: 0,
+        limit: SITEMAP_URL_LIMIT,
+        page,
+        overrideAccess: false,
+      })
+
+      // Only the mapped entries are cached, not the documents
+
+      return (result.docs as SitemapDocument[]).flatMap((doc) => {
+        const path = getSitemapPath(collection, doc)
+        return path ? [{ loc: `${serverURL}${path === '/' ? '' : path}`, lastmod: doc.updatedAt }] : []
+      })
+    },
+    ['sitemap-entries', collection, String(page)],
+    { tags: [getSitemapCacheTag(collection)] },
+  )()
+}
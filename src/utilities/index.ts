@@ -2,9 +2,12 @@
  * Utility functions for the Payload CMS application.
  */
 
+export { getGlobalCacheTag, getSitemapCacheTag } from './cacheTags'
 export { cn } from './cn'
 export { formatDateTime, formatRelativeTime } from './formatDateTime'
 export { generateMeta } from './generateMeta'
+export { getDocumentPath } from './getDocumentPath'
+export { getCachedGlobal } from './getCachedGlobal'
 export { getPayload } from './getPayload'
 export { getClientSideURL, getServerSideURL } from './getURL'
 export { mergeOpenGraph } from './mergeOpenGraph'
@@ -0,0 +1,166 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import {
+  buildBlogPostingJsonLd,
+  buildOrganizationJsonLd,
+  buildProfilePageJsonLd,
+  buildWebPageJsonLd,
+  buildWebSiteJsonLd,
+  serializeJsonLd,
+  type JsonLdSiteSettings,
+} from './jsonLd'
+
+const siteSettings: JsonLdSiteSettings = {
+  general: {
+    siteName: 'Acme',
+    siteDescription: 'Acme news and guides',
+  },
+  contact: {
+    email: 'hello@example.com',
+    phone: '+1 555 0100',
+    address: '1 Main St, Springfield',
+  },
+  socialLinks: [{ url: 'https://github.com/acme' }, { url: 'https://x.com/acme' }],
+}
+
+describe('jsonLd', () => {
+  beforeEach(() => {
+    vi.stubEnv('NEXT_PUBLIC_SERVER_URL', 'https://example.com')
+  })
+
+  afterEach(() => {
+    vi.unstubAllEnvs()
+  })
+
+  describe('buildOrganizationJsonLd', () => {
+    it('should build the Organization from SiteSettings', () => {
+      expect(buildOrganizationJsonLd(siteSettings)).toMatchSnapshot()
+    })
+
+    it('should leave out missing contact details and social links', () => {
+      const organization = buildOrganizationJsonLd({ general: { siteName: 'Acme' } })
+
+      expect(JSON.parse(JSON.stringify(organization))).toEqual({
+        '@type': 'Organization',
+        '@id': 'https://example.com/#organization',
+        name: 'Acme',
+        url: 'https://example.com',
+      })
+    })
+  })
+
+  describe('buildWebSiteJsonLd', () => {
+    it('should build the WebSite with a SearchAction', () => {
+      expect(buildWebSiteJsonLd(siteSettings)).toMatchSnapshot()
+    })
+  })
+
+  describe('buildBlogPostingJsonLd', () => {
+    it('should build a BlogPosting for a post', () => {
+      const posting = buildBlogPostingJsonLd({
+        title: 'Hello World',
+        slug: 'hello-world',
+        excerpt: 'A first post',
+        publishedAt: '2026-01-02T10:00:00.000Z',
+        updatedAt: '2026-01-03T10:00:00.000Z',
+        featuredImage: { url: '/api/media/file/cover.jpg', width: 1600, height: 900 },
+        categories: [{ title: 'News' }, { title: 'Tech' }, 3],
+        tags: [{ title: 'Next.js' }, { title: 'Payload' }],
+        contributors: [
+          { user: { name: 'Jane Doe' }, role: 'author' },
+          { user: { name: 'John Smith' }, role: 'author' },
+          { user: { name: 'Alex Kim' }, role: 'editor' },
+          { user: { name: 'Sam Lee' }, role: 'illustrator' },
+        ],
+      })
+
+      expect(posting).toMatchSnapshot()
+    })
+
+    it('should prefer the meta description and image', () => {
+      const posting = buildBlogPostingJsonLd({
+        title: 'Hello World',
+        slug: 'hello-world',
+        excerpt: 'A first post',
+        featuredImage: { url: '/api/media/file/cover.jpg' },
+        meta: { description: 'SEO description', image: { url: 'https://cdn.example.com/og.jpg' } },
+      })
+
+      expect(posting.description).toBe('SEO description')
+      expect(posting.image).toMatchObject({ url: 'https://cdn.example.com/og.jpg' })
+    })
+
+    it('should leave out unpopulated contributors', () => {
+      const posting = buildBlogPostingJsonLd({
+        title: 'Hello World',
+        slug: 'hello-world',
+        contributors: [{ user: 5, role: 'author' }],
+      })
+
+      expect(posting.author).toBeUndefined()
+    })
+
+    it('should link authors to their author pages', () => {
+      const posting = buildBlogPostingJsonLd({
+        title: 'Hello World',
+        slug: 'hello-world',
+        contributors: [{ user: { name: 'Jane Doe', slug: 'jane-doe' }, role: 'author' }],
+      })
+
+      expect(posting.author).toEqual([
+        {
+          '@type': 'Person',
+          '@id': 'https://example.com/authors/jane-doe#person',
+          name: 'Jane Doe',
+          url: 'https://example.com/authors/jane-doe',
+        },
+      ])
+    })
+  })
+
+  describe('buildProfilePageJsonLd', () => {
+    it('should build a ProfilePage about the author', () => {
+      const nodes = buildProfilePageJsonLd({
+        name: 'Jane Doe',
+        slug: 'jane-doe',
+        jobTitle: 'Editor',
+        bio: 'Writes about the web.',
+        avatar: { url: '/media/jane.jpg', width: 400, height: 400 },
+        socialLinks: [{ url: 'https://github.com/janedoe' }],
+      })
+
+      expect(nodes).toMatchSnapshot()
+    })
+  })
+
+  describe('buildWebPageJsonLd', () => {
+    it('should build a WebPage with a BreadcrumbList', () => {
+      const nodes = buildWebPageJsonLd({
+        title: 'About',
+        slug: 'about',
+        updatedAt: '2026-01-03T10:00:00.000Z',
+        meta: { title: 'About Acme', description: 'Who we are' },
+      })
+
+      expect(nodes).toMatchSnapshot()
+    })
+
+    it('should build the homepage without breadcrumbs', () => {
+      const nodes = buildWebPageJsonLd({ title: 'Home', slug: 'home' })
+
+      expect(nodes).toHaveLength(1)
+      expect(nodes[0]).toMatchObject({ '@type': 'WebPage', url: 'https://example.com/' })
+    })
+  })
+
+  describe('serializeJsonLd', () => {
+    it('should wrap nodes in a graph and escape script-closing characters', () => {
+      const json = serializeJsonLd([{ '@type': 'Thing', name: '</script><script>alert(1)</script>' }])
+
+      expect(json).not.toContain('<')
+      expect(JSON.parse(json)).toEqual({
+        '@context': 'https://schema.org',
+        '@graph': [{ '@type': 'Thing', name: '</script><script>alert(1)</script>' }],
+      })
+    })
+  })
+})
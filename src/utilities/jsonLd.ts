@@ -0,0 +1,324 @@
+import { getPostContributors, type ContributorsSource } from './contributors'
+import { getDocumentPath } from './getDocumentPath'
+import { getServerSideURL } from './getURL'
+
+/**
+ * Schema.org JSON-LD structured data.
+ *
+ * Builders return plain schema.org nodes; serializeJsonLd wraps them in a
+ * single `@graph` for a `<script type="application/ld+json">` tag (see the
+ * JsonLd component). Nodes reference each other by `@id`, so the site-wide
+ * Organization and WebSite from the layout are linked from every page.
+ */
+
+/**
+ * A schema.org node
+ */
+export interface JsonLdNode {
+  '@type': string
+  '@id'?: string
+  [property: string]: unknown
+}
+
+/**
+ * Populated upload fields read for images
+ */
+interface JsonLdImage {
+  url?: string | null
+  width?: number | null
+  height?: number | null
+}
+
+/**
+ * SiteSettings fields used for the Organization and WebSite nodes
+ */
+export interface JsonLdSiteSettings {
+  general?: {
+    siteName?: string | null
+    siteDescription?: string | null
+  } | null
+  contact?: {
+    email?: string | null
+    phone?: string | null
+    address?: string | null
+  } | null
+  socialLinks?: { url?: string | null }[] | null
+}
+
+/**
+ * Post fields used for the BlogPosting node
+ */
+export interface JsonLdPost extends ContributorsSource<{ name?: string | null; slug?: string | null }> {
+  title: string
+  slug?: string | null
+  excerpt?: string | null
+  publishedAt?: string | null
+  updatedAt?: string | null
+  featuredImage?: JsonLdImage | string | number | null
+  categories?: ({ title?: string | null } | string | number)[] | null
+  tags?: ({ title?: string | null } | string | number)[] | null
+  meta?: {
+    description?: string | null
+    image?: JsonLdImage | string | number | null
+  } | null
+}
+
+/**
+ * Public author profile fields used for the Person node
+ */
+export interface JsonLdAuthor {
+  name?: string | null
+  slug?: string | null
+  jobTitle?: string | null
+  bio?: string | null
+  avatar?: JsonLdImage | string | number | null
+  socialLinks?: { url?: string | null }[] | null
+}
+
+/**
+ * Page fields used for the WebPage and BreadcrumbList nodes
+ */
+export interface JsonLdPage {
+  title: string
+  slug?: string | null
+  updatedAt?: string | null
+  meta?: {
+    title?: string | null
+    description?: string | null
+  } | null
+}
+
+/**
+ * Gets the `@id` of the site-wide Organization node
+ */
+export function getOrganizationId(): string {
+  return `${getServerSideURL()}/#organization`
+}
+
+/**
+ * Gets the `@id` of the site-wide WebSite node
+ */
+export function getWebSiteId(): string {
+  return `${getServerSideURL()}/#website`
+}
+
+/**
+ * Makes a relative URL absolute
+ */
+function toAbsoluteURL(url: string): string {
+  return new URL(url, `${getServerSideURL()}/`).href
+}
+
+/**
+ * Builds an ImageObject from the first populated upload with a URL
+ */
+function getImage(...candidates: (JsonLdImage | string | number | null | undefined)[]): JsonLdNode | undefined {
+  const image = candidates.find(
+    (candidate): candidate is JsonLdImage => typeof candidate === 'object' && Boolean(candidate?.url),
+  )
+
+  if (!image?.url) {
+    return undefined
+  }
+
+  return {
+    '@type': 'ImageObject',
+    url: toAbsoluteURL(image.url),
+    width: image.width ?? undefined,
+    height: image.height ?? undefined,
+  }
+}
+
+/**
+ * Builds the Organization node from SiteSettings
+ *
+ * @param settings - The SiteSettings global (depth 1)
+ */
+export function buildOrganizationJsonLd(settings: JsonLdSiteSettings): JsonLdNode {
+  const { general, contact, socialLinks } = settings
+  const sameAs = (socialLinks ?? []).map((link) => link.url).filter((url): url is string => Boolean(url))
+
+  return {
+    '@type': 'Organization',
+    '@id': getOrganizationId(),
+    name: general?.siteName ?? undefined,
+    url: getServerSideURL(),
+    email: contact?.email ?? undefined,
+    telephone: contact?.phone ?? undefined,
+    address: contact?.address ?? undefined,
+    sameAs: sameAs.length > 0 ? sameAs : undefined,
+  }
+}
+
+/**
+ * Builds the WebSite node with a SearchAction for the /search page
+ *
+ * @param settings - The SiteSettings global
+ */
+export function buildWebSiteJsonLd(settings: JsonLdSiteSettings): JsonLdNode {
+  const serverURL = getServerSideURL()
+
+  return {
+    '@type': 'WebSite',
+    '@id': getWebSiteId(),
+    name: settings.general?.siteName ?? undefined,
+    description: settings.general?.siteDescription ?? undefined,
+    url: serverURL,
+    publisher: { '@id': getOrganizationId() },
+    potentialAction: {
+      '@type': 'SearchAction',
+      target: {
+        '@type': 'EntryPoint',
+        urlTemplate: `${serverURL}/search?q={search_term_string}`,
+      },
+      'query-input': 'required name=search_term_string',
+    },
+  }
+}
+
+/**
+ * Builds the Person node for an author.
+ * Authors with a public profile get an `@id` and URL of their author page.
+ *
+ * @param author - The author's public profile (depth 1 for the avatar)
+ */
+export function buildPersonJsonLd(author: JsonLdAuthor): JsonLdNode {
+  const path = getDocumentPath('users', author.slug)
+  const url = path ? toAbsoluteURL(path) : undefined
+  const sameAs = (author.socialLinks ?? []).map((link) => link.url).filter((link): link is string => Boolean(link))
+
+  return {
+    '@type': 'Person',
+    '@id': url ? `${url}#person` : undefined,
+    name: author.name ?? undefined,
+    url,
+    jobTitle: author.jobTitle ?? undefined,
+    description: author.bio ?? undefined,
+    image: getImage(author.avatar),
+    sameAs: sameAs.length > 0 ? sameAs : undefined,
+  }
+}
+
+/**
+ * Builds the ProfilePage and Person nodes for an author page
+ *
+ * @param author - The author's public profile (depth 1 for the avatar)
+ */
+export function buildProfilePageJsonLd(author: JsonLdAuthor): JsonLdNode[] {
+  const person = buildPersonJsonLd(author)
+
+  return [
+    {
+      '@type': 'ProfilePage',
+      '@id': person.url ? `${person.url}#webpage` : undefined,
+      url: person.url,
+      name: author.name ?? undefined,
+      mainEntity: person['@id'] ? { '@id': person['@id'] } : person,
+      isPartOf: { '@id': getWebSiteId() },
+    },
+    person,
+  ]
+}
+
+/**
+ * Builds Person nodes for the contributors of a post with the given role
+ */
+function getContributorPersons(post: JsonLdPost, role: string): JsonLdNode[] | undefined {
+  const persons = getPostContributors(post)
+    .filter((contributor) => contributor.role === role)
+    .map(({ user }) => buildPersonJsonLd({ name: user.name, slug: user.slug }))
+
+  return persons.length > 0 ? persons : undefined
+}
+
+/**
+ * Builds the BlogPosting node for a post.
+ * Authors are listed as `author`, editors as `editor`, and illustrators and
+ * reviewers as `contributor`.
+ *
+ * @param post - The post (depth 1, so contributors, categories and images are populated)
+ */
+export function buildBlogPostingJsonLd(post: JsonLdPost): JsonLdNode {
+  const url = toAbsoluteURL(getDocumentPath('posts', post.slug) ?? '/posts')
+  const otherContributors = [
+    ...(getContributorPersons(post, 'illustrator') ?? []),
+    ...(getContributorPersons(post, 'reviewer') ?? []),
+  ]
+  const categories = (post.categories ?? [])
+    .map((category) => (typeof category === 'object' ? category.title : null))
+    .filter((title): title is string => Boolean(title))
+  const tags = (post.tags ?? [])
+    .map((tag) => (typeof tag === 'object' ? tag.title : null))
+    .filter((title): title is string => Boolean(title))
+
+  return {
+    '@type': 'BlogPosting',
+    '@id': `${url}#article`,
+    headline: post.title,
+    description: post.meta?.description ?? post.excerpt ?? undefined,
+    url,
+    mainEntityOfPage: url,
+    datePublished: post.publishedAt ?? undefined,
+    dateModified: post.updatedAt ?? post.publishedAt ?? undefined,
+    image: getImage(post.meta?.image, post.featuredImage),
+    author: getContributorPersons(post, 'author'),
+    editor: getContributorPersons(post, 'editor'),
+    contributor: otherContributors.length > 0 ? otherContributors : undefined,
+    articleSection: categories.length > 0 ? categories : undefined,
+    keywords: tags.length > 0 ? tags : undefined,
+    isPartOf: { '@id': getWebSiteId() },
+    publisher: { '@id': getOrganizationId() },
+  }
+}
+
+/**
+ * Builds the WebPage and BreadcrumbList nodes for a CMS page.
+ * Breadcrumbs lead from the homepage to the page (the homepage has none).
+ *
+ * @param page - The page
+ */
+export function buildWebPageJsonLd(page: JsonLdPage): JsonLdNode[] {
+  const serverURL = getServerSideURL()
+  const path = getDocumentPath('pages', page.slug) ?? '/'
+  const url = toAbsoluteURL(path)
+  const name = page.meta?.title ?? page.title
+  const isHome = path === '/'
+
+  const webPage: JsonLdNode = {
+    '@type': 'WebPage',
+    '@id': `${url}#webpage`,
+    name,
+    description: page.meta?.description ?? undefined,
+    url,
+    dateModified: page.updatedAt ?? undefined,
+    isPartOf: { '@id': getWebSiteId() },
+    breadcrumb: isHome ? undefined : { '@id': `${url}#breadcrumb` },
+  }
+
+  if (isHome) {
+    return [webPage]
+  }
+
+  return [
+    webPage,
+    {
+      '@type': 'BreadcrumbList',
+      '@id': `${url}#breadcrumb`,
+      itemListElement: [
+        { '@type': 'ListItem', position: 1, name: 'Home', item: serverURL },
+        { '@type': 'ListItem', position: 2, name, item: url },
+      ],
+    },
+  ]
+}
+
+/**
+ * Serializes nodes as a JSON-LD document for an inline script tag.
+ * `<` is escaped so content can't close the script element.
+ *
+ * @param nodes - Nodes to include in the `@graph`
+ * @returns The JSON string
+ */
+export function serializeJsonLd(nodes: JsonLdNode[]): string {
+  return JSON.stringify({ '@context': 'https://schema.org', '@graph': nodes }).replace(/</g, '\\u003c')
+}
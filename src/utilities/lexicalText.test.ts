@@ -0,0 +1,196 @@
+import { describe, it, expect } from 'vitest'
+import {
+  countWords,
+  createHeadingIdGenerator,
+  extractBlocksText,
+  extractLexicalText,
+  getLexicalHeadings,
+  getReadingStats,
+} from './lexicalText'
+
+/**
+ * Builds a minimal Lexical editor state from root children
+ */
+function lexical(...children: unknown[]): { root: unknown } {
+  return {
+    root: { type: 'root', children, direction: 'ltr', format: '', indent: 0, version: 1 },
+  }
+}
+
+function paragraph(...children: unknown[]): unknown {
+  return { type: 'paragraph', children, version: 1 }
+}
+
+function text(value: string): unknown {
+  return { type: 'text', text: value, format: 0, version: 1 }
+}
+
+describe('extractLexicalText', () => {
+  it('should return the text of a single paragraph', () => {
+    expect(extractLexicalText(lexical(paragraph(text('Hello world'))))).toBe('Hello world')
+  })
+
+  it('should separate block nodes with newlines', () => {
+    const state = lexical(
+      { type: 'heading', tag: 'h2', children: [text('Introduction')], version: 1 },
+      paragraph(text('First paragraph.')),
+    )
+
+    expect(extractLexicalText(state)).toBe('Introduction\nFirst paragraph.')
+  })
+
+  it('should keep link text inline', () => {
+    const state = lexical(
+      paragraph(
+        text('Read the '),
+        { type: 'link', children: [text('docs')], fields: { url: '/docs' }, version: 1 },
+        text(' first.'),
+      ),
+    )
+
+    expect(extractLexicalText(state)).toBe('Read the docs first.')
+  })
+
+  it('should flatten nested lists', () => {
+    const state = lexical({
+      type: 'list',
+      children: [
+        { type: 'listitem', children: [text('One')], version: 1 },
+        { type: 'listitem', children: [text('Two')], version: 1 },
+      ],
+      version: 1,
+    })
+
+    expect(extractLexicalText(state)).toBe('One\nTwo')
+  })
+
+  it('should convert line breaks', () => {
+    const state = lexical(paragraph(text('Line one'), { type: 'linebreak', version: 1 }, text('Line two')))
+
+    expect(extractLexicalText(state)).toBe('Line one\nLine two')
+  })
+
+  it('should return an empty string for invalid input', () => {
+    expect(extractLexicalText(null)).toBe('')
+    expect(extractLexicalText('plain string')).toBe('')
+    expect(extractLexicalText({})).toBe('')
+  })
+})
+
+describe('extractBlocksText', () => {
+  it('should collect rich text from every block column', () => {
+    const layout = [
+      {
+        blockType: 'content',
+        columnOne: lexical(paragraph(text('Left column'))),
+        columnTwo: lexical(paragraph(text('Right column'))),
+      },
+    ]
+
+    expect(extractBlocksText(layout)).toBe('Left column\nRight column')
+  })
+
+  it('should include headings and captions but skip other strings', () => {
+    const layout = [
+      {
+        id: 'abc123',
+        blockType: 'cta',
+        heading: 'Ready to start?',
+        richText: lexical(paragraph(text('Join us today.'))),
+        links: [{ label: 'Sign up', link: '/signup' }],
+      },
+      { blockType: 'mediaBlock', caption: 'A scenic view' },
+    ]
+
+    expect(extractBlocksText(layout)).toBe('Ready to start?\nJoin us today.\nA scenic view')
+  })
+
+  it('should extract text from a hero group', () => {
+    const hero = {
+      type: 'highImpact',
+      heading: 'Welcome',
+      richText: lexical(paragraph(text('Built with Payload'))),
+    }
+
+    expect(extractBlocksText(hero)).toBe('Welcome\nBuilt with Payload')
+  })
+
+  it('should return an empty string for empty input', () => {
+    expect(extractBlocksText(undefined)).toBe('')
+    expect(extractBlocksText([])).toBe('')
+  })
+})
+
+function heading(tag: string, value: string): unknown {
+  return { type: 'heading', tag, children: [text(value)], version: 1 }
+}
+
+describe('countWords', () => {
+  it('should count words, not punctuation', () => {
+    expect(countWords('Hello, world! — it’s a well-known example.')).toBe(6)
+  })
+
+  it('should count words in any script', () => {
+    expect(countWords('Crème brûlée über alles 2026')).toBe(5)
+  })
+
+  it('should return 0 for empty text', () => {
+    expect(countWords('  \n ')).toBe(0)
+  })
+})
+
+describe('getReadingStats', () => {
+  it('should round reading time up to whole minutes', () => {
+    const words = (count: number) => lexical(paragraph(text(Array(count).fill('word').join(' '))))
+
+    expect(getReadingStats(words(10))).toEqual({ wordCount: 10, readingTime: 1 })
+    expect(getReadingStats(words(450))).toEqual({ wordCount: 450, readingTime: 2 })
+    expect(getReadingStats(words(451))).toEqual({ wordCount: 451, readingTime: 3 })
+  })
+
+  it('should include the text of embedded blocks', () => {
+    const state = lexical(paragraph(text('Intro text')), {
+      type: 'block',
+      fields: { blockType: 'cta', heading: 'Join us', richText: lexical(paragraph(text('Sign up now'))) },
+      version: 1,
+    })
+
+    expect(getReadingStats(state).wordCount).toBe(7)
+  })
+
+  it('should be 0 for empty content', () => {
+    expect(getReadingStats(null)).toEqual({ wordCount: 0, readingTime: 0 })
+  })
+})
+
+describe('createHeadingIdGenerator', () => {
+  it('should slugify headings and number repeats', () => {
+    const getHeadingId = createHeadingIdGenerator()
+
+    expect(getHeadingId('Getting Started!')).toBe('getting-started')
+    expect(getHeadingId('Getting started')).toBe('getting-started-2')
+    expect(getHeadingId('Café & Crème')).toBe('cafe-creme')
+    expect(getHeadingId('🚀')).toBe('section')
+  })
+})
+
+describe('getLexicalHeadings', () => {
+  it('should list headings in document order with levels and IDs', () => {
+    const state = lexical(
+      heading('h2', 'Setup'),
+      paragraph(text('Install it.')),
+      heading('h3', 'Requirements'),
+      heading('h2', 'Setup'),
+    )
+
+    expect(getLexicalHeadings(state)).toEqual([
+      { id: 'setup', text: 'Setup', level: 2 },
+      { id: 'requirements', text: 'Requirements', level: 3 },
+      { id: 'setup-2', text: 'Setup', level: 2 },
+    ])
+  })
+
+  it('should return an empty list for invalid input', () => {
+    expect(getLexicalHeadings(undefined)).toEqual([])
+  })
+})
@@ -0,0 +1,270 @@
+/**
+ * Plain text extraction from Lexical rich text and layout blocks.
+ *
+ * Used to build search index entries, reading times, heading anchors and
+ * other text-derived fields without rendering the rich text to HTML first.
+ */
+
+/**
+ * Minimal shape of a serialized Lexical node
+ */
+interface LexicalNode {
+  type?: string
+  text?: string
+  tag?: string
+  children?: LexicalNode[]
+  fields?: unknown
+}
+
+/** Element nodes rendered inline, so their text joins the surrounding line */
+const INLINE_NODE_TYPES = new Set(['link', 'autolink'])
+
+/** Plain text block fields included alongside rich text (e.g. CTA headings) */
+const BLOCK_TEXT_FIELDS = new Set(['heading', 'subheading', 'caption'])
+
+/** Average adult silent reading speed used for reading times */
+export const WORDS_PER_MINUTE = 225
+
+/**
+ * Word count and estimated reading time of a text
+ */
+export interface ReadingStats {
+  wordCount: number
+  /** Minutes, rounded up; 0 for empty text */
+  readingTime: number
+}
+
+/**
+ * A heading of a Lexical document with its anchor ID
+ */
+export interface LexicalHeading {
+  id: string
+  text: string
+  /** 1 for h1 through 6 for h6 */
+  level: number
+}
+
+/**
+ * Checks whether a value is a serialized Lexical editor state
+ */
+function isLexicalState(value: unknown): value is { root: LexicalNode } {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    'root' in value &&
+    typeof (value as { root: unknown }).root === 'object' &&
+    (value as { root: unknown }).root !== null
+  )
+}
+
+/**
+ * Collapses runs of spaces and blank lines left by the extraction
+ */
+function normalizeWhitespace(text: string): string {
+  return text
+    .replace(/[ \t]+/g, ' ')
+    .replace(/ *\n[\s]*/g, '\n')
+    .trim()
+}
+
+/**
+ * Recursively collects the text of a Lexical node
+ */
+function getNodeText(node: LexicalNode): string {
+  if (typeof node.text === 'string') {
+    return node.text
+  }
+
+  if (node.type === 'linebreak') {
+    return '\n'
+  }
+
+  // Lexical blocks (type 'block') keep their content in fields
+  if (node.type === 'block' || node.type === 'inlineBlock') {
+    return `${extractBlocksText(node.fields)}\n`
+  }
+
+  if (!Array.isArray(node.children)) {
+    return ''
+  }
+
+  const text = node.children.map(getNodeText).join('')
+
+  return node.type && INLINE_NODE_TYPES.has(node.type) ? text : `${text}\n`
+}
+
+/**
+ * Extracts plain text from a Lexical editor state.
+ *
+ * Paragraphs, headings, and list items are separated by newlines; all
+ * formatting is dropped.
+ *
+ * @param state - Serialized Lexical editor state (e.g. a richText field value)
+ * @returns The plain text content, or an empty string for empty/invalid input
+ *
+ * @example
+ * extractLexicalText(post.content)
+ * // Returns: "Introduction\nFirst paragraph with a link."
+ */
+export function extractLexicalText(state: unknown): string {
+  if (!isLexicalState(state)) {
+    return ''
+  }
+
+  return normalizeWhitespace(getNodeText(state.root))
+}
+
+/**
+ * Extracts plain text from layout blocks, groups, or any nested field data.
+ *
+ * Walks the value recursively and collects every Lexical rich text field,
+ * plus plain heading, subheading, and caption fields.
+ *
+ * @param value - Field data such as a `layout` blocks array or a `hero` group
+ * @returns The combined plain text, one field per line
+ *
+ * @example
+ * extractBlocksText(page.layout)
+ * // Returns: "Ready to start?\nJoin us today."
+ */
+export function extractBlocksText(value: unknown): string {
+  const parts: string[] = []
+
+  const visit = (current: unknown, key?: string): void => {
+    if (typeof current === 'string') {
+      if (key && BLOCK_TEXT_FIELDS.has(key)) {
+        parts.push(current)
+      }
+      return
+    }
+
+    if (isLexicalState(current)) {
+      parts.push(extractLexicalText(current))
+      return
+    }
+
+    if (Array.isArray(current)) {
+      current.forEach((item) => visit(item))
+      return
+    }
+
+    if (typeof current === 'object' && current !== null) {
+      for (const [childKey, child] of Object.entries(current)) {
+        visit(child, childKey)
+      }
+    }
+  }
+
+  visit(value)
+
+  return normalizeWhitespace(parts.filter(Boolean).join('\n'))
+}
+
+/**
+ * Counts the words of a plain text.
+ *
+ * Words are runs of letters and digits, so punctuation, emoji and markup
+ * characters don't count; contractions and hyphenated words count once.
+ *
+ * @param text - Plain text
+ * @returns The number of words
+ */
+export function countWords(text: string): number {
+  return text.match(/[\p{L}\p{N}]+(?:['’-][\p{L}\p{N}]+)*/gu)?.length ?? 0
+}
+
+/**
+ * Computes the word count and reading time of a Lexical editor state,
+ * including the text of blocks embedded in it
+ *
+ * @param state - Serialized Lexical editor state (e.g. a richText field value)
+ * @returns Word count and reading time in minutes (at least 1 for non-empty content)
+ *
+ * @example
+ * getReadingStats(post.content)
+ * // Returns: { wordCount: 1240, readingTime: 6 }
+ */
+export function getReadingStats(state: unknown): ReadingStats {
+  const wordCount = countWords(extractLexicalText(state))
+
+  return { wordCount, readingTime: Math.ceil(wordCount / WORDS_PER_MINUTE) }
+}
+
+/**
+ * Gets the plain text of a single Lexical node, e.g. a heading
+ *
+ * @param node - Serialized Lexical node
+ * @returns The node's text without formatting
+ */
+export function getLexicalNodeText(node: unknown): string {
+  return typeof node === 'object' && node !== null ? normalizeWhitespace(getNodeText(node as LexicalNode)) : ''
+}
+
+/**
+ * Creates a generator of anchor IDs for the headings of one document.
+ *
+ * IDs are slugs of the heading text; repeated headings get a numeric
+ * suffix ("setup", "setup-2"), so IDs only depend on the headings before
+ * them and stay stable as long as those don't change.
+ *
+ * @returns A function returning the ID of the next heading, in document order
+ *
+ * @example
+ * const getHeadingId = createHeadingIdGenerator()
+ * getHeadingId('Getting Started') // "getting-started"
+ * getHeadingId('Getting Started') // "getting-started-2"
+ */
+export function createHeadingIdGenerator(): (text: string) => string {
+  const counts = new Map<string, number>()
+
+  return (text) => {
+    const slug =
+      text
+        .toLowerCase()
+        .normalize('NFKD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .replace(/[^\p{L}\p{N}\s-]/gu, '')
+        .trim()
+        .replace(/[\s-]+/g, '-') || 'section'
+    const count = (counts.get(slug) ?? 0) + 1
+
+    counts.set(slug, count)
+    return count === 1 ? slug : `${slug}-${count}`
+  }
+}
+
+/**
+ * Lists the headings of a Lexical editor state with their anchor IDs.
+ *
+ * IDs match the ones the RichText component gives the rendered headings.
+ * Headings inside embedded blocks are not included.
+ *
+ * @param state - Serialized Lexical editor state (e.g. a richText field value)
+ * @returns Headings in document order
+ *
+ * @example
+ * getLexicalHeadings(post.content)
+ * // Returns: [{ id: 'introduction', text: 'Introduction', level: 2 }]
+ */
+export function getLexicalHeadings(state: unknown): LexicalHeading[] {
+  if (!isLexicalState(state)) {
+    return []
+  }
+
+  const getHeadingId = createHeadingIdGenerator()
+  const headings: LexicalHeading[] = []
+
+  const visit = (node: LexicalNode): void => {
+    if (node.type === 'heading') {
+      const text = getLexicalNodeText(node)
+      headings.push({ id: getHeadingId(text), text, level: Number(node.tag?.slice(1)) || 1 })
+      return
+    }
+
+    node.children?.forEach(visit)
+  }
+
+  visit(state.root)
+
+  return headings
+}
@@ -0,0 +1,90 @@
+import { describe, it, expect, vi } from 'vitest'
+import type { PayloadRequest } from 'payload'
+
+import { migratePostAuthors } from './migratePostAuthors'
+
+/**
+ * A Local API stub with one post. The published document and the latest
+ * version are stored separately, like the main and versions tables.
+ */
+function createRequest({ published, draft }: { published: object; draft: object | null }) {
+  const latest = draft ?? published
+  const payload = {
+    find: vi.fn(async () => ({ docs: [{ id: 1 }] })),
+    findVersions: vi.fn(async () => ({ docs: [{ parent: 1, version: latest }] })),
+    findByID: vi.fn(async () => published),
+    update: vi.fn(async (_args: Record<string, unknown>) => ({})),
+    logger: { error: vi.fn() },
+  }
+
+  return { req: { payload } as unknown as PayloadRequest, payload }
+}
+
+describe('migratePostAuthors', () => {
+  it('should keep a post with a pending draft published', async () => {
+    const { req, payload } = createRequest({
+      published: { id: 1, title: 'Live title', _status: 'published', author: 3, contributors: [] },
+      draft: { id: 1, title: 'Draft title', _status: 'draft', author: 3, contributors: [] },
+    })
+
+    const result = await migratePostAuthors(req)
+
+    expect(result).toEqual({ posts: 1, drafts: 1, failed: [] })
+    expect(payload.update).toHaveBeenNthCalledWith(
+      1,
+      expect.objectContaining({
+        id: 1,
+        data: {
+          title: 'Live title',
+          _status: 'published',
+          author: null,
+          contributors: [{ user: 3, role: 'author' }],
+        },
+      }),
+    )
+    expect(payload.update.mock.calls[0][0]).not.toHaveProperty('draft')
+    expect(payload.update).toHaveBeenNthCalledWith(
+      2,
+      expect.objectContaining({
+        id: 1,
+        data: {
+          title: 'Draft title',
+          _status: 'draft',
+          author: null,
+          contributors: [{ user: 3, role: 'author' }],
+        },
+        draft: true,
+      }),
+    )
+  })
+
+  it('should keep existing contributors', async () => {
+    const contributors = [{ user: 4, role: 'editor' }]
+    const { req, payload } = createRequest({
+      published: { id: 1, title: 'Live title', _status: 'published', author: 3, contributors },
+      draft: null,
+    })
+
+    await migratePostAuthors(req)
+
+    expect(payload.update).toHaveBeenCalledTimes(1)
+    expect(payload.update).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: { title: 'Live title', _status: 'published', author: null, contributors },
+      }),
+    )
+  })
+
+  it('should report posts that fail and continue', async () => {
+    const { req, payload } = createRequest({
+      published: { id: 1, title: 'Live title', _status: 'published', author: 3, contributors: [] },
+      draft: null,
+    })
+    payload.update.mockRejectedValueOnce(new Error('Validation failed'))
+
+    const result = await migratePostAuthors(req)
+
+    expect(result).toEqual({ posts: 0, drafts: 0, failed: [1] })
+    expect(payload.logger.error).toHaveBeenCalled()
+  })
+})
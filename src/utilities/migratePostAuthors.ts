@@ -0,0 +1,78 @@
+import type { PayloadRequest } from 'payload'
+
+import type { Post } from '@/payload-types'
+import { moveAuthorToContributors } from './contributors'
+import { updatePostVersions } from './updatePostVersions'
+
+/**
+ * Result of migratePostAuthors
+ */
+export interface MigratePostAuthorsResult {
+  /** Published posts that were migrated */
+  posts: number
+  /** Posts whose pending draft was migrated */
+  drafts: number
+  /** Posts that could not be migrated */
+  failed: Post['id'][]
+}
+
+/**
+ * Moves the legacy `author` of every post into its `contributors`.
+ *
+ * Both versions of a post are migrated through updatePostVersions: the
+ * published document and, when the post has unpublished changes, its latest
+ * draft. A post that fails is reported and the others are still migrated.
+ *
+ * @param req - The request the changes run with
+ * @returns Number of migrated posts and drafts, and the IDs of failed posts
+ */
+export async function migratePostAuthors(req: PayloadRequest): Promise<MigratePostAuthorsResult> {
+  const { payload } = req
+
+  const [published, drafts] = await Promise.all([
+    payload.find({
+      collection: 'posts',
+      where: {
+        and: [{ _status: { equals: 'published' } }, { author: { exists: true } }],
+      },
+      depth: 0,
+      pagination: false,
+      select: {},
+      req,
+    }),
+    // Latest versions with unpublished changes (including never-published posts)
+    payload.findVersions({
+      collection: 'posts',
+      where: {
+        and: [
+          { latest: { equals: true } },
+          { 'version._status': { equals: 'draft' } },
+          { 'version.author': { exists: true } },
+        ],
+      },
+      depth: 0,
+      pagination: false,
+      req,
+    }),
+  ])
+
+  const postIds = new Set<Post['id']>([
+    ...published.docs.map(({ id }) => id),
+    ...drafts.docs.map(({ parent }) => Number(parent)),
+  ])
+  const result: MigratePostAuthorsResult = { posts: 0, drafts: 0, failed: [] }
+
+  for (const id of postIds) {
+    try {
+      const updated = await updatePostVersions(req, id, moveAuthorToContributors)
+
+      result.posts += Number(updated.published)
+      result.drafts += Number(updated.draft)
+    } catch (error) {
+      payload.logger.error({ err: error, msg: `Failed to migrate the author of post ${id}` })
+      result.failed.push(id)
+    }
+  }
+
+  return result
+}
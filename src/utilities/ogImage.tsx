@@ -0,0 +1,144 @@
+import { ImageResponse } from 'next/og'
+
+import { OgImageCard, type OgImageCardProps } from '@/components/OgImageCard'
+import { getDemoPage } from '@/data/demo-content'
+import { formatNameList, getPostAuthors } from './contributors'
+import { formatDateTime } from './formatDateTime'
+import { getCachedGlobal } from './getCachedGlobal'
+import { getPayload } from './getPayload'
+import { getServerSideURL } from './getURL'
+
+/**
+ * Open Graph image helpers shared by the `opengraph-image` routes.
+ *
+ * Image fallback order for pages and posts:
+ * 1. `meta.image` and 2. `featuredImage`, set as og:image by generateMeta
+ * 3. The generated card rendered here (home page, pages and posts only)
+ * 4. `SiteSettings.general.defaultOgImage`, set as og:image by the frontend
+ *    layout for every other route, and used here when a card can't be rendered
+ */
+
+/** Size of generated cards, the recommended Open Graph image size */
+export const OG_IMAGE_SIZE = { width: 1200, height: 630 }
+
+export const OG_IMAGE_CONTENT_TYPE = 'image/png'
+
+/**
+ * Site information used on cards and for the fallback image
+ */
+export interface OgSiteInfo {
+  siteName: string
+  /** Absolute URL of the default Open Graph image, if one is set */
+  defaultImageUrl: string | null
+}
+
+/**
+ * Loads the site name and default Open Graph image from SiteSettings (cached)
+ */
+export async function getOgSiteInfo(): Promise<OgSiteInfo> {
+  try {
+    const { general } = await getCachedGlobal('site-settings')()
+    const image = general?.defaultOgImage
+    const imageUrl = typeof image === 'object' ? image?.url : null
+
+    return {
+      siteName: general?.siteName ?? 'Vibecode Next Template',
+      defaultImageUrl: imageUrl ? new URL(imageUrl, `${getServerSideURL()}/`).href : null,
+    }
+  } catch (error) {
+    console.error('Failed to fetch site settings:', error)
+    return { siteName: 'Vibecode Next Template', defaultImageUrl: null }
+  }
+}
+
+/**
+ * Loads the card content of a published post: title, first category, author
+ * names and publication date
+ *
+ * @param slug - The URL slug of the post
+ * @returns Card content without the site name, or null if not published
+ */
+export async function getPostCard(slug: string): Promise<Omit<OgImageCardProps, 'siteName'> | null> {
+  const payload = await getPayload()
+  const posts = await payload.find({
+    collection: 'posts',
+    where: {
+      slug: { equals: slug },
+      _status: { equals: 'published' },
+    },
+    depth: 1,
+    limit: 1,
+    // Only the fields shown on the card
+    select: { title: true, categories: true, contributors: true, publishedAt: true },
+    populate: { categories: { title: true }, users: { name: true } },
+  })
+  const post = posts.docs[0]
+
+  if (!post) {
+    return null
+  }
+
+  const category = post.categories?.find((item) => typeof item === 'object')
+  const authors = getPostAuthors(post).flatMap((author) => (author.name ? [author.name] : []))
+
+  return {
+    title: post.title,
+    label: typeof category === 'object' ? category.title : null,
+    author: formatNameList(authors) || null,
+    date: post.publishedAt ? formatDateTime(post.publishedAt, { includeTime: false }) : null,
+  }
+}
+
+/**
+ * Loads the card content of a published page (its title), falling back to
+ * the demo pages shown when the CMS has no such page
+ *
+ * @param slug - The URL slug of the page
+ * @returns Card content without the site name, or null if not found
+ */
+export async function getPageCard(slug: string): Promise<Omit<OgImageCardProps, 'siteName'> | null> {
+  const payload = await getPayload()
+  const pages = await payload.find({
+    collection: 'pages',
+    where: {
+      slug: { equals: slug },
+      _status: { equals: 'published' },
+    },
+    depth: 0,
+    limit: 1,
+    select: { title: true },
+  })
+  const title = pages.docs[0]?.title ?? getDemoPage(slug)?.title
+
+  return title ? { title } : null
+}
+
+/**
+ * Renders a branded card as a PNG response
+ *
+ * ImageResponse renders lazily while its body is streamed, so the image is
+ * read here to make rendering errors reject this promise, where callers can
+ * still fall back, instead of breaking the response mid-stream.
+ *
+ * @param card - Card content
+ */
+export async function renderOgImage(card: OgImageCardProps): Promise<Response> {
+  const image = new ImageResponse(<OgImageCard {...card} />, OG_IMAGE_SIZE)
+  const body = await image.arrayBuffer()
+
+  return new Response(body, { status: image.status, headers: image.headers })
+}
+
+/**
+ * Responds with the default Open Graph image when no card can be rendered
+ * for a document, or a card with just the site name if none is set.
+ *
+ * @param site - Site information from getOgSiteInfo
+ */
+export async function ogImageFallback(site: OgSiteInfo): Promise<Response> {
+  if (site.defaultImageUrl) {
+    return Response.redirect(site.defaultImageUrl, 307)
+  }
+
+  return renderOgImage({ siteName: site.siteName, title: site.siteName })
+}
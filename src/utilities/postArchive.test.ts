@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest'
+import {
+  getArchiveDateRange,
+  getMonthName,
+  groupArchiveByYear,
+  parseArchiveMonth,
+  parseArchiveYear,
+} from './postArchive'
+
+describe('parseArchiveYear', () => {
+  it('should parse four-digit years', () => {
+    expect(parseArchiveYear('2026')).toBe(2026)
+  })
+
+  it('should reject anything else', () => {
+    expect(parseArchiveYear('26')).toBeNull()
+    expect(parseArchiveYear('20260')).toBeNull()
+    expect(parseArchiveYear('0000')).toBeNull()
+    expect(parseArchiveYear('abcd')).toBeNull()
+  })
+})
+
+describe('parseArchiveMonth', () => {
+  it('should parse zero-padded months', () => {
+    expect(parseArchiveMonth('03')).toBe(3)
+    expect(parseArchiveMonth('12')).toBe(12)
+  })
+
+  it('should reject unpadded and out-of-range months', () => {
+    expect(parseArchiveMonth('3')).toBeNull()
+    expect(parseArchiveMonth('00')).toBeNull()
+    expect(parseArchiveMonth('13')).toBeNull()
+  })
+})
+
+describe('getMonthName', () => {
+  it('should return the English month name', () => {
+    expect(getMonthName(1)).toBe('January')
+    expect(getMonthName(12)).toBe('December')
+  })
+})
+
+describe('getArchiveDateRange', () => {
+  it('should cover a whole year', () => {
+    expect(getArchiveDateRange(2026)).toEqual({
+      start: '2026-01-01T00:00:00.000Z',
+      end: '2027-01-01T00:00:00.000Z',
+    })
+  })
+
+  it('should cover a month, rolling over into the next year', () => {
+    expect(getArchiveDateRange(2026, 2)).toEqual({
+      start: '2026-02-01T00:00:00.000Z',
+      end: '2026-03-01T00:00:00.000Z',
+    })
+    expect(getArchiveDateRange(2026, 12).end).toBe('2027-01-01T00:00:00.000Z')
+  })
+})
+
+describe('groupArchiveByYear', () => {
+  it('should total months per year, newest first', () => {
+    const years = groupArchiveByYear([
+      { year: 2025, month: 11, count: 2 },
+      { year: 2026, month: 1, count: 1 },
+      { year: 2026, month: 3, count: 4 },
+    ])
+
+    expect(years).toEqual([
+      {
+        year: 2026,
+        count: 5,
+        months: [
+          { year: 2026, month: 3, count: 4 },
+          { year: 2026, month: 1, count: 1 },
+        ],
+      },
+      { year: 2025, count: 2, months: [{ year: 2025, month: 11, count: 2 }] },
+    ])
+  })
+
+  it('should return no years without posts', () => {
+    expect(groupArchiveByYear([])).toEqual([])
+  })
+})
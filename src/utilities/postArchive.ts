@@ -0,0 +1,99 @@
+/**
+ * Shared helpers for date-based post archives.
+ *
+ * Archives group published posts by the UTC year and month of `publishedAt`.
+ * Kept free of Payload runtime imports; data loading lives in getPostArchive.ts.
+ */
+
+/**
+ * Number of published posts in a month
+ */
+export interface ArchiveMonth {
+  year: number
+  /** Month (1-12) */
+  month: number
+  count: number
+}
+
+/**
+ * Number of published posts in a year, with its months
+ */
+export interface ArchiveYear {
+  year: number
+  count: number
+  /** Months with posts, newest first */
+  months: ArchiveMonth[]
+}
+
+/**
+ * Parses the year segment of an archive URL
+ *
+ * @param value - The route param (e.g. "2026")
+ * @returns The year, or null for anything but four digits
+ */
+export function parseArchiveYear(value: string): number | null {
+  return /^\d{4}$/.test(value) && value !== '0000' ? Number(value) : null
+}
+
+/**
+ * Parses the month segment of an archive URL.
+ * Only zero-padded months are accepted, so each month has one URL.
+ *
+ * @param value - The route param (e.g. "03")
+ * @returns The month (1-12), or null if invalid
+ */
+export function parseArchiveMonth(value: string): number | null {
+  return /^(0[1-9]|1[0-2])$/.test(value) ? Number(value) : null
+}
+
+/**
+ * Gets the English name of a month
+ *
+ * @param month - The month (1-12)
+ * @returns The month name, e.g. "March"
+ */
+export function getMonthName(month: number): string {
+  return new Date(Date.UTC(2000, month - 1, 1)).toLocaleString('en-US', {
+    month: 'long',
+    timeZone: 'UTC',
+  })
+}
+
+/**
+ * Gets the `publishedAt` range of a year or month, in UTC
+ *
+ * @param year - The year
+ * @param month - The month (1-12), omitted for the whole year
+ * @returns ISO start (inclusive) and end (exclusive) dates
+ *
+ * @example
+ * getArchiveDateRange(2026, 12)
+ * // Returns: { start: "2026-12-01T00:00:00.000Z", end: "2027-01-01T00:00:00.000Z" }
+ */
+export function getArchiveDateRange(year: number, month?: number): { start: string; end: string } {
+  const start = new Date(Date.UTC(year, (month ?? 1) - 1, 1))
+  const end = month ? new Date(Date.UTC(year, month, 1)) : new Date(Date.UTC(year + 1, 0, 1))
+
+  return { start: start.toISOString(), end: end.toISOString() }
+}
+
+/**
+ * Groups monthly post counts by year
+ *
+ * @param months - Post counts per month, in any order
+ * @returns Years with their total and months, newest first
+ */
+export function groupArchiveByYear(months: ArchiveMonth[]): ArchiveYear[] {
+  const years = new Map<number, ArchiveYear>()
+
+  for (const month of months) {
+    const year = years.get(month.year) ?? { year: month.year, count: 0, months: [] }
+    year.count += month.count
+    year.months.push(month)
+    years.set(month.year, year)
+  }
+
+  return [...years.values()]
+    .sort((a, b) => b.year - a.year)
+    .map((year) => ({ ...year, months: year.months.sort((a, b) => b.month - a.month) }))
+}
@@ -0,0 +1,210 @@
+import { describe, it, expect } from 'vitest'
+import {
+  getActivePostFilters,
+  getPostFacetCounts,
+  getPostFilterParams,
+  getPostsUrl,
+  matchesPostFilters,
+  parsePostFilters,
+  type PostIndexEntry,
+} from './postFilters'
+
+describe('parsePostFilters', () => {
+  it('should parse all filters', () => {
+    expect(
+      parsePostFilters({
+        category: 'react',
+        tag: 'nextjs',
+        author: 'jane-doe',
+        year: '2026',
+        month: '3',
+        sort: 'oldest',
+        page: '2',
+      }),
+    ).toEqual({
+      category: 'react',
+      tag: 'nextjs',
+      author: 'jane-doe',
+      year: 2026,
+      month: 3,
+      sort: 'oldest',
+      page: 2,
+    })
+  })
+
+  it('should default to the newest posts on the first page', () => {
+    expect(parsePostFilters({})).toEqual({ sort: 'newest', page: 1 })
+  })
+
+  it('should drop invalid values', () => {
+    const filters = parsePostFilters({
+      category: 'Not A Slug',
+      year: '26',
+      month: '13',
+      sort: 'random',
+      page: '-1',
+    })
+
+    expect(filters).toEqual({ sort: 'newest', page: 1 })
+  })
+
+  it('should ignore a month without a year', () => {
+    expect(parsePostFilters({ month: '5' }).month).toBeUndefined()
+  })
+
+  it('should use the first value of repeated params', () => {
+    expect(parsePostFilters({ tag: ['css', 'html'] }).tag).toBe('css')
+  })
+})
+
+describe('getActivePostFilters', () => {
+  it('should list the active filters in canonical order', () => {
+    expect(getActivePostFilters({ year: 2026, category: 'react', sort: 'title', page: 3 })).toEqual([
+      'category',
+      'year',
+    ])
+  })
+})
+
+describe('getPostFilterParams', () => {
+  it('should serialize filters in canonical order without defaults', () => {
+    const params = getPostFilterParams({ month: 4, year: 2026, tag: 'css', sort: 'newest', page: 1 })
+
+    expect(Object.entries(params)).toEqual([
+      ['tag', 'css'],
+      ['year', '2026'],
+      ['month', '4'],
+    ])
+  })
+
+  it('should include a non-default sort unless disabled', () => {
+    const filters = parsePostFilters({ tag: 'css', sort: 'title' })
+
+    expect(getPostFilterParams(filters)).toEqual({ tag: 'css', sort: 'title' })
+    expect(getPostFilterParams(filters, { sort: false })).toEqual({ tag: 'css' })
+  })
+})
+
+describe('getPostsUrl', () => {
+  const filters = parsePostFilters({ category: 'react', year: '2026', month: '2', page: '3' })
+
+  it('should reset to the first page when filters change', () => {
+    expect(getPostsUrl(filters, { tag: 'css' })).toBe('/posts?category=react&tag=css&year=2026&month=2')
+  })
+
+  it('should remove a filter set to undefined', () => {
+    expect(getPostsUrl(filters, { category: undefined })).toBe('/posts?year=2026&month=2')
+  })
+
+  it('should clear the month with the year', () => {
+    expect(getPostsUrl(filters, { year: undefined })).toBe('/posts?category=react')
+  })
+
+  it('should keep the sort and a requested page', () => {
+    expect(getPostsUrl({ sort: 'oldest', page: 1 }, { page: 2 })).toBe('/posts?sort=oldest&page=2')
+  })
+
+  it('should return the plain listing without filters', () => {
+    expect(getPostsUrl({ sort: 'title', page: 2 }, { sort: 'newest' })).toBe('/posts')
+  })
+})
+
+describe('matchesPostFilters', () => {
+  const entry: PostIndexEntry = {
+    categoryIds: [2],
+    tagIds: [10, 11],
+    authorIds: [5],
+    publishedAt: '2026-03-15T10:00:00.000Z',
+  }
+
+  it('should match posts meeting every filter', () => {
+    expect(
+      matchesPostFilters(entry, { categoryIds: [1, 2], tagId: 11, authorId: 5, year: 2026, month: 3 }),
+    ).toBe(true)
+  })
+
+  it('should reject posts failing a filter', () => {
+    expect(matchesPostFilters(entry, { tagId: 12 })).toBe(false)
+    expect(matchesPostFilters(entry, { year: 2026, month: 4 })).toBe(false)
+    expect(matchesPostFilters({ ...entry, publishedAt: null }, { year: 2026 })).toBe(false)
+  })
+
+  it('should skip ignored facets', () => {
+    expect(matchesPostFilters(entry, { authorId: 6, year: 2026 }, ['author'])).toBe(true)
+  })
+})
+
+describe('getPostFacetCounts', () => {
+  const entries: PostIndexEntry[] = [
+    { categoryIds: [2], tagIds: [10], authorIds: [5], publishedAt: '2026-03-15T10:00:00.000Z' },
+    { categoryIds: [3], tagIds: [10, 11], authorIds: [5, 6], publishedAt: '2026-01-02T10:00:00.000Z' },
+    { categoryIds: [1, 2], tagIds: [], authorIds: [6], publishedAt: '2025-12-31T23:00:00.000Z' },
+  ]
+  // Categories 2 and 3 are children of category 1
+  const ancestors = new Map([
+    [2, [1]],
+    [3, [1]],
+  ])
+
+  it('should count each post once per value, including parent categories', () => {
+    const counts = getPostFacetCounts(entries, {}, ancestors)
+
+    expect(counts.categories).toEqual(
+      new Map([
+        [2, 2],
+        [1, 3],
+        [3, 1],
+      ]),
+    )
+    expect(counts.tags).toEqual(
+      new Map([
+        [10, 2],
+        [11, 1],
+      ]),
+    )
+    expect(counts.years).toEqual(
+      new Map([
+        [2026, 2],
+        [2025, 1],
+      ]),
+    )
+    expect(counts.months.size).toBe(0)
+  })
+
+  it('should count other facets within the active filters', () => {
+    const counts = getPostFacetCounts(entries, { tagId: 10 }, ancestors)
+
+    expect(counts.authors).toEqual(
+      new Map([
+        [5, 2],
+        [6, 1],
+      ]),
+    )
+    // The tag facet ignores its own filter
+    expect(counts.tags.get(11)).toBe(1)
+    expect(counts.years).toEqual(new Map([[2026, 2]]))
+  })
+
+  it('should count months of the filtered year', () => {
+    const counts = getPostFacetCounts(entries, { year: 2026, month: 1 }, ancestors)
+
+    expect(counts.months).toEqual(
+      new Map([
+        [3, 1],
+        [1, 1],
+      ]),
+    )
+    expect(counts.years).toEqual(
+      new Map([
+        [2026, 2],
+        [2025, 1],
+      ]),
+    )
+    expect(counts.categories).toEqual(
+      new Map([
+        [3, 1],
+        [1, 1],
+      ]),
+    )
+  })
+})
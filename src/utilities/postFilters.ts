@@ -0,0 +1,324 @@
+/**
+ * URL filters for the /posts listing.
+ *
+ * Filters live in the query string (`?category=react&year=2026&sort=oldest`)
+ * so every listing is a shareable, server-rendered URL. Helpers here parse
+ * and serialize them in one canonical order and count facets in memory from
+ * a lightweight index of published posts. Data loading lives in
+ * postListing.ts.
+ */
+
+/** Sort options and the Payload sort they map to */
+export const POST_SORTS = {
+  newest: '-publishedAt',
+  oldest: 'publishedAt',
+  title: 'title',
+} as const
+
+export type PostSort = keyof typeof POST_SORTS
+
+export const DEFAULT_POST_SORT: PostSort = 'newest'
+
+/** Labels of the sort options, in display order */
+export const POST_SORT_LABELS: Record<PostSort, string> = {
+  newest: 'Newest',
+  oldest: 'Oldest',
+  title: 'Title',
+}
+
+/** Filter params, in canonical URL order */
+export const POST_FILTER_KEYS = ['category', 'tag', 'author', 'year', 'month'] as const
+
+export type PostFilterKey = (typeof POST_FILTER_KEYS)[number]
+
+/**
+ * Filters of a /posts listing.
+ * Category, tag and author are slugs; year and month are UTC publication dates.
+ */
+export interface PostFilters {
+  category?: string
+  tag?: string
+  author?: string
+  year?: number
+  /** Month (1-12), only used together with a year */
+  month?: number
+  sort: PostSort
+  page: number
+}
+
+/**
+ * Raw search params as passed to a Next.js page
+ */
+export type PostFilterSearchParams = Record<string, string | string[] | undefined>
+
+/**
+ * Filters resolved to document IDs.
+ * `categoryIds` includes the descendants of the filtered category.
+ */
+export interface PostFilterIds {
+  categoryIds?: number[]
+  tagId?: number
+  authorId?: number
+  year?: number
+  month?: number
+}
+
+/**
+ * The fields of a published post needed to count facets
+ */
+export interface PostIndexEntry {
+  categoryIds: number[]
+  tagIds: number[]
+  /** Contributors (and the legacy author) of the post */
+  authorIds: number[]
+  publishedAt?: string | null
+}
+
+/**
+ * Post counts for each facet value.
+ * Each facet ignores its own filter, so other values stay selectable.
+ */
+export interface PostFacetCounts {
+  /** Per category, including posts in its descendants */
+  categories: Map<number, number>
+  tags: Map<number, number>
+  authors: Map<number, number>
+  years: Map<number, number>
+  /** Per month of the filtered year (empty without a year filter) */
+  months: Map<number, number>
+}
+
+/**
+ * Gets the first value of a search param
+ */
+function getParam(params: PostFilterSearchParams, key: string): string | undefined {
+  const value = params[key]
+  return Array.isArray(value) ? value[0] : value
+}
+
+/**
+ * Parses a slug param, ignoring values that can't be slugs
+ */
+function parseSlug(value: string | undefined): string | undefined {
+  return value && /^[a-z0-9-]+$/.test(value) ? value : undefined
+}
+
+/**
+ * Parses an integer param within a range
+ */
+function parseInteger(value: string | undefined, min: number, max: number): number | undefined {
+  if (!value || !/^\d+$/.test(value)) {
+    return undefined
+  }
+
+  const number = Number(value)
+  return number >= min && number <= max ? number : undefined
+}
+
+/**
+ * Parses /posts search params into filters.
+ * Invalid values are dropped, so they never reach queries or canonical URLs.
+ *
+ * @param params - The page's search params
+ * @returns Filters with defaults for sort and page
+ *
+ * @example
+ * parsePostFilters({ category: 'react', year: '2026', sort: 'oldest' })
+ * // Returns: { category: 'react', year: 2026, sort: 'oldest', page: 1 }
+ */
+export function parsePostFilters(params: PostFilterSearchParams): PostFilters {
+  const sort = getParam(params, 'sort')
+  const year = parseInteger(getParam(params, 'year'), 1970, 9999)
+
+  return {
+    category: parseSlug(getParam(params, 'category')),
+    tag: parseSlug(getParam(params, 'tag')),
+    author: parseSlug(getParam(params, 'author')),
+    year,
+    month: year ? parseInteger(getParam(params, 'month'), 1, 12) : undefined,
+    sort: sort && sort in POST_SORTS ? (sort as PostSort) : DEFAULT_POST_SORT,
+    page: parseInteger(getParam(params, 'page'), 1, Number.MAX_SAFE_INTEGER) ?? 1,
+  }
+}
+
+/**
+ * Gets the active filters (without sort and page)
+ *
+ * @param filters - The listing filters
+ * @returns Filter keys with a value, in canonical order
+ */
+export function getActivePostFilters(filters: PostFilters): PostFilterKey[] {
+  return POST_FILTER_KEYS.filter((key) => filters[key] !== undefined)
+}
+
+/**
+ * Gets the query params of a listing in canonical order, leaving out the
+ * default sort and the first page
+ *
+ * @param filters - The listing filters
+ * @param options - Set `sort: false` to leave out the sort (e.g. for canonical URLs)
+ * @returns Params for URLSearchParams or the Pagination component
+ */
+export function getPostFilterParams(
+  filters: PostFilters,
+  { sort = true }: { sort?: boolean } = {},
+): Record<string, string> {
+  const params: Record<string, string> = {}
+
+  for (const key of POST_FILTER_KEYS) {
+    const value = filters[key]
+    if (value !== undefined) {
+      params[key] = String(value)
+    }
+  }
+
+  if (sort && filters.sort !== DEFAULT_POST_SORT) {
+    params.sort = filters.sort
+  }
+
+  return params
+}
+
+/**
+ * Builds a /posts URL from filters with some values changed.
+ * Changing filters or sort goes back to the first page.
+ *
+ * @param filters - The current filters
+ * @param changes - Values to set; `undefined` removes a filter
+ * @returns The URL, e.g. `/posts?category=react&sort=oldest`
+ *
+ * @example
+ * getPostsUrl({ category: 'react', sort: 'newest', page: 3 }, { category: undefined })
+ * // Returns: "/posts"
+ */
+export function getPostsUrl(filters: PostFilters, changes: Partial<PostFilters>): string {
+  const next: PostFilters = { ...filters, page: 1, ...changes }
+
+  // A month without a year is meaningless
+  if (next.year === undefined) {
+    next.month = undefined
+  }
+
+  const params = new URLSearchParams(getPostFilterParams(next))
+
+  if (next.page > 1) {
+    params.set('page', String(next.page))
+  }
+
+  const query = params.toString()
+  return query ? `/posts?${query}` : '/posts'
+}
+
+/**
+ * Gets the UTC year and month (1-12) of a date
+ */
+function getYearMonth(date: string | null | undefined): { year: number; month: number } | null {
+  if (!date) {
+    return null
+  }
+
+  const parsed = new Date(date)
+  return Number.isNaN(parsed.getTime())
+    ? null
+    : { year: parsed.getUTCFullYear(), month: parsed.getUTCMonth() + 1 }
+}
+
+/** Facets that can be left out when matching, to count their own values */
+type PostFacet = 'category' | 'tag' | 'author' | 'year' | 'month'
+
+/**
+ * Whether an indexed post matches the filters
+ *
+ * @param entry - The indexed post
+ * @param ids - The filters resolved to IDs
+ * @param ignore - Facets whose filters are ignored
+ */
+export function matchesPostFilters(
+  entry: PostIndexEntry,
+  ids: PostFilterIds,
+  ignore: PostFacet[] = [],
+): boolean {
+  const date = getYearMonth(entry.publishedAt)
+
+  if (ids.categoryIds && !ignore.includes('category')) {
+    const categoryIds = ids.categoryIds
+    if (!entry.categoryIds.some((id) => categoryIds.includes(id))) {
+      return false
+    }
+  }
+
+  if (ids.tagId !== undefined && !ignore.includes('tag') && !entry.tagIds.includes(ids.tagId)) {
+    return false
+  }
+
+  if (ids.authorId !== undefined && !ignore.includes('author') && !entry.authorIds.includes(ids.authorId)) {
+    return false
+  }
+
+  if (ids.year !== undefined && !ignore.includes('year') && date?.year !== ids.year) {
+    return false
+  }
+
+  if (ids.month !== undefined && !ignore.includes('month') && date?.month !== ids.month) {
+    return false
+  }
+
+  return true
+}
+
+/**
+ * Counts the posts matching the filters (ignoring some facets) per key
+ */
+function countPosts<TKey>(
+  entries: PostIndexEntry[],
+  ids: PostFilterIds,
+  ignore: PostFacet[],
+  getKeys: (entry: PostIndexEntry) => TKey[],
+): Map<TKey, number> {
+  const counts = new Map<TKey, number>()
+
+  for (const entry of entries) {
+    if (matchesPostFilters(entry, ids, ignore)) {
+      // Each post counts once per key
+      for (const key of new Set(getKeys(entry))) {
+        counts.set(key, (counts.get(key) ?? 0) + 1)
+      }
+    }
+  }
+
+  return counts
+}
+
+/**
+ * Counts the posts for each facet value of a listing
+ *
+ * @param entries - Index of all published posts
+ * @param ids - The current filters resolved to IDs
+ * @param categoryAncestors - Ancestor IDs of each category, so posts count
+ *   towards the categories above theirs
+ * @returns Counts per category, tag, author, year and month
+ */
+export function getPostFacetCounts(
+  entries: PostIndexEntry[],
+  ids: PostFilterIds,
+  categoryAncestors: Map<number, number[]>,
+): PostFacetCounts {
+  return {
+    categories: countPosts(entries, ids, ['category'], (entry) =>
+      entry.categoryIds.flatMap((id) => [id, ...(categoryAncestors.get(id) ?? [])]),
+    ),
+    tags: countPosts(entries, ids, ['tag'], (entry) => entry.tagIds),
+    authors: countPosts(entries, ids, ['author'], (entry) => entry.authorIds),
+    years: countPosts(entries, ids, ['year', 'month'], (entry) => {
+      const date = getYearMonth(entry.publishedAt)
+      return date ? [date.year] : []
+    }),
+    months:
+      ids.year === undefined
+        ? new Map()
+        : countPosts(entries, ids, ['month'], (entry) => {
+            const date = getYearMonth(entry.publishedAt)
+            return date ? [date.month] : []
+          }),
+  }
+}
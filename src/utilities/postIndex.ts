@@ -0,0 +1,170 @@
+import { unstable_cache } from 'next/cache'
+
+import { publicProfileWhere } from '@/access'
+import { getSitemapCacheTag } from './cacheTags'
+import { getCategoryPath, getDocumentPath } from './getDocumentPath'
+import { getPayload } from './getPayload'
+import type { PostIndexEntry } from './postFilters'
+
+/**
+ * Cached index of published posts and their taxonomy.
+ *
+ * One lightweight query per collection loads the categories, tags, authors
+ * and dates of every published post, so listings can count facets and rank
+ * related posts in memory instead of querying per value.
+ */
+
+/**
+ * A published post with the IDs it can be filtered and compared by
+ */
+export interface IndexedPost extends PostIndexEntry {
+  id: number
+}
+
+/**
+ * A category in the post index
+ */
+export interface IndexedCategory {
+  id: number
+  title: string
+  slug: string
+  path: string
+  /** IDs of the category's ancestors, from the root */
+  ancestorIds: number[]
+}
+
+/**
+ * A tag or author in the post index
+ */
+export interface IndexedTerm {
+  id: number
+  title: string
+  slug: string
+  path: string | null
+}
+
+/**
+ * Published posts with their taxonomy, and all taxonomy terms
+ */
+export interface PostIndex {
+  posts: IndexedPost[]
+  categories: IndexedCategory[]
+  tags: IndexedTerm[]
+  authors: IndexedTerm[]
+}
+
+/**
+ * Gets the ID of a relationship value
+ */
+function getRelationId(value: number | { id: number } | null | undefined): number | null {
+  if (value === null || value === undefined) {
+    return null
+  }
+
+  return typeof value === 'object' ? value.id : value
+}
+
+/**
+ * Loads the post index (cached).
+ *
+ * Cached under the `posts-list` tag (cleared when posts change) and the
+ * sitemap tags of categories, tags and users (cleared when they change).
+ *
+ * @returns Published posts with their taxonomy, and all taxonomy terms
+ */
+export function getPostIndex(): Promise<PostIndex> {
+  return unstable_cache(
+    async (): Promise<PostIndex> => {
+      const payload = await getPayload()
+      const [posts, categories, tags, authors] = await Promise.all([
+        payload.find({
+          collection: 'posts',
+          where: { _status: { equals: 'published' } },
+          depth: 0,
+          pagination: false,
+          select: {
+            categories: true,
+            tags: true,
+            contributors: true,
+            publishedAt: true,
+          },
+          overrideAccess: false,
+        }),
+        payload.find({
+          collection: 'categories',
+          depth: 0,
+          pagination: false,
+          select: { title: true, slug: true, breadcrumbs: true },
+          overrideAccess: false,
+        }),
+        payload.find({
+          collection: 'tags',
+          sort: 'title',
+          depth: 0,
+          pagination: false,
+          select: { title: true, slug: true },
+          joins: false,
+          overrideAccess: false,
+        }),
+        payload.find({
+          collection: 'users',
+          where: publicProfileWhere,
+          sort: 'name',
+          depth: 0,
+          pagination: false,
+          select: { name: true, slug: true },
+          overrideAccess: false,
+        }),
+      ])
+
+      return {
+        posts: posts.docs.map((post) => ({
+          id: post.id,
+          categoryIds: (post.categories ?? []).flatMap((category) => getRelationId(category) ?? []),
+          tagIds: (post.tags ?? []).flatMap((tag) => getRelationId(tag) ?? []),
+          authorIds: (post.contributors ?? []).flatMap((contributor) => getRelationId(contributor.user) ?? []),
+          publishedAt: post.publishedAt,
+        })),
+        categories: categories.docs
+          .flatMap((category) => {
+            const path = getCategoryPath(category)
+            const ancestorIds = (category.breadcrumbs ?? [])
+              .flatMap((crumb) => getRelationId(crumb.doc) ?? [])
+              .filter((id) => id !== category.id)
+
+            return category.slug && path
+              ? [{ id: category.id, title: category.title, slug: category.slug, path, ancestorIds }]
+              : []
+          })
+          // Parents sort before their children
+          .sort((a, b) => a.path.localeCompare(b.path)),
+        tags: tags.docs.flatMap((tag) =>
+          tag.slug
+            ? [{ id: tag.id, title: tag.title, slug: tag.slug, path: getDocumentPath('tags', tag.slug) }]
+            : [],
+        ),
+        authors: authors.docs.flatMap((author) =>
+          author.slug
+            ? [
+                {
+                  id: author.id,
+                  title: author.name || author.slug,
+                  slug: author.slug,
+                  path: getDocumentPath('users', author.slug),
+                },
+              ]
+            : [],
+        ),
+      }
+    },
+    ['post-index'],
+    {
+      tags: [
+        'posts-list',
+        getSitemapCacheTag('categories'),
+        getSitemapCacheTag('tags'),
+        getSitemapCacheTag('users'),
+      ],
+    },
+  )()
+}
@@ -0,0 +1,249 @@
+import type { Where } from 'payload'
+
+import type { Post } from '@/payload-types'
+import { PUBLIC_AUTHOR_FIELDS, populateContributors } from './authors'
+import { getArchivePath } from './getDocumentPath'
+import { getPayload } from './getPayload'
+import { getArchiveDateRange, getMonthName } from './postArchive'
+import {
+  getActivePostFilters,
+  getPostFacetCounts,
+  getPostFilterParams,
+  POST_SORTS,
+  type PostFilterIds,
+  type PostFilterKey,
+  type PostFilters,
+} from './postFilters'
+import { getPostIndex, type IndexedCategory, type IndexedTerm } from './postIndex'
+
+/**
+ * Data loader for the filtered /posts listing.
+ *
+ * Filter slugs are resolved and facets are counted from the cached post
+ * index; only the current page of posts is queried per request.
+ */
+
+/** Number of posts to display per listing page */
+export const POSTS_PER_PAGE = 9
+
+/**
+ * A selectable facet value with its post count
+ */
+export interface PostFacetOption {
+  /** The filter param value (a slug, year or month) */
+  value: string
+  label: string
+  count: number
+  active: boolean
+  /** Nesting depth, for categories */
+  depth?: number
+}
+
+/**
+ * An active filter with a readable label
+ */
+export interface ActivePostFilter {
+  key: PostFilterKey
+  label: string
+}
+
+/**
+ * A page of the filtered listing with its facets
+ */
+export interface PostListing {
+  /** The filters, without unknown slugs */
+  filters: PostFilters
+  activeFilters: ActivePostFilter[]
+  posts: Post[]
+  totalPages: number
+  currentPage: number
+  totalDocs: number
+  facets: {
+    categories: PostFacetOption[]
+    tags: PostFacetOption[]
+    authors: PostFacetOption[]
+    years: PostFacetOption[]
+    months: PostFacetOption[]
+  }
+  /**
+   * Canonical path of the listing. Listings filtered by a single category,
+   * tag or author, or only by date, point to the archive page listing the
+   * same posts.
+   */
+  canonicalPath: string
+}
+
+/**
+ * Builds the Payload where clause for resolved filters
+ */
+function getPostsWhere(ids: PostFilterIds): Where {
+  const and: Where[] = [{ _status: { equals: 'published' } }]
+
+  if (ids.categoryIds) {
+    and.push({ categories: { in: ids.categoryIds } })
+  }
+
+  if (ids.tagId !== undefined) {
+    and.push({ tags: { in: [ids.tagId] } })
+  }
+
+  if (ids.authorId !== undefined) {
+    and.push({ 'contributors.user': { equals: ids.authorId } })
+  }
+
+  if (ids.year !== undefined) {
+    // Dates are filtered in UTC, like the facet counts
+    const { start, end } = getArchiveDateRange(ids.year, ids.month)
+    and.push({ publishedAt: { greater_than_equal: start, less_than: end } })
+  }
+
+  return { and }
+}
+
+/**
+ * Gets the canonical path of a listing
+ */
+function getCanonicalPath(
+  filters: PostFilters,
+  archivePaths: Partial<Record<PostFilterKey, string | null>>,
+): string {
+  const active = getActivePostFilters(filters)
+  const dateOnly = filters.year !== undefined && active.every((key) => key === 'year' || key === 'month')
+  const archivePath = dateOnly
+    ? getArchivePath(filters.year as number, filters.month)
+    : active.length === 1
+      ? archivePaths[active[0]]
+      : null
+  const params = new URLSearchParams(archivePath ? {} : getPostFilterParams(filters, { sort: false }))
+
+  if (filters.page > 1) {
+    params.set('page', String(filters.page))
+  }
+
+  const query = params.toString()
+  const path = archivePath ?? '/posts'
+  return query ? `${path}?${query}` : path
+}
+
+/**
+ * Loads a page of the filtered listing with facet counts
+ *
+ * @param requested - Filters parsed from the URL
+ * @returns The posts, facets and canonical path of the listing
+ */
+export async function getPostListing(requested: PostFilters): Promise<PostListing> {
+  const index = await getPostIndex()
+
+  const category = index.categories.find(({ slug }) => slug === requested.category)
+  const tag = index.tags.find(({ slug }) => slug === requested.tag)
+  const author = index.authors.find(({ slug }) => slug === requested.author)
+
+  // Unknown slugs are dropped, so they don't leak into links and canonical URLs
+  const filters: PostFilters = {
+    ...requested,
+    category: category?.slug,
+    tag: tag?.slug,
+    author: author?.slug,
+  }
+
+  const ids: PostFilterIds = {
+    categoryIds: category && [
+      category.id,
+      ...index.categories
+        .filter(({ ancestorIds }) => ancestorIds.includes(category.id))
+        .map(({ id }) => id),
+    ],
+    tagId: tag?.id,
+    authorId: author?.id,
+    year: filters.year,
+    month: filters.month,
+  }
+
+  const payload = await getPayload()
+  const result = await payload.find({
+    collection: 'posts',
+    where: getPostsWhere(ids),
+    sort: POST_SORTS[filters.sort],
+    limit: POSTS_PER_PAGE,
+    page: filters.page,
+    depth: 1, // Populate featuredImage, categories and contributors
+    populate: { users: PUBLIC_AUTHOR_FIELDS },
+    overrideAccess: false,
+  })
+
+  const counts = getPostFacetCounts(
+    index.posts,
+    ids,
+    new Map(index.categories.map(({ id, ancestorIds }) => [id, ancestorIds])),
+  )
+
+  const labels: Record<PostFilterKey, string | undefined> = {
+    category: category?.title,
+    tag: tag && `#${tag.title}`,
+    author: author?.title,
+    year: filters.year ? String(filters.year) : undefined,
+    month: filters.month ? getMonthName(filters.month) : undefined,
+  }
+  const activeFilters = getActivePostFilters(filters).map((key) => ({
+    key,
+    label: labels[key] ?? '',
+  }))
+
+  /** Options for the terms with posts (or the active one) */
+  const getTermOptions = (
+    terms: (IndexedTerm | IndexedCategory)[],
+    termCounts: Map<number, number>,
+    activeSlug: string | undefined,
+  ): PostFacetOption[] =>
+    terms.flatMap((term) => {
+      const count = termCounts.get(term.id) ?? 0
+      const active = term.slug === activeSlug
+
+      return count > 0 || active
+        ? [
+            {
+              value: term.slug,
+              label: term.title,
+              count,
+              active,
+              depth: 'ancestorIds' in term ? term.ancestorIds.length : undefined,
+            },
+          ]
+        : []
+    })
+
+  return {
+    filters,
+    activeFilters,
+    posts: await populateContributors(result.docs),
+    totalPages: result.totalPages,
+    currentPage: result.page || 1,
+    totalDocs: result.totalDocs,
+    facets: {
+      categories: getTermOptions(index.categories, counts.categories, filters.category),
+      tags: getTermOptions(index.tags, counts.tags, filters.tag),
+      authors: getTermOptions(index.authors, counts.authors, filters.author),
+      years: [...counts.years]
+        .sort(([a], [b]) => b - a)
+        .map(([year, count]) => ({
+          value: String(year),
+          label: String(year),
+          count,
+          active: year === filters.year,
+        })),
+      months: [...counts.months]
+        .sort(([a], [b]) => a - b)
+        .map(([month, count]) => ({
+          value: String(month),
+          label: getMonthName(month),
+          count,
+          active: month === filters.month,
+        })),
+    },
+    canonicalPath: getCanonicalPath(filters, {
+      category: category?.path,
+      tag: tag?.path,
+      author: author?.path,
+    }),
+  }
+}
@@ -0,0 +1,92 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import {
+  createPreviewToken,
+  generatePreviewPath,
+  isSafePreviewPath,
+  verifyPreviewToken,
+} from './preview'
+
+describe('preview tokens', () => {
+  const originalEnv = process.env
+
+  beforeEach(() => {
+    process.env = { ...originalEnv }
+    process.env.PAYLOAD_SECRET = 'test-secret-with-enough-length'
+  })
+
+  afterEach(() => {
+    process.env = originalEnv
+  })
+
+  it('should verify a token for the path it was created for', () => {
+    const token = createPreviewToken('/posts/draft')
+
+    expect(verifyPreviewToken('/posts/draft', token)).toBe(true)
+  })
+
+  it('should reject a token created for another path', () => {
+    const token = createPreviewToken('/posts/draft')
+
+    expect(verifyPreviewToken('/posts/other', token)).toBe(false)
+  })
+
+  it('should reject expired tokens', () => {
+    const now = Date.now()
+    const token = createPreviewToken('/about', now)
+
+    expect(verifyPreviewToken('/about', token, now + 25 * 60 * 60 * 1000)).toBe(false)
+  })
+
+  it('should reject tokens signed with a different secret', () => {
+    const token = createPreviewToken('/about')
+    process.env.PAYLOAD_SECRET = 'another-secret-with-enough-length'
+
+    expect(verifyPreviewToken('/about', token)).toBe(false)
+  })
+
+  it('should reject malformed tokens', () => {
+    expect(verifyPreviewToken('/about', 'not-a-token')).toBe(false)
+    expect(verifyPreviewToken('/about', '')).toBe(false)
+  })
+
+  it('should reject tokens with a tampered expiry', () => {
+    const [expiresAt, signature] = createPreviewToken('/about').split('.')
+
+    expect(verifyPreviewToken('/about', `${Number(expiresAt) + 1000}.${signature}`)).toBe(false)
+  })
+})
+
+describe('isSafePreviewPath', () => {
+  it('should allow local paths', () => {
+    expect(isSafePreviewPath('/')).toBe(true)
+    expect(isSafePreviewPath('/posts/hello')).toBe(true)
+  })
+
+  it('should reject external and protocol-relative URLs', () => {
+    expect(isSafePreviewPath('https://evil.com')).toBe(false)
+    expect(isSafePreviewPath('//evil.com')).toBe(false)
+    expect(isSafePreviewPath('/\\evil.com')).toBe(false)
+  })
+})
+
+describe('generatePreviewPath', () => {
+  it('should generate a signed preview link for posts', () => {
+    const link = generatePreviewPath({ collection: 'posts', slug: 'hello' })
+    const params = new URLSearchParams(link?.split('?')[1])
+
+    expect(link?.startsWith('/api/preview?')).toBe(true)
+    expect(params.get('path')).toBe('/posts/hello')
+    expect(verifyPreviewToken('/posts/hello', params.get('token') ?? '')).toBe(true)
+  })
+
+  it('should link the home page to the root path', () => {
+    const link = generatePreviewPath({ collection: 'pages', slug: 'home' })
+    const params = new URLSearchParams(link?.split('?')[1])
+
+    expect(params.get('path')).toBe('/')
+  })
+
+  it('should return null when the document has no slug', () => {
+    expect(generatePreviewPath({ collection: 'pages', slug: null })).toBeNull()
+  })
+})
@@ -0,0 +1,114 @@
+import { createHmac, timingSafeEqual } from 'crypto'
+
+import { getDocumentPath } from './getDocumentPath'
+
+/**
+ * Preview utilities for draft mode.
+ *
+ * Preview links are signed with PAYLOAD_SECRET so that only links generated
+ * by the admin panel can enable Next.js draft mode.
+ */
+
+/** How long a generated preview link stays valid (24 hours) */
+const PREVIEW_TOKEN_TTL_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Gets the secret used to sign preview tokens
+ * Uses the same fallback as payload.config.ts for local development
+ */
+function getPreviewSecret(): string {
+  return process.env.PAYLOAD_SECRET || 'default-secret-change-in-production'
+}
+
+/**
+ * Signs a path and expiry timestamp
+ */
+function sign(path: string, expiresAt: number): string {
+  return createHmac('sha256', getPreviewSecret())
+    .update(`${path}:${expiresAt}`)
+    .digest('base64url')
+}
+
+/**
+ * Checks that a preview path is a local path, preventing open redirects
+ *
+ * @param path - The path to validate
+ * @returns True if the path is safe to redirect to
+ */
+export function isSafePreviewPath(path: string): boolean {
+  return path.startsWith('/') && !path.startsWith('//') && !path.includes('\\')
+}
+
+/**
+ * Creates a signed preview token for a frontend path
+ *
+ * @param path - The frontend path the token grants preview access to
+ * @param now - Current timestamp in milliseconds (for testing)
+ * @returns Token in the format `<expiresAt>.<signature>`
+ */
+export function createPreviewToken(path: string, now: number = Date.now()): string {
+  const expiresAt = now + PREVIEW_TOKEN_TTL_MS
+  return `${expiresAt}.${sign(path, expiresAt)}`
+}
+
+/**
+ * Verifies a preview token for a frontend path
+ *
+ * @param path - The frontend path being previewed
+ * @param token - The token from the preview link
+ * @param now - Current timestamp in milliseconds (for testing)
+ * @returns True if the token was signed for this path and has not expired
+ */
+export function verifyPreviewToken(
+  path: string,
+  token: string,
+  now: number = Date.now()
+): boolean {
+  const [expiresAtValue, signature] = token.split('.')
+  const expiresAt = Number(expiresAtValue)
+
+  if (!signature || !Number.isFinite(expiresAt) || expiresAt < now) {
+    return false
+  }
+
+  const expected = Buffer.from(sign(path, expiresAt))
+  const received = Buffer.from(signature)
+
+  return expected.length === received.length && timingSafeEqual(expected, received)
+}
+
+/**
+ * Options for generating a preview link
+ */
+interface GeneratePreviewPathArgs {
+  /** Collection slug of the document */
+  collection: string
+  /** Document slug */
+  slug?: string | null
+}
+
+/**
+ * Generates a signed preview link for a document.
+ * Used by `admin.preview` in the Pages and Posts collections.
+ *
+ * @param args - The collection and slug of the document
+ * @returns The preview route URL, or null if the document has no public route
+ *
+ * @example
+ * generatePreviewPath({ collection: 'posts', slug: 'hello-world' })
+ * // Returns: "/api/preview?path=%2Fposts%2Fhello-world&token=..."
+ */
+export function generatePreviewPath({ collection, slug }: GeneratePreviewPathArgs): string | null {
+  const path = getDocumentPath(collection, slug)
+
+  if (!path) {
+    return null
+  }
+
+  const params = new URLSearchParams({
+    path,
+    token: createPreviewToken(path),
+  })
+
+  return `/api/preview?${params.toString()}`
+}
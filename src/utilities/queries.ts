@@ -0,0 +1,111 @@
+import { draftMode, headers } from 'next/headers'
+import type { TypedUser } from 'payload'
+
+import type { Page, Post } from '@/payload-types'
+import { PUBLIC_AUTHOR_FIELDS, populateContributors } from './authors'
+import { getPayload } from './getPayload'
+
+/**
+ * Access-aware data layer for frontend fetches.
+ *
+ * The Local API bypasses access control by default (`overrideAccess: true`),
+ * which would let drafts leak onto public routes. Queries here always run with
+ * collection access control applied, as the anonymous visitor by default, so
+ * `authenticatedOrPublished` limits results to published documents.
+ *
+ * Only in draft mode with a logged-in admin session are drafts returned.
+ */
+
+/**
+ * Access options spread into every frontend Local API query
+ */
+export interface QueryAccess {
+  /** Return the latest draft version instead of the published one */
+  draft: boolean
+  /** Always enforce collection access control */
+  overrideAccess: false
+  /** The logged-in user in draft mode, undefined for anonymous visitors */
+  user?: TypedUser
+}
+
+/**
+ * Resolves the access options for the current request.
+ *
+ * - Outside draft mode: anonymous access (published content only)
+ * - In draft mode: the user from the admin session cookie, with drafts enabled
+ *   only if that session is valid
+ *
+ * @returns Access options to spread into `payload.find` and similar calls
+ *
+ * @example
+ * ```ts
+ * const [payload, access] = await Promise.all([getPayload(), getQueryAccess()])
+ * const posts = await payload.find({ collection: 'posts', ...access })
+ * ```
+ */
+export async function getQueryAccess(): Promise<QueryAccess> {
+  const { isEnabled } = await draftMode()
+
+  if (!isEnabled) {
+    return { draft: false, overrideAccess: false }
+  }
+
+  const payload = await getPayload()
+  const { user } = await payload.auth({ headers: await headers() })
+
+  if (!user) {
+    return { draft: false, overrideAccess: false }
+  }
+
+  return { draft: true, overrideAccess: false, user }
+}
+
+/**
+ * Fetches a page by slug with the current request's access
+ *
+ * @param slug - The URL slug of the page
+ * @returns The page document, or null if not found or not accessible
+ */
+export async function queryPageBySlug(slug: string): Promise<Page | null> {
+  const [payload, access] = await Promise.all([getPayload(), getQueryAccess()])
+  const pages = await payload.find({
+    collection: 'pages',
+    where: {
+      slug: {
+        equals: slug,
+      },
+    },
+    depth: 2,
+    limit: 1,
+    ...access,
+  })
+
+  return pages.docs[0] ?? null
+}
+
+/**
+ * Fetches a post by slug with the current request's access
+ *
+ * @param slug - The URL slug of the post
+ * @returns The post document, or null if not found or not accessible
+ */
+export async function queryPostBySlug(slug: string): Promise<Post | null> {
+  const [payload, access] = await Promise.all([getPayload(), getQueryAccess()])
+  const posts = await payload.find({
+    collection: 'posts',
+    where: {
+      slug: {
+        equals: slug,
+      },
+    },
+    depth: 2, // Populate featuredImage, contributors (with avatars), and categories
+    // Only the contributors' public profiles, even for logged-in previews
+    populate: { users: PUBLIC_AUTHOR_FIELDS },
+    limit: 1,
+    ...access,
+  })
+  // Contributors without a public profile aren't readable with visitor access
+  const [post] = await populateContributors(posts.docs)
+
+  return post ?? null
+}
@@ -0,0 +1,177 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import {
+  buildRedirectRules,
+  invalidateRedirectsCache,
+  normalizeRedirectPath,
+  readRedirectsCache,
+  resolveRedirect,
+  writeRedirectsCache,
+  type RedirectDocument,
+} from './redirects'
+
+// Helper to build a custom URL redirect document
+function customRedirect(from: string, url: string, type = '301'): RedirectDocument {
+  return { from, type, to: { type: 'custom', url } }
+}
+
+describe('normalizeRedirectPath', () => {
+  it('should strip trailing slashes', () => {
+    expect(normalizeRedirectPath('/old-page/')).toBe('/old-page')
+  })
+
+  it('should keep the root path', () => {
+    expect(normalizeRedirectPath('/')).toBe('/')
+  })
+
+  it('should add a leading slash', () => {
+    expect(normalizeRedirectPath('old-page')).toBe('/old-page')
+  })
+
+  it('should strip the origin from absolute URLs', () => {
+    expect(normalizeRedirectPath('https://example.com/old-page?ref=1')).toBe('/old-page?ref=1')
+  })
+})
+
+describe('buildRedirectRules', () => {
+  it('should build rules from custom URLs', () => {
+    const rules = buildRedirectRules([customRedirect('/old', '/new')])
+
+    expect(rules.get('/old')).toEqual({ from: '/old', to: '/new', status: 301 })
+  })
+
+  it('should resolve page and post references to their paths', () => {
+    const rules = buildRedirectRules([
+      { from: '/start', to: { type: 'reference', reference: { relationTo: 'pages', value: { slug: 'home' } } } },
+      { from: '/about-us', to: { type: 'reference', reference: { relationTo: 'pages', value: { slug: 'about' } } } },
+      { from: '/blog/hello', to: { type: 'reference', reference: { relationTo: 'posts', value: { slug: 'hello' } } } },
+    ])
+
+    expect(rules.get('/start')?.to).toBe('/')
+    expect(rules.get('/about-us')?.to).toBe('/about')
+    expect(rules.get('/blog/hello')?.to).toBe('/posts/hello')
+  })
+
+  it('should skip unpopulated references and empty URLs', () => {
+    const rules = buildRedirectRules([
+      { from: '/a', to: { type: 'reference', reference: { relationTo: 'pages', value: 12 } } },
+      { from: '/b', to: { type: 'custom', url: '' } },
+    ])
+
+    expect(rules.size).toBe(0)
+  })
+
+  it('should use 302 status for temporary redirects', () => {
+    const rules = buildRedirectRules([customRedirect('/old', '/new', '302')])
+
+    expect(rules.get('/old')?.status).toBe(302)
+  })
+})
+
+describe('resolveRedirect', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('should return null when no rule matches', () => {
+    const rules = buildRedirectRules([customRedirect('/old', '/new')])
+
+    expect(resolveRedirect(rules, '/other')).toBeNull()
+  })
+
+  it('should resolve a single redirect', () => {
+    const rules = buildRedirectRules([customRedirect('/old', '/new')])
+
+    expect(resolveRedirect(rules, '/old/')).toEqual({ destination: '/new', status: 301 })
+  })
+
+  it('should preserve the incoming query string', () => {
+    const rules = buildRedirectRules([customRedirect('/old', '/new?ref=cms')])
+
+    expect(resolveRedirect(rules, '/old', '?utm_source=mail&ref=x')).toEqual({
+      destination: '/new?ref=cms&utm_source=mail',
+      status: 301,
+    })
+  })
+
+  it('should prefer rules that match the query string exactly', () => {
+    const rules = buildRedirectRules([
+      customRedirect('/old', '/new'),
+      customRedirect('/old?lang=de', '/neu'),
+    ])
+
+    expect(resolveRedirect(rules, '/old', '?lang=de')?.destination).toBe('/neu?lang=de')
+  })
+
+  it('should collapse redirect chains into a single hop', () => {
+    const rules = buildRedirectRules([
+      customRedirect('/a', '/b'),
+      customRedirect('/b', '/c'),
+      customRedirect('/c', '/d'),
+    ])
+
+    expect(resolveRedirect(rules, '/a')).toEqual({ destination: '/d', status: 301 })
+  })
+
+  it('should use 302 when any hop in the chain is temporary', () => {
+    const rules = buildRedirectRules([
+      customRedirect('/a', '/b'),
+      customRedirect('/b', '/c', '302'),
+    ])
+
+    expect(resolveRedirect(rules, '/a')?.status).toBe(302)
+  })
+
+  it('should return null for redirect loops', () => {
+    const rules = buildRedirectRules([
+      customRedirect('/a', '/b'),
+      customRedirect('/b', '/a'),
+    ])
+
+    expect(resolveRedirect(rules, '/a')).toBeNull()
+    expect(console.warn).toHaveBeenCalled()
+  })
+
+  it('should return null for self-referencing redirects', () => {
+    const rules = buildRedirectRules([customRedirect('/a', '/a/')])
+
+    expect(resolveRedirect(rules, '/a')).toBeNull()
+  })
+
+  it('should stop following the chain at external URLs', () => {
+    const rules = buildRedirectRules([customRedirect('/docs', 'https://docs.example.com/start')])
+
+    expect(resolveRedirect(rules, '/docs', '?q=1')).toEqual({
+      destination: 'https://docs.example.com/start?q=1',
+      status: 301,
+    })
+  })
+})
+
+describe('redirects cache', () => {
+  afterEach(() => {
+    invalidateRedirectsCache()
+    vi.useRealTimers()
+  })
+
+  it('should return cached rules until invalidated', () => {
+    const rules = buildRedirectRules([customRedirect('/old', '/new')])
+    writeRedirectsCache(rules)
+
+    expect(readRedirectsCache()).toBe(rules)
+
+    invalidateRedirectsCache()
+    expect(readRedirectsCache()).toBeNull()
+  })
+
+  it('should expire cached rules after the TTL', () => {
+    vi.useFakeTimers()
+    writeRedirectsCache(new Map())
+
+    vi.advanceTimersByTime(61_000)
+    expect(readRedirectsCache()).toBeNull()
+  })
+})
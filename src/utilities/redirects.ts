@@ -0,0 +1,276 @@
+import { getDocumentPath } from './getDocumentPath'
+
+/**
+ * Redirect utilities for resolving incoming paths against the Redirects collection.
+ *
+ * The Redirects collection is generated by @payloadcms/plugin-redirects.
+ * Documents are normalized into flat rules, kept in an in-memory cache,
+ * and resolved by the frontend proxy (src/proxy.ts).
+ */
+
+/** Maximum number of redirect hops followed before giving up */
+const MAX_REDIRECT_HOPS = 10
+
+/** How long loaded rules are trusted before being reloaded (safety net for multi-instance deployments) */
+const REDIRECTS_CACHE_TTL_MS = 60_000
+
+/** Key used to share the cache between the proxy and route handler bundles */
+const CACHE_KEY = Symbol.for('vibecode.redirects-cache')
+
+/**
+ * HTTP status codes supported by the Redirects collection
+ */
+export type RedirectStatus = 301 | 302
+
+/**
+ * Redirect document structure matching the plugin-generated Redirects collection
+ * Using a generic interface to avoid dependency on generated types
+ */
+export interface RedirectDocument {
+  from: string
+  type?: string | null
+  to?: {
+    type?: 'reference' | 'custom' | null
+    reference?: {
+      relationTo: string
+      value: { slug?: string | null } | number | string | null
+    } | null
+    url?: string | null
+  } | null
+}
+
+/**
+ * A normalized redirect rule
+ */
+export interface RedirectRule {
+  /** Normalized source path, optionally including a query string */
+  from: string
+  /** Destination path or absolute URL */
+  to: string
+  /** HTTP status code for this hop */
+  status: RedirectStatus
+}
+
+/**
+ * The result of resolving a path against the redirect rules
+ */
+export interface ResolvedRedirect {
+  /** Final destination with the incoming query string preserved */
+  destination: string
+  /** 301 if every hop in the chain is permanent, otherwise 302 */
+  status: RedirectStatus
+}
+
+interface RedirectsCache {
+  rules: Map<string, RedirectRule> | null
+  loadedAt: number
+}
+
+/**
+ * Checks whether a destination points to another origin
+ */
+function isAbsoluteURL(value: string): boolean {
+  return /^[a-z][a-z\d+\-.]*:\/\//i.test(value)
+}
+
+/**
+ * Normalizes a path so that equivalent URLs share the same cache key.
+ *
+ * - Strips the origin from absolute URLs
+ * - Ensures a leading slash
+ * - Removes trailing slashes (except for the root path)
+ * - Keeps the query string, if any
+ *
+ * @param value - A path or URL as entered by an editor or received by the proxy
+ * @returns The normalized path
+ *
+ * @example
+ * normalizeRedirectPath('https://example.com/old-page/?ref=1')
+ * // Returns: "/old-page?ref=1"
+ */
+export function normalizeRedirectPath(value: string): string {
+  const url = new URL(value.trim(), 'http://localhost')
+  const pathname = url.pathname.replace(/\/+$/, '') || '/'
+
+  return `${pathname}${url.search}`
+}
+
+/**
+ * Converts Redirects collection documents into normalized rules.
+ * Documents whose target cannot be resolved (missing URL, unpopulated
+ * or deleted reference) are skipped.
+ *
+ * @param docs - Redirect documents, with references populated (depth >= 1)
+ * @returns Map of rules keyed by normalized source path
+ */
+export function buildRedirectRules(docs: RedirectDocument[]): Map<string, RedirectRule> {
+  const rules = new Map<string, RedirectRule>()
+
+  for (const doc of docs) {
+    if (!doc.from) continue
+
+    let to: string | null = null
+
+    if (doc.to?.type === 'custom') {
+      to = doc.to.url?.trim() || null
+    } else if (doc.to?.reference) {
+      const { relationTo, value } = doc.to.reference
+      if (value && typeof value === 'object') {
+        to = getDocumentPath(relationTo, value.slug)
+      }
+    }
+
+    if (!to) continue
+
+    const from = normalizeRedirectPath(doc.from)
+    rules.set(from, {
+      from,
+      to,
+      status: doc.type === '302' ? 302 : 301,
+    })
+  }
+
+  return rules
+}
+
+/**
+ * Merges the incoming query string into the destination.
+ * Parameters already present on the destination take precedence.
+ */
+function appendSearchParams(destination: string, search: string): string {
+  const incoming = new URLSearchParams(search)
+  if ([...incoming.keys()].length === 0) {
+    return destination
+  }
+
+  const absolute = isAbsoluteURL(destination)
+  const url = new URL(destination, 'http://localhost')
+
+  incoming.forEach((value, key) => {
+    if (!url.searchParams.has(key)) {
+      url.searchParams.append(key, value)
+    }
+  })
+
+  return absolute ? url.toString() : `${url.pathname}${url.search}${url.hash}`
+}
+
+/**
+ * Finds the rule matching a path, preferring an exact match including
+ * the query string over a match on the pathname alone.
+ */
+function findRule(
+  rules: Map<string, RedirectRule>,
+  pathname: string,
+  search: string
+): RedirectRule | undefined {
+  return rules.get(`${pathname}${search}`) ?? rules.get(pathname)
+}
+
+/**
+ * Resolves an incoming request path against the redirect rules.
+ *
+ * Follows redirect chains (A → B → C) so visitors get a single hop,
+ * and stops when a loop is detected or the chain gets too long.
+ *
+ * @param rules - Normalized redirect rules
+ * @param pathname - The incoming request pathname
+ * @param search - The incoming query string (with or without leading "?")
+ * @returns The final destination and status, or null if no redirect applies
+ */
+export function resolveRedirect(
+  rules: Map<string, RedirectRule>,
+  pathname: string,
+  search: string = ''
+): ResolvedRedirect | null {
+  if (rules.size === 0) {
+    return null
+  }
+
+  const normalizedSearch = search && !search.startsWith('?') ? `?${search}` : search
+  const start = normalizeRedirectPath(pathname)
+
+  let rule = findRule(rules, start, normalizedSearch)
+  if (!rule) {
+    return null
+  }
+
+  const visited = new Set<string>([start])
+  let destination = rule.to
+  let permanent = rule.status === 301
+
+  for (let hop = 1; ; hop++) {
+    // External destinations end the chain
+    if (isAbsoluteURL(destination)) break
+
+    const next = normalizeRedirectPath(destination)
+    if (visited.has(next)) {
+      console.warn(`Redirect loop detected for "${start}"`)
+      return null
+    }
+    visited.add(next)
+
+    rule = rules.get(next)
+    if (!rule) break
+
+    if (hop >= MAX_REDIRECT_HOPS) {
+      console.warn(`Redirect chain for "${start}" exceeds ${MAX_REDIRECT_HOPS} hops`)
+      return null
+    }
+
+    destination = rule.to
+    permanent = permanent && rule.status === 301
+  }
+
+  return {
+    destination: appendSearchParams(destination, normalizedSearch),
+    status: permanent ? 301 : 302,
+  }
+}
+
+/**
+ * Gets the process-wide redirects cache.
+ * Stored on globalThis so the proxy and Payload hooks see the same instance.
+ */
+function getCache(): RedirectsCache {
+  const store = globalThis as typeof globalThis & { [CACHE_KEY]?: RedirectsCache }
+
+  if (!store[CACHE_KEY]) {
+    store[CACHE_KEY] = { rules: null, loadedAt: 0 }
+  }
+
+  return store[CACHE_KEY]
+}
+
+/**
+ * Reads the cached redirect rules
+ *
+ * @returns The cached rules, or null if the cache is empty or expired
+ */
+export function readRedirectsCache(): Map<string, RedirectRule> | null {
+  const cache = getCache()
+
+  if (!cache.rules || Date.now() - cache.loadedAt > REDIRECTS_CACHE_TTL_MS) {
+    return null
+  }
+
+  return cache.rules
+}
+
+/**
+ * Stores freshly loaded redirect rules in the cache
+ */
+export function writeRedirectsCache(rules: Map<string, RedirectRule>): void {
+  const cache = getCache()
+  cache.rules = rules
+  cache.loadedAt = Date.now()
+}
+
+/**
+ * Clears the cached redirect rules so the next request reloads them
+ */
+export function invalidateRedirectsCache(): void {
+  const cache = getCache()
+  cache.rules = null
+  cache.loadedAt = 0
+}
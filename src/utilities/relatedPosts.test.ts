@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest'
+import {
+  getCategoryDistance,
+  getRecencyScore,
+  getRelatednessScore,
+  rankRelatedPosts,
+} from './relatedPosts'
+import type { IndexedPost } from './postIndex'
+
+// Tech (1) > Frontend (2) > React (3), Frontend (2) > Vue (4), Tech (1) > Backend (5); Cooking (6)
+const ancestors = new Map([
+  [2, [1]],
+  [3, [1, 2]],
+  [4, [1, 2]],
+  [5, [1]],
+])
+
+const now = new Date('2026-06-01T00:00:00.000Z')
+
+function post(id: number, values: Partial<IndexedPost> = {}): IndexedPost {
+  return {
+    id,
+    categoryIds: [],
+    tagIds: [],
+    authorIds: [],
+    publishedAt: '2026-05-01T00:00:00.000Z',
+    ...values,
+  }
+}
+
+describe('getCategoryDistance', () => {
+  it('should count the steps through the closest common ancestor', () => {
+    expect(getCategoryDistance(3, 3, ancestors)).toBe(0)
+    expect(getCategoryDistance(3, 2, ancestors)).toBe(1)
+    expect(getCategoryDistance(2, 3, ancestors)).toBe(1)
+    expect(getCategoryDistance(3, 4, ancestors)).toBe(2)
+    expect(getCategoryDistance(3, 5, ancestors)).toBe(3)
+  })
+
+  it('should return null for categories in different trees', () => {
+    expect(getCategoryDistance(3, 6, ancestors)).toBeNull()
+  })
+})
+
+describe('getRelatednessScore', () => {
+  it('should give partial credit to nearby categories', () => {
+    const current = post(1, { categoryIds: [3] })
+
+    expect(getRelatednessScore(current, post(2, { categoryIds: [3] }), ancestors)).toBe(4)
+    expect(getRelatednessScore(current, post(2, { categoryIds: [2] }), ancestors)).toBe(2)
+    expect(getRelatednessScore(current, post(2, { categoryIds: [4] }), ancestors)).toBe(1)
+    expect(getRelatednessScore(current, post(2, { categoryIds: [5] }), ancestors)).toBe(0)
+  })
+
+  it('should count each category of the current post once, with its closest match', () => {
+    const current = post(1, { categoryIds: [3] })
+
+    expect(getRelatednessScore(current, post(2, { categoryIds: [4, 3, 2] }), ancestors)).toBe(4)
+  })
+
+  it('should add shared tags and authors', () => {
+    const current = post(1, { tagIds: [10, 11, 12], authorIds: [7] })
+
+    expect(getRelatednessScore(current, post(2, { tagIds: [10, 12], authorIds: [7, 8] }), ancestors)).toBe(5.5)
+  })
+
+  it('should be 0 for unrelated posts', () => {
+    expect(getRelatednessScore(post(1, { categoryIds: [3] }), post(2, { categoryIds: [6] }), ancestors)).toBe(0)
+  })
+})
+
+describe('getRecencyScore', () => {
+  it('should halve every 180 days', () => {
+    expect(getRecencyScore('2026-06-01T00:00:00.000Z', now)).toBe(1)
+    expect(getRecencyScore('2025-12-03T00:00:00.000Z', now)).toBeCloseTo(0.5)
+  })
+
+  it('should be 0 without a date', () => {
+    expect(getRecencyScore(null, now)).toBe(0)
+  })
+})
+
+describe('rankRelatedPosts', () => {
+  const current = post(1, { categoryIds: [3], tagIds: [10], authorIds: [7] })
+
+  it('should rank by relatedness and leave out unrelated posts', () => {
+    const candidates = [
+      post(2, { categoryIds: [4] }),
+      post(3, { categoryIds: [3], tagIds: [10] }),
+      post(4, { categoryIds: [6] }),
+      post(5, { authorIds: [7] }),
+    ]
+
+    expect(rankRelatedPosts(current, candidates, ancestors, { now })).toEqual([3, 5, 2])
+  })
+
+  it('should prefer newer posts when relatedness is equal', () => {
+    const candidates = [
+      post(2, { categoryIds: [3], publishedAt: '2024-01-01T00:00:00.000Z' }),
+      post(3, { categoryIds: [3], publishedAt: '2026-05-30T00:00:00.000Z' }),
+    ]
+
+    expect(rankRelatedPosts(current, candidates, ancestors, { now })).toEqual([3, 2])
+  })
+
+  it('should not let recency outrank a stronger relation', () => {
+    const candidates = [
+      post(2, { categoryIds: [2], publishedAt: '2026-06-01T00:00:00.000Z' }),
+      post(3, { categoryIds: [3], publishedAt: '2020-01-01T00:00:00.000Z' }),
+    ]
+
+    expect(rankRelatedPosts(current, candidates, ancestors, { now })).toEqual([3, 2])
+  })
+
+  it('should exclude the current post and respect the limit', () => {
+    const candidates = [current, post(2, { tagIds: [10] }), post(3, { tagIds: [10] })]
+
+    expect(rankRelatedPosts(current, candidates, ancestors, { now, limit: 1 })).toHaveLength(1)
+    expect(rankRelatedPosts(current, candidates, ancestors, { now })).not.toContain(1)
+    expect(rankRelatedPosts(current, candidates, ancestors, { now, limit: 0 })).toEqual([])
+  })
+})
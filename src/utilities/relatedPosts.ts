@@ -0,0 +1,149 @@
+import type { PostIndexEntry } from './postFilters'
+import type { IndexedPost } from './postIndex'
+
+/**
+ * Related posts ranking.
+ *
+ * Candidates are scored against the current post by what they share:
+ * categories (with partial credit for nearby categories in the tree), tags
+ * and authors. Recency only breaks near-ties between related posts, it never
+ * makes an unrelated post related. Data loading lives in getRelatedPosts.ts.
+ */
+
+/** Number of related posts shown on a post page */
+export const RELATED_POSTS_LIMIT = 3
+
+/**
+ * Score weights
+ */
+export const RELATED_POST_WEIGHTS = {
+  /** Per category of the current post found in the candidate; halved per step away in the tree */
+  category: 4,
+  /** Furthest tree distance that still counts (2 = siblings, grandparents) */
+  maxCategoryDistance: 2,
+  /** Per shared tag */
+  tag: 2,
+  /** Once, if any author is shared */
+  author: 1.5,
+  /** For a post published just now, halved every `recencyHalfLifeDays` */
+  recency: 1,
+  recencyHalfLifeDays: 180,
+} as const
+
+/**
+ * Gets the number of steps between two categories in the category tree
+ * (0 for the same category, 1 for parent and child, 2 for siblings)
+ *
+ * @param a - A category ID
+ * @param b - Another category ID
+ * @param ancestors - Ancestor IDs of each category, from the root
+ * @returns The distance, or null if the categories are in different trees
+ */
+export function getCategoryDistance(
+  a: number,
+  b: number,
+  ancestors: Map<number, number[]>,
+): number | null {
+  if (a === b) {
+    return 0
+  }
+
+  const pathA = [...(ancestors.get(a) ?? []), a]
+  const pathB = [...(ancestors.get(b) ?? []), b]
+
+  let common = 0
+  while (common < pathA.length && common < pathB.length && pathA[common] === pathB[common]) {
+    common++
+  }
+
+  return common === 0 ? null : pathA.length - common + (pathB.length - common)
+}
+
+/**
+ * Scores how related a candidate is to the current post, without recency
+ *
+ * @param current - The post being read
+ * @param candidate - A post that might be related
+ * @param ancestors - Ancestor IDs of each category, from the root
+ * @returns 0 for unrelated posts, higher for more related ones
+ */
+export function getRelatednessScore(
+  current: PostIndexEntry,
+  candidate: PostIndexEntry,
+  ancestors: Map<number, number[]>,
+): number {
+  const weights = RELATED_POST_WEIGHTS
+  let score = 0
+
+  // Each of the current post's categories counts once, with its closest match
+  for (const categoryId of current.categoryIds) {
+    const distances = candidate.categoryIds
+      .map((candidateId) => getCategoryDistance(categoryId, candidateId, ancestors))
+      .filter((distance): distance is number => distance !== null && distance <= weights.maxCategoryDistance)
+
+    if (distances.length > 0) {
+      score += weights.category / 2 ** Math.min(...distances)
+    }
+  }
+
+  score += candidate.tagIds.filter((id) => current.tagIds.includes(id)).length * weights.tag
+
+  if (candidate.authorIds.some((id) => current.authorIds.includes(id))) {
+    score += weights.author
+  }
+
+  return score
+}
+
+/**
+ * Scores how recent a post is
+ *
+ * @param publishedAt - The post's publication date
+ * @param now - The reference time
+ * @returns From the recency weight (just published) towards 0 (long ago)
+ */
+export function getRecencyScore(publishedAt: string | null | undefined, now: Date): number {
+  const time = publishedAt ? new Date(publishedAt).getTime() : NaN
+
+  if (Number.isNaN(time)) {
+    return 0
+  }
+
+  const ageInDays = Math.max(0, now.getTime() - time) / 86_400_000
+  return RELATED_POST_WEIGHTS.recency / 2 ** (ageInDays / RELATED_POST_WEIGHTS.recencyHalfLifeDays)
+}
+
+/**
+ * Ranks the posts most related to the current post
+ *
+ * @param current - The post being read (excluded from the results)
+ * @param candidates - Posts to rank
+ * @param ancestors - Ancestor IDs of each category, from the root
+ * @param options - Number of results, and the reference time for recency
+ * @returns IDs of the related posts, most related first
+ *
+ * @example
+ * rankRelatedPosts(post, index.posts, ancestors, { limit: 3 })
+ * // Returns: [12, 7, 31]
+ */
+export function rankRelatedPosts(
+  current: IndexedPost,
+  candidates: IndexedPost[],
+  ancestors: Map<number, number[]>,
+  { limit = RELATED_POSTS_LIMIT, now = new Date() }: { limit?: number; now?: Date } = {},
+): number[] {
+  return candidates
+    .flatMap((candidate) => {
+      if (candidate.id === current.id) {
+        return []
+      }
+
+      const relatedness = getRelatednessScore(current, candidate, ancestors)
+      return relatedness > 0
+        ? [{ id: candidate.id, score: relatedness + getRecencyScore(candidate.publishedAt, now) }]
+        : []
+    })
+    .sort((a, b) => b.score - a.score)
+    .slice(0, Math.max(0, limit))
+    .map(({ id }) => id)
+}
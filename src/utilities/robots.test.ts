@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest'
+import { buildRobots } from './robots'
+
+const serverURL = 'https://example.com'
+
+describe('buildRobots', () => {
+  it('should allow crawling in production with the sitemap', () => {
+    expect(buildRobots({ crawling: null, environment: 'production', serverURL })).toEqual({
+      rules: {
+        userAgent: '*',
+        allow: '/',
+        disallow: ['/admin'],
+      },
+      sitemap: 'https://example.com/sitemap.xml',
+      host: 'https://example.com',
+    })
+  })
+
+  it('should block preview deployments by default', () => {
+    expect(buildRobots({ crawling: null, environment: 'preview', serverURL })).toEqual({
+      rules: { userAgent: '*', disallow: '/' },
+    })
+  })
+
+  it('should follow the configured blocked environments', () => {
+    const crawling = { blockedEnvironments: ['production' as const] }
+
+    expect(buildRobots({ crawling, environment: 'preview', serverURL }).rules).toEqual({
+      userAgent: '*',
+      allow: '/',
+      disallow: ['/admin'],
+    })
+    expect(buildRobots({ crawling, environment: 'production', serverURL }).rules).toEqual({
+      userAgent: '*',
+      disallow: '/',
+    })
+  })
+
+  it('should add configured paths without duplicates', () => {
+    const crawling = {
+      blockedEnvironments: [],
+      disallowPaths: [{ path: '/search' }, { path: '/admin' }, { path: null }],
+    }
+
+    expect(buildRobots({ crawling, environment: 'production', serverURL }).rules).toEqual({
+      userAgent: '*',
+      allow: '/',
+      disallow: ['/admin', '/search'],
+    })
+  })
+})
@@ -0,0 +1,63 @@
+import type { MetadataRoute } from 'next'
+
+import type { DeploymentEnvironment } from '@/lib/env'
+
+/**
+ * Crawling settings from the SiteSettings global
+ */
+export interface CrawlingSettings {
+  blockedEnvironments?: DeploymentEnvironment[] | null
+  disallowPaths?: { path?: string | null }[] | null
+}
+
+/** Environments blocked when the settings have not been saved yet */
+const DEFAULT_BLOCKED_ENVIRONMENTS: DeploymentEnvironment[] = ['preview', 'development']
+
+/** Paths that are never crawlable */
+const ALWAYS_DISALLOWED_PATHS = ['/admin']
+
+/**
+ * Options for buildRobots
+ */
+interface BuildRobotsArgs {
+  crawling?: CrawlingSettings | null
+  environment: DeploymentEnvironment
+  serverURL: string
+}
+
+/**
+ * Builds robots.txt rules from the SiteSettings crawling section.
+ *
+ * - Blocked environments (e.g. preview deployments) disallow everything
+ * - Otherwise allows crawling except /admin and the configured paths,
+ *   and points crawlers to the sitemap index
+ *
+ * @param args - Crawling settings, current environment, and site URL
+ * @returns Rules for the Next.js robots.ts route
+ */
+export function buildRobots({ crawling, environment, serverURL }: BuildRobotsArgs): MetadataRoute.Robots {
+  const blockedEnvironments = crawling?.blockedEnvironments ?? DEFAULT_BLOCKED_ENVIRONMENTS
+
+  if (blockedEnvironments.includes(environment)) {
+    return {
+      rules: {
+        userAgent: '*',
+        disallow: '/',
+      },
+    }
+  }
+
+  const configuredPaths = (crawling?.disallowPaths ?? []).flatMap((entry) =>
+    entry.path ? [entry.path] : []
+  )
+
+  return {
+    rules: {
+      userAgent: '*',
+      allow: '/',
+      disallow: Array.from(new Set([...ALWAYS_DISALLOWED_PATHS, ...configuredPaths])),
+    },
+    sitemap: `${serverURL}/sitemap.xml`,
+    host: serverURL,
+  }
+}
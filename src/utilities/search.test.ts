@@ -0,0 +1,147 @@
+import { describe, it, expect } from 'vitest'
+import {
+  HIGHLIGHT_END,
+  HIGHLIGHT_START,
+  MAX_SEARCH_QUERY_LENGTH,
+  buildSearchEntry,
+  normalizeSearchQuery,
+  parseHighlights,
+  toPrefixTsQuery,
+} from './search'
+
+/**
+ * Wraps text in highlight markers, as ts_headline does
+ */
+function mark(text: string): string {
+  return `${HIGHLIGHT_START}${text}${HIGHLIGHT_END}`
+}
+
+function lexical(text: string): unknown {
+  return {
+    root: {
+      type: 'root',
+      children: [{ type: 'paragraph', children: [{ type: 'text', text }] }],
+    },
+  }
+}
+
+describe('parseHighlights', () => {
+  it('should split text into plain and highlighted segments', () => {
+    expect(parseHighlights(`Learn ${mark('Next.js')} today`)).toEqual([
+      { text: 'Learn ', highlighted: false },
+      { text: 'Next.js', highlighted: true },
+      { text: ' today', highlighted: false },
+    ])
+  })
+
+  it('should handle adjacent and leading highlights', () => {
+    expect(parseHighlights(`${mark('Payload')}${mark('CMS')} guide`)).toEqual([
+      { text: 'Payload', highlighted: true },
+      { text: 'CMS', highlighted: true },
+      { text: ' guide', highlighted: false },
+    ])
+  })
+
+  it('should return a single plain segment without highlights', () => {
+    expect(parseHighlights('No matches here')).toEqual([
+      { text: 'No matches here', highlighted: false },
+    ])
+  })
+
+  it('should keep markup as plain text', () => {
+    expect(parseHighlights(`<script>${mark('alert')}</script>`)).toEqual([
+      { text: '<script>', highlighted: false },
+      { text: 'alert', highlighted: true },
+      { text: '</script>', highlighted: false },
+    ])
+  })
+
+  it('should return no segments for empty input', () => {
+    expect(parseHighlights('')).toEqual([])
+    expect(parseHighlights(null)).toEqual([])
+  })
+})
+
+describe('normalizeSearchQuery', () => {
+  it('should trim and collapse whitespace', () => {
+    expect(normalizeSearchQuery('  next.js   payload ')).toBe('next.js payload')
+  })
+
+  it('should truncate long queries', () => {
+    expect(normalizeSearchQuery('a'.repeat(500))).toHaveLength(MAX_SEARCH_QUERY_LENGTH)
+  })
+
+  it('should return an empty string for missing queries', () => {
+    expect(normalizeSearchQuery(undefined)).toBe('')
+    expect(normalizeSearchQuery(null)).toBe('')
+  })
+})
+
+describe('toPrefixTsQuery', () => {
+  it('should match every word as a prefix', () => {
+    expect(toPrefixTsQuery('Next pay')).toBe('next:* & pay:*')
+  })
+
+  it('should drop tsquery operators and punctuation', () => {
+    expect(toPrefixTsQuery("next.js & (payload) | !draft 'x'")).toBe(
+      'next:* & js:* & payload:* & draft:* & x:*'
+    )
+  })
+
+  it('should keep non-ASCII letters', () => {
+    expect(toPrefixTsQuery('café über')).toBe('café:* & über:*')
+  })
+
+  it('should return an empty string when no words remain', () => {
+    expect(toPrefixTsQuery('  ')).toBe('')
+    expect(toPrefixTsQuery('&|!')).toBe('')
+  })
+})
+
+describe('buildSearchEntry', () => {
+  it('should index a post with its excerpt and Lexical content', () => {
+    const entry = buildSearchEntry('posts', {
+      id: 7,
+      title: 'Hello World',
+      slug: 'hello-world',
+      excerpt: 'A first post',
+      content: lexical('Post body text'),
+      publishedAt: '2026-01-01T00:00:00.000Z',
+    })
+
+    expect(entry).toEqual({
+      docCollection: 'posts',
+      docId: 7,
+      title: 'Hello World',
+      slug: 'hello-world',
+      excerpt: 'A first post',
+      body: 'Post body text',
+      publishedAt: '2026-01-01T00:00:00.000Z',
+    })
+  })
+
+  it('should index a page with its meta description, hero, and layout blocks', () => {
+    const entry = buildSearchEntry('pages', {
+      id: 3,
+      title: 'About',
+      slug: 'about',
+      meta: { description: 'About our team' },
+      hero: { type: 'lowImpact', heading: 'Who we are', richText: lexical('Hero text') },
+      layout: [{ blockType: 'content', columnOne: lexical('Block text') }],
+    })
+
+    expect(entry.excerpt).toBe('About our team')
+    expect(entry.body).toBe('Who we are\nHero text\nBlock text')
+    expect(entry.publishedAt).toBeNull()
+  })
+
+  it('should strip highlight markers from indexed text', () => {
+    const entry = buildSearchEntry('posts', {
+      id: 1,
+      title: `Tricky ${mark('title')}`,
+      slug: 'tricky',
+    })
+
+    expect(entry.title).toBe('Tricky title')
+  })
+})
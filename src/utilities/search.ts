@@ -0,0 +1,198 @@
+import { extractBlocksText, extractLexicalText } from './lexicalText'
+
+/**
+ * Shared helpers for full-text search.
+ *
+ * Kept free of Payload runtime imports so the SearchIndex collection and the
+ * search hooks (which load with the Payload config) can use them.
+ */
+
+/** Postgres text search configuration used for indexing and querying */
+export const SEARCH_LANGUAGE = 'english'
+
+/** Longest accepted search query, longer input is truncated */
+export const MAX_SEARCH_QUERY_LENGTH = 200
+
+/**
+ * Markers wrapped around matches by `ts_headline`.
+ * Private-use characters never appear in indexed text (they are stripped),
+ * so snippets can be split safely without rendering HTML from the database.
+ */
+export const HIGHLIGHT_START = '\uE000'
+export const HIGHLIGHT_END = '\uE001'
+
+/** Collections included in the search index */
+export type SearchCollection = 'pages' | 'posts'
+
+/**
+ * A piece of highlighted text
+ */
+export interface HighlightSegment {
+  text: string
+  /** Whether this segment matched the query */
+  highlighted: boolean
+}
+
+/**
+ * A single search hit
+ */
+export interface SearchResult {
+  id: number
+  collection: SearchCollection
+  /** Title with matched terms highlighted */
+  title: HighlightSegment[]
+  /** Body excerpt around the best matches */
+  snippet: HighlightSegment[]
+  /** Frontend path of the document */
+  url: string
+  publishedAt: string | null
+}
+
+/**
+ * Paginated search response
+ */
+export interface SearchResponse {
+  query: string
+  results: SearchResult[]
+  totalDocs: number
+  totalPages: number
+  page: number
+}
+
+/**
+ * A category matched by search-as-you-type
+ */
+export interface CategorySuggestion {
+  id: number
+  title: string
+  url: string
+}
+
+/**
+ * Grouped results for the command palette
+ */
+export interface SearchSuggestions {
+  query: string
+  /** Matching pages and posts, best matches first */
+  results: SearchResult[]
+  categories: CategorySuggestion[]
+}
+
+/**
+ * Data stored in the search index for one document
+ */
+export interface SearchEntryData {
+  docCollection: SearchCollection
+  docId: number
+  title: string
+  slug: string
+  excerpt: string
+  body: string
+  publishedAt: string | null
+}
+
+/**
+ * Minimal document shape read when building an index entry
+ */
+export interface IndexableDocument {
+  id: number | string
+  title?: string | null
+  slug?: string | null
+  publishedAt?: string | null
+  excerpt?: string | null
+  content?: unknown
+  hero?: unknown
+  layout?: unknown
+  meta?: {
+    description?: string | null
+  } | null
+}
+
+/**
+ * Removes highlight markers from text before it is indexed
+ */
+export function stripHighlightMarkers(text: string): string {
+  return text.replaceAll(HIGHLIGHT_START, '').replaceAll(HIGHLIGHT_END, '')
+}
+
+/**
+ * Trims and truncates a raw search query
+ *
+ * @param query - The query from the URL or request
+ * @returns The normalized query, or an empty string
+ */
+export function normalizeSearchQuery(query: string | null | undefined): string {
+  return (query ?? '').trim().replace(/\s+/g, ' ').slice(0, MAX_SEARCH_QUERY_LENGTH)
+}
+
+/**
+ * Builds a prefix-matching tsquery for search-as-you-type
+ *
+ * Each word of the query must match the start of an indexed word, so
+ * partial input like "next pay" finds "Next.js" and "Payload". Anything but
+ * letters and digits is dropped, which keeps the output valid tsquery syntax.
+ *
+ * @param query - The raw query text
+ * @returns tsquery text for `to_tsquery`, or an empty string
+ *
+ * @example
+ * toPrefixTsQuery('next pay')
+ * // Returns: "next:* & pay:*"
+ */
+export function toPrefixTsQuery(query: string | null | undefined): string {
+  const words = normalizeSearchQuery(query).toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []
+
+  return words.map((word) => `${word}:*`).join(' & ')
+}
+
+/**
+ * Splits `ts_headline` output into plain and highlighted segments
+ *
+ * @param text - Text containing HIGHLIGHT_START / HIGHLIGHT_END markers
+ * @returns Segments in order, without the markers
+ *
+ * @example
+ * parseHighlights('Learn \uE000Next.js\uE001 today')
+ * // Returns: [{ text: 'Learn ', highlighted: false }, { text: 'Next.js', highlighted: true }, ...]
+ */
+export function parseHighlights(text: string | null | undefined): HighlightSegment[] {
+  // Splitting on a capture group alternates plain (even) and highlighted (odd) parts
+  const parts = (text ?? '').split(
+    new RegExp(`${HIGHLIGHT_START}([\\s\\S]*?)${HIGHLIGHT_END}`),
+  )
+
+  return parts
+    .map((part, index) => ({ text: part, highlighted: index % 2 === 1 }))
+    .filter((segment) => segment.text.length > 0)
+}
+
+/**
+ * Builds the search index entry for a published page or post
+ *
+ * - Posts: excerpt field, body from Lexical `content`
+ * - Pages: meta description, body from hero rich text and layout blocks
+ *
+ * @param collection - The source collection
+ * @param doc - The published document
+ * @returns Data for the search-index collection
+ */
+export function buildSearchEntry(
+  collection: SearchCollection,
+  doc: IndexableDocument,
+): SearchEntryData {
+  const excerpt = collection === 'posts' ? doc.excerpt : doc.meta?.description
+  const body =
+    collection === 'posts'
+      ? extractLexicalText(doc.content)
+      : [extractBlocksText(doc.hero), extractBlocksText(doc.layout)].filter(Boolean).join('\n')
+
+  return {
+    docCollection: collection,
+    docId: Number(doc.id),
+    title: stripHighlightMarkers(doc.title ?? ''),
+    slug: doc.slug ?? '',
+    excerpt: stripHighlightMarkers(excerpt ?? ''),
+    body: stripHighlightMarkers(body),
+    publishedAt: doc.publishedAt ?? null,
+  }
+}
@@ -0,0 +1,185 @@
+import { sql, type PostgresAdapter } from '@payloadcms/db-postgres'
+
+import { getDocumentPath } from './getDocumentPath'
+import { getPayload } from './getPayload'
+import {
+  HIGHLIGHT_END,
+  HIGHLIGHT_START,
+  SEARCH_LANGUAGE,
+  normalizeSearchQuery,
+  parseHighlights,
+  toPrefixTsQuery,
+  type SearchCollection,
+  type SearchResponse,
+  type SearchSuggestions,
+} from './search'
+
+/** Default number of results per page */
+export const SEARCH_RESULTS_PER_PAGE = 10
+
+/** Upper bound for the `limit` option */
+const MAX_SEARCH_LIMIT = 50
+
+/** ts_headline options for body snippets */
+const SNIPPET_OPTIONS = `StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_END}, MaxFragments=2, MaxWords=30, MinWords=12, FragmentDelimiter=" … "`
+
+/** ts_headline options for titles (highlight every match, keep the full title) */
+const TITLE_OPTIONS = `StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_END}, HighlightAll=true`
+
+/**
+ * Row returned by the search query
+ */
+interface SearchRow extends Record<string, unknown> {
+  doc_id: number
+  doc_collection: SearchCollection
+  slug: string
+  title: string
+  snippet: string | null
+  published_at: string | Date | null
+}
+
+/**
+ * Options for searchContent
+ */
+interface SearchContentOptions {
+  /** Raw query text, parsed with websearch syntax ("quotes", -exclude, or) */
+  query: string | null | undefined
+  /** Page number (1-indexed) */
+  page?: number
+  /** Results per page (1-50) */
+  limit?: number
+  /** Match words by prefix for search-as-you-type (plain words only, no websearch syntax) */
+  prefix?: boolean
+}
+
+/**
+ * Searches published pages and posts with Postgres full-text search.
+ *
+ * Matches against the weighted `search_vector` of the search-index
+ * collection (title > excerpt > body), ranks with `ts_rank_cd`, and returns
+ * highlighted titles and body snippets. The index only contains published
+ * documents, so results are safe to show to anonymous visitors.
+ *
+ * @param options - Query text and pagination
+ * @returns Paginated results; empty for blank queries
+ *
+ * @example
+ * ```ts
+ * const { results, totalPages } = await searchContent({ query: 'next.js', page: 2 })
+ * ```
+ */
+export async function searchContent({
+  query,
+  page = 1,
+  limit = SEARCH_RESULTS_PER_PAGE,
+  prefix = false,
+}: SearchContentOptions): Promise<SearchResponse> {
+  const text = normalizeSearchQuery(query)
+  const prefixQuery = prefix ? toPrefixTsQuery(text) : ''
+  const currentPage = Math.max(1, Math.floor(page) || 1)
+  const pageSize = Math.min(MAX_SEARCH_LIMIT, Math.max(1, Math.floor(limit) || 1))
+
+  if (!text || (prefix && !prefixQuery)) {
+    return { query: text, results: [], totalDocs: 0, totalPages: 0, page: currentPage }
+  }
+
+  const payload = await getPayload()
+  const db = payload.db as unknown as PostgresAdapter
+  const tsquery = prefix
+    ? sql`to_tsquery(${SEARCH_LANGUAGE}::regconfig, ${prefixQuery})`
+    : sql`websearch_to_tsquery(${SEARCH_LANGUAGE}::regconfig, ${text})`
+
+  // Counted separately, so pages past the last one still report the total
+  const [{ rows }, { rows: countRows }] = await Promise.all([
+    db.drizzle.execute<SearchRow>(sql`
+      SELECT
+        doc_id,
+        doc_collection,
+        slug,
+        published_at,
+        ts_headline(${SEARCH_LANGUAGE}::regconfig, title, query, ${TITLE_OPTIONS}) AS title,
+        ts_headline(
+          ${SEARCH_LANGUAGE}::regconfig,
+          coalesce(nullif(body, ''), excerpt, ''),
+          query,
+          ${SNIPPET_OPTIONS}
+        ) AS snippet
+      FROM search_index, ${tsquery} AS query
+      WHERE search_vector @@ query
+      ORDER BY ts_rank_cd(search_vector, query) DESC, published_at DESC NULLS LAST
+      LIMIT ${pageSize}
+      OFFSET ${(currentPage - 1) * pageSize}
+    `),
+    db.drizzle.execute<{ total: string | number }>(sql`
+      SELECT count(*) AS total
+      FROM search_index, ${tsquery} AS query
+      WHERE search_vector @@ query
+    `),
+  ])
+
+  const totalDocs = Number(countRows[0]?.total ?? 0)
+
+  return {
+    query: text,
+    results: rows.map((row) => ({
+      id: Number(row.doc_id),
+      collection: row.doc_collection,
+      title: parseHighlights(row.title),
+      snippet: parseHighlights(row.snippet),
+      url: getDocumentPath(row.doc_collection, row.slug) ?? '/',
+      publishedAt: row.published_at ? new Date(row.published_at).toISOString() : null,
+    })),
+    totalDocs,
+    totalPages: Math.ceil(totalDocs / pageSize),
+    page: currentPage,
+  }
+}
+
+/** Maximum results per group in the command palette */
+const SUGGESTIONS_PER_GROUP = 5
+
+/**
+ * Search-as-you-type results for the command palette.
+ *
+ * Runs a prefix search over published pages and posts, and a title match
+ * over categories, in parallel.
+ *
+ * @param query - Partial query text
+ * @returns Pages/posts and categories matching the query
+ */
+export async function getSearchSuggestions(
+  query: string | null | undefined,
+): Promise<SearchSuggestions> {
+  const text = normalizeSearchQuery(query)
+
+  if (!text) {
+    return { query: text, results: [], categories: [] }
+  }
+
+  const payload = await getPayload()
+  const [content, categories] = await Promise.all([
+    searchContent({ query: text, limit: SUGGESTIONS_PER_GROUP * 2, prefix: true }),
+    payload.find({
+      collection: 'categories',
+      where: {
+        title: {
+          like: text,
+        },
+      },
+      sort: 'title',
+      depth: 0,
+      limit: SUGGESTIONS_PER_GROUP,
+      overrideAccess: false,
+    }),
+  ])
+
+  return {
+    query: text,
+    results: content.results,
+    categories: categories.docs.map((category) => ({
+      id: category.id,
+      title: category.title,
+      url: category.breadcrumbs?.at(-1)?.url ?? `/categories/${category.slug}`,
+    })),
+  }
+}
@@ -0,0 +1,143 @@
+import type { Post, Series } from '@/payload-types'
+import { PUBLIC_AUTHOR_FIELDS, populateContributors } from './authors'
+import { getPayload } from './getPayload'
+
+/**
+ * Series data loaders.
+ *
+ * A series stores its posts as an ordered list of IDs, which may include
+ * drafts. Parts are the published posts, in the series' order, so part
+ * numbers always match what visitors can read.
+ */
+
+/**
+ * A published post of a series, as listed in the series navigator
+ */
+export interface SeriesPart {
+  id: Post['id']
+  title: string
+  slug: string
+}
+
+/**
+ * Gets the post IDs of a series in reading order
+ */
+function getSeriesPostIds(series: Pick<Series, 'posts'>): Post['id'][] {
+  return (series.posts ?? []).map((post) => (typeof post === 'object' ? post.id : post))
+}
+
+/**
+ * Sorts posts into the series' reading order
+ */
+function sortBySeriesOrder<TPost extends { id: Post['id'] }>(
+  posts: TPost[],
+  series: Pick<Series, 'posts'>,
+): TPost[] {
+  const order = getSeriesPostIds(series)
+  return [...posts].sort((a, b) => order.indexOf(a.id) - order.indexOf(b.id))
+}
+
+/**
+ * Finds a series by its slug
+ *
+ * @param slug - The series slug
+ * @returns The series with its cover image populated, or null if not found
+ */
+export async function getSeriesBySlug(slug: string): Promise<Series | null> {
+  const payload = await getPayload()
+  const result = await payload.find({
+    collection: 'series',
+    where: {
+      slug: {
+        equals: slug,
+      },
+    },
+    depth: 1, // Populate coverImage
+    limit: 1,
+    overrideAccess: false,
+  })
+
+  return result.docs[0] ?? null
+}
+
+/**
+ * Finds the series a post belongs to
+ *
+ * @param postId - The post ID
+ * @returns The series, or null if the post isn't part of one
+ */
+export async function getSeriesOfPost(postId: Post['id']): Promise<Series | null> {
+  const payload = await getPayload()
+  const result = await payload.find({
+    collection: 'series',
+    where: {
+      posts: {
+        in: [postId],
+      },
+    },
+    depth: 0,
+    limit: 1,
+    overrideAccess: false,
+  })
+
+  return result.docs[0] ?? null
+}
+
+/**
+ * Fetches the published parts of a series for the series navigator
+ *
+ * @param series - The series
+ * @returns Titles and slugs of the published posts, in reading order
+ */
+export async function getSeriesParts(series: Pick<Series, 'posts'>): Promise<SeriesPart[]> {
+  const ids = getSeriesPostIds(series)
+
+  if (ids.length === 0) {
+    return []
+  }
+
+  const payload = await getPayload()
+  const result = await payload.find({
+    collection: 'posts',
+    where: {
+      and: [{ id: { in: ids } }, { _status: { equals: 'published' } }],
+    },
+    depth: 0,
+    pagination: false,
+    select: {
+      title: true,
+      slug: true,
+    },
+    overrideAccess: false,
+  })
+
+  return sortBySeriesOrder(result.docs, series).map(({ id, title, slug }) => ({ id, title, slug }))
+}
+
+/**
+ * Fetches the published posts of a series for its landing page
+ *
+ * @param series - The series
+ * @returns Posts with featured images, categories and contributors populated, in reading order
+ */
+export async function getSeriesPosts(series: Pick<Series, 'posts'>): Promise<Post[]> {
+  const ids = getSeriesPostIds(series)
+
+  if (ids.length === 0) {
+    return []
+  }
+
+  const payload = await getPayload()
+  const result = await payload.find({
+    collection: 'posts',
+    where: {
+      and: [{ id: { in: ids } }, { _status: { equals: 'published' } }],
+    },
+    depth: 1, // Populate featuredImage, categories and contributors
+    populate: { users: PUBLIC_AUTHOR_FIELDS },
+    pagination: false,
+    overrideAccess: false,
+  })
+
+  return sortBySeriesOrder(await populateContributors(result.docs), series)
+}
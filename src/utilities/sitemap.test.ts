@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest'
+import {
+  SITEMAP_URL_LIMIT,
+  buildSitemapIndexXml,
+  buildSitemapXml,
+  getSitemapChunks,
+  getSitemapName,
+  parseSitemapName,
+} from './sitemap'
+
+describe('buildSitemapXml', () => {
+  it('should render a urlset with loc and lastmod', () => {
+    const xml = buildSitemapXml([
+      { loc: 'https://example.com/', lastmod: '2026-01-01T00:00:00.000Z' },
+      { loc: 'https://example.com/about' },
+    ])
+
+    expect(xml).toBe(
+      [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+        '<url><loc>https://example.com/</loc><lastmod>2026-01-01T00:00:00.000Z</lastmod></url>',
+        '<url><loc>https://example.com/about</loc></url>',
+        '</urlset>',
+      ].join('\n')
+    )
+  })
+
+  it('should escape XML special characters', () => {
+    const xml = buildSitemapXml([{ loc: 'https://example.com/?a=1&b=<2>' }])
+
+    expect(xml).toContain('<loc>https://example.com/?a=1&amp;b=&lt;2&gt;</loc>')
+  })
+
+  it('should render an empty urlset', () => {
+    expect(buildSitemapXml([])).toContain('<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">\n</urlset>')
+  })
+})
+
+describe('buildSitemapIndexXml', () => {
+  it('should render a sitemapindex', () => {
+    const xml = buildSitemapIndexXml([{ loc: 'https://example.com/sitemaps/pages-1.xml' }])
+
+    expect(xml).toContain('<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">')
+    expect(xml).toContain('<sitemap><loc>https://example.com/sitemaps/pages-1.xml</loc></sitemap>')
+  })
+})
+
+describe('getSitemapName and parseSitemapName', () => {
+  it('should round-trip a chunk', () => {
+    const name = getSitemapName({ collection: 'posts', page: 2 })
+
+    expect(name).toBe('posts-2.xml')
+    expect(parseSitemapName(name)).toEqual({ collection: 'posts', page: 2 })
+  })
+
+  it('should reject unknown collections and invalid pages', () => {
+    expect(parseSitemapName('media-1.xml')).toBeNull()
+    expect(parseSitemapName('posts-0.xml')).toBeNull()
+    expect(parseSitemapName('posts-01.xml')).toBeNull()
+    expect(parseSitemapName('posts.xml')).toBeNull()
+    expect(parseSitemapName('posts-1.txt')).toBeNull()
+  })
+})
+
+describe('getSitemapChunks', () => {
+  it('should split collections at the URL limit', () => {
+    expect(getSitemapChunks('posts', SITEMAP_URL_LIMIT + 1)).toEqual([
+      { collection: 'posts', page: 1 },
+      { collection: 'posts', page: 2 },
+    ])
+  })
+
+  it('should use a single chunk up to the limit', () => {
+    expect(getSitemapChunks('pages', SITEMAP_URL_LIMIT)).toHaveLength(1)
+  })
+
+  it('should return no chunks for an empty collection', () => {
+    expect(getSitemapChunks('categories', 0)).toEqual([])
+  })
+})
@@ -0,0 +1,111 @@
+import { escapeXml } from './xml'
+
+/**
+ * XML sitemap helpers.
+ *
+ * Builds sitemap and sitemap index documents following the sitemaps.org
+ * protocol. Data loading lives in getSitemaps.ts.
+ */
+
+/** Maximum number of URLs allowed in a single sitemap file */
+export const SITEMAP_URL_LIMIT = 50_000
+
+/** Collections with public routes listed in the sitemap */
+export const SITEMAP_COLLECTIONS = ['pages', 'posts', 'categories', 'tags', 'series', 'users'] as const
+
+export type SitemapCollection = (typeof SITEMAP_COLLECTIONS)[number]
+
+/**
+ * A URL entry in a sitemap or sitemap index
+ */
+export interface SitemapEntry {
+  /** Absolute URL */
+  loc: string
+  /** Last modification date (ISO 8601) */
+  lastmod?: string | null
+}
+
+/**
+ * Identifies one child sitemap: a collection and a 1-indexed chunk number
+ */
+export interface SitemapChunk {
+  collection: SitemapCollection
+  page: number
+}
+
+/**
+ * Renders `<loc>` and optional `<lastmod>` for an entry
+ */
+function renderEntry(tag: 'url' | 'sitemap', entry: SitemapEntry): string {
+  const lastmod = entry.lastmod ? `<lastmod>${escapeXml(entry.lastmod)}</lastmod>` : ''
+  return `<${tag}><loc>${escapeXml(entry.loc)}</loc>${lastmod}</${tag}>`
+}
+
+/**
+ * Builds a `<urlset>` sitemap document
+ *
+ * @param entries - URLs to list (at most SITEMAP_URL_LIMIT)
+ * @returns The XML document
+ */
+export function buildSitemapXml(entries: SitemapEntry[]): string {
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+    ...entries.map((entry) => renderEntry('url', entry)),
+    '</urlset>',
+  ].join('\n')
+}
+
+/**
+ * Builds a `<sitemapindex>` document listing child sitemaps
+ *
+ * @param sitemaps - Child sitemap URLs
+ * @returns The XML document
+ */
+export function buildSitemapIndexXml(sitemaps: SitemapEntry[]): string {
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+    ...sitemaps.map((entry) => renderEntry('sitemap', entry)),
+    '</sitemapindex>',
+  ].join('\n')
+}
+
+/**
+ * Gets the file name of a child sitemap
+ *
+ * @example
+ * getSitemapName({ collection: 'posts', page: 2 })
+ * // Returns: "posts-2.xml"
+ */
+export function getSitemapName({ collection, page }: SitemapChunk): string {
+  return `${collection}-${page}.xml`
+}
+
+/**
+ * Parses a child sitemap file name
+ *
+ * @param name - File name such as "posts-2.xml"
+ * @returns The collection and chunk number, or null if the name is invalid
+ */
+export function parseSitemapName(name: string): SitemapChunk | null {
+  const match = /^([a-z]+)-([1-9]\d*)\.xml$/.exec(name)
+
+  if (!match || !(SITEMAP_COLLECTIONS as readonly string[]).includes(match[1])) {
+    return null
+  }
+
+  return { collection: match[1] as SitemapCollection, page: Number(match[2]) }
+}
+
+/**
+ * Lists the child sitemaps needed for a collection, one per SITEMAP_URL_LIMIT URLs
+ *
+ * @param collection - The collection
+ * @param totalDocs - Number of indexable documents
+ * @returns Chunks in order (none for an empty collection)
+ */
+export function getSitemapChunks(collection: SitemapCollection, totalDocs: number): SitemapChunk[] {
+  const pages = Math.ceil(totalDocs / SITEMAP_URL_LIMIT)
+  return Array.from({ length: pages }, (_, index) => ({ collection, page: index + 1 }))
+}
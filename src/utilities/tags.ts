@@ -0,0 +1,117 @@
+import { unstable_cache } from 'next/cache'
+import type { PaginatedDocs } from 'payload'
+
+import type { Post, Tag } from '@/payload-types'
+import { PUBLIC_AUTHOR_FIELDS, populateContributors } from './authors'
+import { getSitemapCacheTag } from './cacheTags'
+import { getPayload } from './getPayload'
+
+/**
+ * Tag archive and tag cloud data loaders.
+ */
+
+/** Number of posts to display per tag archive page */
+export const TAG_POSTS_PER_PAGE = 9
+
+/**
+ * A tag with its number of published posts
+ */
+export interface TagCount {
+  id: Tag['id']
+  title: string
+  slug: string
+  count: number
+}
+
+/**
+ * Finds a tag by its slug
+ *
+ * @param slug - The tag slug
+ * @returns The tag, or null if not found
+ */
+export async function getTagBySlug(slug: string): Promise<Tag | null> {
+  const payload = await getPayload()
+  const result = await payload.find({
+    collection: 'tags',
+    where: {
+      slug: {
+        equals: slug,
+      },
+    },
+    depth: 0,
+    limit: 1,
+    joins: false,
+    overrideAccess: false,
+  })
+
+  return result.docs[0] ?? null
+}
+
+/**
+ * Fetches published posts with a tag, newest first
+ *
+ * @param tagId - The tag ID
+ * @param page - Page number (1-indexed)
+ * @returns Paginated posts with featured images, categories and contributors populated
+ */
+export async function getTagPosts(tagId: Tag['id'], page: number = 1): Promise<PaginatedDocs<Post>> {
+  const payload = await getPayload()
+
+  const result = await payload.find({
+    collection: 'posts',
+    where: {
+      and: [
+        { _status: { equals: 'published' } },
+        { tags: { in: [tagId] } },
+      ],
+    },
+    sort: '-publishedAt',
+    limit: TAG_POSTS_PER_PAGE,
+    page,
+    depth: 1, // Populate featuredImage, categories and contributors
+    populate: { users: PUBLIC_AUTHOR_FIELDS },
+    overrideAccess: false,
+  })
+
+  return { ...result, docs: await populateContributors(result.docs) }
+}
+
+/**
+ * Loads the tags with published posts and their post counts (cached).
+ *
+ * Counts come from the tags' `posts` join, limited to published posts.
+ * Cached under the `posts-list` tag (cleared when posts change) and the
+ * tags sitemap tag (cleared when tags change).
+ *
+ * @returns Tags with at least one published post, sorted by title
+ */
+export function getTagCounts(): Promise<TagCount[]> {
+  return unstable_cache(
+    async () => {
+      const payload = await getPayload()
+      const result = await payload.find({
+        collection: 'tags',
+        sort: 'title',
+        depth: 0,
+        pagination: false,
+        select: {
+          title: true,
+          slug: true,
+          posts: true,
+        },
+        joins: {
+          // Only the count is needed
+          posts: { count: true, limit: 1, where: { _status: { equals: 'published' } } },
+        },
+        overrideAccess: false,
+      })
+
+      return result.docs.flatMap((tag) => {
+        const count = tag.posts?.totalDocs ?? 0
+        return tag.slug && count > 0 ? [{ id: tag.id, title: tag.title, slug: tag.slug, count }] : []
+      })
+    },
+    ['tag-counts'],
+    { tags: ['posts-list', getSitemapCacheTag('tags')] },
+  )()
+}
@@ -0,0 +1,100 @@
+import type { PayloadRequest } from 'payload'
+
+import type { Post } from '@/payload-types'
+
+/**
+ * Which versions of a post were saved by updatePostVersions
+ */
+export interface UpdatePostVersionsResult {
+  /** The published document */
+  published: boolean
+  /** The pending draft */
+  draft: boolean
+}
+
+/**
+ * Removes the fields Payload sets on every save
+ */
+function toData({ id: _id, createdAt: _createdAt, updatedAt: _updatedAt, ...data }: Post) {
+  return data
+}
+
+/**
+ * Applies a change to both the published document and the pending draft of a post.
+ *
+ * `payload.update` without `draft` fills the fields it isn't given from the
+ * latest version. For a published post with unpublished changes that is the
+ * draft, so a partial update would write the draft's content and
+ * `_status: 'draft'` to the published document. Instead, the published
+ * document is re-read and saved whole. The pending draft is saved after it
+ * (even when its own fields don't change), so it stays the latest version
+ * editors continue from.
+ *
+ * @param req - The request, whose transaction all changes run in
+ * @param id - The post ID
+ * @param change - Returns the fields to change in a version, or null to leave it as is
+ * @returns Which versions were saved
+ *
+ * @example
+ * ```ts
+ * await updatePostVersions(req, post.id, (version) =>
+ *   version.excerpt ? null : { excerpt: 'A short summary' },
+ * )
+ * ```
+ */
+export async function updatePostVersions(
+  req: PayloadRequest,
+  id: Post['id'],
+  change: (post: Post) => Partial<Post> | null,
+): Promise<UpdatePostVersionsResult> {
+  const { payload } = req
+
+  // Read both before saving, which makes the saved version the latest one
+  const [published, latest] = await Promise.all([
+    payload.findByID({
+      collection: 'posts',
+      id,
+      depth: 0,
+      draft: false,
+      disableErrors: true,
+      req,
+    }),
+    payload.findVersions({
+      collection: 'posts',
+      where: {
+        and: [{ parent: { equals: id } }, { latest: { equals: true } }],
+      },
+      depth: 0,
+      limit: 1,
+      req,
+    }),
+  ])
+
+  const pending = latest.docs[0]?.version
+  const draft = pending?._status === 'draft' ? pending : null
+  const publishedChange = published?._status === 'published' ? change(published) : null
+  const draftChange = draft && (change(draft) ?? (publishedChange ? {} : null))
+
+  if (published && publishedChange) {
+    await payload.update({
+      collection: 'posts',
+      id,
+      data: { ...toData(published), ...publishedChange, _status: 'published' },
+      depth: 0,
+      req,
+    })
+  }
+
+  if (draft && draftChange) {
+    await payload.update({
+      collection: 'posts',
+      id,
+      data: { ...toData(draft), ...draftChange },
+      draft: true,
+      depth: 0,
+      req,
+    })
+  }
+
+  return { published: Boolean(publishedChange), draft: Boolean(draftChange) }
+}
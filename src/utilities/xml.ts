@@ -0,0 +1,20 @@
+/**
+ * Shared helpers for the XML documents served by route handlers
+ * (sitemaps and feeds).
+ */
+
+/**
+ * Escapes text for use in XML element content and attribute values
+ *
+ * @example
+ * escapeXml('Tom & Jerry <3')
+ * // Returns: "Tom &amp; Jerry &lt;3"
+ */
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+}